@@ -1,18 +1,29 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { supabase } from "@/src/lib/supabaseClient";
-import type { TaskRow, TaskData, TaskFilters, FilterPreset, AgendaUIState, Meta, BankAccount, ForecastLine, Label } from "@/src/lib/types";
-import { DEFAULT_FILTERS, DEFAULT_UI_STATE } from "@/src/lib/types";
-import { 
-  fetchTasks, fetchMetas, fetchBankAccounts, fetchForecastLines, fetchLabels,
-  createTask, updateTask, deleteTask, restoreTask, createMeta, updateMeta, deleteMetaAndTasks,
-  updateMetaOrder, updateMetaIsActive, filterTasks, sortTasksByHierarchy 
-} from "@/src/lib/tasks";
-import { loadUIState, saveUIState, savePreset, deletePreset } from "@/src/lib/localStorage";
+import type { TaskData, TaskRow, TaskFilters, FilterPreset, AgendaUIState, AgendaView, Meta, Label, TaskTemplate } from "@/src/lib/types";
+import { DEFAULT_UI_STATE, DEFAULT_FILTERS } from "@/src/lib/types";
+import { fetchLabels, mergeTaskUpdate, toTaskRows, filterTasks, sortTasksByHierarchy, generateTaskId } from "@/src/lib/tasks";
+import { expandOccurrences } from "@/src/lib/recurrence";
+import type { TaskQueryContext } from "@/src/lib/taskQuery";
+import { parseFocusHash } from "@/src/lib/search";
+import { buildTaskTemplate, buildMetaBlueprint, buildMetaFromTemplate, instantiateTemplate } from "@/src/lib/templates";
+import { useSync } from "@/src/sync";
+import { loadUIState, saveUIState, mergeUIState, hasStoredUIState } from "@/src/lib/localStorage";
 import AgendaSidebar from "@/src/components/AgendaSidebar";
 import TaskDiagramTree from "@/src/components/TaskDiagramTree";
+import TaskCalendarView from "@/src/components/TaskCalendarView";
+import TaskTable from "@/src/components/TaskTable";
 import MetaModal from "@/src/components/MetaModal";
+import { TrashPanel } from "@/src/components/sync/TrashPanel";
+import CalendarFeedModal from "@/src/components/CalendarFeedModal";
+import IcsImportModal from "@/src/components/IcsImportModal";
+import SaveTemplateModal from "@/src/components/SaveTemplateModal";
+import TemplateLibraryModal, { type UseTemplateTarget } from "@/src/components/TemplateLibraryModal";
+
+// Espera antes de subir el estado de UI a la cuenta
+const UI_SYNC_DELAY_MS = 800;
 
 type SaveMetaInput = {
   title: string;
@@ -29,25 +40,98 @@ export default function AgendaPage() {
     authenticated: false,
   });
 
-  // Data
-  const [tasks, setTasks] = useState<TaskRow[]>([]);
-  const [metas, setMetas] = useState<Meta[]>([]);
-  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
-  const [forecastLines, setForecastLines] = useState<ForecastLine[]>([]);
+  // Data (store de sync: optimista, offline y compartido entre pestañas)
+  const {
+    tasks: storeTasks,
+    metas: storeMetas,
+    bankAccounts,
+    incomeForecastLines: forecastLines,
+    setTask,
+    deleteTask: removeTask,
+    setMeta,
+    deleteMeta: removeMeta,
+    taskTemplates,
+    setTaskTemplate,
+    deleteTaskTemplate,
+    uiSettings,
+    setUISettings,
+    isLoaded,
+    lastSyncAt,
+    historyGroup,
+  } = useSync();
   const [labels, setLabels] = useState<Label[]>([]);
-  const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const loadingData = !isLoaded;
+
+  const tasks = useMemo(() => toTaskRows(storeTasks), [storeTasks]);
+  const metas = useMemo(
+    () => [...storeMetas].sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity)),
+    [storeMetas]
+  );
+
+  // UI State: manda el sincronizado (user_settings); localStorage es la caché
+  // de este navegador para el primer pintado, mientras no haya row remoto y
+  // mientras haya un cambio pendiente de subir
+  const [localUIState, setLocalUIState] = useState<AgendaUIState>(DEFAULT_UI_STATE);
+  const [uiSyncPending, setUISyncPending] = useState(false);
+  const uiState = useMemo(
+    () => (uiSettings?.agenda && !uiSyncPending ? mergeUIState(uiSettings.agenda) : localUIState),
+    [uiSettings, uiSyncPending, localUIState]
+  );
 
-  // UI State
-  const [uiState, setUIState] = useState<AgendaUIState>(DEFAULT_UI_STATE);
+  // La subida a la cuenta va con debounce: el buscador cambia activeFilters en cada tecla
+  const uiSyncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingUIState = useRef<AgendaUIState | null>(null);
+
+  const flushUIState = useCallback(() => {
+    if (uiSyncTimer.current) clearTimeout(uiSyncTimer.current);
+    uiSyncTimer.current = null;
+    if (!pendingUIState.current) return;
+    setUISettings({ agenda: pendingUIState.current });
+    pendingUIState.current = null;
+    setUISyncPending(false);
+  }, [setUISettings]);
+
+  const commitUIState = useCallback((next: AgendaUIState) => {
+    setLocalUIState(next);
+    saveUIState(next);
+    pendingUIState.current = next;
+    setUISyncPending(true);
+    if (uiSyncTimer.current) clearTimeout(uiSyncTimer.current);
+    uiSyncTimer.current = setTimeout(flushUIState, UI_SYNC_DELAY_MS);
+  }, [flushUIState]);
+
+  // Lo pendiente se sube al salir de la página
+  useEffect(() => flushUIState, [flushUIState]);
 
   // Meta Modal
   const [metaModalOpen, setMetaModalOpen] = useState(false);
   const [metaToEdit, setMetaToEdit] = useState<Meta | null>(null);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const closeTrash = useCallback(() => setTrashOpen(false), []);
+  const [calendarFeedOpen, setCalendarFeedOpen] = useState(false);
+  const closeCalendarFeed = useCallback(() => setCalendarFeedOpen(false), []);
+  const [icsImportOpen, setIcsImportOpen] = useState(false);
+  const closeIcsImport = useCallback(() => setIcsImportOpen(false), []);
+
+  // Plantillas: borrador pendiente de nombre y biblioteca (con la meta desde la que se abrió)
+  const [templateDraft, setTemplateDraft] = useState<TaskTemplate | null>(null);
+  const closeTemplateDraft = useCallback(() => setTemplateDraft(null), []);
+  const [templatesFor, setTemplatesFor] = useState<{ metaId: string | null } | null>(null);
+  const closeTemplates = useCallback(() => setTemplatesFor(null), []);
+
+  // Tarea/meta a enfocar en el diagrama (búsqueda global, #focus=...)
+  const [focusRequest, setFocusRequest] = useState<{ kind: "task" | "meta"; id: string; nonce: number } | null>(null);
 
   // Sidebar espera solo {id, title}
   const metasForSidebar = useMemo(() => metas.map(m => ({ id: m.id, title: m.title })), [metas]);
 
+  // Nombres que resuelve y autocompleta la consulta del buscador
+  const queryContext = useMemo<TaskQueryContext>(
+    () => ({ metas: metasForSidebar, bankAccounts, forecastLines, labels }),
+    [metasForSidebar, bankAccounts, forecastLines, labels]
+  );
+
   // Auth check
   useEffect(() => {
     (async () => {
@@ -63,117 +147,109 @@ export default function AgendaPage() {
   // Load UI state
   useEffect(() => {
     if (typeof window !== "undefined") {
-      setUIState(loadUIState());
+      setLocalUIState(loadUIState());
     }
   }, []);
 
-  // Load all data
+  // Primer uso con sync: si tras el pull no hay ajustes en la cuenta, se suben
+  // los de este navegador (solo tras el pull, para no pisar los de otro navegador)
   useEffect(() => {
-    if (!authState.authenticated) return;
-
-    const loadData = async () => {
-      setLoadingData(true);
-      setError(null);
-
-      const [tasksRes, metasRes, accountsRes, forecastRes, labelsRes] = await Promise.all([
-        fetchTasks(),
-        fetchMetas(),
-        fetchBankAccounts(),
-        fetchForecastLines(),
-        fetchLabels(),
-      ]);
-
-      if (tasksRes.error) {
-        setError(tasksRes.error);
-      } else {
-        setTasks(tasksRes.data || []);
-      }
-
-      setMetas(metasRes.data || []);
-      setBankAccounts(accountsRes.data || []);
-      setForecastLines(forecastRes.data || []);
-      setLabels(labelsRes.data || []);
+    if (!isLoaded || !lastSyncAt || uiSettings?.agenda || !hasStoredUIState()) return;
+    setUISettings({ agenda: loadUIState() });
+  }, [isLoaded, lastSyncAt, uiSettings, setUISettings]);
 
-      setLoadingData(false);
-    };
+  // Mantener la caché local al día con los cambios que llegan de otros navegadores
+  useEffect(() => {
+    if (uiSettings?.agenda && !uiSyncPending) saveUIState(mergeUIState(uiSettings.agenda));
+  }, [uiSettings, uiSyncPending]);
 
-    loadData();
+  // Labels (app_settings no pasa por el store de sync)
+  useEffect(() => {
+    if (!authState.authenticated) return;
+    fetchLabels().then((res) => setLabels(res.data || []));
   }, [authState.authenticated]);
 
   // ========== FILTERS ==========
 
   const handleFiltersChange = useCallback((filters: TaskFilters) => {
-    const newState = { ...uiState, activeFilters: filters };
-    setUIState(newState);
-    saveUIState(newState);
-  }, [uiState]);
+    commitUIState({ ...uiState, activeFilters: filters });
+  }, [uiState, commitUIState]);
 
   const handleSavePreset = useCallback((preset: FilterPreset) => {
-    setUIState(savePreset(preset));
-  }, []);
+    const exists = uiState.presets.some((p) => p.id === preset.id);
+    const presets = exists
+      ? uiState.presets.map((p) => (p.id === preset.id ? preset : p))
+      : [...uiState.presets, preset];
+    commitUIState({ ...uiState, presets });
+  }, [uiState, commitUIState]);
 
   const handleDeletePreset = useCallback((presetId: string) => {
-    setUIState(deletePreset(presetId));
-  }, []);
+    commitUIState({ ...uiState, presets: uiState.presets.filter((p) => p.id !== presetId) });
+  }, [uiState, commitUIState]);
 
   const handleApplyPreset = useCallback((preset: FilterPreset) => {
-    const newState = { ...uiState, activeFilters: preset.filters };
-    setUIState(newState);
-    saveUIState(newState);
-  }, [uiState]);
+    commitUIState({ ...uiState, activeFilters: preset.filters });
+  }, [uiState, commitUIState]);
 
   const handleToggleSidebar = useCallback(() => {
-    const newState = { ...uiState, sidebarCollapsed: !uiState.sidebarCollapsed };
-    setUIState(newState);
-    saveUIState(newState);
-  }, [uiState]);
+    commitUIState({ ...uiState, sidebarCollapsed: !uiState.sidebarCollapsed });
+  }, [uiState, commitUIState]);
+
+  const handleViewChange = useCallback((view: AgendaView) => {
+    commitUIState({ ...uiState, view });
+  }, [uiState, commitUIState]);
+
+  const handleColumnsChange = useCallback((layout: Pick<AgendaUIState, "columnWidths" | "columnOrder">) => {
+    commitUIState({ ...uiState, ...layout });
+  }, [uiState, commitUIState]);
 
   // ========== TASK HANDLERS ==========
 
   const handleCreateTask = useCallback(async (taskData: TaskData): Promise<{ success: boolean; error?: string }> => {
-    const result = await createTask(taskData);
-    if (result.error) {
-      return { success: false, error: result.error };
-    }
-    if (result.data) {
-      setTasks(prev => [...prev, result.data!]);
-    }
+    setTask({ ...taskData, createdAt: taskData.createdAt || new Date().toISOString() });
     return { success: true };
-  }, []);
+  }, [setTask]);
 
   const handleUpdateTask = useCallback(async (id: string, taskData: Partial<TaskData>): Promise<{ success: boolean; error?: string }> => {
-    const result = await updateTask(id, taskData);
-    if (result.error) {
-      return { success: false, error: result.error };
-    }
-    if (result.data) {
-      setTasks(prev => prev.map(t => t.data.id === id ? result.data! : t));
+    const existing = storeTasks.find(t => t.id === id);
+    if (!existing) {
+      return { success: false, error: "Tarea no encontrada" };
     }
+    setTask(mergeTaskUpdate(existing, taskData));
     return { success: true };
-  }, []);
+  }, [storeTasks, setTask]);
 
   const handleDeleteTask = useCallback(async (id: string): Promise<{ success: boolean; error?: string }> => {
-    const result = await deleteTask(id);
-    if (result.error) {
-      return { success: false, error: result.error };
-    }
-    // Eliminar de UI tras éxito en Supabase
-    setTasks(prev => prev.filter(t => t.data.id !== id));
+    removeTask(id);
     return { success: true };
-  }, []);
-
-  const handleRestoreTask = useCallback(async (id: string): Promise<{ success: boolean; error?: string }> => {
-    const result = await restoreTask(id);
-    if (result.error) {
-      return { success: false, error: result.error };
-    }
-    // Recargar tareas para obtener la restaurada
-    const tasksRes = await fetchTasks();
-    if (tasksRes.data) {
-      setTasks(tasksRes.data);
-    }
-    return { success: true };
-  }, []);
+  }, [removeTask]);
+
+  // Duplicar (Ctrl+D en la tabla): copia sin estado de la instancia, al final de sus hermanas
+  const handleDuplicateTask = useCallback((task: TaskRow) => {
+    const src = task.data;
+    const siblingOrders = storeTasks
+      .filter((t) => t.metaId === src.metaId && (t.parentId ?? null) === (src.parentId ?? null))
+      .map((t) => t.order ?? 0);
+    const now = new Date().toISOString();
+    setTask({
+      ...src,
+      id: generateTaskId(),
+      title: `${src.title || "Sin nombre"} (copia)`,
+      order: siblingOrders.length > 0 ? Math.max(...siblingOrders) + 1 : 0,
+      isCompleted: false,
+      movementId: null,
+      extra: { ...src.extra, completedDates: undefined, movementIdsByDate: undefined, icsUid: undefined },
+      createdAt: now,
+      updatedAt: now,
+    });
+  }, [storeTasks, setTask]);
+
+  // Importación .ics: tareas nuevas o actualizadas (ya con extra.icsUid)
+  const handleImportTasks = useCallback((importedTasks: TaskData[]) => {
+    historyGroup("Importar calendario", () => {
+      for (const task of importedTasks) setTask(task);
+    });
+  }, [setTask, historyGroup]);
 
   // ========== META MODAL ==========
 
@@ -189,95 +265,142 @@ export default function AgendaPage() {
 
   const handleSaveMeta = useCallback(async (input: SaveMetaInput): Promise<{ success: boolean; error?: string }> => {
     if (metaToEdit) {
-      const result = await updateMeta(metaToEdit.id, input);
-      if (result.error) {
-        return { success: false, error: result.error };
-      }
-      if (result.data) {
-        setMetas(prev => prev.map(m => m.id === metaToEdit.id ? result.data! : m));
+      const existing = storeMetas.find(m => m.id === metaToEdit.id);
+      if (!existing) {
+        return { success: false, error: "Meta no encontrada" };
       }
+      // Preservar campos que no vienen en input (order, isActive, createdAt)
+      setMeta({
+        ...existing,
+        title: input.title,
+        description: input.description,
+        targetDate: input.targetDate,
+        metaType: input.metaType,
+        horizon: input.horizon,
+      });
     } else {
-      const result = await createMeta(input);
-      if (result.error) {
-        return { success: false, error: result.error };
-      }
-      if (result.data) {
-        setMetas(prev => [...prev, result.data!]);
-      }
+      setMeta({
+        id: crypto.randomUUID(),
+        title: input.title,
+        description: input.description,
+        targetDate: input.targetDate,
+        metaType: input.metaType,
+        horizon: input.horizon,
+        isActive: true, // Nueva meta siempre activa
+        createdAt: new Date().toISOString(),
+      });
     }
     return { success: true };
-  }, [metaToEdit]);
+  }, [metaToEdit, storeMetas, setMeta]);
 
   const handleDeleteMeta = useCallback(async (metaId: string): Promise<{ success: boolean; error?: string }> => {
-    const result = await deleteMetaAndTasks(metaId);
-    if (!result.success) {
-      return { success: false, error: result.error };
-    }
-    // Eliminar de UI tras éxito en Supabase
-    setMetas(prev => prev.filter(m => m.id !== metaId));
-    setTasks(prev => prev.filter(t => t.data.metaId !== metaId));
+    // Borrar TODAS las tareas de la meta y después la meta (se deshace todo junto)
+    historyGroup("Eliminar meta", () => {
+      for (const task of storeTasks) {
+        if (task.metaId === metaId) removeTask(task.id);
+      }
+      removeMeta(metaId);
+    });
     return { success: true };
+  }, [storeTasks, removeTask, removeMeta, historyGroup]);
+
+  // ========== TEMPLATES ==========
+
+  const handleSaveTaskTemplate = useCallback((taskId: string) => {
+    const root = storeTasks.find((t) => t.id === taskId);
+    setTemplateDraft(buildTaskTemplate(root?.title || "Plantilla", storeTasks, taskId));
+  }, [storeTasks]);
+
+  const handleSaveMetaBlueprint = useCallback((meta: Meta) => {
+    setTemplateDraft(buildMetaBlueprint(meta.title, meta, storeTasks));
+  }, [storeTasks]);
+
+  const handleInsertTemplate = useCallback((metaId: string) => {
+    setTemplatesFor({ metaId });
   }, []);
 
+  // Crea la meta si hace falta y las tareas (se deshace todo junto) y enfoca la meta
+  const handleUseTemplate = useCallback((template: TaskTemplate, target: UseTemplateTarget) => {
+    const metaId = historyGroup(`Usar plantilla "${template.name}"`, () => {
+      let metaId = target.metaId;
+      if (!metaId) {
+        const meta = buildMetaFromTemplate(template, target.startDate);
+        setMeta({ ...meta, createdAt: new Date().toISOString() });
+        metaId = meta.id;
+      }
+      const created = instantiateTemplate(template, { startDate: target.startDate, metaId, existingTasks: storeTasks });
+      for (const task of created) setTask(task);
+      return metaId;
+    });
+    if (uiState.view !== "tree") commitUIState({ ...uiState, view: "tree" });
+    setFocusRequest({ kind: "meta", id: metaId, nonce: Date.now() });
+  }, [storeTasks, setTask, setMeta, historyGroup, uiState, commitUIState]);
+
   // ========== TOGGLE META ACTIVE ==========
 
   const handleToggleMetaActive = useCallback(async (metaId: string, isActive: boolean): Promise<{ success: boolean; error?: string }> => {
-    // Guardar estado previo para rollback
-    const prevMetas = [...metas];
-
-    // Actualización optimista: actualizar UI inmediatamente
-    setMetas(prev => prev.map(m => m.id === metaId ? { ...m, isActive } : m));
-
-    // Persistir en Supabase
-    const result = await updateMetaIsActive(metaId, isActive);
-    
-    if (!result.success) {
-      // Rollback
-      setMetas(prevMetas);
-      setError(`Error al ${isActive ? "activar" : "pausar"} meta: ${result.error}`);
+    const existing = storeMetas.find(m => m.id === metaId);
+    if (!existing) {
+      setError(`Error al ${isActive ? "activar" : "pausar"} meta: Meta no encontrada`);
       setTimeout(() => setError(null), 3000);
-      return { success: false, error: result.error };
+      return { success: false, error: "Meta no encontrada" };
     }
-
+    setMeta({ ...existing, isActive });
     return { success: true };
-  }, [metas]);
+  }, [storeMetas, setMeta]);
 
   // ========== REORDER METAS (Drag & Drop) ==========
 
   const handleReorderMetas = useCallback(async (reorderedMetas: Meta[]) => {
-    // Guardar estado previo para rollback
-    const prevMetas = [...metas];
-
-    // Actualización optimista: actualizar UI inmediatamente
-    setMetas(reorderedMetas);
-
-    // Persistir en Supabase
-    try {
-      const updatePromises = reorderedMetas.map(m => 
-        updateMetaOrder(m.id, m.order ?? 0)
-      );
-      const results = await Promise.all(updatePromises);
-      
-      // Verificar si hubo errores
-      const failedUpdate = results.find(r => !r.success);
-      if (failedUpdate) {
-        // Rollback
-        setMetas(prevMetas);
-        setError(`Error al reordenar metas: ${failedUpdate.error}`);
-        setTimeout(() => setError(null), 3000);
+    // Solo se encolan las metas cuyo order cambió
+    historyGroup("Reordenar metas", () => {
+      for (const meta of reorderedMetas) {
+        const existing = storeMetas.find(m => m.id === meta.id);
+        if (existing && existing.order !== meta.order) {
+          setMeta({ ...existing, order: meta.order ?? 0 });
+        }
       }
-    } catch (err) {
-      // Rollback en caso de error
-      setMetas(prevMetas);
-      setError("Error al reordenar metas");
-      setTimeout(() => setError(null), 3000);
-    }
-  }, [metas]);
+    });
+  }, [storeMetas, setMeta, historyGroup]);
 
   // ========== FILTER & SORT ==========
 
-  const filteredTasks = filterTasks(tasks, uiState.activeFilters);
+  const filteredTasks = useMemo(
+    () => filterTasks(tasks, uiState.activeFilters, queryContext),
+    [tasks, uiState.activeFilters, queryContext]
+  );
+
+  // Enfocar lo pedido por la búsqueda global: vista de árbol y, si los filtros
+  // ocultan la tarea, se limpian
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handleHash = () => {
+      const focus = parseFocusHash(window.location.hash);
+      if (!focus || (focus.kind !== "task" && focus.kind !== "meta")) return;
+      history.replaceState(null, "", window.location.pathname + window.location.search);
+
+      let next = uiState.view === "tree" ? uiState : { ...uiState, view: "tree" as const };
+      if (focus.kind === "task" && !filteredTasks.some((t) => t.data.id === focus.id)) {
+        next = { ...next, activeFilters: DEFAULT_FILTERS };
+      }
+      if (next !== uiState) commitUIState(next);
+      setFocusRequest({ kind: focus.kind, id: focus.id, nonce: Date.now() });
+    };
+    const timer = setTimeout(handleHash, 0); // hash con el que se abrió la página
+    window.addEventListener("hashchange", handleHash);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("hashchange", handleHash);
+    };
+  }, [isLoaded, uiState, filteredTasks, commitUIState]);
   const sortedTasks = sortTasksByHierarchy(filteredTasks);
+  const isCalendarView = uiState.view !== "tree" && uiState.view !== "table";
+
+  // Ocurrencias en el rango de fechas (las tareas repetidas cuentan una vez por fecha)
+  const { dateFrom, dateTo } = uiState.activeFilters;
+  const rangeOccurrences = dateFrom && dateTo
+    ? expandOccurrences(filteredTasks.map((t) => t.data), dateFrom, dateTo).filter((o) => !o.isSkipped)
+    : null;
 
   // ========== RENDER ==========
 
@@ -306,11 +429,58 @@ export default function AgendaPage() {
           <span className="text-[10px] text-slate-400 hidden sm:block">
             Enter: guardar · Tab: siguiente · Ctrl+D: duplicar
           </span>
+          <button
+            type="button"
+            onClick={() => setTemplatesFor({ metaId: null })}
+            className="text-xs text-slate-500 hover:text-slate-700"
+          >
+            Plantillas
+          </button>
+          <button
+            type="button"
+            onClick={() => setIcsImportOpen(true)}
+            className="text-xs text-slate-500 hover:text-slate-700"
+          >
+            Importar .ics
+          </button>
+          <button
+            type="button"
+            onClick={() => setCalendarFeedOpen(true)}
+            className="text-xs text-slate-500 hover:text-slate-700"
+          >
+            Suscribir (.ics)
+          </button>
+          <button
+            type="button"
+            onClick={() => setTrashOpen(true)}
+            className="text-xs text-slate-500 hover:text-slate-700"
+          >
+            Papelera
+          </button>
           <a href="/account" className="text-xs text-slate-500 hover:text-slate-700">
             Mi cuenta
           </a>
         </div>
       </header>
+      <TrashPanel open={trashOpen} onClose={closeTrash} />
+      <CalendarFeedModal open={calendarFeedOpen} onClose={closeCalendarFeed} />
+      <IcsImportModal
+        open={icsImportOpen}
+        onClose={closeIcsImport}
+        tasks={storeTasks}
+        metas={metas}
+        onImport={handleImportTasks}
+      />
+      <SaveTemplateModal draft={templateDraft} onClose={closeTemplateDraft} onSave={setTaskTemplate} />
+      <TemplateLibraryModal
+        open={templatesFor !== null}
+        onClose={closeTemplates}
+        templates={taskTemplates}
+        metas={metas}
+        defaultMetaId={templatesFor?.metaId}
+        onUse={handleUseTemplate}
+        onDelete={deleteTaskTemplate}
+      />
 
       {/* Main */}
       <div className="flex-1 flex overflow-hidden">
@@ -323,6 +493,7 @@ export default function AgendaPage() {
           onDeletePreset={handleDeletePreset}
           onApplyPreset={handleApplyPreset}
           metas={metasForSidebar}
+          queryContext={queryContext}
           collapsed={uiState.sidebarCollapsed}
           onToggleCollapse={handleToggleSidebar}
         />
@@ -342,9 +513,38 @@ export default function AgendaPage() {
                   {filteredTasks.length !== tasks.length && (
                     <span className="text-slate-400"> (de {tasks.length})</span>
                   )}
+                  {rangeOccurrences && (
+                    <span className="text-slate-400">
+                      {" "}· {rangeOccurrences.length} ocurrencia{rangeOccurrences.length !== 1 ? "s" : ""}
+                      {" "}({rangeOccurrences.filter((o) => o.isCompleted).length} hechas)
+                    </span>
+                  )}
                 </>
               )}
             </div>
+            <div className="flex items-center gap-2 text-[11px]">
+              <button
+                type="button"
+                onClick={() => handleViewChange("tree")}
+                className={uiState.view === "tree" ? "text-slate-700 font-medium" : "text-slate-400 hover:text-slate-600"}
+              >
+                Árbol
+              </button>
+              <button
+                type="button"
+                onClick={() => handleViewChange("table")}
+                className={uiState.view === "table" ? "text-slate-700 font-medium" : "text-slate-400 hover:text-slate-600"}
+              >
+                Tabla
+              </button>
+              <button
+                type="button"
+                onClick={() => handleViewChange(isCalendarView ? uiState.view : "week")}
+                className={isCalendarView ? "text-slate-700 font-medium" : "text-slate-400 hover:text-slate-600"}
+              >
+                Calendario
+              </button>
+            </div>
           </div>
 
           {/* Table */}
@@ -364,6 +564,29 @@ export default function AgendaPage() {
                 </button>
               </div>
             </div>
+          ) : uiState.view === "table" ? (
+            <TaskTable
+              tasks={sortedTasks}
+              metas={metas}
+              bankAccounts={bankAccounts}
+              forecastLines={forecastLines}
+              labels={labels}
+              onCreateTask={handleCreateTask}
+              onUpdateTask={handleUpdateTask}
+              onDeleteTask={handleDeleteTask}
+              onDuplicateTask={handleDuplicateTask}
+              onOpenMetaModal={handleOpenMetaModal}
+              columnWidths={uiState.columnWidths}
+              columnOrder={uiState.columnOrder}
+              onColumnsChange={handleColumnsChange}
+            />
+          ) : uiState.view !== "tree" ? (
+            <TaskCalendarView
+              tasks={sortedTasks}
+              mode={uiState.view}
+              onModeChange={handleViewChange}
+              onUpdateTask={handleUpdateTask}
+            />
           ) : (
             <TaskDiagramTree
               tasks={sortedTasks}
@@ -374,10 +597,13 @@ export default function AgendaPage() {
               onCreateTask={handleCreateTask}
               onUpdateTask={handleUpdateTask}
               onDeleteTask={handleDeleteTask}
-              onRestoreTask={handleRestoreTask}
               onOpenMetaModal={handleOpenMetaModal}
               onReorderMetas={handleReorderMetas}
               onToggleMetaActive={handleToggleMetaActive}
+              focusRequest={focusRequest}
+              onSaveTaskTemplate={handleSaveTaskTemplate}
+              onSaveMetaBlueprint={handleSaveMetaBlueprint}
+              onInsertTemplate={handleInsertTemplate}
             />
           )}
         </div>
@@ -0,0 +1,80 @@
+// app/api/calendar/[token]/route.ts
+// Feed iCalendar de las tareas: /api/calendar/<token>.ics (sin sesión, por token revocable)
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { hydrateTaskFromDb } from "@/src/sync/normalizeTask";
+import { buildCalendarFeed, CALENDAR_FEED_SETTINGS_ID } from "@/src/lib/ics";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Formato de los tokens generados en calendarFeed.ts
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+// PostgREST corta cada respuesta en 1000 rows: se lee por páginas
+const TASKS_PAGE_SIZE = 1000;
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const url = process.env.SUPABASE_URL;
+    const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !serviceRole) {
+      return NextResponse.json({ ok: false, error: "Server misconfigured." }, { status: 500 });
+    }
+
+    const { token: rawToken } = await params;
+    const token = rawToken.replace(/\.ics$/, "");
+    if (!TOKEN_PATTERN.test(token)) {
+      return NextResponse.json({ ok: false, error: "Feed no encontrado." }, { status: 404 });
+    }
+
+    // Service role: bypass RLS. El token es la única credencial del feed.
+    const supabaseAdmin = createClient(url, serviceRole, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from("app_settings")
+      .select("user_id")
+      .eq("id", CALENDAR_FEED_SETTINGS_ID)
+      .eq("data->>token", token)
+      .maybeSingle();
+
+    if (feedError) {
+      return NextResponse.json({ ok: false, error: feedError.message }, { status: 500 });
+    }
+    if (!feed) {
+      return NextResponse.json({ ok: false, error: "Feed no encontrado." }, { status: 404 });
+    }
+
+    const rows: { data: Record<string, unknown> | null }[] = [];
+    for (let offset = 0; ; offset += TASKS_PAGE_SIZE) {
+      const { data: page, error } = await supabaseAdmin
+        .from("tasks")
+        .select("data")
+        .eq("user_id", feed.user_id)
+        .is("deleted_at", null)
+        .order("id", { ascending: true })
+        .range(offset, offset + TASKS_PAGE_SIZE - 1);
+
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
+      rows.push(...(page || []));
+      if (!page || page.length < TASKS_PAGE_SIZE) break;
+    }
+
+    const tasks = rows.map((row) => hydrateTaskFromDb(row.data || {}));
+    return new NextResponse(buildCalendarFeed(tasks), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="ingravital.ics"',
+        "Cache-Control": "no-store, no-cache, must-revalidate",
+      },
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
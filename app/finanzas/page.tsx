@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback, useRef, Fragment, useMemo } from "rea
 import { supabase } from "@/src/lib/supabaseClient";
 import { EditForecastAnualModal } from "@/src/components/finance/modals/EditForecastAnualModal";
 import { BankAccountModal } from "@/src/components/finance/modals/BankAccountModal";
+import { TrashPanel } from "@/src/components/sync/TrashPanel";
 import {
   formatNumberES,
   formatEUR,
@@ -24,518 +25,56 @@ import {
   type ForecastMonthState,
   type FinanceMovement,
 } from "@/src/lib/finance/financeData";
-import { normalizeBankAccountForDbWeb, normalizeForecastSourceForDbWeb } from "@/src/lib/finance/normalize";
+import { useSync } from "@/src/sync";
+import { parseFocusHash } from "@/src/lib/search";
 
-// ==================== DATA FETCHING ====================
+// ==================== STORE SELECTORS ====================
 
-async function fetchBankAccountsFull(): Promise<{ data: BankAccountFull[]; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { data: [], error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("bank_accounts")
-    .select("id, data, deleted_at, client_updated_at, server_updated_at")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null);
-
-  if (error) {
-    console.warn("bank_accounts fetch error:", error.message);
-    return { data: [], error: null };
-  }
-
-  const accounts: BankAccountFull[] = (data || []).map((row: { id: string; data: Record<string, unknown> }) => {
-    const type = row.data?.type as "PERSONAL" | "SOCIEDAD" | undefined;
-    if (process.env.NODE_ENV !== "production") {
-      console.debug("[bank_accounts] load row.type", row.id, type);
-    }
-    return {
-      id: row.id,
-      name: (row.data?.name as string) || (row.data?.title as string) || row.id,
-      type,
-      balance: typeof row.data?.balance === "number" ? row.data.balance : 0,
-      order: typeof row.data?.order === "number" ? row.data.order : 0,
-      createdAt: row.data?.createdAt as string | undefined,
-      updatedAt: row.data?.updatedAt as string | undefined,
-    };
-  });
-
-  // Ordenar por order asc (sin order al final)
-  accounts.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
-
-  return { data: accounts, error: null };
+// Ordenar por order asc (sin order al final)
+function sortBankAccounts(accounts: BankAccountFull[]): BankAccountFull[] {
+  return [...accounts].sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
 }
 
-async function fetchForecastLinesFull(): Promise<{ data: ForecastLineFull[]; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { data: [], error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("income_forecast_lines")
-    .select("id, data")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null);
-
-  if (error) {
-    console.warn("income_forecast_lines fetch error:", error.message);
-    return { data: [], error: null };
-  }
-
-  const lines: ForecastLineFull[] = (data || []).map((row: { id: string; data: Record<string, unknown> }) => ({
-    id: row.id,
-    name: (row.data?.name as string) || (row.data?.title as string) || row.id,
-    type: ((row.data?.type as string) === "GASTO" ? "GASTO" : "INGRESO") as "INGRESO" | "GASTO",
-    parentId: (row.data?.parentId as string) || null,
-    months: (row.data?.months as ForecastMonths) || undefined,
-    enabledTypes: (row.data?.enabledTypes as { INGRESO?: boolean; GASTO?: boolean }) || undefined,
-    order: typeof row.data?.order === "number" ? row.data.order : undefined,
-  }));
-
-  // Ordenar: roots por order, luego children por order dentro de su parent
-  lines.sort((a, b) => {
+// Ordenar: roots por order, luego children por order dentro de su parent
+function sortForecastLines(lines: ForecastLineFull[]): ForecastLineFull[] {
+  return [...lines].sort((a, b) => {
     // Primero agrupar por parentId (nulls primero)
     if (a.parentId === null && b.parentId !== null) return -1;
     if (a.parentId !== null && b.parentId === null) return 1;
     // Luego por order
     return (a.order ?? Infinity) - (b.order ?? Infinity);
   });
-
-  return { data: lines, error: null };
 }
 
-// Upsert forecast line
-async function upsertForecastLine(line: ForecastLineFull): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  const dataPayload = normalizeForecastSourceForDbWeb({
-    ...line,
-    updatedAt: now,
-  } as any);
-
-  const { error } = await supabase.from("income_forecast_lines").upsert(
-    {
-      id: line.id,
-      user_id: userData.user.id,
-      data: dataPayload,
-      client_updated_at: now,
-      deleted_at: null,
-    },
-    { onConflict: "id" }
-  );
-
-  if (error) {
-    console.warn("upsertForecastLine error:", error.message);
-    return { error: error.message };
-  }
-
-  return { error: null };
+// Solo movimientos de ingreso/gasto, más recientes primero
+function selectMovements(movements: Array<FinanceMovement & { updatedAt?: string }>): FinanceMovement[] {
+  return movements
+    .filter((m) => m.type === "INGRESO" || m.type === "GASTO")
+    .sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
 }
 
-// Soft delete forecast line
-async function deleteForecastLine(lineId: string): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-
-  const { error } = await supabase
-    .from("income_forecast_lines")
-    .update({ deleted_at: now, client_updated_at: now })
-    .eq("id", lineId)
-    .eq("user_id", userData.user.id);
-
-  if (error) {
-    console.warn("deleteForecastLine error:", error.message);
-    return { error: error.message };
-  }
-
-  return { error: null };
-}
-
-// Soft delete bank account
-async function deleteBankAccount(accountId: string): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-
-  const { error } = await supabase
-    .from("bank_accounts")
-    .update({ deleted_at: now, client_updated_at: now })
-    .eq("id", accountId)
-    .eq("user_id", userData.user.id);
-
-  if (error) {
-    console.warn("deleteBankAccount error:", error.message);
-    return { error: error.message };
-  }
-
-  return { error: null };
-}
-
-async function fetchMovements(): Promise<{ data: FinanceMovement[]; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { data: [], error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("finance_movements")
-    .select("id, data, client_updated_at, deleted_at")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null)
-    .order("client_updated_at", { ascending: false })
-    .limit(200);
-
-  if (error) {
-    return { data: [], error: null };
-  }
-
-  const movements: FinanceMovement[] = (data || [])
-    .filter((row: { data: Record<string, unknown> }) => row.data?.type === "INGRESO" || row.data?.type === "GASTO")
-    .map((row: { id: string; data: Record<string, unknown> }) => {
-      const d = row.data as Record<string, any>;
-      const amount =
-        typeof d.amount === "number"
-          ? d.amount
-          : typeof d.amountEUR === "number"
-          ? d.amountEUR
-          : typeof d.extra?.amountEUR === "number"
-          ? d.extra.amountEUR
-          : 0;
-      const forecastId = d.forecastId ?? d.linkedPredictionId ?? d.predictionId ?? undefined;
-      const dateRaw = d.date ?? d.day ?? d.createdAt ?? "";
-      const date = typeof dateRaw === "string" && dateRaw.length >= 10 ? dateRaw.slice(0, 10) : new Date().toISOString().slice(0, 10);
-      const concept = d.concept ?? d.title ?? "Sin concepto";
-      const type = typeof d.type === "string" ? d.type.toUpperCase() : d.type;
-
-      return {
-        id: row.id,
-        date,
-        concept,
-        amount,
-        type: type as "INGRESO" | "GASTO",
-        accountId: d.accountId as string | undefined,
-        forecastId: forecastId ? String(forecastId) : undefined,
-        note: d.description as string | undefined,
-      };
-    });
-
-  if (process.env.NODE_ENV !== "production") {
-    console.debug("[finance_movements] loaded", movements.length, movements.slice(0, 5));
-    const sample = movements.find((m) => m.forecastId);
-    console.debug("[finance_movements] example forecastId", sample?.forecastId);
-  }
-
-  return { data: movements, error: null };
-}
-
-// ==================== UPDATE/CREATE FUNCTIONS ====================
-
-async function updateBankAccountBalance(id: string, newBalance: number): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const { data: current, error: fetchError } = await supabase
-    .from("bank_accounts")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { error: fetchError?.message || "Cuenta no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existingData = current.data as Record<string, unknown>;
-
-  const normalized = normalizeBankAccountForDbWeb({
-    ...(existingData as Record<string, unknown>),
-    id,
-    balance: newBalance,
-    createdAt: existingData.createdAt as string | undefined,
-  });
-
-  const { error } = await supabase
-    .from("bank_accounts")
-    .update({
-      data: normalized,
-      client_updated_at: now,
-      deleted_at: null,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
-}
-
-async function updateBankAccountName(id: string, newName: string): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const { data: current, error: fetchError } = await supabase
-    .from("bank_accounts")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { error: fetchError?.message || "Cuenta no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existingData = current.data as Record<string, unknown>;
-
-  const normalized = normalizeBankAccountForDbWeb({
-    ...(existingData as Record<string, unknown>),
-    id,
-    name: newName,
-    createdAt: existingData.createdAt as string | undefined,
-  });
-
-  const { error } = await supabase
-    .from("bank_accounts")
-    .update({
-      data: normalized,
-      client_updated_at: now,
-      deleted_at: null,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
-}
-
-// Persist order for bank accounts
-async function persistBankAccountsOrder(accounts: BankAccountFull[]): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  const userId = userData.user.id;
-
-  for (const acc of accounts) {
-    if (acc.order === undefined) continue;
-    
-    const { data: current, error: fetchError } = await supabase
-      .from("bank_accounts")
-      .select("data")
-      .eq("id", acc.id)
-      .eq("user_id", userId)
-      .single();
-
-    if (fetchError || !current) continue;
-
-    const existingData = current.data as Record<string, unknown>;
-    const normalized = normalizeBankAccountForDbWeb({
-      ...(existingData as Record<string, unknown>),
-      id: acc.id,
-      order: acc.order,
-      createdAt: existingData.createdAt as string | undefined,
-    });
-
-    const { error } = await supabase
-      .from("bank_accounts")
-      .update({
-        data: normalized,
-        client_updated_at: now,
-      })
-      .eq("id", acc.id)
-      .eq("user_id", userId);
-
-    if (error) {
-      console.warn("persistBankAccountsOrder error:", error.message);
-      return { error: error.message };
-    }
-  }
-
-  return { error: null };
-}
-
-// Persist order for forecast lines
-async function persistForecastLinesOrder(updates: Array<{ id: string; order: number }>): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  const userId = userData.user.id;
-
-  for (const upd of updates) {
-    const { data: current, error: fetchError } = await supabase
-      .from("income_forecast_lines")
-      .select("data")
-      .eq("id", upd.id)
-      .eq("user_id", userId)
-      .single();
-
-    if (fetchError || !current) continue;
-
-    const existingData = current.data as Record<string, unknown>;
-    const normalized = normalizeForecastSourceForDbWeb({
-      ...(existingData as Record<string, unknown>),
-      id: upd.id,
-      order: upd.order,
-      createdAt: existingData.createdAt as string | undefined,
-    } as any);
-
-    const { error } = await supabase
-      .from("income_forecast_lines")
-      .update({
-        data: normalized,
-        client_updated_at: now,
-      })
-      .eq("id", upd.id)
-      .eq("user_id", userId);
-
-    if (error) {
-      console.warn("persistForecastLinesOrder error:", error.message);
-      return { error: error.message };
-    }
-  }
-
-  return { error: null };
-}
-
-async function updateForecastMonthPrev(
-  id: string,
-  monthId: string,
-  type: "INGRESO" | "GASTO",
-  newPrev: number
-): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const { data: current, error: fetchError } = await supabase
-    .from("income_forecast_lines")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { error: fetchError?.message || "Previsión no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existingData = current.data as Record<string, unknown>;
-  const existingMonths = (existingData.months as ForecastMonths) || {};
-  const existingMonth = existingMonths[monthId] || {};
-
-  // Construir nextMonth con estructura modelo nuevo
-  // Preservar el otro tipo si existe
-  const nextMonth: ForecastMonthState = {
-    ...existingMonth,
-    [type]: {
-      ...(existingMonth[type] || {}),
-      expected: newPrev,
-    },
-  };
-
-  const updatedMonths: ForecastMonths = {
-    ...existingMonths,
-    [monthId]: nextMonth,
-  };
-
-  const normalized = normalizeForecastSourceForDbWeb({
-    ...(existingData as Record<string, unknown>),
-    id,
-    months: updatedMonths,
-    createdAt: existingData.createdAt as string | undefined,
-  } as any);
-
-  const { error } = await supabase
-    .from("income_forecast_lines")
-    .update({
-      data: normalized,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
-}
-
-async function updateForecastMonthBase(
-  id: string,
+// Devuelve la línea con un valor (expected/base) cambiado en un mes y tipo,
+// preservando el otro tipo si existe
+function withForecastMonthValue(
+  line: ForecastLineFull,
   monthId: string,
   type: "INGRESO" | "GASTO",
-  newBase: number
-): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const { data: current, error: fetchError } = await supabase
-    .from("income_forecast_lines")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { error: fetchError?.message || "Previsión no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existingData = current.data as Record<string, unknown>;
-  const existingMonths = (existingData.months as ForecastMonths) || {};
-  const existingMonth = existingMonths[monthId] || {};
-
-  // Construir nextMonth con estructura modelo nuevo
+  field: "expected" | "base",
+  value: number
+): ForecastLineFull {
+  const existingMonth: ForecastMonthState = line.months?.[monthId] || {};
   const nextMonth: ForecastMonthState = {
     ...existingMonth,
     [type]: {
       ...(existingMonth[type] || {}),
-      base: newBase,
+      [field]: value,
     },
   };
-
   const updatedMonths: ForecastMonths = {
-    ...existingMonths,
+    ...(line.months || {}),
     [monthId]: nextMonth,
   };
-
-  const normalized = normalizeForecastSourceForDbWeb({
-    ...(existingData as Record<string, unknown>),
-    id,
-    months: updatedMonths,
-    createdAt: existingData.createdAt as string | undefined,
-  } as any);
-
-  const { error } = await supabase
-    .from("income_forecast_lines")
-    .update({
-      data: normalized,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
+  return { ...line, months: updatedMonths };
 }
 
 // ==================== INLINE EDIT COMPONENT ====================
@@ -728,11 +267,24 @@ export default function FinanzasPage() {
     authenticated: false,
   });
 
-  // Data
-  const [bankAccounts, setBankAccounts] = useState<BankAccountFull[]>([]);
-  const [forecastLines, setForecastLines] = useState<ForecastLineFull[]>([]);
-  const [movements, setMovements] = useState<FinanceMovement[]>([]);
-  const [loadingData, setLoadingData] = useState(true);
+  // Data (store de sync: optimista, offline y compartido entre pestañas)
+  const {
+    bankAccounts: storeBankAccounts,
+    incomeForecastLines: storeForecastLines,
+    financeMovements: storeMovements,
+    setBankAccount,
+    deleteBankAccount: removeBankAccount,
+    setForecastLine,
+    deleteForecastLine: removeForecastLine,
+    isLoaded,
+    historyGroup,
+  } = useSync();
+  const bankAccounts = useMemo(() => sortBankAccounts(storeBankAccounts), [storeBankAccounts]);
+  const forecastLines = useMemo(() => sortForecastLines(storeForecastLines), [storeForecastLines]);
+  const movements = useMemo(() => selectMovements(storeMovements), [storeMovements]);
+  const loadingData = !isLoaded;
+  const [trashOpen, setTrashOpen] = useState(false);
+  const closeTrash = useCallback(() => setTrashOpen(false), []);
 
   // ==================== DRAG & DROP STATE (Bank Accounts) ====================
   const BANK_DRAG_THRESHOLD = 8;
@@ -758,6 +310,10 @@ export default function FinanzasPage() {
   const [selectedMonthId, setSelectedMonthId] = useState(getCurrentMonthId());
   const [showAllMovements, setShowAllMovements] = useState(false);
 
+  // Item enfocado desde la búsqueda global (#focus=...): se resalta unos segundos
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const movementRowRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+
   // Bank Account Modal State (unified create/edit)
   const [isBankAccountModalOpen, setIsBankAccountModalOpen] = useState(false);
   const [bankAccountModalMode, setBankAccountModalMode] = useState<"create" | "edit">("create");
@@ -835,31 +391,41 @@ export default function FinanzasPage() {
     })();
   }, []);
 
-  // Load data
-  useEffect(() => {
-    if (!authState.authenticated) return;
-
-    const loadData = async () => {
-      setLoadingData(true);
-      const [accountsRes, forecastRes, movementsRes] = await Promise.all([
-        fetchBankAccountsFull(),
-        fetchForecastLinesFull(),
-        fetchMovements(),
-      ]);
-
-      setBankAccounts(accountsRes.data);
-      setForecastLines(forecastRes.data);
-      setMovements(movementsRes.data);
-      setLoadingData(false);
-    };
-
-    loadData();
-  }, [authState.authenticated]);
-
   if (process.env.NODE_ENV !== "production") {
     console.debug("[RENDER]", { movementsLen: movements.length, selectedMonthId });
   }
 
+  // Enfocar cuenta / fuente / movimiento pedido por la búsqueda global
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handleHash = () => {
+      const focus = parseFocusHash(window.location.hash);
+      if (!focus || (focus.kind !== "account" && focus.kind !== "forecast" && focus.kind !== "movement")) return;
+      history.replaceState(null, "", window.location.pathname + window.location.search);
+      // Que la fila no quede oculta por los filtros de la tabla o el "Mostrar más"
+      if (focus.kind === "forecast") setSelectedLeafIdsMain([]);
+      if (focus.kind === "movement" && movements.findIndex((m) => m.id === focus.id) >= 10) setShowAllMovements(true);
+      setFocusedId(focus.id);
+    };
+    const timer = setTimeout(handleHash, 0); // hash con el que se abrió la página
+    window.addEventListener("hashchange", handleHash);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("hashchange", handleHash);
+    };
+  }, [isLoaded, movements]);
+
+  useEffect(() => {
+    if (!focusedId) return;
+    const el =
+      bankCardRefs.current.get(focusedId) ??
+      forecastRowRefs.current.get(focusedId) ??
+      movementRowRefs.current.get(focusedId);
+    el?.scrollIntoView({ block: "center", behavior: "smooth" });
+    const timer = setTimeout(() => setFocusedId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedId]);
+
   // Escape key to close forecast editor modal
   useEffect(() => {
     if (!isForecastEditorOpen) return;
@@ -999,76 +565,43 @@ export default function FinanzasPage() {
   // ==================== HANDLERS ====================
 
   const handleSaveAccountBalance = useCallback(async (accountId: string, newBalance: number) => {
-    const result = await updateBankAccountBalance(accountId, newBalance);
-    if (!result.error) {
-      setBankAccounts((prev) =>
-        prev.map((acc) => (acc.id === accountId ? { ...acc, balance: newBalance } : acc))
-      );
-    }
-    return result;
-  }, []);
+    const account = storeBankAccounts.find((acc) => acc.id === accountId);
+    if (!account) return { error: "Cuenta no encontrada" };
+    setBankAccount({ ...account, balance: newBalance });
+    return { error: null };
+  }, [storeBankAccounts, setBankAccount]);
 
   const handleSaveAccountName = useCallback(async (accountId: string, newName: string) => {
-    const result = await updateBankAccountName(accountId, newName);
-    if (!result.error) {
-      setBankAccounts((prev) =>
-        prev.map((acc) => (acc.id === accountId ? { ...acc, name: newName } : acc))
-      );
-    }
-    return result;
-  }, []);
+    const account = storeBankAccounts.find((acc) => acc.id === accountId);
+    if (!account) return { error: "Cuenta no encontrada" };
+    setBankAccount({ ...account, name: newName });
+    return { error: null };
+  }, [storeBankAccounts, setBankAccount]);
+
+  // Guarda expected/base de una línea en un mes concreto
+  const saveForecastMonthValue = useCallback(
+    (forecastId: string, monthId: string, type: "INGRESO" | "GASTO", field: "expected" | "base", value: number) => {
+      const line = storeForecastLines.find((fl) => fl.id === forecastId);
+      if (!line) return { error: "Previsión no encontrada" };
+      setForecastLine(withForecastMonthValue(line, monthId, type, field, value));
+      return { error: null };
+    },
+    [storeForecastLines, setForecastLine]
+  );
+
+  // Upsert de línea preservando lo guardado que el formulario no conoce (createdAt...)
+  const upsertForecastLine = useCallback((line: ForecastLineFull) => {
+    const existing = storeForecastLines.find((fl) => fl.id === line.id);
+    setForecastLine({ ...existing, ...line });
+  }, [storeForecastLines, setForecastLine]);
 
   const handleSaveForecastPrev = useCallback(async (forecastId: string, type: "INGRESO" | "GASTO", newPrev: number) => {
-    const result = await updateForecastMonthPrev(forecastId, selectedMonthId, type, newPrev);
-    if (!result.error) {
-      setForecastLines((prev) =>
-        prev.map((fl) =>
-          fl.id === forecastId
-            ? {
-                ...fl,
-                months: {
-                  ...(fl.months || {}),
-                  [selectedMonthId]: {
-                    ...(fl.months?.[selectedMonthId] || {}),
-                    [type]: {
-                      ...(fl.months?.[selectedMonthId]?.[type] || {}),
-                      expected: newPrev,
-                    },
-                  },
-                },
-              }
-            : fl
-        )
-      );
-    }
-    return result;
-  }, [selectedMonthId]);
+    return saveForecastMonthValue(forecastId, selectedMonthId, type, "expected", newPrev);
+  }, [selectedMonthId, saveForecastMonthValue]);
 
   const handleSaveForecastReal = useCallback(async (forecastId: string, type: "INGRESO" | "GASTO", newBase: number) => {
-    const result = await updateForecastMonthBase(forecastId, selectedMonthId, type, newBase);
-    if (!result.error) {
-      setForecastLines((prev) =>
-        prev.map((fl) =>
-          fl.id === forecastId
-            ? {
-                ...fl,
-                months: {
-                  ...(fl.months || {}),
-                  [selectedMonthId]: {
-                    ...(fl.months?.[selectedMonthId] || {}),
-                    [type]: {
-                      ...(fl.months?.[selectedMonthId]?.[type] || {}),
-                      base: newBase,
-                    },
-                  },
-                },
-              }
-            : fl
-        )
-      );
-    }
-    return result;
-  }, [selectedMonthId]);
+    return saveForecastMonthValue(forecastId, selectedMonthId, type, "base", newBase);
+  }, [selectedMonthId, saveForecastMonthValue]);
 
   const openBankAccountModal = useCallback((mode: "create" | "edit", accountId?: string) => {
     setBankAccountModalMode(mode);
@@ -1086,157 +619,56 @@ export default function FinanzasPage() {
   }, [bankAccounts]);
 
   const createBankAccount = useCallback(async (draft: { name: string; type: "PERSONAL" | "SOCIEDAD"; balance: number }): Promise<{ data?: BankAccountFull; error?: string | null }> => {
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData?.user) {
-      return { error: "No autenticado" };
-    }
-
-    const now = new Date().toISOString();
-    const newId = generateId();
-
-    const accountData = normalizeBankAccountForDbWeb({
-      id: newId,
+    const newAccount = {
+      id: generateId(),
       name: draft.name,
       type: draft.type,
       balance: draft.balance,
-      createdAt: now,
-    });
-
-    const { data, error } = await supabase
-      .from("bank_accounts")
-      .insert({
-        id: newId,
-        user_id: userData.user.id,
-        data: accountData,
-        client_updated_at: now,
-        deleted_at: null,
-      })
-      .select("id, data")
-      .single();
-
-    if (error) {
-      return { error: error.message };
-    }
-
-    const row = data as { id: string; data: Record<string, unknown> };
-    const newAccount: BankAccountFull = {
-      id: row.id,
-      name: (row.data?.name as string) || draft.name,
-      type: (row.data?.type as "PERSONAL" | "SOCIEDAD") || draft.type,
-      balance: typeof row.data?.balance === "number" ? row.data.balance : draft.balance,
+      createdAt: new Date().toISOString(),
     };
-
+    setBankAccount(newAccount);
     return { data: newAccount, error: null };
-  }, []);
+  }, [setBankAccount]);
 
   const updateBankAccount = useCallback(async (id: string, patch: { name: string; type: "PERSONAL" | "SOCIEDAD"; balance: number }): Promise<{ error?: string | null }> => {
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData?.user) {
-      return { error: "No autenticado" };
+    const account = storeBankAccounts.find((acc) => acc.id === id);
+    if (!account) {
+      return { error: "Cuenta no encontrada" };
     }
-
-    const { data: current, error: fetchError } = await supabase
-      .from("bank_accounts")
-      .select("data")
-      .eq("id", id)
-      .eq("user_id", userData.user.id)
-      .single();
-
-    if (fetchError || !current) {
-      return { error: fetchError?.message || "Cuenta no encontrada" };
-    }
-
-    const now = new Date().toISOString();
-    const existingData = current.data as Record<string, unknown>;
-
-    const nextData = normalizeBankAccountForDbWeb({
-      ...(existingData as Record<string, unknown>),
-      id,
-      name: patch.name,
-      type: patch.type,
-      balance: patch.balance,
-      createdAt: existingData.createdAt as string | undefined,
-    });
-    if (process.env.NODE_ENV !== "production") {
-      console.debug("[bank_accounts] update type", id, nextData.type);
-    }
-
-    const { error: updateError } = await supabase
-      .from("bank_accounts")
-      .update({
-        data: nextData,
-        client_updated_at: now,
-        deleted_at: null,
-      })
-      .eq("id", id)
-      .eq("user_id", userData.user.id);
-
-    if (updateError) {
-      return { error: updateError.message };
-    }
-
+    setBankAccount({ ...account, name: patch.name, type: patch.type, balance: patch.balance });
     return { error: null };
-  }, []);
-
-  const handleAccountCreated = useCallback((account: BankAccountFull) => {
-    setBankAccounts((prev) => [account, ...prev]);
-  }, []);
-
-  const handleAccountUpdated = useCallback((account: BankAccountFull) => {
-    setBankAccounts((prev) =>
-      prev.map((acc) => (acc.id === account.id ? account : acc))
-    );
-  }, []);
-
-  const handleAccountDeleted = useCallback((accountId: string) => {
-    setBankAccounts((prev) => prev.filter((acc) => acc.id !== accountId));
-  }, []);
+  }, [storeBankAccounts, setBankAccount]);
 
   const handleDeleteAccount = useCallback(async (accountId: string) => {
-    const result = await deleteBankAccount(accountId);
-    return result;
-  }, []);
+    removeBankAccount(accountId);
+    return { error: null };
+  }, [removeBankAccount]);
 
   // ==================== REORDER HANDLERS ====================
 
   const handleReorderBankAccounts = useCallback(async (reorderedAccounts: BankAccountFull[]) => {
-    const prevAccounts = [...bankAccounts];
-    setBankAccounts(reorderedAccounts);
-    
-    const result = await persistBankAccountsOrder(reorderedAccounts);
-    if (result.error) {
-      console.warn("Reorder bank accounts failed, reverting:", result.error);
-      setBankAccounts(prevAccounts);
-    }
-  }, [bankAccounts]);
+    // Solo se encolan las cuentas cuyo order cambió
+    historyGroup("Reordenar cuentas", () => {
+      for (const acc of reorderedAccounts) {
+        if (acc.order === undefined) continue;
+        const existing = storeBankAccounts.find((a) => a.id === acc.id);
+        if (existing && existing.order !== acc.order) {
+          setBankAccount({ ...existing, order: acc.order });
+        }
+      }
+    });
+  }, [storeBankAccounts, setBankAccount, historyGroup]);
 
   const handleReorderForecastLines = useCallback(async (updates: Array<{ id: string; order: number }>) => {
-    const prevLines = [...forecastLines];
-    
-    // Actualizar local
-    setForecastLines(prev => {
-      const next = [...prev];
+    historyGroup("Reordenar previsiones", () => {
       for (const upd of updates) {
-        const idx = next.findIndex(l => l.id === upd.id);
-        if (idx !== -1) {
-          next[idx] = { ...next[idx], order: upd.order };
+        const existing = storeForecastLines.find((l) => l.id === upd.id);
+        if (existing && existing.order !== upd.order) {
+          setForecastLine({ ...existing, order: upd.order });
         }
       }
-      // Re-ordenar
-      next.sort((a, b) => {
-        if (a.parentId === null && b.parentId !== null) return -1;
-        if (a.parentId !== null && b.parentId === null) return 1;
-        return (a.order ?? Infinity) - (b.order ?? Infinity);
-      });
-      return next;
     });
-    
-    const result = await persistForecastLinesOrder(updates);
-    if (result.error) {
-      console.warn("Reorder forecast lines failed, reverting:", result.error);
-      setForecastLines(prevLines);
-    }
-  }, [forecastLines]);
+  }, [storeForecastLines, setForecastLine, historyGroup]);
 
   const prevMonth = () => setSelectedMonthId(addMonths(selectedMonthId, -1));
   const nextMonth = () => setSelectedMonthId(addMonths(selectedMonthId, 1));
@@ -1443,98 +875,47 @@ export default function FinanzasPage() {
     setSourceError(null);
 
     try {
-      const trimmedName = sourceName.trim() || "Nueva fuente";
-
-      if (sourceIsGroup) {
-        // Group mode: need at least 1 child
-        if (sourceChildren.length === 0) {
-          setSourceError("Añade al menos una subcategoría");
-          setSourceSaving(false);
-          return;
-        }
-
-        // Validate each child has at least one type enabled
-        for (const child of sourceChildren) {
-          if (!child.typeForms.INGRESO.enabled && !child.typeForms.GASTO.enabled) {
-            setSourceError(`La subcategoría "${child.name || "Sin nombre"}" debe tener al menos un tipo activado`);
+      // Padre, hijos y borrados se deshacen juntos
+      const saved = historyGroup("Guardar fuente", () => {
+        const trimmedName = sourceName.trim() || "Nueva fuente";
+
+        if (sourceIsGroup) {
+          // Group mode: need at least 1 child
+          if (sourceChildren.length === 0) {
+            setSourceError("Añade al menos una subcategoría");
             setSourceSaving(false);
             return;
           }
-        }
 
-        // Create/update parent (container)
-        const parentId = sourceEditId || generateLocalId();
-        const parentLine: ForecastLineFull = {
-          id: parentId,
-          name: trimmedName,
-          type: "INGRESO",
-          parentId: null,
-          enabledTypes: { INGRESO: false, GASTO: false },
-          months: {},
-        };
-
-        const parentResult = await upsertForecastLine(parentLine);
-        if (parentResult.error) {
-          setSourceError(parentResult.error);
-          setSourceSaving(false);
-          return;
-        }
-
-        // Create/update children
-        for (const child of sourceChildren) {
-          const parseNum = (s: string) => parseEURInput(s) ?? 0;
-          const childLine: ForecastLineFull = {
-            id: child.id,
-            name: child.name.trim() || `Subcategoría`,
-            type: child.typeForms.INGRESO.enabled ? "INGRESO" : "GASTO",
-            parentId: parentId,
-            enabledTypes: {
-              INGRESO: child.typeForms.INGRESO.enabled,
-              GASTO: child.typeForms.GASTO.enabled,
-            },
-            months: {
-              [selectedMonthId]: {
-                INGRESO: {
-                  base: parseNum(child.typeForms.INGRESO.base),
-                  expected: parseNum(child.typeForms.INGRESO.expected),
-                },
-                GASTO: {
-                  base: parseNum(child.typeForms.GASTO.base),
-                  expected: parseNum(child.typeForms.GASTO.expected),
-                },
-              },
-            },
-          };
-          const childResult = await upsertForecastLine(childLine);
-          if (childResult.error) {
-            setSourceError(childResult.error);
-            setSourceSaving(false);
-            return;
+          // Validate each child has at least one type enabled
+          for (const child of sourceChildren) {
+            if (!child.typeForms.INGRESO.enabled && !child.typeForms.GASTO.enabled) {
+              setSourceError(`La subcategoría "${child.name || "Sin nombre"}" debe tener al menos un tipo activado`);
+              setSourceSaving(false);
+              return;
+            }
           }
-        }
 
-        // Delete removed children
-        for (const removedId of sourceRemovedChildIds) {
-          await deleteForecastLine(removedId);
-        }
+          // Create/update parent (container)
+          const parentId = sourceEditId || generateLocalId();
+          const parentLine: ForecastLineFull = {
+            id: parentId,
+            name: trimmedName,
+            type: "INGRESO",
+            parentId: null,
+            enabledTypes: { INGRESO: false, GASTO: false },
+            months: {},
+          };
 
-        // If was a non-group before, delete old line's children (shouldn't happen, but safe)
-        if (sourceModalMode === "edit" && sourceEditId) {
-          const oldChildren = forecastLines.filter((fl) => fl.parentId === sourceEditId && !sourceChildren.some((c) => c.id === fl.id));
-          for (const oldChild of oldChildren) {
-            await deleteForecastLine(oldChild.id);
-          }
-        }
+          upsertForecastLine(parentLine);
 
-        // Update local state
-        setForecastLines((prev) => {
-          let updated = prev.filter((fl) => fl.id !== parentId && !sourceChildren.some((c) => c.id === fl.id) && !sourceRemovedChildIds.includes(fl.id));
-          updated = [...updated, parentLine, ...sourceChildren.map((child) => {
+          // Create/update children
+          for (const child of sourceChildren) {
             const parseNum = (s: string) => parseEURInput(s) ?? 0;
-            return {
+            const childLine: ForecastLineFull = {
               id: child.id,
               name: child.name.trim() || `Subcategoría`,
-              type: (child.typeForms.INGRESO.enabled ? "INGRESO" : "GASTO") as "INGRESO" | "GASTO",
+              type: child.typeForms.INGRESO.enabled ? "INGRESO" : "GASTO",
               parentId: parentId,
               enabledTypes: {
                 INGRESO: child.typeForms.INGRESO.enabled,
@@ -1553,79 +934,79 @@ export default function FinanzasPage() {
                 },
               },
             };
-          })];
-          return updated;
-        });
-
-      } else {
-        // Single line mode (either a root line or a child/subfuente)
-        if (!sourceTypeForms.INGRESO.enabled && !sourceTypeForms.GASTO.enabled) {
-          setSourceError("Activa al menos un tipo (Ingreso o Gasto)");
-          setSourceSaving(false);
-          return;
-        }
+            upsertForecastLine(childLine);
+          }
 
-        // Protection: if editing a child but originalParentId is missing, abort
-        if (sourceIsChild && !sourceOriginalParentId) {
-          setSourceError("Error interno: subfuente sin padre");
-          setSourceSaving(false);
-          return;
-        }
+          // Delete removed children
+          for (const removedId of sourceRemovedChildIds) {
+            removeForecastLine(removedId);
+          }
 
-        const parseNum = (s: string) => parseEURInput(s) ?? 0;
-        const lineId = sourceEditId || generateLocalId();
+          // If was a non-group before, delete old line's children (shouldn't happen, but safe)
+          if (sourceModalMode === "edit" && sourceEditId) {
+            const oldChildren = forecastLines.filter((fl) => fl.parentId === sourceEditId && !sourceChildren.some((c) => c.id === fl.id));
+            for (const oldChild of oldChildren) {
+              removeForecastLine(oldChild.id);
+            }
+          }
 
-        // CRITICAL: preserve parentId for child lines (subfuentes)
-        const finalParentId = sourceIsChild ? sourceOriginalParentId : null;
+        } else {
+          // Single line mode (either a root line or a child/subfuente)
+          if (!sourceTypeForms.INGRESO.enabled && !sourceTypeForms.GASTO.enabled) {
+            setSourceError("Activa al menos un tipo (Ingreso o Gasto)");
+            setSourceSaving(false);
+            return;
+          }
 
-        const line: ForecastLineFull = {
-          id: lineId,
-          name: trimmedName,
-          type: sourceTypeForms.INGRESO.enabled ? "INGRESO" : "GASTO",
-          parentId: finalParentId,
-          enabledTypes: {
-            INGRESO: sourceTypeForms.INGRESO.enabled,
-            GASTO: sourceTypeForms.GASTO.enabled,
-          },
-          months: {
-            [selectedMonthId]: {
-              INGRESO: {
-                base: parseNum(sourceTypeForms.INGRESO.base),
-                expected: parseNum(sourceTypeForms.INGRESO.expected),
-              },
-              GASTO: {
-                base: parseNum(sourceTypeForms.GASTO.base),
-                expected: parseNum(sourceTypeForms.GASTO.expected),
+          // Protection: if editing a child but originalParentId is missing, abort
+          if (sourceIsChild && !sourceOriginalParentId) {
+            setSourceError("Error interno: subfuente sin padre");
+            setSourceSaving(false);
+            return;
+          }
+
+          const parseNum = (s: string) => parseEURInput(s) ?? 0;
+          const lineId = sourceEditId || generateLocalId();
+
+          // CRITICAL: preserve parentId for child lines (subfuentes)
+          const finalParentId = sourceIsChild ? sourceOriginalParentId : null;
+
+          const line: ForecastLineFull = {
+            id: lineId,
+            name: trimmedName,
+            type: sourceTypeForms.INGRESO.enabled ? "INGRESO" : "GASTO",
+            parentId: finalParentId,
+            enabledTypes: {
+              INGRESO: sourceTypeForms.INGRESO.enabled,
+              GASTO: sourceTypeForms.GASTO.enabled,
+            },
+            months: {
+              [selectedMonthId]: {
+                INGRESO: {
+                  base: parseNum(sourceTypeForms.INGRESO.base),
+                  expected: parseNum(sourceTypeForms.INGRESO.expected),
+                },
+                GASTO: {
+                  base: parseNum(sourceTypeForms.GASTO.base),
+                  expected: parseNum(sourceTypeForms.GASTO.expected),
+                },
               },
             },
-          },
-        };
-
-        const result = await upsertForecastLine(line);
-        if (result.error) {
-          setSourceError(result.error);
-          setSourceSaving(false);
-          return;
-        }
+          };
 
-        // If was a group before (and not a child), delete old children
-        if (sourceModalMode === "edit" && sourceEditId && !sourceIsChild) {
-          const oldChildren = forecastLines.filter((fl) => fl.parentId === sourceEditId);
-          for (const oldChild of oldChildren) {
-            await deleteForecastLine(oldChild.id);
-          }
-        }
+          upsertForecastLine(line);
 
-        // Update local state
-        setForecastLines((prev) => {
-          let updated = prev.filter((fl) => fl.id !== lineId);
-          // Remove old children if was group (and not a child)
+          // If was a group before (and not a child), delete old children
           if (sourceModalMode === "edit" && sourceEditId && !sourceIsChild) {
-            updated = updated.filter((fl) => fl.parentId !== sourceEditId);
+            const oldChildren = forecastLines.filter((fl) => fl.parentId === sourceEditId);
+            for (const oldChild of oldChildren) {
+              removeForecastLine(oldChild.id);
+            }
           }
-          return [...updated, line];
-        });
-      }
+        }
+        return true;
+      });
+      if (!saved) return;
 
       setIsSourceModalOpen(false);
     } catch (err) {
@@ -1633,41 +1014,35 @@ export default function FinanzasPage() {
     } finally {
       setSourceSaving(false);
     }
-  }, [sourceName, sourceIsGroup, sourceIsChild, sourceOriginalParentId, sourceChildren, sourceTypeForms, sourceEditId, sourceModalMode, selectedMonthId, forecastLines, sourceRemovedChildIds]);
+  }, [sourceName, sourceIsGroup, sourceIsChild, sourceOriginalParentId, sourceChildren, sourceTypeForms, sourceEditId, sourceModalMode, selectedMonthId, forecastLines, sourceRemovedChildIds, upsertForecastLine, removeForecastLine, historyGroup]);
 
   const handleDeleteSource = useCallback(async () => {
     if (!sourceEditId) return;
 
-    const confirmed = window.confirm("¿Eliminar esta fuente? Esta acción no se puede deshacer.");
+    const confirmed = window.confirm("¿Eliminar esta fuente?");
     if (!confirmed) return;
 
     setSourceSaving(true);
     setSourceError(null);
 
     try {
-      // Delete children first (if group)
-      const children = forecastLines.filter((fl) => fl.parentId === sourceEditId);
-      for (const child of children) {
-        await deleteForecastLine(child.id);
-      }
-
-      // Delete main line
-      const result = await deleteForecastLine(sourceEditId);
-      if (result.error) {
-        setSourceError(result.error);
-        setSourceSaving(false);
-        return;
-      }
+      historyGroup("Eliminar fuente", () => {
+        // Delete children first (if group)
+        const children = forecastLines.filter((fl) => fl.parentId === sourceEditId);
+        for (const child of children) {
+          removeForecastLine(child.id);
+        }
 
-      // Update local state
-      setForecastLines((prev) => prev.filter((fl) => fl.id !== sourceEditId && fl.parentId !== sourceEditId));
+        // Delete main line
+        removeForecastLine(sourceEditId);
+      });
       setIsSourceModalOpen(false);
     } catch (err) {
       setSourceError(err instanceof Error ? err.message : "Error al eliminar");
     } finally {
       setSourceSaving(false);
     }
-  }, [sourceEditId, forecastLines]);
+  }, [sourceEditId, forecastLines, removeForecastLine, historyGroup]);
 
   // Handle request close (backdrop click or ESC): save if dirty, else just close
   const handleRequestCloseSource = useCallback(async () => {
@@ -1706,20 +1081,20 @@ export default function FinanzasPage() {
   }, [forecastLines]);
 
   const handleSaveForecastAnual = useCallback(async (line: ForecastLineFull) => {
-    const result = await upsertForecastLine(line);
-    if (!result.error) {
-      setForecastLines((prev) => prev.map((fl) => (fl.id === line.id ? line : fl)));
-    }
-    return result;
-  }, []);
+    upsertForecastLine(line);
+    return { error: null };
+  }, [upsertForecastLine]);
 
   const handleDeleteForecastAnual = useCallback(async (lineId: string) => {
-    const result = await deleteForecastLine(lineId);
-    if (!result.error) {
-      setForecastLines((prev) => prev.filter((fl) => fl.id !== lineId && fl.parentId !== lineId));
-    }
-    return result;
-  }, []);
+    // Los hijos se borran con el padre (y se restauran juntos al deshacer)
+    historyGroup("Eliminar previsión", () => {
+      for (const child of forecastLines.filter((fl) => fl.parentId === lineId)) {
+        removeForecastLine(child.id);
+      }
+      removeForecastLine(lineId);
+    });
+    return { error: null };
+  }, [forecastLines, removeForecastLine, historyGroup]);
 
   // ==================== RENDER ====================
 
@@ -1746,8 +1121,16 @@ export default function FinanzasPage() {
             <span className="text-slate-300">|</span>
             <h1 className="text-lg font-semibold text-slate-700">Finanzas</h1>
           </div>
+          <button
+            type="button"
+            onClick={() => setTrashOpen(true)}
+            className="ml-auto text-xs text-slate-500 hover:text-slate-700"
+          >
+            Papelera
+          </button>
         </div>
       </header>
+      <TrashPanel open={trashOpen} onClose={closeTrash} />
 
       <main className="max-w-[1400px] mx-auto w-full px-3 sm:px-6 pt-6 pb-10 space-y-8">
         {loadingData ? (
@@ -1882,7 +1265,7 @@ export default function FinanzasPage() {
                       className={`relative bg-white rounded-xl border border-slate-200 shadow-sm px-4 py-2 inline-flex select-none touch-none cursor-grab active:cursor-grabbing ${
                         isDragging ? "opacity-30" : ""
                       } ${
-                        isDropTarget ? "ring-2 ring-blue-400" : ""
+                        isDropTarget ? "ring-2 ring-blue-400" : focusedId === account.id ? "ring-2 ring-amber-400" : ""
                       }`}
                     >
                       {isDropTarget && bankInsertSide && (
@@ -2149,7 +1532,7 @@ export default function FinanzasPage() {
                             {/* Fila título de grupo - draggable para reordenar */}
                             <tr
                               ref={(el) => { if (el) forecastRowRefs.current.set(block.id, el); else forecastRowRefs.current.delete(block.id); }}
-                              className={`bg-slate-50/70 select-none ${isBlockDragging ? "opacity-30" : ""}`}
+                              className={`select-none ${focusedId === block.id ? "bg-amber-50" : "bg-slate-50/70"} ${isBlockDragging ? "opacity-30" : ""}`}
                               onPointerDown={(e) => {
                                 if ((e.target as HTMLElement).closest('[data-no-drag]')) return;
                                 (e.target as HTMLElement).setPointerCapture(e.pointerId);
@@ -2272,7 +1655,7 @@ export default function FinanzasPage() {
                                 <tr
                                   key={leaf.id}
                                   ref={(el) => { if (el) forecastRowRefs.current.set(leaf.id, el); else forecastRowRefs.current.delete(leaf.id); }}
-                                  className={`hover:bg-slate-50/50 border-b border-slate-100 select-none ${isLeafDragging ? "opacity-30" : ""}`}
+                                  className={`hover:bg-slate-50/50 border-b border-slate-100 select-none ${focusedId === leaf.id ? "bg-amber-50" : ""} ${isLeafDragging ? "opacity-30" : ""}`}
                                   onPointerDown={(e) => {
                                     if ((e.target as HTMLElement).closest('[data-no-drag]')) return;
                                     (e.target as HTMLElement).setPointerCapture(e.pointerId);
@@ -2564,7 +1947,11 @@ export default function FinanzasPage() {
                         const account = bankAccounts.find((a) => a.id === mov.accountId);
                         const forecast = forecastLines.find((f) => f.id === mov.forecastId);
                         return (
-                          <div key={mov.id} className="px-4 py-3 flex items-center justify-between">
+                          <div
+                            key={mov.id}
+                            ref={(el) => { if (el) movementRowRefs.current.set(mov.id, el); else movementRowRefs.current.delete(mov.id); }}
+                            className={`px-4 py-3 flex items-center justify-between transition-colors ${focusedId === mov.id ? "bg-amber-50" : ""}`}
+                          >
                             <div className="min-w-0">
                               <div className="flex items-center gap-2">
                                 <span className="text-slate-700">{mov.concept}</span>
@@ -2620,9 +2007,6 @@ export default function FinanzasPage() {
         mode={bankAccountModalMode}
         accountId={editingBankAccountId}
         onClose={closeBankAccountModal}
-        onCreated={handleAccountCreated}
-        onUpdated={handleAccountUpdated}
-        onDeleted={handleAccountDeleted}
         createAccount={createBankAccount}
         updateAccount={updateBankAccount}
         deleteAccount={handleDeleteAccount}
@@ -2922,16 +2306,7 @@ export default function FinanzasPage() {
                                           type="GASTO"
                                           value={prevGas}
                                           onSave={async (newVal) => {
-                                            const result = await updateForecastMonthPrev(leafId, monthId, "GASTO", newVal);
-                                            if (!result.error) {
-                                              setForecastLines((prev) =>
-                                                prev.map((fl) =>
-                                                  fl.id === leafId
-                                                    ? { ...fl, months: { ...(fl.months || {}), [monthId]: { ...(fl.months?.[monthId] || {}), GASTO: { ...(fl.months?.[monthId]?.GASTO || {}), expected: newVal } } } }
-                                                    : fl
-                                                )
-                                              );
-                                            }
+                                            saveForecastMonthValue(leafId, monthId, "GASTO", "expected", newVal);
                                           }}
                                         />
                                       </td>
@@ -2944,16 +2319,7 @@ export default function FinanzasPage() {
                                           type="INGRESO"
                                           value={prevIng}
                                           onSave={async (newVal) => {
-                                            const result = await updateForecastMonthPrev(leafId, monthId, "INGRESO", newVal);
-                                            if (!result.error) {
-                                              setForecastLines((prev) =>
-                                                prev.map((fl) =>
-                                                  fl.id === leafId
-                                                    ? { ...fl, months: { ...(fl.months || {}), [monthId]: { ...(fl.months?.[monthId] || {}), INGRESO: { ...(fl.months?.[monthId]?.INGRESO || {}), expected: newVal } } } }
-                                                    : fl
-                                                )
-                                              );
-                                            }
+                                            saveForecastMonthValue(leafId, monthId, "INGRESO", "expected", newVal);
                                           }}
                                         />
                                       </td>
@@ -0,0 +1,34 @@
+// Service worker de avisos (src/lib/reminders.ts).
+// Las notificaciones las crea la pestaña con registration.showNotification;
+// aquí solo se reenvían sus acciones (posponer / hecho) a la app.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const { taskId, originalDate } = event.notification.data || {};
+  const action = event.action;
+  event.notification.close();
+  if (!taskId || !originalDate) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      if (windows.length === 0) {
+        // Sin ventana abierta: la acción viaja en el hash de /agenda
+        const hash = new URLSearchParams({ reminder: action || "open", task: taskId, date: originalDate });
+        return self.clients.openWindow(`/agenda#${hash.toString()}`);
+      }
+      if (action === "snooze" || action === "done") {
+        // Todas las pestañas reciben el mensaje; lo aplica la líder de sync
+        windows.forEach((client) => client.postMessage({ type: "reminder-action", action, taskId, originalDate }));
+        return undefined;
+      }
+      return windows[0].focus();
+    })
+  );
+});
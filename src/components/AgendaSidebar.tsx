@@ -1,9 +1,10 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
 import type { TaskFilters, FilterPreset, TaskType, TaskStatus } from "@/src/lib/types";
 import { DEFAULT_FILTERS } from "@/src/lib/types";
 import { generatePresetId } from "@/src/lib/localStorage";
+import { parseTaskQuery, getQuerySuggestions, type TaskQueryContext, type QuerySuggestion } from "@/src/lib/taskQuery";
 
 interface Props {
   filters: TaskFilters;
@@ -13,6 +14,7 @@ interface Props {
   onDeletePreset: (presetId: string) => void;
   onApplyPreset: (preset: FilterPreset) => void;
   metas: { id: string; title: string }[];
+  queryContext: TaskQueryContext;
   collapsed: boolean;
   onToggleCollapse: () => void;
 }
@@ -23,6 +25,11 @@ const TASK_TYPES: { value: TaskType; label: string }[] = [
   { value: "GASTO", label: "Gasto" },
 ];
 
+const QUERY_HELP =
+  "Ej: scope:fisico label:correr amount>100 due:<today -is:done\n" +
+  "Campos: scope, type, label, meta, account, forecast, points, amount, due, is, has\n" +
+  "- niega un término; comillas para valores con espacios";
+
 const TASK_STATUSES: { value: TaskStatus; label: string }[] = [
   { value: "done", label: "Hecha" },
   { value: "pending", label: "Pendiente" },
@@ -36,11 +43,19 @@ export default function AgendaSidebar({
   onDeletePreset,
   onApplyPreset,
   metas,
+  queryContext,
   collapsed,
   onToggleCollapse,
 }: Props) {
   const [presetName, setPresetName] = useState("");
 
+  // Buscador: posición del cursor para autocompletar el término en edición
+  const queryInputRef = useRef<HTMLInputElement>(null);
+  const [queryCursor, setQueryCursor] = useState(0);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const query = filters.query ?? "";
+
   // ✅ DEFENSIVO: metaIds debe ser string[]; si por bug viene con objetos, los ignora para no crashear UI
   const metaIds = useMemo(() => {
     const raw = (filters as any)?.metaIds;
@@ -85,6 +100,58 @@ export default function AgendaSidebar({
     [filters, onFiltersChange]
   );
 
+  // ==================== BUSCADOR ====================
+
+  const queryErrors = useMemo(() => parseTaskQuery(query).errors, [query]);
+
+  const suggestions = useMemo(
+    () => (suggestionsOpen ? getQuerySuggestions(query, queryCursor, queryContext) : []),
+    [suggestionsOpen, query, queryCursor, queryContext]
+  );
+  const highlighted = Math.min(activeSuggestion, suggestions.length - 1);
+
+  const setQuery = useCallback(
+    (value: string, cursor: number) => {
+      onFiltersChange({ ...filters, query: value });
+      setQueryCursor(cursor);
+      setActiveSuggestion(0);
+      setSuggestionsOpen(true);
+    },
+    [filters, onFiltersChange]
+  );
+
+  const applySuggestion = useCallback(
+    (suggestion: QuerySuggestion) => {
+      const next = query.slice(0, suggestion.from) + suggestion.insert + query.slice(suggestion.to);
+      const cursor = suggestion.from + suggestion.insert.length;
+      setQuery(next, cursor);
+      requestAnimationFrame(() => {
+        queryInputRef.current?.focus();
+        queryInputRef.current?.setSelectionRange(cursor, cursor);
+      });
+    },
+    [query, setQuery]
+  );
+
+  const handleQueryKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Escape") {
+        setSuggestionsOpen(false);
+        return;
+      }
+      if (suggestions.length === 0) return;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveSuggestion((highlighted + step + suggestions.length) % suggestions.length);
+      } else if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        applySuggestion(suggestions[highlighted]);
+      }
+    },
+    [suggestions, highlighted, applySuggestion]
+  );
+
   const handleSavePreset = useCallback(() => {
     if (!presetName.trim()) return;
     // ✅ guarda tal cual (si quieres arreglar la raiz, hay que normalizar aqui/metaIds en agenda/page.tsx)
@@ -101,6 +168,7 @@ export default function AgendaSidebar({
   }, [onFiltersChange]);
 
   const hasActiveFilters =
+    !!query.trim() ||
     metaIds.length > 0 ||
     filters.types.length > 0 ||
     filters.statuses.length > 0 ||
@@ -140,6 +208,52 @@ export default function AgendaSidebar({
       </div>
 
       <div className="flex-1 overflow-y-auto px-2.5 py-2 space-y-3">
+        {/* Buscador */}
+        <section className="relative">
+          <input
+            ref={queryInputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+            onSelect={(e) => setQueryCursor(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setSuggestionsOpen(true)}
+            onBlur={() => setSuggestionsOpen(false)}
+            onKeyDown={handleQueryKeyDown}
+            placeholder="Buscar... (scope:fisico -is:done)"
+            title={QUERY_HELP}
+            spellCheck={false}
+            className={`w-full px-1.5 py-1 border rounded text-[11px] font-mono focus:outline-none focus:ring-1 ${
+              queryErrors.length > 0 ? "border-amber-400 focus:ring-amber-400" : "border-slate-200 focus:ring-blue-400"
+            }`}
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-0.5 z-20 bg-white border border-slate-200 rounded shadow-lg py-0.5">
+              {suggestions.map((suggestion, i) => (
+                <button
+                  key={`${suggestion.label}-${i}`}
+                  // mousedown: se aplica antes del blur del input
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                  onMouseEnter={() => setActiveSuggestion(i)}
+                  className={`w-full flex items-baseline gap-1.5 px-1.5 py-1 text-left ${
+                    i === highlighted ? "bg-blue-50 text-blue-700" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <span className="font-mono truncate">{suggestion.label}</span>
+                  {suggestion.detail && (
+                    <span className="text-[10px] text-slate-400 truncate">{suggestion.detail}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          {queryErrors.length > 0 && (
+            <p className="mt-0.5 text-[10px] text-amber-600">{queryErrors.join(" · ")}</p>
+          )}
+        </section>
+
         {/* Chips activos */}
         {hasActiveFilters && (
           <div className="flex flex-wrap gap-1">
@@ -204,6 +318,7 @@ export default function AgendaSidebar({
                 <div key={preset.id} className="flex items-center gap-0.5">
                   <button
                     onClick={() => onApplyPreset(preset)}
+                    title={preset.filters.query || undefined}
                     className="flex-1 text-left px-1.5 py-1 rounded hover:bg-slate-200 truncate"
                   >
                     {preset.name}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  fetchCalendarFeedToken,
+  rotateCalendarFeedToken,
+  revokeCalendarFeedToken,
+  getCalendarFeedUrl,
+} from "@/src/lib/calendarFeed";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Suscripción .ics: URL privada del feed de tareas para Google Calendar / Outlook.
+ */
+export default function CalendarFeedModal({ open, onClose }: Props) {
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  // Se monta en cada apertura: el token se vuelve a pedir al servidor
+  return <CalendarFeedContent onClose={onClose} />;
+}
+
+function CalendarFeedContent({ onClose }: { onClose: () => void }) {
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalendarFeedToken().then((result) => {
+      if (cancelled) return;
+      setToken(result.data);
+      setError(result.error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRotate = async () => {
+    if (token && !confirm("La URL actual dejará de funcionar en los calendarios suscritos. ¿Generar una nueva?")) {
+      return;
+    }
+    setBusy(true);
+    const result = await rotateCalendarFeedToken();
+    setBusy(false);
+    setError(result.error);
+    if (!result.error) {
+      setToken(result.data);
+      setCopied(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm("¿Desactivar el feed? Los calendarios suscritos dejarán de actualizarse.")) return;
+    setBusy(true);
+    const result = await revokeCalendarFeedToken();
+    setBusy(false);
+    setError(result.error);
+    if (!result.error) setToken(null);
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(getCalendarFeedUrl(token));
+    setCopied(true);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-lg rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Suscripción de calendario</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Añade esta URL en Google Calendar u Outlook (&quot;Desde URL&quot;) para ver tus tareas programadas y
+          repetidas, con sus avisos. Quien tenga la URL puede ver tus tareas: regénerala si se filtra.
+        </p>
+
+        {error && (
+          <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-2 py-1.5 mb-3 break-all">
+            {error}
+          </div>
+        )}
+
+        {token === undefined ? (
+          <div className="text-sm text-slate-400 py-4 text-center">Cargando...</div>
+        ) : token ? (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={getCalendarFeedUrl(token)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-2 py-1 text-xs border border-slate-200 rounded-lg text-slate-600"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="px-2 py-1 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 shrink-0"
+            >
+              {copied ? "Copiada" : "Copiar"}
+            </button>
+          </div>
+        ) : (
+          <div className="text-sm text-slate-500 py-4 text-center">El feed no está activo.</div>
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          {token && (
+            <button
+              type="button"
+              onClick={handleRevoke}
+              disabled={busy}
+              className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40"
+            >
+              Desactivar
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleRotate}
+            disabled={busy || token === undefined}
+            className="px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-40"
+          >
+            {token ? "Regenerar URL" : "Activar feed"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
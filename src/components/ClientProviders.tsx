@@ -1,8 +1,19 @@
 "use client";
 
 import { SyncProvider } from "@/src/sync";
+import { SyncStatusIndicator } from "@/src/components/sync/SyncStatusIndicator";
+import { HistoryShortcuts } from "@/src/components/sync/HistoryShortcuts";
+import ReminderScheduler from "@/src/components/ReminderScheduler";
+import CommandPalette from "@/src/components/CommandPalette";
 
 export function ClientProviders({ children }: { children: React.ReactNode }) {
-  return <SyncProvider>{children}</SyncProvider>;
+  return (
+    <SyncProvider>
+      {children}
+      <SyncStatusIndicator />
+      <HistoryShortcuts />
+      <ReminderScheduler />
+      <CommandPalette />
+    </SyncProvider>
+  );
 }
-
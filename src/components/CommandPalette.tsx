@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useSync } from "@/src/sync";
+import {
+  createSearchIndex,
+  updateSearchIndex,
+  searchDocs,
+  SEARCH_KIND_LABELS,
+  type SearchIndex,
+  type SearchDoc,
+  type SearchResult,
+} from "@/src/lib/search";
+
+const KIND_BADGE_CLASSES: Record<SearchResult["kind"], string> = {
+  task: "bg-blue-50 text-blue-600",
+  meta: "bg-purple-50 text-purple-600",
+  account: "bg-emerald-50 text-emerald-600",
+  forecast: "bg-amber-50 text-amber-600",
+  movement: "bg-slate-100 text-slate-600",
+};
+
+/**
+ * Paleta de búsqueda global (Ctrl+K / Cmd+K): tareas, metas, cuentas,
+ * previsiones y movimientos. El índice se mantiene al día con el store aunque
+ * la paleta esté cerrada.
+ */
+export default function CommandPalette() {
+  const { tasks, metas, bankAccounts, incomeForecastLines, financeMovements, isLoaded } = useSync();
+  const [open, setOpen] = useState(false);
+  const [index] = useState<SearchIndex>(() => createSearchIndex());
+
+  // Solo se reindexan los items que cambiaron
+  const docs = useMemo(
+    () =>
+      updateSearchIndex(index, {
+        tasks,
+        metas,
+        bankAccounts,
+        forecastLines: incomeForecastLines,
+        // Finanzas solo lista ingresos y gastos
+        movements: financeMovements.filter((m) => m.type === "INGRESO" || m.type === "GASTO"),
+      }),
+    [index, tasks, metas, bankAccounts, incomeForecastLines, financeMovements]
+  );
+
+  // Ctrl+K abre/cierra (también desde un campo de texto); Escape cierra
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      } else if (e.key === "Escape") {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isLoaded]);
+
+  if (!open) return null;
+
+  return <CommandPaletteContent docs={docs} onClose={() => setOpen(false)} />;
+}
+
+// Navega al item; en la misma página basta con cambiar el hash (la página escucha hashchange)
+function navigateTo(href: string) {
+  const url = new URL(href, window.location.origin);
+  if (url.pathname !== window.location.pathname) {
+    window.location.assign(href);
+    return;
+  }
+  // Limpiar antes por si el hash es el mismo (no dispararía hashchange)
+  history.replaceState(null, "", window.location.pathname + window.location.search);
+  window.location.hash = url.hash;
+}
+
+function CommandPaletteContent({ docs, onClose }: { docs: SearchDoc[]; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => searchDocs(docs, query), [docs, query]);
+  const highlighted = Math.min(activeIndex, results.length - 1);
+
+  // Mantener visible el resultado resaltado
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-result-index="${highlighted}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [highlighted]);
+
+  const select = (result: SearchResult | undefined) => {
+    if (!result) return;
+    onClose();
+    navigateTo(result.href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((highlighted + step + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(results[highlighted]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-start justify-center pt-[12vh] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Buscador */}
+        <div className="flex items-center gap-2 px-4 border-b border-slate-200">
+          <svg className="w-4 h-4 text-slate-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+          </svg>
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Buscar tareas, metas, cuentas, movimientos..."
+            className="flex-1 py-3 text-sm focus:outline-none"
+          />
+          <kbd className="text-[10px] text-slate-400 border border-slate-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {/* Resultados */}
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-1">
+          {!query.trim() ? (
+            <p className="px-4 py-6 text-center text-sm text-slate-400">Escribe para buscar</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-slate-400">Sin resultados</p>
+          ) : (
+            results.map((result, i) => (
+              <button
+                key={`${result.kind}:${result.id}`}
+                data-result-index={i}
+                onClick={() => select(result)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={`w-full flex items-center gap-3 px-4 py-2 text-left ${
+                  i === highlighted ? "bg-blue-50" : ""
+                }`}
+              >
+                <span className={`shrink-0 w-20 text-center text-[10px] font-medium rounded px-1.5 py-0.5 ${KIND_BADGE_CLASSES[result.kind]}`}>
+                  {SEARCH_KIND_LABELS[result.kind]}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-slate-700 truncate">{result.title}</span>
+                  {result.subtitle && (
+                    <span className="block text-xs text-slate-400 truncate">{result.subtitle}</span>
+                  )}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { TaskData, Meta } from "@/src/lib/types";
+import { getAdvancedRecurrenceDisplay } from "@/src/lib/tasks";
+import { buildIcsImport, type IcsImportItem, type IcsImportAction } from "@/src/lib/icsImport";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  tasks: TaskData[];
+  metas: Meta[];
+  onImport: (tasks: TaskData[]) => void;
+}
+
+const ACTION_LABELS: Record<IcsImportAction, { label: string; className: string }> = {
+  new: { label: "Nueva", className: "bg-green-50 text-green-700 border-green-200" },
+  update: { label: "Actualizar", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  unchanged: { label: "Sin cambios", className: "bg-slate-50 text-slate-500 border-slate-200" },
+};
+
+function formatWhen(task: TaskData): string {
+  const advanced = getAdvancedRecurrenceDisplay(task);
+  if (advanced) return advanced;
+  const extra = task.extra;
+  if (extra?.frequency === "SEMANAL") {
+    return `${(extra.weeklyDays ?? []).join(" ")}${extra.weeklyTime ? ` · ${extra.weeklyTime}` : ""}`;
+  }
+  if (extra?.frequency === "MENSUAL") {
+    return `Día ${extra.monthlyDay}${extra.monthlyTime ? ` · ${extra.monthlyTime}` : ""}`;
+  }
+  if (!task.date) return "-";
+  const [y, m, d] = task.date.split("-");
+  return `${d}/${m}/${y}${task.time ? ` · ${task.time}` : ""}`;
+}
+
+/**
+ * Importación de un .ics: elegir archivo y meta, revisar la vista previa e importar.
+ */
+export default function IcsImportModal({ open, onClose, tasks, metas, onImport }: Props) {
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  // Se monta en cada apertura: archivo y vista previa empiezan vacíos
+  return <IcsImportContent onClose={onClose} tasks={tasks} metas={metas} onImport={onImport} />;
+}
+
+function IcsImportContent({ onClose, tasks, metas, onImport }: Omit<Props, "open">) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [metaId, setMetaId] = useState(() => (metas.find((m) => m.isActive !== false) ?? metas[0])?.id ?? "");
+
+  // La vista previa depende de la meta elegida (orden de las tareas nuevas)
+  const preview = useMemo(
+    () => (fileText && metaId ? buildIcsImport(fileText, tasks, metaId) : null),
+    [fileText, tasks, metaId]
+  );
+  const items: IcsImportItem[] = preview?.data ?? [];
+  const pending = items.filter((item) => item.action !== "unchanged");
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+  };
+
+  const handleImport = () => {
+    if (pending.length === 0) return;
+    onImport(pending.map((item) => item.task));
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-2xl max-h-[85vh] flex flex-col rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Importar calendario (.ics)</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Cada evento se convierte en una tarea. Reimportar el mismo archivo actualiza las tareas ya importadas
+          en lugar de duplicarlas.
+        </p>
+
+        <div className="flex gap-2 items-center mb-3">
+          <label className="px-3 py-1.5 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 cursor-pointer shrink-0">
+            Elegir archivo
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="hidden"
+            />
+          </label>
+          <span className="text-xs text-slate-500 truncate flex-1">{fileName ?? "Ningún archivo"}</span>
+          <select
+            value={metaId}
+            onChange={(e) => setMetaId(e.target.value)}
+            className="px-2 py-1 text-xs border border-slate-200 rounded-lg max-w-[40%]"
+          >
+            {metas.length === 0 && <option value="">Sin metas</option>}
+            {metas.map((meta) => (
+              <option key={meta.id} value={meta.id}>
+                {meta.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {preview?.error && (
+          <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-2 py-1.5 mb-3">
+            {preview.error}
+          </div>
+        )}
+
+        {fileText && !preview?.error && (
+          items.length === 0 ? (
+            <div className="text-sm text-slate-500 py-6 text-center">El archivo no tiene eventos.</div>
+          ) : (
+            <ul className="overflow-y-auto flex-1 space-y-1.5">
+              {items.map((item) => (
+                <li
+                  key={item.uid}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm flex items-center gap-2"
+                >
+                  <span className={`px-1.5 py-0.5 text-[10px] border rounded shrink-0 ${ACTION_LABELS[item.action].className}`}>
+                    {ACTION_LABELS[item.action].label}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="text-slate-700 truncate">{item.task.title}</div>
+                    {item.warning && <div className="text-[11px] text-amber-600">{item.warning}</div>}
+                  </div>
+                  <span className="text-xs text-slate-500 shrink-0">{formatWhen(item.task)}</span>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cerrar
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={pending.length === 0}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-40"
+          >
+            Importar {pending.length > 0 ? pending.length : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import type { TaskData, OccurrenceOverride } from "@/src/lib/types";
+import { addDays, expandTaskOccurrences, setOccurrenceOverride, type TaskOccurrence } from "@/src/lib/recurrence";
+
+interface Props {
+  task: TaskData;
+  onChange: (overrides: Record<string, OccurrenceOverride> | undefined) => void;
+  defaultOpen?: boolean;
+}
+
+// Ocurrencias próximas que se listan para editar
+const UPCOMING_LIMIT = 8;
+
+function formatOccurrenceDate(date: string): string {
+  const d = new Date(`${date}T00:00:00`);
+  return d.toLocaleDateString("es-ES", { weekday: "short", day: "2-digit", month: "2-digit" });
+}
+
+/**
+ * Cambios por ocurrencia de una tarea repetida: mover, saltar, hora,
+ * cantidad/importe y notas. Lista las próximas ocurrencias y las que ya tienen cambios.
+ */
+export default function OccurrenceOverridesEditor({ task, onChange, defaultOpen = false }: Props) {
+  const [open, setOpen] = useState(defaultOpen);
+  const overrides = task.extra?.occurrenceOverrides;
+  const overrideCount = Object.keys(overrides ?? {}).length;
+  const isFinance = task.type === "INGRESO" || task.type === "GASTO";
+  const isPhysicalKnowledge = task.scope === "FISICO" || task.scope === "CRECIMIENTO";
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-xs text-blue-600 hover:text-blue-700"
+      >
+        Editar ocurrencias{overrideCount > 0 ? ` (${overrideCount} con cambios)` : ""}
+      </button>
+    );
+  }
+
+  // Próximas ocurrencias + las que tienen cambios (aunque estén lejos o en el pasado)
+  const today = new Date().toISOString().split("T")[0];
+  const interval = typeof task.extra?.repeatInterval === "number" ? task.extra.repeatInterval : 1;
+  const upcoming = expandTaskOccurrences(task, today, addDays(today, 366 * interval)).slice(0, UPCOMING_LIMIT);
+  const listed = new Map<string, TaskOccurrence>(upcoming.map((o) => [o.originalDate, o]));
+  for (const originalDate of Object.keys(overrides ?? {})) {
+    if (listed.has(originalDate)) continue;
+    const target = overrides?.[originalDate]?.date ?? originalDate;
+    const found = expandTaskOccurrences(task, target, target).find((o) => o.originalDate === originalDate);
+    if (found) listed.set(originalDate, found);
+  }
+  const occurrences = Array.from(listed.values()).sort((a, b) => a.originalDate.localeCompare(b.originalDate));
+
+  const update = (originalDate: string, patch: Partial<OccurrenceOverride> | null) => {
+    onChange(setOccurrenceOverride(overrides, originalDate, patch));
+  };
+
+  const parseNumber = (value: string): number | undefined => (value === "" ? undefined : parseFloat(value));
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-2 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-500">Ocurrencias</span>
+        <button type="button" onClick={() => setOpen(false)} className="text-xs text-slate-400 hover:text-slate-600">
+          Ocultar
+        </button>
+      </div>
+      {occurrences.length === 0 ? (
+        <div className="text-xs text-slate-400">Sin próximas ocurrencias.</div>
+      ) : (
+        <ul className="space-y-1.5 max-h-56 overflow-y-auto">
+          {occurrences.map((occurrence) => {
+            const override = overrides?.[occurrence.originalDate];
+            return (
+              <li key={occurrence.originalDate} className="space-y-1">
+                <div className="flex items-center gap-1.5">
+                  <span
+                    className={`w-20 shrink-0 text-xs ${occurrence.isSkipped ? "line-through text-slate-400" : "text-slate-600"}`}
+                    title={occurrence.originalDate}
+                  >
+                    {formatOccurrenceDate(occurrence.originalDate)}
+                  </span>
+                  <input
+                    type="date"
+                    value={occurrence.date}
+                    onChange={(e) => update(occurrence.originalDate, { date: e.target.value || undefined })}
+                    title="Mover a"
+                    className="w-28 px-1 py-0.5 text-xs border border-slate-200 rounded"
+                  />
+                  <input
+                    type="time"
+                    value={override?.time ?? ""}
+                    onChange={(e) => update(occurrence.originalDate, { time: e.target.value || undefined })}
+                    title="Hora de esta ocurrencia"
+                    className="w-20 px-1 py-0.5 text-xs border border-slate-200 rounded"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-slate-500">
+                    <input
+                      type="checkbox"
+                      checked={occurrence.isSkipped}
+                      onChange={(e) => update(occurrence.originalDate, { skipped: e.target.checked })}
+                    />
+                    Saltar
+                  </label>
+                  {override && (
+                    <button
+                      type="button"
+                      onClick={() => update(occurrence.originalDate, null)}
+                      title="Quitar cambios"
+                      className="ml-auto text-xs text-slate-400 hover:text-red-500"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 pl-[5.375rem]">
+                  {isPhysicalKnowledge && (
+                    <input
+                      type="number"
+                      value={override?.quantity ?? ""}
+                      placeholder={task.extra?.quantity !== undefined ? String(task.extra.quantity) : "Cantidad"}
+                      onChange={(e) => update(occurrence.originalDate, { quantity: parseNumber(e.target.value) })}
+                      className="w-20 px-1 py-0.5 text-xs border border-slate-200 rounded"
+                    />
+                  )}
+                  {isFinance && (
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={override?.amountEUR ?? ""}
+                      placeholder={task.extra?.amountEUR !== undefined ? String(task.extra.amountEUR) : "Importe"}
+                      onChange={(e) => update(occurrence.originalDate, { amountEUR: parseNumber(e.target.value) })}
+                      className="w-20 px-1 py-0.5 text-xs border border-slate-200 rounded"
+                    />
+                  )}
+                  <input
+                    type="text"
+                    value={override?.notes ?? ""}
+                    placeholder="Notas"
+                    onChange={(e) => update(occurrence.originalDate, { notes: e.target.value })}
+                    className="flex-1 min-w-0 px-1 py-0.5 text-xs border border-slate-200 rounded"
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSync } from "@/src/sync";
+import {
+  takeDueReminders,
+  snoozeReminder,
+  completeOccurrence,
+  registerReminderServiceWorker,
+  showReminderNotification,
+  parseReminderActionHash,
+  type ReminderActionMessage,
+} from "@/src/lib/reminders";
+
+// Cada cuánto se buscan avisos vencidos
+const TICK_MS = 30 * 1000;
+
+/**
+ * Dispara los avisos de tareas como notificaciones del sistema y aplica sus
+ * acciones (posponer / hecho). Con varias pestañas solo actúa la líder del sync.
+ */
+export default function ReminderScheduler() {
+  const { tasks, setTask, isLoaded, tabRole } = useSync();
+  const tasksRef = useRef(tasks);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+  const isActive = isLoaded && tabRole !== "follower";
+
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
+
+  const applyAction = useRef<(message: ReminderActionMessage) => void>(() => {});
+
+  useEffect(() => {
+    applyAction.current = (message: ReminderActionMessage) => {
+      if (message.action === "snooze") {
+        snoozeReminder(message.taskId, message.originalDate);
+        return;
+      }
+      const task = tasksRef.current.find((t) => t.id === message.taskId);
+      if (task) setTask(completeOccurrence(task, message.originalDate));
+    };
+  }, [setTask]);
+
+  // Service worker + acciones desde la notificación
+  useEffect(() => {
+    if (!isActive) return;
+    let cancelled = false;
+    registerReminderServiceWorker().then((registration) => {
+      if (!cancelled) registrationRef.current = registration;
+    });
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "reminder-action") applyAction.current(event.data as ReminderActionMessage);
+    };
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      cancelled = true;
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [isActive]);
+
+  // Acción pendiente en el hash (sw.js abrió esta ventana)
+  useEffect(() => {
+    if (!isLoaded || !window.location.hash.startsWith("#reminder=")) return;
+    const message = parseReminderActionHash(window.location.hash);
+    if (message) applyAction.current(message);
+    history.replaceState(null, "", window.location.pathname + window.location.search);
+  }, [isLoaded]);
+
+  // Búsqueda periódica de avisos vencidos
+  useEffect(() => {
+    if (!isActive) return;
+    const tick = () => {
+      const registration = registrationRef.current;
+      if (!registration || Notification.permission !== "granted") return;
+      for (const reminder of takeDueReminders(tasksRef.current)) {
+        showReminderNotification(registration, reminder).catch((e) =>
+          console.warn("[reminders] showNotification error:", e)
+        );
+      }
+    };
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  return null;
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { TaskTemplate } from "@/src/lib/types";
+import { getTemplateSpanDays } from "@/src/lib/templates";
+
+interface Props {
+  draft: TaskTemplate | null;  // plantilla ya construida, pendiente de nombre
+  onClose: () => void;
+  onSave: (template: TaskTemplate) => void;
+}
+
+/**
+ * Guardar una tarea (con sus subtareas) o una meta completa en la biblioteca de plantillas.
+ */
+export default function SaveTemplateModal({ draft, onClose, onSave }: Props) {
+  // Escape key handler
+  useEffect(() => {
+    if (!draft) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [draft, onClose]);
+
+  if (!draft) return null;
+
+  // Se monta con cada borrador: el nombre empieza con el de la tarea/meta
+  return <SaveTemplateContent key={draft.id} draft={draft} onClose={onClose} onSave={onSave} />;
+}
+
+function SaveTemplateContent({ draft, onClose, onSave }: Props & { draft: TaskTemplate }) {
+  const [name, setName] = useState(draft.name);
+  const [description, setDescription] = useState("");
+
+  const spanDays = getTemplateSpanDays(draft);
+  const isBlueprint = !!draft.meta;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ ...draft, name: name.trim(), description: description.trim() || undefined });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white w-full max-w-md rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">
+          {isBlueprint ? "Guardar meta como blueprint" : "Guardar como plantilla"}
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          {draft.tasks.length} tarea{draft.tasks.length !== 1 ? "s" : ""}
+          {spanDays !== null && ` · ${spanDays} día${spanDays !== 1 ? "s" : ""}`}
+          . Las fechas se guardan relativas a la primera; al usarla eliges el día de inicio.
+        </p>
+
+        <label className="block text-xs font-medium text-slate-600 mb-1">Nombre</label>
+        <input
+          autoFocus
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Plan maratón: 16 semanas"
+          className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500 mb-3"
+        />
+
+        <label className="block text-xs font-medium text-slate-600 mb-1">Descripción (opcional)</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500 resize-none"
+        />
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-40"
+          >
+            Guardar
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
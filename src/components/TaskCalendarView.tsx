@@ -0,0 +1,359 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { TaskRow, TaskData } from "@/src/lib/types";
+import { TYPE_COLORS, UI_TYPE_ACCENTS, getUIType } from "@/src/lib/types";
+import { addDays, expandOccurrences, setOccurrenceOverride, type TaskOccurrence } from "@/src/lib/recurrence";
+
+export type CalendarMode = "day" | "week" | "month";
+
+interface Props {
+  tasks: TaskRow[];
+  mode: CalendarMode;
+  onModeChange: (mode: CalendarMode) => void;
+  onUpdateTask: (id: string, taskData: Partial<TaskData>) => Promise<{ success: boolean; error?: string }>;
+}
+
+// Destino de un drop: fecha y hora (null = todo el día, undefined = conservar la hora)
+type DropTarget = { date: string; time: string | null | undefined };
+
+type DragState = {
+  occurrence: TaskOccurrence;
+  startX: number;
+  startY: number;
+  isDragActive: boolean;
+};
+
+// ==================== CONSTANTES ====================
+
+const HOURS = Array.from({ length: 24 }, (_, h) => `${String(h).padStart(2, "0")}:00`);
+const WEEKDAY_LABELS = ["Lun", "Mar", "Mié", "Jue", "Vie", "Sáb", "Dom"];
+const MODE_LABELS: Record<CalendarMode, string> = { day: "Día", week: "Semana", month: "Mes" };
+const DRAG_THRESHOLD = 6;
+const MONTH_CELL_LIMIT = 4;
+
+// ==================== FECHAS ====================
+
+function getTodayISO(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Lunes de la semana de `date`
+function getWeekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+function getMonthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+function addMonths(date: string, months: number): string {
+  const [y, m] = date.split("-").map(Number);
+  const d = new Date(Date.UTC(y, m - 1 + months, 1));
+  return d.toISOString().slice(0, 10);
+}
+
+function getVisibleRange(mode: CalendarMode, anchor: string): { from: string; to: string } {
+  if (mode === "day") return { from: anchor, to: anchor };
+  if (mode === "week") {
+    const from = getWeekStart(anchor);
+    return { from, to: addDays(from, 6) };
+  }
+  // Mes: 6 semanas completas desde el lunes de la semana del día 1
+  const from = getWeekStart(getMonthStart(anchor));
+  return { from, to: addDays(from, 41) };
+}
+
+function formatTitle(mode: CalendarMode, anchor: string, from: string, to: string): string {
+  const toDate = (date: string) => new Date(`${date}T00:00:00`);
+  if (mode === "day") {
+    return toDate(anchor).toLocaleDateString("es-ES", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+  }
+  if (mode === "week") {
+    const start = toDate(from).toLocaleDateString("es-ES", { day: "numeric", month: "short" });
+    const end = toDate(to).toLocaleDateString("es-ES", { day: "numeric", month: "short", year: "numeric" });
+    return `${start} – ${end}`;
+  }
+  return toDate(anchor).toLocaleDateString("es-ES", { month: "long", year: "numeric" });
+}
+
+function isSameOccurrence(a: TaskOccurrence, b: TaskOccurrence): boolean {
+  return a.taskId === b.taskId && a.originalDate === b.originalDate;
+}
+
+function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+// ==================== COMPONENT ====================
+
+/**
+ * Calendario de la agenda (día / semana / mes) con las ocurrencias de las tareas.
+ * Arrastrar una tarea la reprograma: las puntuales cambian date/time y las
+ * repetidas mueven solo esa ocurrencia (extra.occurrenceOverrides).
+ */
+export default function TaskCalendarView({ tasks, mode, onModeChange, onUpdateTask }: Props) {
+  const [anchor, setAnchor] = useState(getTodayISO);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dragPos, setDragPos] = useState<{ x: number; y: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const today = getTodayISO();
+  const { from, to } = getVisibleRange(mode, anchor);
+  const days = useMemo(() => listDays(from, to), [from, to]);
+
+  const occurrences = useMemo(
+    () => expandOccurrences(tasks.map((t) => t.data), from, to).filter((o) => !o.isSkipped),
+    [tasks, from, to]
+  );
+
+  const occurrencesByDay = useMemo(() => {
+    const map = new Map<string, TaskOccurrence[]>();
+    for (const occurrence of occurrences) {
+      const list = map.get(occurrence.date) ?? [];
+      list.push(occurrence);
+      map.set(occurrence.date, list);
+    }
+    return map;
+  }, [occurrences]);
+
+  // ========== NAVEGACIÓN ==========
+
+  const navigate = (direction: -1 | 1) => {
+    if (mode === "day") setAnchor(addDays(anchor, direction));
+    else if (mode === "week") setAnchor(addDays(anchor, 7 * direction));
+    else setAnchor(addMonths(anchor, direction));
+  };
+
+  // ========== DRAG & DROP ==========
+
+  const findDropTarget = (x: number, y: number): DropTarget | null => {
+    const el = document.elementFromPoint(x, y)?.closest<HTMLElement>("[data-drop-date]");
+    if (!el?.dataset.dropDate) return null;
+    const time = el.dataset.dropTime;
+    return { date: el.dataset.dropDate, time: time === undefined ? undefined : time || null };
+  };
+
+  const reschedule = (occurrence: TaskOccurrence, target: DropTarget) => {
+    const task = occurrence.task;
+    const time = target.time === undefined ? occurrence.time : target.time;
+    if (target.date === occurrence.date && time === occurrence.time) return;
+
+    if (occurrence.isRecurring) {
+      const occurrenceOverrides = setOccurrenceOverride(task.extra?.occurrenceOverrides, occurrence.originalDate, {
+        date: target.date,
+        time: time ?? undefined,
+      });
+      onUpdateTask(task.id, { extra: { ...(task.extra || {}), occurrenceOverrides } });
+      return;
+    }
+    onUpdateTask(task.id, target.time === undefined ? { date: target.date } : { date: target.date, time: target.time });
+  };
+
+  const endDrag = () => {
+    setDrag(null);
+    setDragPos(null);
+    setDropTarget(null);
+  };
+
+  const isDropTarget = (date: string, time: string | null | undefined) =>
+    !!drag?.isDragActive && dropTarget?.date === date && dropTarget.time === time;
+
+  // ========== RENDER ==========
+
+  const renderOccurrence = (occurrence: TaskOccurrence, showTime: boolean) => {
+    const task = occurrence.task;
+    const uiType = getUIType(task.type, task.scope, task.kind);
+    const isDragging = drag?.isDragActive && isSameOccurrence(drag.occurrence, occurrence);
+    return (
+      <div
+        key={`${occurrence.taskId}:${occurrence.originalDate}`}
+        className={`px-1.5 py-0.5 text-[11px] rounded border-l-[3px] truncate cursor-grab select-none touch-none ${
+          occurrence.isCompleted ? "line-through text-slate-400" : "text-slate-700"
+        } ${isDragging ? "opacity-30" : ""}`}
+        style={{ backgroundColor: TYPE_COLORS[task.type], borderLeftColor: UI_TYPE_ACCENTS[uiType] }}
+        title={`${occurrence.time ? `${occurrence.time} · ` : ""}${task.title}${occurrence.notes ? ` — ${occurrence.notes}` : ""}`}
+        onPointerDown={(e) => {
+          (e.target as HTMLElement).setPointerCapture(e.pointerId);
+          setDrag({ occurrence, startX: e.clientX, startY: e.clientY, isDragActive: false });
+        }}
+        onPointerMove={(e) => {
+          if (!drag || !isSameOccurrence(drag.occurrence, occurrence)) return;
+          const dx = e.clientX - drag.startX;
+          const dy = e.clientY - drag.startY;
+          if (!drag.isDragActive && Math.sqrt(dx * dx + dy * dy) > DRAG_THRESHOLD) {
+            setDrag({ ...drag, isDragActive: true });
+          }
+          if (drag.isDragActive) {
+            setDragPos({ x: e.clientX, y: e.clientY });
+            setDropTarget(findDropTarget(e.clientX, e.clientY));
+          }
+        }}
+        onPointerUp={(e) => {
+          if (!drag || !isSameOccurrence(drag.occurrence, occurrence)) return;
+          (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+          if (drag.isDragActive) {
+            const target = findDropTarget(e.clientX, e.clientY);
+            if (target) reschedule(occurrence, target);
+          }
+          endDrag();
+        }}
+        onPointerCancel={endDrag}
+      >
+        {showTime && occurrence.time && <span className="text-slate-400 mr-1">{occurrence.time}</span>}
+        {task.title}
+      </div>
+    );
+  };
+
+  const renderDayHeader = (date: string) => {
+    const d = new Date(`${date}T00:00:00`);
+    return (
+      <div
+        key={date}
+        className={`flex-1 min-w-0 px-2 py-1 text-xs text-center border-r border-slate-100 ${date === today ? "text-blue-600 font-semibold" : "text-slate-500"}`}
+      >
+        {WEEKDAY_LABELS[(d.getDay() + 6) % 7]} {d.getDate()}
+      </div>
+    );
+  };
+
+  // Día / semana: fila "todo el día" + rejilla por horas
+  const renderTimeGrid = (gridDays: string[]) => (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="shrink-0 flex border-b border-slate-200 bg-slate-50 pl-12">
+        {gridDays.map(renderDayHeader)}
+      </div>
+      <div className="shrink-0 flex border-b border-slate-200">
+        <div className="w-12 shrink-0 px-1 py-1 text-[10px] text-slate-400 text-right">Todo el día</div>
+        {gridDays.map((date) => (
+          <div
+            key={date}
+            data-drop-date={date}
+            data-drop-time=""
+            className={`flex-1 min-w-0 min-h-8 p-0.5 space-y-0.5 border-r border-slate-100 ${isDropTarget(date, null) ? "bg-blue-50" : ""}`}
+          >
+            {(occurrencesByDay.get(date) ?? []).filter((o) => !o.time).map((o) => renderOccurrence(o, false))}
+          </div>
+        ))}
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {HOURS.map((hour) => (
+          <div key={hour} className="flex border-b border-slate-100 min-h-10">
+            <div className="w-12 shrink-0 px-1 pt-0.5 text-[10px] text-slate-400 text-right">{hour}</div>
+            {gridDays.map((date) => (
+              <div
+                key={date}
+                data-drop-date={date}
+                data-drop-time={hour}
+                className={`flex-1 min-w-0 p-0.5 space-y-0.5 border-r border-slate-100 ${isDropTarget(date, hour) ? "bg-blue-50" : ""}`}
+              >
+                {(occurrencesByDay.get(date) ?? [])
+                  .filter((o) => o.time?.slice(0, 2) === hour.slice(0, 2))
+                  .map((o) => renderOccurrence(o, true))}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Mes: 6 semanas, el drop cambia la fecha y conserva la hora
+  const renderMonthGrid = () => {
+    const month = anchor.slice(0, 7);
+    return (
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="shrink-0 flex border-b border-slate-200 bg-slate-50">
+          {WEEKDAY_LABELS.map((label) => (
+            <div key={label} className="flex-1 px-2 py-1 text-xs text-center text-slate-500 border-r border-slate-100">
+              {label}
+            </div>
+          ))}
+        </div>
+        <div className="flex-1 grid grid-cols-7 grid-rows-6 overflow-y-auto">
+          {days.map((date) => {
+            const dayOccurrences = occurrencesByDay.get(date) ?? [];
+            const hidden = dayOccurrences.length - MONTH_CELL_LIMIT;
+            return (
+              <div
+                key={date}
+                data-drop-date={date}
+                className={`min-h-20 p-1 space-y-0.5 border-r border-b border-slate-100 overflow-hidden ${
+                  date.slice(0, 7) !== month ? "bg-slate-50/60" : ""
+                } ${isDropTarget(date, undefined) ? "bg-blue-50" : ""}`}
+              >
+                <div className={`text-[11px] ${date === today ? "text-blue-600 font-semibold" : "text-slate-400"}`}>
+                  {Number(date.slice(8))}
+                </div>
+                {dayOccurrences.slice(0, MONTH_CELL_LIMIT).map((o) => renderOccurrence(o, true))}
+                {hidden > 0 && <div className="text-[10px] text-slate-400 px-1">+{hidden} más</div>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Toolbar */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-1.5 border-b border-slate-200">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="px-2 py-0.5 text-xs border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50"
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          onClick={() => setAnchor(getTodayISO())}
+          className="px-2 py-0.5 text-xs border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50"
+        >
+          Hoy
+        </button>
+        <button
+          type="button"
+          onClick={() => navigate(1)}
+          className="px-2 py-0.5 text-xs border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50"
+        >
+          ›
+        </button>
+        <span className="text-sm font-medium text-slate-700 first-letter:uppercase">
+          {formatTitle(mode, anchor, from, to)}
+        </span>
+        <div className="ml-auto flex gap-1">
+          {(Object.keys(MODE_LABELS) as CalendarMode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => onModeChange(m)}
+              className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                mode === m ? "bg-blue-500 text-white border-blue-500" : "bg-white text-slate-600 border-slate-200 hover:border-slate-300"
+              }`}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "month" ? renderMonthGrid() : renderTimeGrid(days)}
+
+      {/* Ghost mientras se arrastra */}
+      {drag?.isDragActive && dragPos && (
+        <div
+          className="fixed z-50 pointer-events-none px-2 py-1 text-xs bg-white border border-slate-200 rounded shadow-lg"
+          style={{ left: dragPos.x + 8, top: dragPos.y + 8 }}
+        >
+          {drag.occurrence.task.title}
+        </div>
+      )}
+    </div>
+  );
+}
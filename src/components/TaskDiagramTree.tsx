@@ -5,7 +5,10 @@ import { useCallback, useRef, useEffect, useState, useMemo, useLayoutEffect } fr
 import ReactDOM from "react-dom";
 import type { TaskRow, TaskData, Meta, BankAccount, ForecastLine, Label, UITaskType, TaskExtra } from "@/src/lib/types";
 import { getUIType, UI_TYPE_MAPPING } from "@/src/lib/types";
-import { generateTaskId, createTaskFromTemplate, buildNewTaskData, getReminderDisplay } from "@/src/lib/tasks";
+import { generateTaskId, createTaskFromTemplate, buildNewTaskData, getReminderDisplay, getAdvancedRecurrenceDisplay } from "@/src/lib/tasks";
+import { getTaskRecurrence, useSync } from "@/src/sync";
+import { requestReminderPermission } from "@/src/lib/reminders";
+import OccurrenceOverridesEditor from "./OccurrenceOverridesEditor";
 
 // ==================== CONSTANTES DE LAYOUT ====================
 
@@ -18,6 +21,9 @@ const INDENT_X = 56;
 const GAP_Y = 6;              // Espacio vertical compacto entre nodos
 const CONNECTOR_RADIUS = 4;
 
+// Etiqueta en el historial del borrado de una tarea (el toast la usa para saber si sigue siendo lo último)
+const DELETE_UNDO_LABEL = "Eliminar tarea";
+
 // ==================== TIPOS ====================
 
 interface Props {
@@ -29,10 +35,13 @@ interface Props {
   onCreateTask: (taskData: TaskData) => Promise<{ success: boolean; error?: string }>;
   onUpdateTask: (id: string, taskData: Partial<TaskData>) => Promise<{ success: boolean; error?: string }>;
   onDeleteTask: (id: string) => Promise<{ success: boolean; error?: string }>;
-  onRestoreTask: (id: string) => Promise<{ success: boolean; error?: string }>;
   onOpenMetaModal: (meta: Meta | null) => void;
   onReorderMetas?: (reorderedMetas: Meta[]) => void;
   onToggleMetaActive?: (metaId: string, isActive: boolean) => Promise<{ success: boolean; error?: string }>;
+  focusRequest?: { kind: "task" | "meta"; id: string; nonce: number } | null;  // búsqueda global
+  onSaveTaskTemplate?: (taskId: string) => void;     // tarea + subtareas a la biblioteca de plantillas
+  onSaveMetaBlueprint?: (meta: Meta) => void;        // meta completa como blueprint
+  onInsertTemplate?: (metaId: string) => void;       // abrir la biblioteca para añadir a esta meta
 }
 
 type WeekdayCode = "L" | "M" | "X" | "J" | "V" | "S" | "D";
@@ -197,6 +206,9 @@ function isTaskUnscheduled(data: TaskData): boolean {
 function getScheduleDisplay(data: TaskData): string {
   if (isTaskUnscheduled(data)) return "Sin programar";
   
+  const advanced = getAdvancedRecurrenceDisplay(data);
+  if (advanced) return advanced;
+  
   const freq = data.extra?.frequency;
   if (freq === "SEMANAL") {
     const days = (data.extra?.weeklyDays as WeekdayCode[]) || [];
@@ -563,11 +575,11 @@ function calculateInsertOrder(siblings: TaskRow[], position: "before" | "after",
 
 export default function TaskDiagramTree({
   tasks, metas, bankAccounts, forecastLines, labels,
-  onCreateTask, onUpdateTask, onDeleteTask, onRestoreTask, onOpenMetaModal, onReorderMetas, onToggleMetaActive
+  onCreateTask, onUpdateTask, onDeleteTask, onOpenMetaModal, onReorderMetas, onToggleMetaActive, focusRequest,
+  onSaveTaskTemplate, onSaveMetaBlueprint, onInsertTemplate
 }: Props) {
-  type UndoEntry =
-    | { kind: "update"; taskId: string; data: TaskData }
-    | { kind: "delete"; taskId: string; prev: TaskData };
+  // Deshacer/rehacer: historial global del sync (Ctrl+Z en HistoryShortcuts)
+  const { undo, undoLabel, historyGroup } = useSync();
 
   const [selectedMetaId, setSelectedMetaId] = useState<string | null>(null);
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
@@ -575,8 +587,7 @@ export default function TaskDiagramTree({
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   const [savingTaskId, setSavingTaskId] = useState<string | null>(null);
   const [editError, setEditError] = useState<string | null>(null);
-  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
-  const [undoToast, setUndoToast] = useState<{ entry: UndoEntry; expiresAt: number } | null>(null);
+  const [undoToast, setUndoToast] = useState<{ label: string; expiresAt: number } | null>(null);
   const [collapsedById, setCollapsedById] = useState<Record<string, boolean>>({});
   const [measuredHeights, setMeasuredHeights] = useState<Record<string, number>>({});
   const [localLabels, setLocalLabels] = useState<Label[]>(labels);
@@ -669,6 +680,48 @@ export default function TaskDiagramTree({
     });
   }, []);
 
+  // ==================== FOCO (búsqueda global) ====================
+  // Se aplica al cambiar la petición: meta seleccionada, ancestros expandidos y nodo resaltado
+  const [handledFocus, setHandledFocus] = useState<Props["focusRequest"]>(null);
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  if (focusRequest && focusRequest !== handledFocus) {
+    setHandledFocus(focusRequest);
+    setEditingTaskId(null);
+    if (focusRequest.kind === "meta") {
+      setSelectedMetaId(focusRequest.id);
+    } else {
+      const byId = new Map(tasks.map(t => [t.data.id, t.data]));
+      const target = byId.get(focusRequest.id);
+      if (target) {
+        if (target.metaId) setSelectedMetaId(target.metaId);
+        const expanded: Record<string, boolean> = {};
+        for (let parentId = target.parentId; parentId && !(parentId in expanded); parentId = byId.get(parentId)?.parentId) {
+          expanded[parentId] = false;
+        }
+        setCollapsedById(prev => ({ ...prev, ...expanded }));
+        setFocusedTaskId(target.id);
+      }
+    }
+  }
+
+  // Scroll hasta lo enfocado (tras pintar el nuevo layout)
+  useEffect(() => {
+    if (!handledFocus) return;
+    const frame = requestAnimationFrame(() => {
+      const el = handledFocus.kind === "task"
+        ? nodeRefsMap.current.get(handledFocus.id)
+        : metaChipRefs.current.get(handledFocus.id);
+      el?.scrollIntoView({ block: "center", inline: "nearest", behavior: "smooth" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [handledFocus]);
+
+  useEffect(() => {
+    if (!focusedTaskId) return;
+    const timer = setTimeout(() => setFocusedTaskId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedTaskId]);
+
   // Seleccionar primera meta
   useEffect(() => {
     if (!selectedMetaId && metas.length > 0) {
@@ -884,7 +937,6 @@ export default function TaskDiagramTree({
     setEditingTaskId(task.data.id);
     setEditingData({ ...task.data });
     setEditError(null);
-    setUndoStack(prev => [...prev.slice(-10), { kind: "update", taskId: task.data.id, data: { ...task.data } }]);
   }, []);
 
   const saveChanges = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
@@ -1131,12 +1183,8 @@ export default function TaskDiagramTree({
   }, [selectedMetaId, tasks, onCreateTask]);
 
   const softDeleteTask = useCallback(async (task: TaskRow) => {
-    // Guardar snapshot antes de borrar
-    const prevData = { ...task.data };
-    const entry: UndoEntry = { kind: "delete", taskId: task.data.id, prev: prevData };
-    
-    // Aplicar soft delete en Supabase
-    const result = await onDeleteTask(task.data.id);
+    // Aplicar soft delete (queda en el historial para deshacer)
+    const result = await historyGroup(DELETE_UNDO_LABEL, () => onDeleteTask(task.data.id));
     
     if (!result.success) {
       // Si falla, mostrar error y NO eliminar de UI
@@ -1144,9 +1192,8 @@ export default function TaskDiagramTree({
       return;
     }
     
-    // Éxito: agregar al undoStack y mostrar toast
-    setUndoStack(prev => [...prev.slice(-10), entry]);
-    setUndoToast({ entry, expiresAt: Date.now() + 5000 });
+    // Éxito: mostrar toast
+    setUndoToast({ label: DELETE_UNDO_LABEL, expiresAt: Date.now() + 5000 });
     
     // Cerrar edición si estaba editando esta tarea
     if (editingTaskId === task.data.id) {
@@ -1154,25 +1201,7 @@ export default function TaskDiagramTree({
       setEditingData({});
     }
     setHoveredNodeId(null);
-  }, [onDeleteTask, editingTaskId]);
-
-  const handleUndo = useCallback(async () => {
-    if (undoStack.length === 0) return;
-    const last = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1));
-    
-    if (last.kind === "delete") {
-      // Restaurar tarea borrada (quitar deleted_at en Supabase)
-      const result = await onRestoreTask(last.taskId);
-      if (!result.success) {
-        alert(`Error al restaurar: ${result.error || "Error desconocido"}`);
-      }
-      setUndoToast(null); // Cerrar toast
-    } else {
-      // Restaurar datos anteriores (update)
-      await onUpdateTask(last.taskId, last.data);
-    }
-  }, [undoStack, onUpdateTask, onRestoreTask]);
+  }, [onDeleteTask, editingTaskId, historyGroup]);
 
   // Auto-close undo toast después de 5 segundos
   useEffect(() => {
@@ -1189,10 +1218,6 @@ export default function TaskDiagramTree({
   // Keyboard
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === "z") {
-        e.preventDefault();
-        handleUndo();
-      }
       if ((e.ctrlKey || e.metaKey) && e.key === "d" && editingTaskId) {
         e.preventDefault();
         const task = tasks.find(t => t.data.id === editingTaskId);
@@ -1201,7 +1226,7 @@ export default function TaskDiagramTree({
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [handleUndo, editingTaskId, tasks, duplicateTask]);
+  }, [editingTaskId, tasks, duplicateTask]);
 
   // Click outside
   useEffect(() => {
@@ -1421,27 +1446,33 @@ export default function TaskDiagramTree({
         const oldLevel = dragTask.data.level ?? 0;
         const levelDelta = newLevel - oldLevel;
 
-        // Primero actualizar la tarea raíz movida
-        await onUpdateTask(dragging.id, {
-          parentId: newParentId,
-          level: newLevel,
-          order: newOrder,
-        });
-
-        // Si hubo cambio de level, actualizar descendientes (solo su level, no parentId)
-        if (levelDelta !== 0) {
-          const subtreeIds = collectSubtreeIds(dragging.id);
-          // Excluir el root (ya actualizado)
-          const descendantIds = subtreeIds.filter(id => id !== dragging.id);
-          for (const childId of descendantIds) {
-            const childTask = tasks.find(t => t.data.id === childId);
-            if (childTask) {
-              const childOldLevel = childTask.data.level ?? 0;
-              const childNewLevel = childOldLevel + levelDelta;
-              await onUpdateTask(childId, { level: childNewLevel });
+        // Tarea y descendientes se deshacen como un solo movimiento: las
+        // actualizaciones se lanzan dentro del grupo y se esperan fuera
+        const updates = historyGroup("Mover tarea", () => {
+          // Primero actualizar la tarea raíz movida
+          const pending = [onUpdateTask(dragging.id, {
+            parentId: newParentId,
+            level: newLevel,
+            order: newOrder,
+          })];
+
+          // Si hubo cambio de level, actualizar descendientes (solo su level, no parentId)
+          if (levelDelta !== 0) {
+            const subtreeIds = collectSubtreeIds(dragging.id);
+            // Excluir el root (ya actualizado)
+            const descendantIds = subtreeIds.filter(id => id !== dragging.id);
+            for (const childId of descendantIds) {
+              const childTask = tasks.find(t => t.data.id === childId);
+              if (childTask) {
+                const childOldLevel = childTask.data.level ?? 0;
+                const childNewLevel = childOldLevel + levelDelta;
+                pending.push(onUpdateTask(childId, { level: childNewLevel }));
+              }
             }
           }
-        }
+          return pending;
+        });
+        await Promise.all(updates);
       }
     }
 
@@ -1452,7 +1483,7 @@ export default function TaskDiagramTree({
       suppressClickRef.current = false;
       didDragRef.current = false;
     }, 50);
-  }, [dragging, dragOver, selectedMetaId, tasks, startEdit, onUpdateTask, collapsedById, collectSubtreeIds]);
+  }, [dragging, dragOver, selectedMetaId, tasks, startEdit, onUpdateTask, collapsedById, collectSubtreeIds, historyGroup]);
 
   // Cancelar drag si pierde el puntero
   const handlePointerCancel = useCallback(() => {
@@ -1536,6 +1567,7 @@ export default function TaskDiagramTree({
               ${savingTaskId === data.id ? "opacity-60" : ""}
               ${isDropTarget && dropPosition === "inside" ? "border-blue-400 bg-blue-50 shadow-md" : ""}
               ${dragging?.id === data.id && !dragging.isDragActive ? "cursor-grabbing" : ""}
+              ${focusedTaskId === data.id ? "ring-2 ring-amber-400" : ""}
             `}
             style={{ width: node.w, minHeight: TASK_NODE_MIN_H }}
           >
@@ -1789,11 +1821,11 @@ export default function TaskDiagramTree({
                       // Mostrar fecha (o "Sin programar" / días semana / día mes)
                       const datePart = unscheduled
                         ? "Sin programar"
-                        : isWeekly
+                        : getAdvancedRecurrenceDisplay(data) ?? (isWeekly
                           ? ((data.extra?.weeklyDays as WeekdayCode[]) || []).join(" ") || "Semanal"
                           : isMontly
                             ? `Día ${data.extra?.monthlyDay || 1}`
-                            : formatDateShort(data.date) || formatDateShort(getTodayISO());
+                            : formatDateShort(data.date) || formatDateShort(getTodayISO()));
                       
                       // Para semanal, usar el popover de repeatDays en lugar del date picker
                       if (isWeekly) {
@@ -1973,6 +2005,17 @@ export default function TaskDiagramTree({
               >
                 ⧉
               </button>
+              {onSaveTaskTemplate && (
+                <button
+                  data-no-drag
+                  aria-label="Guardar como plantilla"
+                  title="Guardar como plantilla (con subtareas)"
+                  onClick={(e) => { e.stopPropagation(); onSaveTaskTemplate(data.id); }}
+                  className="w-7 h-7 rounded-md bg-transparent text-slate-500 hover:bg-slate-100 hover:text-slate-700 hover:ring-1 hover:ring-slate-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/40"
+                >
+                  ⎘
+                </button>
+              )}
               <button
                 data-no-drag
                 aria-label="Eliminar"
@@ -2073,6 +2116,29 @@ export default function TaskDiagramTree({
               </button>
             )}
             
+            {onInsertTemplate && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onInsertTemplate(selectedMeta.id); }}
+                className={`w-7 h-7 rounded-md bg-white/20 hover:bg-white/30 flex items-center justify-center text-sm transition-all ${
+                  isHovered ? "opacity-100" : "opacity-0 group-hover:opacity-100 md:opacity-0"
+                }`}
+                title="Añadir desde plantilla"
+              >
+                ⊕
+              </button>
+            )}
+            {onSaveMetaBlueprint && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onSaveMetaBlueprint(selectedMeta); }}
+                className={`w-7 h-7 rounded-md bg-white/20 hover:bg-white/30 flex items-center justify-center text-sm transition-all ${
+                  isHovered ? "opacity-100" : "opacity-0 group-hover:opacity-100 md:opacity-0"
+                }`}
+                title="Guardar meta como blueprint"
+              >
+                ⎘
+              </button>
+            )}
+
             <button
               onClick={(e) => { e.stopPropagation(); createRootTask(); }}
               className={`w-7 h-7 rounded-md bg-white/20 hover:bg-white/30 flex items-center justify-center text-base font-bold transition-colors ${isHovered ? "opacity-100" : "opacity-80"}`}
@@ -2577,6 +2643,8 @@ export default function TaskDiagramTree({
                 };
                 setEditingData(prev => ({ ...prev, extra: newExtra }));
                 debouncedSave();
+                // Al activar: permiso de notificaciones para avisar también en la web
+                if (newEnabled) requestReminderPermission();
               };
 
               // Handler para cambio de valor
@@ -2779,6 +2847,13 @@ export default function TaskDiagramTree({
                       {renderReminderBlock()}
                     </div>
                   )}
+
+                  {schedType !== "puntual" && getTaskRecurrence(data) && (
+                    <OccurrenceOverridesEditor
+                      task={data}
+                      onChange={(overrides) => updateExtra("occurrenceOverrides", overrides)}
+                    />
+                  )}
                 </>
               );
             })()}
@@ -3047,12 +3122,12 @@ export default function TaskDiagramTree({
         </div>
       )}
 
-      {/* Toast de undo (eliminar tarea) */}
-      {undoToast && (
+      {/* Toast de undo (eliminar tarea): solo mientras el borrado sea lo último del historial */}
+      {undoToast && undoLabel === undoToast.label && (
         <div className="fixed bottom-4 right-4 px-4 py-3 bg-orange-500 text-white text-sm rounded-lg shadow-lg flex items-center gap-3 z-50">
           <span>Tarea eliminada</span>
           <button
-            onClick={() => { handleUndo(); setUndoToast(null); }}
+            onClick={() => { undo(); setUndoToast(null); }}
             className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded text-sm font-medium transition-colors"
           >
             Deshacer
@@ -1,9 +1,12 @@
 "use client";
 
-import { useCallback, useRef, useEffect, useState } from "react";
+import { useCallback, useRef, useEffect, useState, useMemo } from "react";
 import type { TaskRow, TaskData, TaskType, TaskScope, Meta, BankAccount, ForecastLine, Label, UITaskType, Frequency } from "@/src/lib/types";
 import { TYPE_COLORS, UI_TYPE_MAPPING, getUIType, WEEKDAYS } from "@/src/lib/types";
-import { getTaskStatus, createTaskFromTemplate, generateTaskId, getRootTasksForMeta, getChildTasks, validateParentAssignment } from "@/src/lib/tasks";
+import { getTaskStatus, createTaskFromTemplate, generateTaskId, getRootTasksForMeta, getChildTasks, validateParentAssignment, getAdvancedRecurrenceDisplay, sanitizeTaskDataByType } from "@/src/lib/tasks";
+import { addDays } from "@/src/lib/recurrence";
+import { getTaskRecurrence, useSync } from "@/src/sync";
+import OccurrenceOverridesEditor from "./OccurrenceOverridesEditor";
 
 interface Props {
   tasks: TaskRow[];
@@ -13,14 +16,21 @@ interface Props {
   labels: Label[];
   onCreateTask: (taskData: TaskData) => Promise<{ success: boolean; error?: string }>;
   onUpdateTask: (id: string, taskData: Partial<TaskData>) => Promise<{ success: boolean; error?: string }>;
+  onDeleteTask: (id: string) => Promise<{ success: boolean; error?: string }>;
   onDuplicateTask: (task: TaskRow) => void;
   onOpenMetaModal: (meta: Meta | null) => void;
+  // Disposición de columnas (se guarda en el estado de UI sincronizado)
+  columnWidths: Record<string, number>;
+  columnOrder: string[];
+  onColumnsChange: (layout: { columnWidths: Record<string, number>; columnOrder: string[] }) => void;
 }
 
 const DRAFT_ID = "__draft__";
 
 // Columnas con anchos aproximados en caracteres -> px (1 char ≈ 8px)
-const COLUMNS: Array<{ key: string; label: string; width: number; frozen?: boolean }> = [
+type TableColumn = { key: string; label: string; width: number; frozen?: boolean };
+
+const COLUMNS: TableColumn[] = [
   { key: "status", label: "", width: 28 },          // Solo checkbox, sin texto
   { key: "meta", label: "Meta", width: 100, frozen: true },
   { key: "parent", label: "Asignar", width: 96 },
@@ -36,6 +46,19 @@ const COLUMNS: Array<{ key: string; label: string; width: number; frozen?: boole
   { key: "description", label: "Descripción", width: 200 },
 ];
 
+const MIN_COLUMN_WIDTH = 24;
+
+/**
+ * Columnas en el orden guardado y con los anchos guardados. Las claves que ya no
+ * existen se ignoran y las columnas nuevas van al final.
+ */
+function getLayoutColumns(columnWidths: Record<string, number>, columnOrder: string[]): TableColumn[] {
+  const rank = new Map(columnOrder.map((key, i) => [key, i]));
+  return [...COLUMNS]
+    .sort((a, b) => (rank.get(a.key) ?? Infinity) - (rank.get(b.key) ?? Infinity))
+    .map((col) => ({ ...col, width: Math.max(MIN_COLUMN_WIDTH, columnWidths[col.key] ?? col.width) }));
+}
+
 const UI_TYPES: UITaskType[] = ["Actividad", "Fisico", "Conocimiento", "Ingreso", "Gasto"];
 const FREQUENCIES: Array<{ value: Frequency | "SIN_FECHA"; label: string }> = [
   { value: "PUNTUAL", label: "Puntual" },
@@ -195,8 +218,12 @@ function normalizeTaskForSave(data: TaskData): { data: TaskData; error?: string
 
 export default function TaskTable({ 
   tasks, metas, bankAccounts, forecastLines, labels, 
-  onCreateTask, onUpdateTask, onDuplicateTask, onOpenMetaModal 
+  onCreateTask, onUpdateTask, onDeleteTask, onDuplicateTask, onOpenMetaModal,
+  columnWidths, columnOrder, onColumnsChange
 }: Props) {
+  // Cada acción en bloque es una sola entrada del historial global (Ctrl+Z)
+  const { historyGroup, undo, undoLabel } = useSync();
+
   const [draftData, setDraftData] = useState<TaskData>(() => createDraftData());
   const [editCell, setEditCell] = useState<{ rowId: string; col: string } | null>(null);
   const [editValue, setEditValue] = useState<string | number | boolean | string[]>("");
@@ -206,9 +233,26 @@ export default function TaskTable({
   // Para selector cascada de padre
   const [parentSelection, setParentSelection] = useState<string[]>([]);
 
+  // Tarea repetida cuyas ocurrencias se están editando (modal)
+  const [occurrencesTaskId, setOccurrencesTaskId] = useState<string | null>(null);
+
+  // Selección múltiple (ctrl/cmd-click alterna, shift-click rango desde el ancla)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [bulkShiftDays, setBulkShiftDays] = useState(1);
+  const [undoToast, setUndoToast] = useState<{ label: string; count: number; expiresAt: number } | null>(null);
+
   const inputRef = useRef<HTMLInputElement | null>(null);
   const selectRef = useRef<HTMLSelectElement | null>(null);
 
+  // Columnas: ancho provisional mientras se arrastra el borde y columna que se está moviendo
+  const [resizing, setResizing] = useState<{ key: string; startX: number; startWidth: number; width: number } | null>(null);
+  const [dragColumnKey, setDragColumnKey] = useState<string | null>(null);
+  const columns = useMemo(() => {
+    const layout = getLayoutColumns(columnWidths, columnOrder);
+    return resizing ? layout.map((c) => (c.key === resizing.key ? { ...c, width: resizing.width } : c)) : layout;
+  }, [columnWidths, columnOrder, resizing]);
+
   const allRows: Array<{ id: string; data: TaskData; isDraft: boolean }> = [
     ...tasks.map(t => ({ id: t.id, data: t.data, isDraft: false })),
     { id: DRAFT_ID, data: draftData, isDraft: true },
@@ -228,6 +272,16 @@ export default function TaskTable({
     }
   }, [editCell]);
 
+  // Escape cierra el modal de ocurrencias
+  useEffect(() => {
+    if (!occurrencesTaskId) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOccurrencesTaskId(null);
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [occurrencesTaskId]);
+
   // ========== CELL VALUE GETTERS ==========
 
   // Obtener fecha de hoy en formato ISO (YYYY-MM-DD)
@@ -266,13 +320,17 @@ export default function TaskTable({
       case "frequency": {
         const freq = data.extra?.frequency;
         if (isTaskUnscheduled(data)) return "Sin programar";
+        if (freq === "DIARIA") return "Diaria";
         if (freq === "SEMANAL") return "Semanal";
         if (freq === "MENSUAL") return "Mensual";
+        if (freq === "ANUAL") return "Anual";
         return "Puntual";
       }
       case "date": {
         const freq = data.extra?.frequency;
         if (isTaskUnscheduled(data)) return "-";
+        const advanced = getAdvancedRecurrenceDisplay(data);
+        if (advanced) return advanced;
         if (freq === "SEMANAL" && data.extra?.weeklyDays) {
           // weeklyDays ya es string[] ("L", "M", etc), mostrar directamente
           const days = normalizeWeeklyDays(data.extra.weeklyDays);
@@ -287,8 +345,10 @@ export default function TaskTable({
       case "time": {
         const freq = data.extra?.frequency;
         if (isTaskUnscheduled(data)) return "-";
+        if (freq === "DIARIA") return data.extra?.dailyTime || "";
         if (freq === "SEMANAL") return data.extra?.weeklyTime || "";
         if (freq === "MENSUAL") return data.extra?.monthlyTime || "";
+        if (freq === "ANUAL") return data.extra?.yearlyTime || "";
         return data.time || "";
       }
       case "points":
@@ -648,22 +708,22 @@ export default function TaskTable({
       closeEdit();
       
       // Navigate to next editable cell
-      const currentColIndex = COLUMNS.findIndex(c => c.key === col);
+      const currentColIndex = columns.findIndex(c => c.key === col);
       const currentRowIndex = allRows.findIndex(r => r.id === rowId);
       let nextColIndex = e.shiftKey ? currentColIndex - 1 : currentColIndex + 1;
       let nextRowIndex = currentRowIndex;
       
-      if (nextColIndex >= COLUMNS.length) {
+      if (nextColIndex >= columns.length) {
         nextColIndex = 0;
         nextRowIndex++;
       } else if (nextColIndex < 0) {
-        nextColIndex = COLUMNS.length - 1;
+        nextColIndex = columns.length - 1;
         nextRowIndex--;
       }
       
       if (nextRowIndex >= 0 && nextRowIndex < allRows.length) {
         const nextRow = allRows[nextRowIndex];
-        const nextCol = COLUMNS[nextColIndex].key;
+        const nextCol = columns[nextColIndex].key;
         if (isColumnEnabled(nextCol, nextRow.data.type, nextRow.data.scope)) {
           setTimeout(() => startEdit(nextRow.id, nextCol), 10);
         }
@@ -678,7 +738,7 @@ export default function TaskTable({
         if (taskRow) onDuplicateTask(taskRow);
       }
     }
-  }, [allRows, editValue, applyEdit, saveEdit, closeEdit, saveDraftAndCreateNew, tasks, onDuplicateTask, startEdit]);
+  }, [allRows, columns, editValue, applyEdit, saveEdit, closeEdit, saveDraftAndCreateNew, tasks, onDuplicateTask, startEdit]);
 
   const handleBlur = useCallback((rowId: string, col: string) => {
     const row = allRows.find(r => r.id === rowId);
@@ -695,6 +755,143 @@ export default function TaskTable({
     closeEdit();
   }, [allRows, editValue, applyEdit, saveEdit, closeEdit]);
 
+  // ========== SELECCIÓN MÚLTIPLE ==========
+
+  const selectedRows = tasks.filter(t => selectedIds.includes(t.id));
+
+  // Devuelve true si el click era de selección (no abre la edición)
+  const handleSelectClick = useCallback((e: React.MouseEvent, rowId: string): boolean => {
+    if (rowId === DRAFT_ID) return false;
+    if (e.shiftKey && selectionAnchorRef.current) {
+      const ids = tasks.map(t => t.id);
+      const from = ids.indexOf(selectionAnchorRef.current);
+      const to = ids.indexOf(rowId);
+      if (from !== -1 && to !== -1) {
+        const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelectedIds(prev => Array.from(new Set([...prev, ...range])));
+        return true;
+      }
+    }
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      selectionAnchorRef.current = rowId;
+      setSelectedIds(prev => prev.includes(rowId) ? prev.filter(id => id !== rowId) : [...prev, rowId]);
+      return true;
+    }
+    return false;
+  }, [tasks]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  }, []);
+
+  // Aplica `buildUpdates` a cada fila seleccionada (null = no aplica a esa fila)
+  const applyBulkUpdate = useCallback(async (
+    label: string,
+    buildUpdates: (data: TaskData) => Partial<TaskData> | null
+  ) => {
+    // Todas las filas en una entrada del historial: se lanzan dentro del grupo y se esperan fuera
+    const pending = historyGroup(label, () => selectedRows.flatMap(row => {
+      const updates = buildUpdates(row.data);
+      if (!updates) return [];
+      // Limpia los campos que dejan de aplicar si cambia tipo/scope
+      const next = sanitizeTaskDataByType({ ...row.data, ...updates }, row.data) as TaskData;
+      return [onUpdateTask(row.data.id, next).then(result => ({ row, result }))];
+    }));
+    let count = 0;
+    for (const { row, result } of await Promise.all(pending)) {
+      if (!result.success) {
+        setRowErrors(prev => ({ ...prev, [row.id]: result.error || "Error al guardar" }));
+        continue;
+      }
+      count++;
+    }
+    if (count > 0) setUndoToast({ label, count, expiresAt: Date.now() + 5000 });
+  }, [selectedRows, onUpdateTask, historyGroup]);
+
+  const handleBulkMeta = useCallback((metaId: string) => {
+    if (!metaId) return;
+    applyBulkUpdate("Cambiar meta", (data) => {
+      if (data.metaId === metaId) return null;
+      // El padre es de otra meta: la tarea pasa a raíz
+      const parent = data.parentId ? tasks.find(t => t.data.id === data.parentId) : undefined;
+      const keepParent = parent && parent.data.metaId === metaId;
+      return keepParent ? { metaId } : { metaId, parentId: undefined, level: 0 };
+    });
+  }, [applyBulkUpdate, tasks]);
+
+  const handleBulkType = useCallback((uiType: UITaskType) => {
+    const mapping = UI_TYPE_MAPPING[uiType];
+    if (!mapping) return;
+    applyBulkUpdate("Cambiar tipo", (data) => {
+      if (data.kind === "TITLE" || (data.type === mapping.type && data.scope === mapping.scope)) return null;
+      return parseEditToUpdates(data, "uiType", uiType);
+    });
+  }, [applyBulkUpdate, parseEditToUpdates]);
+
+  // Solo tareas puntuales con fecha (las repetidas tienen su editor de ocurrencias)
+  const handleBulkShiftDate = useCallback((days: number) => {
+    if (!days) return;
+    applyBulkUpdate("Mover fechas", (data) => {
+      if (!data.date || isTaskUnscheduled(data) || getTaskRecurrence(data)) return null;
+      return { date: addDays(data.date, days) };
+    });
+  }, [applyBulkUpdate]);
+
+  const handleBulkPoints = useCallback((points: number) => {
+    applyBulkUpdate("Cambiar puntos", (data) =>
+      isColumnEnabled("points", data.type, data.scope) && data.points !== points ? { points } : null
+    );
+  }, [applyBulkUpdate]);
+
+  const handleBulkAccount = useCallback((accountId: string) => {
+    applyBulkUpdate("Cambiar banco", (data) =>
+      isColumnEnabled("account", data.type, data.scope) && data.accountId !== (accountId || undefined)
+        ? { accountId: accountId || undefined }
+        : null
+    );
+  }, [applyBulkUpdate]);
+
+  const handleBulkComplete = useCallback(() => {
+    applyBulkUpdate("Marcar hechas", (data) => data.isCompleted ? null : { isCompleted: true });
+  }, [applyBulkUpdate]);
+
+  const handleBulkDelete = useCallback(async () => {
+    if (!confirm(`¿Eliminar ${selectedRows.length} tarea${selectedRows.length === 1 ? "" : "s"}?`)) return;
+    const label = "Eliminar tareas";
+    const pending = historyGroup(label, () =>
+      selectedRows.map(row => onDeleteTask(row.data.id).then(result => ({ row, result })))
+    );
+    let count = 0;
+    for (const { row, result } of await Promise.all(pending)) {
+      if (!result.success) {
+        setRowErrors(prev => ({ ...prev, [row.id]: result.error || "Error al eliminar" }));
+        continue;
+      }
+      count++;
+    }
+    if (count > 0) setUndoToast({ label, count, expiresAt: Date.now() + 5000 });
+    clearSelection();
+  }, [selectedRows, onDeleteTask, historyGroup, clearSelection]);
+
+  // Auto-close undo toast después de 5 segundos
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), Math.max(0, undoToast.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // Keyboard: Escape limpia la selección
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (e.key === "Escape") clearSelection();
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [clearSelection]);
+
   // ========== RENDER CELL ==========
 
   const renderEditCell = (row: { id: string; data: TaskData; isDraft: boolean }, col: string) => {
@@ -1140,10 +1337,14 @@ export default function TaskTable({
       }
     }
     
-    return (
+    const cell = (
       <div
-        onClick={() => startEdit(row.id, col)}
-        className={`w-full h-full px-1.5 flex items-center truncate cursor-text ${
+        onClick={(e) => {
+          if (handleSelectClick(e, row.id)) return;
+          if (selectedIds.length > 0) clearSelection();
+          startEdit(row.id, col);
+        }}
+        className={`w-full h-full px-1.5 flex items-center truncate cursor-text select-none ${
           CELL_LEVEL_CLASSES[level]
         } ${dateClass} ${
           !displayValue && row.isDraft ? "!text-slate-400 italic" : ""
@@ -1153,33 +1354,166 @@ export default function TaskTable({
         {finalDisplay || <span className="text-slate-300">—</span>}
       </div>
     );
+
+    // Fecha de una tarea repetida: acceso a los cambios por ocurrencia
+    if (col === "date" && !row.isDraft && getTaskRecurrence(data)) {
+      const overrideCount = Object.keys(data.extra?.occurrenceOverrides ?? {}).length;
+      return (
+        <div className="w-full h-full flex items-center">
+          <div className="flex-1 min-w-0 h-full">{cell}</div>
+          <button
+            type="button"
+            onClick={() => setOccurrencesTaskId(data.id)}
+            title="Editar ocurrencias"
+            className={`px-1 text-[11px] shrink-0 hover:text-blue-600 ${overrideCount > 0 ? "text-blue-500" : "text-slate-400"}`}
+          >
+            {overrideCount > 0 ? `±${overrideCount}` : "±"}
+          </button>
+        </div>
+      );
+    }
+
+    return cell;
+  };
+
+  // ========== COLUMNS ==========
+
+  const commitColumns = useCallback((widths: Record<string, number>, order: string[]) => {
+    onColumnsChange({ columnWidths: widths, columnOrder: order });
+  }, [onColumnsChange]);
+
+  // Redimensionar: el ancho se guarda una sola vez, al soltar
+  useEffect(() => {
+    if (!resizing) return;
+    const handleMove = (e: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, Math.round(resizing.startWidth + e.clientX - resizing.startX));
+      setResizing((prev) => (prev ? { ...prev, width } : prev));
+    };
+    const handleUp = () => {
+      setResizing(null);
+      commitColumns({ ...columnWidths, [resizing.key]: resizing.width }, columns.map((c) => c.key));
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+  }, [resizing, columnWidths, columns, commitColumns]);
+
+  const handleColumnDrop = (targetKey: string) => {
+    if (!dragColumnKey || dragColumnKey === targetKey) return;
+    const order = columns.map((c) => c.key).filter((key) => key !== dragColumnKey);
+    order.splice(order.indexOf(targetKey), 0, dragColumnKey);
+    setDragColumnKey(null);
+    commitColumns(columnWidths, order);
   };
 
   // ========== RENDER TABLE ==========
 
+  const occurrencesTask = occurrencesTaskId ? tasks.find(t => t.id === occurrencesTaskId)?.data : undefined;
+
   const getFrozenLeft = (colIndex: number): number => {
     let left = 0;
     for (let i = 0; i < colIndex; i++) {
-      if (COLUMNS[i].frozen) {
-        left += COLUMNS[i].width;
+      if (columns[i].frozen) {
+        left += columns[i].width;
       }
     }
     return left;
   };
 
+  const bulkSelectClass = "px-2 py-1 text-xs border border-slate-200 rounded-lg bg-white";
+
   return (
     <div className="flex-1 overflow-auto">
-      <table className="w-full border-collapse text-left" style={{ minWidth: COLUMNS.reduce((a, c) => a + c.width, 0) }}>
+      {/* Barra de acciones en bloque (con filas seleccionadas) */}
+      {selectedRows.length > 0 && (
+        <div className="sticky top-0 left-0 z-40 flex flex-wrap items-center gap-2 px-3 py-2 bg-blue-50 border-b border-blue-200 text-xs">
+          <span className="font-semibold text-blue-800">
+            {selectedRows.length} seleccionada{selectedRows.length === 1 ? "" : "s"}
+          </span>
+          <select value="" onChange={(e) => handleBulkMeta(e.target.value)} className={bulkSelectClass}>
+            <option value="">Meta...</option>
+            {metas.map(m => (
+              <option key={m.id} value={m.id}>{m.title}</option>
+            ))}
+          </select>
+          <select value="" onChange={(e) => e.target.value && handleBulkType(e.target.value as UITaskType)} className={bulkSelectClass}>
+            <option value="">Tipo...</option>
+            {UI_TYPES.map(t => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={bulkShiftDays}
+              onChange={(e) => setBulkShiftDays(parseInt(e.target.value) || 0)}
+              className={`${bulkSelectClass} w-14`}
+              title="Días (negativo = antes)"
+            />
+            <button
+              type="button"
+              onClick={() => handleBulkShiftDate(bulkShiftDays)}
+              className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-slate-600 hover:bg-slate-50"
+            >
+              Mover días
+            </button>
+          </div>
+          <select value="" onChange={(e) => e.target.value && handleBulkPoints(parseInt(e.target.value))} className={bulkSelectClass}>
+            <option value="">Pts...</option>
+            {Array.from({ length: 10 }, (_, i) => i + 1).map(p => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+          <select value="" onChange={(e) => handleBulkAccount(e.target.value === "__NONE__" ? "" : e.target.value)} className={bulkSelectClass}>
+            <option value="">Banco...</option>
+            <option value="__NONE__">Sin banco</option>
+            {bankAccounts.map(a => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleBulkComplete}
+            className="px-2 py-1 border border-green-300 rounded-lg bg-white text-green-700 hover:bg-green-50"
+          >
+            Marcar hechas
+          </button>
+          <button
+            type="button"
+            onClick={handleBulkDelete}
+            className="px-2 py-1 border border-red-300 rounded-lg bg-white text-red-600 hover:bg-red-50"
+          >
+            Eliminar
+          </button>
+          <button
+            type="button"
+            onClick={clearSelection}
+            className="ml-auto px-2 py-1 text-slate-500 hover:text-slate-700"
+          >
+            Deseleccionar
+          </button>
+        </div>
+      )}
+
+      <table className="w-full border-collapse text-left" style={{ minWidth: columns.reduce((a, c) => a + c.width, 0) }}>
         <thead className="sticky top-0 z-20">
           <tr className="bg-slate-50 border-b-2 border-slate-200">
-            {COLUMNS.map((col, i) => {
+            {columns.map((col, i) => {
               const level = COLUMN_VISUAL_LEVEL[col.key] || 3;
               return (
                 <th
                   key={col.key}
-                  className={`px-1.5 py-2 uppercase tracking-wide border-r border-slate-200 ${
+                  draggable={!resizing}
+                  onDragStart={() => setDragColumnKey(col.key)}
+                  onDragEnd={() => setDragColumnKey(null)}
+                  onDragOver={(e) => dragColumnKey && e.preventDefault()}
+                  onDrop={() => handleColumnDrop(col.key)}
+                  className={`relative px-1.5 py-2 uppercase tracking-wide border-r border-slate-200 cursor-grab ${
                     HEADER_LEVEL_CLASSES[level]
-                  } ${col.frozen ? "sticky z-30 bg-slate-50" : ""}`}
+                  } ${col.frozen ? "sticky z-30 bg-slate-50" : ""} ${dragColumnKey === col.key ? "opacity-50" : ""}`}
                   style={{
                     width: col.width,
                     minWidth: col.width,
@@ -1188,6 +1522,15 @@ export default function TaskTable({
                   }}
                 >
                   {col.label}
+                  {/* Borde para redimensionar */}
+                  <div
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      setResizing({ key: col.key, startX: e.clientX, startWidth: col.width, width: col.width });
+                    }}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                  />
                 </th>
               );
             })}
@@ -1198,6 +1541,8 @@ export default function TaskTable({
             const bgColor = row.isDraft ? "rgba(59, 130, 246, 0.05)" : TYPE_COLORS[row.data.type] || "transparent";
             const error = rowErrors[row.id];
             const level = row.data.level || 0;
+            const isSelected = selectedIds.includes(row.id);
+            const rowBg = isSelected ? "#dbeafe" : bgColor;
 
             return (
               <tr
@@ -1205,9 +1550,9 @@ export default function TaskTable({
                 className={`border-b border-slate-100 hover:bg-slate-50/50 transition-colors ${
                   error ? "bg-red-50/50" : ""
                 }`}
-                style={{ backgroundColor: error ? undefined : bgColor, height: 32 }}
+                style={{ backgroundColor: error ? undefined : rowBg, height: 32 }}
               >
-                {COLUMNS.map((col, i) => (
+                {columns.map((col, i) => (
                   <td
                     key={col.key}
                     className={`border-r border-slate-100 ${col.frozen ? "sticky z-10" : ""}`}
@@ -1216,7 +1561,7 @@ export default function TaskTable({
                       minWidth: col.width,
                       maxWidth: col.width,
                       left: col.frozen ? getFrozenLeft(i) : undefined,
-                      backgroundColor: col.frozen ? (row.isDraft ? "rgba(59, 130, 246, 0.05)" : (error ? "#fef2f2" : bgColor)) : undefined,
+                      backgroundColor: col.frozen ? (row.isDraft ? "rgba(59, 130, 246, 0.05)" : (error ? "#fef2f2" : rowBg)) : undefined,
                       paddingLeft: col.key === "title" ? level * 12 + 4 : undefined,
                     }}
                   >
@@ -1245,6 +1590,54 @@ export default function TaskTable({
         </div>
       ))}
 
+      {occurrencesTask && (
+        <div
+          className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+          onClick={() => setOccurrencesTaskId(null)}
+        >
+          <div
+            className="bg-white w-full max-w-lg rounded-xl border border-slate-200 shadow-lg p-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-lg font-semibold text-slate-800 mb-1">Ocurrencias</h3>
+            <p className="text-xs text-slate-500 mb-4 truncate">
+              {occurrencesTask.title} · {getAdvancedRecurrenceDisplay(occurrencesTask) ?? getCellValue(occurrencesTask, "date")}
+            </p>
+            <OccurrenceOverridesEditor
+              task={occurrencesTask}
+              defaultOpen
+              onChange={(occurrenceOverrides) =>
+                onUpdateTask(occurrencesTask.id, { extra: { ...(occurrencesTask.extra || {}), occurrenceOverrides } })
+              }
+            />
+            {/* Footer - botones alineados a la derecha */}
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                type="button"
+                onClick={() => setOccurrencesTaskId(null)}
+                className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Cerrar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Toast de undo (acción en bloque, mientras sea lo último del historial) */}
+      {undoToast && undoLabel === undoToast.label && (
+        <div className="fixed bottom-4 right-4 px-4 py-3 bg-orange-500 text-white text-sm rounded-lg shadow-lg flex items-center gap-3 z-50">
+          <span>{undoToast.label} ({undoToast.count})</span>
+          <button
+            onClick={() => { undo(); setUndoToast(null); }}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded text-sm font-medium transition-colors"
+          >
+            Deshacer
+          </button>
+          <span className="text-xs text-white/70">Ctrl+Z</span>
+        </div>
+      )}
+
       {saving && (
         <div className="fixed bottom-4 left-4 px-3 py-2 bg-slate-800 text-white text-xs rounded shadow-lg z-50">
           Guardando...
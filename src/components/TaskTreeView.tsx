@@ -3,7 +3,7 @@
 import { useCallback, useRef, useEffect, useState, useMemo } from "react";
 import type { TaskRow, TaskData, TaskExtra, TaskType, TaskScope, Meta, BankAccount, ForecastLine, Label, Frequency } from "@/src/lib/types";
 import { getUIType, SCORING_CATEGORY_TO_SCOPE } from "@/src/lib/types";
-import { generateTaskId, createTaskFromTemplate } from "@/src/lib/tasks";
+import { generateTaskId, createTaskFromTemplate, getAdvancedRecurrenceDisplay } from "@/src/lib/tasks";
 
 // ==================== TIPOS ====================
 
@@ -59,6 +59,10 @@ function getScheduleType(data: TaskData): ScheduleType {
 
 function getScheduleDisplay(data: TaskData): string {
   const schedType = getScheduleType(data);
+  if (schedType !== "sin_programar") {
+    const advanced = getAdvancedRecurrenceDisplay(data);
+    if (advanced) return advanced;
+  }
   
   switch (schedType) {
     case "sin_programar":
@@ -194,7 +198,6 @@ export default function TaskTreeView({
   const [editingData, setEditingData] = useState<Partial<TaskData>>({});
   const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
   const [savingTaskId, setSavingTaskId] = useState<string | null>(null);
-  const [undoStack, setUndoStack] = useState<{ taskId: string; data: TaskData }[]>([]);
 
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
@@ -229,8 +232,6 @@ export default function TaskTreeView({
   const startEdit = useCallback((task: TaskRow, focusSchedule?: boolean) => {
     setEditingTaskId(task.data.id);
     setEditingData({ ...task.data });
-    // Guardar estado para undo
-    setUndoStack(prev => [...prev.slice(-10), { taskId: task.data.id, data: { ...task.data } }]);
   }, []);
 
   const closeEdit = useCallback(async () => {
@@ -407,25 +408,7 @@ export default function TaskTreeView({
     }
   }, [tasks, onUpdateTask]);
 
-  // Undo
-  const handleUndo = useCallback(async () => {
-    if (undoStack.length === 0) return;
-    const last = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1));
-    await onUpdateTask(last.taskId, last.data);
-  }, [undoStack, onUpdateTask]);
-
-  // Keyboard handler
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === "z") {
-        e.preventDefault();
-        handleUndo();
-      }
-    };
-    window.addEventListener("keydown", handler);
-    return () => window.removeEventListener("keydown", handler);
-  }, [handleUndo]);
+  // Deshacer (Ctrl+Z): historial global del sync, ver HistoryShortcuts
 
   // Click outside to close
   useEffect(() => {
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { Meta, TaskTemplate, TemplateTask } from "@/src/lib/types";
+import { getTemplateSpanDays } from "@/src/lib/templates";
+
+// Destino de las tareas: meta existente o una nueva (null)
+export interface UseTemplateTarget {
+  startDate: string;
+  metaId: string | null;
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  templates: TaskTemplate[];
+  metas: Meta[];
+  defaultMetaId?: string | null;   // meta desde la que se abrió (insertar plantilla)
+  onUse: (template: TaskTemplate, target: UseTemplateTarget) => void;
+  onDelete: (templateId: string) => void;
+}
+
+const NEW_META = "__new__";
+
+function getTodayISO(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+// Profundidad de cada tarea dentro de la plantilla (para sangrar la vista previa)
+function getDepths(tasks: TemplateTask[]): Map<string, number> {
+  const parentByRef = new Map(tasks.map((t) => [t.ref, t.parentRef]));
+  const depths = new Map<string, number>();
+  for (const task of tasks) {
+    let depth = 0;
+    let parent = task.parentRef;
+    while (parent && depth < tasks.length) {
+      depth++;
+      parent = parentByRef.get(parent) ?? null;
+    }
+    depths.set(task.ref, depth);
+  }
+  return depths;
+}
+
+/**
+ * Biblioteca de plantillas: elegir una, el día de inicio y la meta (nueva o existente).
+ */
+export default function TemplateLibraryModal({ open, onClose, ...props }: Props) {
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  // Se monta en cada apertura: selección y fecha empiezan de cero
+  return <TemplateLibraryContent onClose={onClose} {...props} />;
+}
+
+function TemplateLibraryContent({ onClose, templates, metas, defaultMetaId, onUse, onDelete }: Omit<Props, "open">) {
+  const sortedTemplates = useMemo(
+    () => [...templates].sort((a, b) => a.name.localeCompare(b.name, "es")),
+    [templates]
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(sortedTemplates[0]?.id ?? null);
+  const [startDate, setStartDate] = useState(getTodayISO);
+  const [target, setTarget] = useState<string | null>(null); // null = destino por defecto de la plantilla
+
+  const selected = sortedTemplates.find((t) => t.id === selectedId) ?? null;
+  const depths = useMemo(() => (selected ? getDepths(selected.tasks) : new Map<string, number>()), [selected]);
+
+  // Blueprint: meta nueva; plantilla de tareas: la meta desde la que se abrió
+  const defaultTarget = selected?.meta || !defaultMetaId ? NEW_META : defaultMetaId;
+  const effectiveTarget = target ?? defaultTarget;
+
+  const selectTemplate = (templateId: string) => {
+    setSelectedId(templateId);
+    setTarget(null);
+  };
+
+  const handleDelete = (template: TaskTemplate) => {
+    if (!window.confirm(`¿Eliminar la plantilla "${template.name}"?`)) return;
+    onDelete(template.id);
+    if (template.id === selectedId) setSelectedId(null);
+  };
+
+  const handleUse = () => {
+    if (!selected || !startDate) return;
+    onUse(selected, { startDate, metaId: effectiveTarget === NEW_META ? null : effectiveTarget });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-3xl max-h-[85vh] flex flex-col rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Plantillas</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Guarda una tarea con sus subtareas (⎘ en la tarea) o una meta completa (⎘ en la meta) y reutilízala
+          con otra fecha de inicio.
+        </p>
+
+        {sortedTemplates.length === 0 ? (
+          <div className="text-sm text-slate-500 py-10 text-center">Aún no hay plantillas guardadas.</div>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            {/* Lista */}
+            <ul className="w-60 shrink-0 overflow-y-auto space-y-1">
+              {sortedTemplates.map((template) => {
+                const spanDays = getTemplateSpanDays(template);
+                return (
+                  <li key={template.id}>
+                    <button
+                      type="button"
+                      onClick={() => selectTemplate(template.id)}
+                      className={`w-full text-left px-2 py-1.5 rounded-lg border text-sm ${
+                        template.id === selectedId
+                          ? "border-blue-300 bg-blue-50"
+                          : "border-transparent hover:bg-slate-50"
+                      }`}
+                    >
+                      <div className="flex items-center gap-1.5">
+                        <span className="truncate text-slate-700 flex-1">{template.name}</span>
+                        {template.meta && (
+                          <span className="px-1.5 py-0.5 text-[10px] rounded bg-purple-50 text-purple-600 shrink-0">Meta</span>
+                        )}
+                      </div>
+                      <div className="text-[11px] text-slate-400">
+                        {template.tasks.length} tarea{template.tasks.length !== 1 ? "s" : ""}
+                        {spanDays !== null && ` · ${spanDays} día${spanDays !== 1 ? "s" : ""}`}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Detalle */}
+            {selected ? (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-start gap-2 mb-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-800 truncate">{selected.name}</div>
+                    {selected.description && <div className="text-xs text-slate-500">{selected.description}</div>}
+                    {selected.meta && (
+                      <div className="text-xs text-slate-500">
+                        Meta: {selected.meta.title}
+                        {selected.meta.targetDayOffset !== undefined && ` · objetivo día ${selected.meta.targetDayOffset + 1}`}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(selected)}
+                    className="text-xs text-slate-400 hover:text-red-600 shrink-0"
+                  >
+                    Eliminar
+                  </button>
+                </div>
+
+                <ul className="overflow-y-auto flex-1 border border-slate-200 rounded-lg divide-y divide-slate-100">
+                  {selected.tasks.map((task) => (
+                    <li
+                      key={task.ref}
+                      className="px-2 py-1 text-xs flex items-center gap-2"
+                      style={{ paddingLeft: 8 + (depths.get(task.ref) ?? 0) * 16 }}
+                    >
+                      <span
+                        className={`flex-1 truncate ${task.data.kind === "TITLE" ? "font-semibold text-slate-700" : "text-slate-600"}`}
+                      >
+                        {task.data.title || "(sin título)"}
+                      </span>
+                      <span className="text-slate-400 shrink-0">
+                        {task.dayOffset !== null ? `Día ${task.dayOffset + 1}` : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="flex gap-2 items-center mt-3">
+                  <label className="text-xs text-slate-600 shrink-0">Inicio</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="px-2 py-1 text-xs border border-slate-200 rounded-lg"
+                  />
+                  <label className="text-xs text-slate-600 shrink-0 ml-2">En</label>
+                  <select
+                    value={effectiveTarget}
+                    onChange={(e) => setTarget(e.target.value)}
+                    className="px-2 py-1 text-xs border border-slate-200 rounded-lg flex-1 min-w-0"
+                  >
+                    <option value={NEW_META}>
+                      Nueva meta ({selected.meta?.title ?? selected.name})
+                    </option>
+                    {metas.map((meta) => (
+                      <option key={meta.id} value={meta.id}>
+                        {meta.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-400">Elige una plantilla</div>
+            )}
+          </div>
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cerrar
+          </button>
+          <button
+            type="button"
+            onClick={handleUse}
+            disabled={!selected || !startDate}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-40"
+          >
+            Usar plantilla
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
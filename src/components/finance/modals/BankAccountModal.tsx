@@ -8,8 +8,8 @@ interface BankAccountModalProps {
   mode: "create" | "edit";
   accountId?: string | null;
   onClose: () => void;
-  onCreated: (account: BankAccountFull) => void;
-  onUpdated: (account: BankAccountFull) => void;
+  onCreated?: (account: BankAccountFull) => void;
+  onUpdated?: (account: BankAccountFull) => void;
   onDeleted?: (accountId: string) => void;
   createAccount: (draft: { name: string; type: "PERSONAL" | "SOCIEDAD"; balance: number }) => Promise<{ data?: BankAccountFull; error?: string | null }>;
   updateAccount: (id: string, patch: { name: string; type: "PERSONAL" | "SOCIEDAD"; balance: number }) => Promise<{ error?: string | null }>;
@@ -113,7 +113,7 @@ export function BankAccountModal({
         }
 
         if (result.data) {
-          onCreated(result.data);
+          onCreated?.(result.data);
         }
         onClose();
         return true;
@@ -130,7 +130,7 @@ export function BankAccountModal({
           return false;
         }
 
-        onUpdated({
+        onUpdated?.({
           id: accountId,
           name: trimmedName,
           type: draftType,
@@ -150,7 +150,7 @@ export function BankAccountModal({
 
   // Delete handler
   const handleDelete = useCallback(async () => {
-    if (!accountId || !deleteAccount || !onDeleted) return;
+    if (!accountId || !deleteAccount) return;
 
     const confirmed = window.confirm("¿Eliminar esta cuenta bancaria? Esta acción no se puede deshacer.");
     if (!confirmed) return;
@@ -166,7 +166,7 @@ export function BankAccountModal({
         return;
       }
 
-      onDeleted(accountId);
+      onDeleted?.(accountId);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Error al eliminar");
@@ -285,7 +285,7 @@ export function BankAccountModal({
         {/* Footer - botones alineados a la derecha */}
         <div className="flex justify-end gap-2 mt-6">
           {/* Botón Eliminar - solo en modo edit */}
-          {mode === "edit" && deleteAccount && onDeleted && (
+          {mode === "edit" && deleteAccount && (
             <button
               type="button"
               onClick={handleDelete}
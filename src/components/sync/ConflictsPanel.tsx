@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useSync, buildDataPayload, type ConflictSide, type EntityKey, type SyncConflict } from "@/src/sync";
+
+interface ConflictsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Partial<Record<EntityKey, string>> = {
+  tasks: "Tarea",
+  metas: "Meta",
+  bankAccounts: "Cuenta bancaria",
+  incomeForecastLines: "Previsión",
+  financeMovements: "Movimiento",
+  taskTemplates: "Plantilla",
+  uiSettings: "Ajustes de agenda",
+};
+
+// Campos de control que no aportan nada en el diff
+const DIFF_IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "schemaVersion"]);
+
+// ==================== HELPERS ====================
+
+/**
+ * Aplana el payload normalizado a rutas con punto ("extra.quantity").
+ * Los arrays se muestran como valor atómico.
+ */
+function flattenPayload(value: unknown, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (!prefix && DIFF_IGNORED_FIELDS.has(key)) continue;
+      flattenPayload(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function getConflictTitle(conflict: SyncConflict): string {
+  const item = (conflict.local ?? conflict.remote) as unknown as Record<string, unknown>;
+  const title = item.title ?? item.name ?? item.concept;
+  return typeof title === "string" && title.trim() ? title : conflict.itemId;
+}
+
+function isConflictPath(path: string, fields: string[]): boolean {
+  return fields.some((f) => path === f || path.startsWith(`${f}.`));
+}
+
+// ==================== COMPONENT ====================
+
+export function ConflictsPanel({ open, onClose }: ConflictsPanelProps) {
+  const { conflicts, resolveConflict } = useSync();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Elección por campo de cada conflicto (por defecto "local")
+  const [choicesById, setChoicesById] = useState<Record<string, Record<string, ConflictSide>>>({});
+  const [resolving, setResolving] = useState(false);
+
+  const selected = conflicts.find((c) => c.id === selectedId) ?? conflicts[0] ?? null;
+
+  const choices: Record<string, ConflictSide> = selected
+    ? Object.fromEntries(selected.fields.map((f) => [f, choicesById[selected.id]?.[f] ?? "local"]))
+    : {};
+
+  const setChoice = (field: string, side: ConflictSide) => {
+    if (!selected) return;
+    setChoicesById((prev) => ({ ...prev, [selected.id]: { ...prev[selected.id], [field]: side } }));
+  };
+
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  // Diff sobre los payloads normalizados (lo que realmente viaja a Supabase)
+  const diffRows = useMemo(() => {
+    if (!selected) return [];
+    const local = flattenPayload(buildDataPayload(selected.entityKey, selected.local));
+    const remote = flattenPayload(buildDataPayload(selected.entityKey, selected.remote));
+    // "deleted" no viaja en el payload: se muestra aparte si es lo que choca
+    if (selected.fields.includes("deleted")) {
+      local.deleted = !!selected.local.deleted;
+      remote.deleted = !!selected.remote.deleted;
+    }
+    const paths = Array.from(new Set([...Object.keys(local), ...Object.keys(remote)])).sort();
+    return paths.map((path) => ({
+      path,
+      local: local[path],
+      remote: remote[path],
+      isConflict: isConflictPath(path, selected.fields),
+      isDifferent: formatValue(local[path]) !== formatValue(remote[path]),
+    }));
+  }, [selected]);
+
+  if (!open) return null;
+
+  const setAll = (side: ConflictSide) => {
+    if (!selected) return;
+    setChoicesById((prev) => ({ ...prev, [selected.id]: Object.fromEntries(selected.fields.map((f) => [f, side])) }));
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+    setResolving(true);
+    try {
+      await resolveConflict(selected.id, choices);
+      setSelectedId(null);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-4xl max-h-[85vh] flex flex-col rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">
+          Conflictos de sincronización ({conflicts.length})
+        </h3>
+
+        {conflicts.length === 0 ? (
+          <div className="text-sm text-slate-500 py-8 text-center">No hay conflictos pendientes.</div>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            {/* Lista de conflictos */}
+            <ul className="w-56 shrink-0 overflow-y-auto border-r border-slate-200 pr-2 space-y-1">
+              {conflicts.map((conflict) => (
+                <li key={conflict.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(conflict.id)}
+                    className={`w-full text-left px-2 py-1.5 rounded-lg text-sm transition-colors ${
+                      selected?.id === conflict.id
+                        ? "bg-blue-50 text-blue-700"
+                        : "text-slate-700 hover:bg-slate-50"
+                    }`}
+                  >
+                    <div className="text-xs text-slate-400">{ENTITY_LABELS[conflict.entityKey] ?? conflict.entityKey}</div>
+                    <div className="truncate">{getConflictTitle(conflict)}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff lado a lado */}
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs text-slate-500">
+                    Detectado {new Date(selected.detectedAt).toLocaleString("es-ES")}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setAll("local")}
+                      className="px-2 py-1 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50"
+                    >
+                      Todo local
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setAll("remote")}
+                      className="px-2 py-1 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50"
+                    >
+                      Todo remoto
+                    </button>
+                  </div>
+                </div>
+
+                <div className="overflow-y-auto flex-1 border border-slate-200 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                      <tr>
+                        <th className="text-left px-2 py-1 font-medium">Campo</th>
+                        <th className="text-left px-2 py-1 font-medium">Local</th>
+                        <th className="text-left px-2 py-1 font-medium">Remoto</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diffRows.map((row) => {
+                        const field = selected.fields.find((f) => row.path === f || row.path.startsWith(`${f}.`));
+                        const side = field ? choices[field] : null;
+                        return (
+                          <tr
+                            key={row.path}
+                            className={`border-t border-slate-100 ${
+                              row.isConflict ? "bg-amber-50" : row.isDifferent ? "" : "text-slate-400"
+                            }`}
+                          >
+                            <td className="px-2 py-1 font-mono align-top">{row.path}</td>
+                            {(["local", "remote"] as const).map((s) => (
+                              <td key={s} className="px-2 py-1 align-top break-all">
+                                {field ? (
+                                  <label className="flex items-start gap-1 cursor-pointer">
+                                    <input
+                                      type="radio"
+                                      name={`choice-${field}`}
+                                      checked={side === s}
+                                      onChange={() => setChoice(field, s)}
+                                    />
+                                    <span className={side === s ? "font-medium text-slate-800" : "text-slate-500"}>
+                                      {formatValue(row[s])}
+                                    </span>
+                                  </label>
+                                ) : (
+                                  formatValue(row[s])
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+            disabled={resolving}
+          >
+            Cerrar
+          </button>
+          {selected && (
+            <button
+              type="button"
+              onClick={handleResolve}
+              disabled={resolving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {resolving ? "Resolviendo..." : "Resolver y sincronizar"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
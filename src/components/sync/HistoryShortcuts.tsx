@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSync } from "@/src/sync";
+
+/**
+ * Atajos globales del historial: Ctrl+Z deshace, Ctrl+Shift+Z / Ctrl+Y rehace.
+ * Dentro de un campo de texto se deja el deshacer nativo del navegador.
+ * Tras deshacer/rehacer muestra un aviso con la acción contraria.
+ */
+export function HistoryShortcuts() {
+  const { undo, redo, undoLabel, redoLabel } = useSync();
+  const [toast, setToast] = useState<{ kind: "undo" | "redo"; label: string; expiresAt: number } | null>(null);
+
+  const handleUndo = useCallback(() => {
+    const label = undo();
+    if (label) setToast({ kind: "undo", label, expiresAt: Date.now() + 4000 });
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const label = redo();
+    if (label) setToast({ kind: "redo", label, expiresAt: Date.now() + 4000 });
+  }, [redo]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName) || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [handleUndo, handleRedo]);
+
+  // Auto-close del aviso
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), Math.max(0, toast.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  if (!toast) return null;
+
+  const canReverse = toast.kind === "undo" ? redoLabel !== null : undoLabel !== null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-3 bg-slate-800 text-white text-sm rounded-lg shadow-lg flex items-center gap-3">
+      <span>
+        {toast.kind === "undo" ? "Deshecho" : "Rehecho"}: {toast.label}
+      </span>
+      {canReverse && (
+        <button
+          onClick={toast.kind === "undo" ? handleRedo : handleUndo}
+          className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded text-sm font-medium transition-colors"
+        >
+          {toast.kind === "undo" ? "Rehacer" : "Deshacer"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSync, formatSchemaIssues, type EntityKey } from "@/src/sync";
+
+interface SyncDiagnosticsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Partial<Record<EntityKey, string>> = {
+  tasks: "Tarea",
+  metas: "Meta",
+  bankAccounts: "Cuenta bancaria",
+  incomeForecastLines: "Previsión",
+  financeMovements: "Movimiento",
+  taskTemplates: "Plantilla",
+  uiSettings: "Ajustes de agenda",
+  nutritionQuickItems: "Nutrición",
+};
+
+const DIRECTION_LABELS = {
+  pull: "Recibido (no aplicado)",
+  push: "Local (no subido)",
+} as const;
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString("es-ES") : "—";
+}
+
+// ==================== COMPONENT ====================
+
+/**
+ * Estado del sync y rows en cuarentena (rechazados por el esquema).
+ */
+export function SyncDiagnosticsPanel({ open, onClose }: SyncDiagnosticsPanelProps) {
+  const {
+    quarantined,
+    discardQuarantined,
+    pendingCount,
+    lastSyncAt,
+    lastError,
+    realtimeStatus,
+    tabRole,
+    isOnline,
+  } = useSync();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const status: Array<[string, string]> = [
+    ["Conexión", isOnline ? "En línea" : "Sin conexión"],
+    ["Pestaña", tabRole === "leader" ? "Líder" : tabRole === "follower" ? "Seguidora" : "—"],
+    ["Realtime", realtimeStatus],
+    ["Pendientes", String(pendingCount)],
+    ["Último sync", formatDate(lastSyncAt)],
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-3xl max-h-[85vh] flex flex-col rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Diagnóstico de sincronización</h3>
+
+        {/* Estado */}
+        <dl className="grid grid-cols-2 sm:grid-cols-5 gap-2 mb-3">
+          {status.map(([label, value]) => (
+            <div key={label} className="border border-slate-200 rounded-lg px-2 py-1.5">
+              <dt className="text-xs text-slate-400">{label}</dt>
+              <dd className="text-sm text-slate-700 truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {lastError && (
+          <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-2 py-1.5 mb-3 break-all">
+            {lastError}
+          </div>
+        )}
+
+        {/* Cuarentena */}
+        <h4 className="text-sm font-medium text-slate-700 mb-2">
+          En cuarentena ({quarantined.length})
+        </h4>
+        {quarantined.length === 0 ? (
+          <div className="text-sm text-slate-500 py-6 text-center">No hay datos inválidos.</div>
+        ) : (
+          <ul className="overflow-y-auto flex-1 space-y-2">
+            {quarantined.map((row) => (
+              <li key={row.id} className="border border-slate-200 rounded-lg p-2 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs text-slate-400">
+                      {ENTITY_LABELS[row.entityKey] ?? row.entityKey} · {DIRECTION_LABELS[row.direction]} ·{" "}
+                      {formatDate(row.detectedAt)}
+                    </div>
+                    <div className="font-mono text-xs text-slate-600 truncate">{row.itemId}</div>
+                    <div className="text-xs text-red-600 mt-1">{formatSchemaIssues(row.issues)}</div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expandedId === row.id ? null : row.id)}
+                      className="px-2 py-1 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50"
+                    >
+                      {expandedId === row.id ? "Ocultar" : "Ver datos"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => discardQuarantined(row.id)}
+                      className="px-2 py-1 text-xs border border-red-300 rounded-lg text-red-600 hover:bg-red-50"
+                    >
+                      Descartar
+                    </button>
+                  </div>
+                </div>
+                {expandedId === row.id && (
+                  <pre className="mt-2 p-2 bg-slate-50 rounded text-xs text-slate-700 overflow-x-auto">
+                    {JSON.stringify(row.data, null, 2)}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useSync } from "@/src/sync";
+import { ConflictsPanel } from "./ConflictsPanel";
+import { SyncDiagnosticsPanel } from "./SyncDiagnosticsPanel";
+
+/**
+ * Indicador flotante del estado del sync (sincronizando, pendientes, offline, conflictos).
+ * Al pulsarlo abre el panel de conflictos; los datos en cuarentena tienen su propio
+ * indicador que abre el panel de diagnóstico.
+ */
+export function SyncStatusIndicator() {
+  const { isSyncing, isOnline, pendingCount, conflicts, quarantined, lastError } = useSync();
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+  const closePanel = useCallback(() => setPanelOpen(false), []);
+  const closeDiagnostics = useCallback(() => setDiagnosticsOpen(false), []);
+
+  let label: string | null = null;
+  let className = "";
+  if (conflicts.length > 0) {
+    label = `${conflicts.length} conflicto${conflicts.length === 1 ? "" : "s"}`;
+    className = "bg-amber-100 text-amber-800 border-amber-300";
+  } else if (!isOnline) {
+    label = pendingCount > 0 ? `Sin conexión · ${pendingCount} pendientes` : "Sin conexión";
+    className = "bg-slate-100 text-slate-600 border-slate-300";
+  } else if (isSyncing) {
+    label = "Sincronizando...";
+    className = "bg-blue-50 text-blue-700 border-blue-200";
+  } else if (pendingCount > 0) {
+    label = `${pendingCount} pendientes`;
+    className = "bg-blue-50 text-blue-700 border-blue-200";
+  }
+
+  // Todo sincronizado: no molestar
+  if (!label && quarantined.length === 0) return null;
+
+  return (
+    <>
+      <div className="fixed bottom-4 right-4 z-40 flex gap-2">
+        {quarantined.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setDiagnosticsOpen(true)}
+            className="px-3 py-1.5 text-xs font-medium rounded-full border shadow-sm transition-colors bg-red-50 text-red-700 border-red-200"
+          >
+            {quarantined.length} inválido{quarantined.length === 1 ? "" : "s"}
+          </button>
+        )}
+        {label && (
+          <button
+            type="button"
+            onClick={() => setPanelOpen(true)}
+            title={lastError ?? undefined}
+            className={`px-3 py-1.5 text-xs font-medium rounded-full border shadow-sm transition-colors ${className}`}
+          >
+            {label}
+          </button>
+        )}
+      </div>
+      <ConflictsPanel open={panelOpen} onClose={closePanel} />
+      <SyncDiagnosticsPanel open={diagnosticsOpen} onClose={closeDiagnostics} />
+    </>
+  );
+}
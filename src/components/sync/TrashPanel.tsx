@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  useSync,
+  collectRestoreSet,
+  TRASH_RETENTION_DAYS,
+  type TrashItem,
+  type TrashEntityKey,
+} from "@/src/sync";
+
+interface TrashPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<TrashEntityKey, string> = {
+  tasks: "Tarea",
+  metas: "Meta",
+  bankAccounts: "Cuenta bancaria",
+  incomeForecastLines: "Previsión",
+};
+
+function getItemTitle(item: TrashItem): string {
+  const entity = item.entity as unknown as { title?: string; name?: string };
+  return entity.title || entity.name || "(sin título)";
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString("es-ES");
+}
+
+// ==================== COMPONENT ====================
+
+/**
+ * Papelera: items borrados en los últimos días, con restauración y vaciado.
+ */
+export function TrashPanel({ open, onClose }: TrashPanelProps) {
+  // Escape key handler
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  // Se monta en cada apertura: la papelera se vuelve a pedir al servidor
+  return <TrashPanelContent onClose={onClose} />;
+}
+
+function TrashPanelContent({ onClose }: { onClose: () => void }) {
+  const { loadTrash, restoreFromTrash, emptyTrash } = useSync();
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTrash().then((result) => {
+      if (cancelled) return;
+      setItems(result.data);
+      setError(result.error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadTrash]);
+
+  const handleRestore = (item: TrashItem) => {
+    const restoreSet = collectRestoreSet(item, items ?? []);
+    restoreFromTrash(restoreSet);
+    const restored = new Set(restoreSet.map((x) => `${x.entityKey}:${x.id}`));
+    setItems((prev) => (prev ?? []).filter((x) => !restored.has(`${x.entityKey}:${x.id}`)));
+  };
+
+  const handleEmpty = async () => {
+    if (!items || items.length === 0) return;
+    if (!confirm(`¿Eliminar definitivamente ${items.length} elemento${items.length === 1 ? "" : "s"}? No se podrán restaurar.`)) {
+      return;
+    }
+    const result = await emptyTrash(items);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setItems([]);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-2xl max-h-[85vh] flex flex-col rounded-xl border border-slate-200 shadow-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Papelera</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Elementos borrados en los últimos {TRASH_RETENTION_DAYS} días. Restaurar una meta restaura también sus tareas.
+        </p>
+
+        {error && (
+          <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-2 py-1.5 mb-3 break-all">
+            {error}
+          </div>
+        )}
+
+        {items === null ? (
+          <div className="text-sm text-slate-400 py-6 text-center">Cargando...</div>
+        ) : items.length === 0 ? (
+          <div className="text-sm text-slate-500 py-6 text-center">La papelera está vacía.</div>
+        ) : (
+          <ul className="overflow-y-auto flex-1 space-y-2">
+            {items.map((item) => (
+              <li
+                key={`${item.entityKey}:${item.id}`}
+                className="border border-slate-200 rounded-lg p-2 text-sm flex items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-xs text-slate-400">
+                    {ENTITY_LABELS[item.entityKey]} · {formatDate(item.deletedAt)}
+                  </div>
+                  <div className="text-slate-700 truncate">{getItemTitle(item)}</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRestore(item)}
+                  className="px-2 py-1 text-xs border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 shrink-0"
+                >
+                  Restaurar
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Footer - botones alineados a la derecha */}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={handleEmpty}
+            disabled={!items || items.length === 0}
+            className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            Vaciar papelera
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { supabase } from "./supabaseClient";
+import { CALENDAR_FEED_SETTINGS_ID } from "./ics";
+
+/**
+ * Token del feed .ics (/api/calendar/<token>.ics).
+ *
+ * Se guarda en app_settings (id='__CALENDAR_FEED__', un row por usuario) para
+ * que el servidor resuelva el usuario sin sesión de Supabase. Regenerar el
+ * token invalida la URL anterior; revocarlo desactiva el feed.
+ */
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function getUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getUser();
+  return data?.user?.id ?? null;
+}
+
+/**
+ * URL de suscripción para un token.
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${window.location.origin}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Token actual del usuario (null si el feed no está activo).
+ */
+export async function fetchCalendarFeedToken(): Promise<{ data: string | null; error: string | null }> {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: "No autenticado" };
+
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("data")
+    .eq("id", CALENDAR_FEED_SETTINGS_ID)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) return { data: null, error: error.message };
+  const token = data?.data?.token;
+  return { data: typeof token === "string" ? token : null, error: null };
+}
+
+/**
+ * Revoca el token actual (la URL deja de funcionar).
+ */
+export async function revokeCalendarFeedToken(): Promise<{ error: string | null }> {
+  const userId = await getUserId();
+  if (!userId) return { error: "No autenticado" };
+
+  const { error } = await supabase
+    .from("app_settings")
+    .delete()
+    .eq("id", CALENDAR_FEED_SETTINGS_ID)
+    .eq("user_id", userId);
+
+  return { error: error?.message ?? null };
+}
+
+/**
+ * Crea un token nuevo sustituyendo al anterior.
+ */
+export async function rotateCalendarFeedToken(): Promise<{ data: string | null; error: string | null }> {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: "No autenticado" };
+
+  const revoked = await revokeCalendarFeedToken();
+  if (revoked.error) return { data: null, error: revoked.error };
+
+  const token = generateFeedToken();
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("app_settings").insert({
+    id: CALENDAR_FEED_SETTINGS_ID,
+    user_id: userId,
+    data: { token, createdAt: now },
+    client_updated_at: now,
+  });
+
+  if (error) return { data: null, error: error.message };
+  return { data: token, error: null };
+}
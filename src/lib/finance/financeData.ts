@@ -18,8 +18,6 @@ export interface ForecastTypeState {
 export interface ForecastMonthState {
   INGRESO?: ForecastTypeState;
   GASTO?: ForecastTypeState;
-  expected?: number;
-  base?: number;
 }
 
 export type ForecastMonths = Record<string, ForecastMonthState>;
@@ -126,10 +124,6 @@ export function getMonthExpected(
     if (typeof typeState.expected === "number") return typeState.expected;
     if (typeof typeState.base === "number") return typeState.base;
   }
-  if (line.type === type) {
-    if (typeof m.expected === "number") return m.expected;
-    if (typeof m.base === "number") return m.base;
-  }
   return 0;
 }
 
@@ -144,10 +138,6 @@ export function getMonthBase(
   if (typeState) {
     if (typeof typeState.base === "number") return typeState.base;
   }
-  // Legacy fallback
-  if (line.type === type) {
-    if (typeof m.base === "number") return m.base;
-  }
   return 0;
 }
 
@@ -1,4 +1,5 @@
-import type { BankAccountFull, ForecastLineFull, ForecastMonths, ForecastTypeState } from "./financeData";
+import type { BankAccountFull, FinanceMovement, ForecastLineFull, ForecastMonths, ForecastTypeState } from "./financeData";
+import { getSchemaVersion, migrateData, SCHEMA_VERSION_FIELD } from "@/src/sync/migrations";
 type ForecastMonthState = {
   INGRESO?: ForecastTypeState;
   GASTO?: ForecastTypeState;
@@ -37,8 +38,9 @@ export function normalizeBankAccountForDbWeb(acc: Partial<BankAccountFull> & { i
       balance,
       createdAt: acc.createdAt || now,
       updatedAt: now,
+      [SCHEMA_VERSION_FIELD]: getSchemaVersion("bankAccounts"),
     },
-    ["id", "name", "type", "order", "balance", "createdAt", "updatedAt"]
+    ["id", "name", "type", "order", "balance", "createdAt", "updatedAt", SCHEMA_VERSION_FIELD]
   );
 }
 
@@ -94,14 +96,69 @@ export function normalizeForecastSourceForDbWeb(line: Partial<ForecastLineFull>
     months: normalizedMonths,
     createdAt: line.createdAt || now,
     updatedAt: now,
+    [SCHEMA_VERSION_FIELD]: getSchemaVersion("incomeForecastLines"),
   };
 
   // Eliminar type siempre y limpiar null/undefined/objetos vacíos
   delete (payload as any).type;
-  const cleaned = cleanObject(payload, ["id", "name", "order", "enabledTypes", "createdAt", "updatedAt"]);
+  const cleaned = cleanObject(payload, ["id", "name", "order", "enabledTypes", "createdAt", "updatedAt", SCHEMA_VERSION_FIELD]);
   if (parentId) cleaned.parentId = parentId;
   if (normalizedMonths) cleaned.months = normalizedMonths;
 
   return cleaned;
 }
 
+
+// ==================== HYDRATE (DB -> WEB) ====================
+
+// Los nombres de campo legacy se resuelven en las migraciones (src/sync/migrations)
+
+type Timestamps = { createdAt?: string; updatedAt?: string };
+
+export function hydrateBankAccountFromDbWeb(id: string, raw: Record<string, unknown>): BankAccountFull & Timestamps {
+  const data = migrateData("bankAccounts", raw);
+  return {
+    id,
+    name: (data.name as string) || id,
+    type: data.type as "PERSONAL" | "SOCIEDAD" | undefined,
+    balance: typeof data.balance === "number" ? data.balance : 0,
+    order: typeof data.order === "number" ? data.order : 0,
+    createdAt: data.createdAt as string | undefined,
+    updatedAt: data.updatedAt as string | undefined,
+  };
+}
+
+export function hydrateForecastSourceFromDbWeb(id: string, raw: Record<string, unknown>): ForecastLineFull & Timestamps {
+  const data = migrateData("incomeForecastLines", raw);
+  return {
+    id,
+    name: (data.name as string) || id,
+    type: (data.type as string) === "GASTO" ? "GASTO" : "INGRESO",
+    parentId: (data.parentId as string) || null,
+    months: (data.months as ForecastMonths) || undefined,
+    enabledTypes: (data.enabledTypes as { INGRESO?: boolean; GASTO?: boolean }) || undefined,
+    order: typeof data.order === "number" ? data.order : undefined,
+    createdAt: data.createdAt as string | undefined,
+    updatedAt: data.updatedAt as string | undefined,
+  };
+}
+
+export function hydrateFinanceMovementFromDbWeb(id: string, raw: Record<string, unknown>): FinanceMovement & Timestamps {
+  const data = migrateData("financeMovements", raw);
+  const dateRaw = data.date;
+  const date = typeof dateRaw === "string" && dateRaw.length >= 10 ? dateRaw.slice(0, 10) : new Date().toISOString().slice(0, 10);
+  const forecastId = data.forecastId;
+
+  return {
+    id,
+    date,
+    concept: (data.concept as string) ?? "Sin concepto",
+    amount: typeof data.amount === "number" ? data.amount : 0,
+    type: data.type as "INGRESO" | "GASTO",
+    accountId: data.accountId as string | undefined,
+    forecastId: forecastId ? String(forecastId) : undefined,
+    note: data.description as string | undefined,
+    createdAt: data.createdAt as string | undefined,
+    updatedAt: data.updatedAt as string | undefined,
+  };
+}
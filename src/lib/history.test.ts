@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getHistoryState,
+  recordHistoryChange,
+  runHistoryGroup,
+  setHistoryUser,
+  takeRedoEntry,
+  takeUndoEntry,
+} from "./history";
+import type { HistoryChange } from "./history";
+
+let users = 0;
+
+function edit(id: string, before: string | null, after: string | null, entityKey: HistoryChange["entityKey"] = "tasks"): HistoryChange {
+  return {
+    entityKey,
+    id,
+    before: before === null ? null : { id, title: before },
+    after: after === null ? null : { id, title: after },
+  };
+}
+
+const labels = () => getHistoryState().undo.map((e) => e.label);
+
+describe("history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-01T12:00:00Z"));
+    // Usuario nuevo = historial vacío
+    setHistoryUser(`u${++users}`);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("fusión de ediciones seguidas", () => {
+    it("el mismo item antes de 1,5 s: una entrada con el primer before y el último after", () => {
+      recordHistoryChange(edit("t1", "a", "ab"));
+      vi.advanceTimersByTime(1000);
+      recordHistoryChange(edit("t1", "ab", "abc"));
+      vi.advanceTimersByTime(1000); // cuenta desde la última edición
+      recordHistoryChange(edit("t1", "abc", "abcd"));
+
+      const { undo } = getHistoryState();
+      expect(undo).toHaveLength(1);
+      expect(undo[0].changes).toEqual([edit("t1", "a", "abcd")]);
+    });
+
+    it("no se funden: pasado el plazo, otro item, otra acción o un grupo", () => {
+      recordHistoryChange(edit("t1", "a", "b"));
+      vi.advanceTimersByTime(1500);
+      recordHistoryChange(edit("t1", "b", "c"));
+      recordHistoryChange(edit("t2", "a", "b"));
+      recordHistoryChange(edit("t2", null, "b")); // Crear, no Editar
+      runHistoryGroup("Renombrar", () => recordHistoryChange(edit("t2", "b", "c")));
+      runHistoryGroup("Renombrar", () => recordHistoryChange(edit("t2", "c", "d")));
+
+      expect(labels()).toEqual(["Editar tarea", "Editar tarea", "Editar tarea", "Crear tarea", "Renombrar"]);
+    });
+
+    it("los cambios que solo tocan updatedAt no se registran", () => {
+      recordHistoryChange({
+        entityKey: "metas",
+        id: "m1",
+        before: { id: "m1", title: "x", updatedAt: "1" },
+        after: { id: "m1", title: "x", updatedAt: "2" },
+      });
+      expect(getHistoryState().undo).toEqual([]);
+    });
+  });
+
+  describe("runHistoryGroup", () => {
+    it("agrupa las mutaciones (también las anidadas) en una entrada con la etiqueta exterior", () => {
+      const result = runHistoryGroup("Reordenar", () => {
+        recordHistoryChange(edit("t1", "a", "b"));
+        runHistoryGroup("Interior", () => recordHistoryChange(edit("m1", "a", "b", "metas")));
+        recordHistoryChange(edit("t1", "b", "c"));
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      const { undo } = getHistoryState();
+      expect(undo.map((e) => e.label)).toEqual(["Reordenar"]);
+      expect(undo[0].changes).toEqual([edit("t1", "a", "c"), edit("m1", "a", "b", "metas")]);
+    });
+
+    it("si fn lanza, el grupo se cierra con lo que llegó a registrar", () => {
+      expect(() =>
+        runHistoryGroup("Falla", () => {
+          recordHistoryChange(edit("t1", "a", "b"));
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+      recordHistoryChange(edit("t2", "a", "b"));
+
+      expect(labels()).toEqual(["Falla", "Editar tarea"]);
+    });
+
+    it("fn asíncrona: el grupo se cierra al volver, no al terminar la promesa", async () => {
+      let resume!: () => void;
+      const pending = runHistoryGroup("Mover", async () => {
+        recordHistoryChange(edit("t1", "a", "b"));
+        await new Promise<void>((resolve) => (resume = resolve));
+        recordHistoryChange(edit("t2", "a", "b"));
+      });
+
+      // Mutación ajena mientras la promesa sigue pendiente: entrada propia
+      recordHistoryChange(edit("m1", "a", "b", "metas"));
+      expect(labels()).toEqual(["Mover", "Editar meta"]);
+
+      resume();
+      await pending;
+      const { undo } = getHistoryState();
+      expect(undo.map((e) => e.label)).toEqual(["Mover", "Editar meta", "Editar tarea"]);
+      expect(undo[0].changes).toEqual([edit("t1", "a", "b")]);
+    });
+
+    it("escrituras asíncronas lanzadas dentro y esperadas fuera: una entrada", async () => {
+      const write = async (change: HistoryChange) => {
+        recordHistoryChange(change);
+        return { success: true };
+      };
+      const results = await Promise.all(
+        runHistoryGroup("Eliminar tareas", () => [write(edit("t1", "a", null)), write(edit("t2", "a", null))])
+      );
+
+      expect(results).toHaveLength(2);
+      expect(getHistoryState().undo).toMatchObject([
+        { label: "Eliminar tareas", changes: [edit("t1", "a", null), edit("t2", "a", null)] },
+      ]);
+    });
+  });
+
+  describe("deshacer / rehacer", () => {
+    beforeEach(() => {
+      runHistoryGroup("Uno", () => recordHistoryChange(edit("t1", "a", "b")));
+      runHistoryGroup("Dos", () => recordHistoryChange(edit("t2", "a", "b")));
+      runHistoryGroup("Tres", () => recordHistoryChange(edit("t3", "a", "b")));
+    });
+
+    it("deshacer saca la última entrada y rehacer devuelve la última deshecha", () => {
+      expect(takeUndoEntry()?.label).toBe("Tres");
+      expect(takeUndoEntry()?.label).toBe("Dos");
+      expect(getHistoryState().redo.map((e) => e.label)).toEqual(["Tres", "Dos"]);
+
+      expect(takeRedoEntry()?.label).toBe("Dos");
+      expect(labels()).toEqual(["Uno", "Dos"]);
+      expect(takeRedoEntry()?.label).toBe("Tres");
+      expect(takeRedoEntry()).toBeNull();
+      expect(labels()).toEqual(["Uno", "Dos", "Tres"]);
+    });
+
+    it("una acción nueva vacía lo que se podía rehacer", () => {
+      takeUndoEntry();
+      recordHistoryChange(edit("t4", "a", "b"));
+
+      expect(getHistoryState().redo).toEqual([]);
+      expect(labels()).toEqual(["Uno", "Dos", "Editar tarea"]);
+    });
+
+    it("una edición tras deshacer no se funde con la entrada deshecha", () => {
+      recordHistoryChange(edit("t9", "a", "b"));
+      takeUndoEntry();
+      recordHistoryChange(edit("t9", "b", "c"));
+
+      expect(getHistoryState().undo.at(-1)?.changes).toEqual([edit("t9", "b", "c")]);
+    });
+
+    it("cambiar de usuario vacía el historial", () => {
+      setHistoryUser("otro");
+      expect(takeUndoEntry()).toBeNull();
+      expect(getHistoryState()).toEqual({ userId: "otro", undo: [], redo: [] });
+    });
+  });
+});
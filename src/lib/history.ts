@@ -0,0 +1,234 @@
+/**
+ * Historial de deshacer/rehacer compartido por agenda y finanzas.
+ *
+ * - Cada entrada guarda el estado anterior y posterior (snapshot) de las
+ *   entidades que cambió; deshacer vuelve a escribir `before` y rehacer `after`
+ *   a través del store del sync (upsert/delete), así que también llegan a Supabase
+ * - SyncContext registra aquí toda mutación local; runHistoryGroup agrupa varias
+ *   mutaciones en una sola entrada (acciones en bloque, reordenaciones...)
+ * - Vive en sessionStorage: sobrevive a recargar la pestaña pero no se comparte
+ *   entre pestañas ni entre usuarios
+ */
+
+export type HistoryEntityKey =
+  | "tasks"
+  | "metas"
+  | "bankAccounts"
+  | "incomeForecastLines"
+  | "financeMovements"
+  | "taskTemplates";
+
+// Estado completo de un item tal y como está en el store
+export type HistorySnapshot = { id: string } & Record<string, unknown>;
+
+export interface HistoryChange {
+  entityKey: HistoryEntityKey;
+  id: string;
+  before: HistorySnapshot | null;  // null = no existía (crear)
+  after: HistorySnapshot | null;   // null = borrado
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: number;
+  changes: HistoryChange[];
+}
+
+export interface HistoryState {
+  userId: string | null;
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+const STORAGE_KEY = "ingravital_history";
+const MAX_ENTRIES = 50;
+
+// Ediciones seguidas del mismo item (p.ej. escribir en un campo con autosave) se funden
+const COALESCE_MS = 1500;
+
+const ENTITY_NAMES: Record<HistoryEntityKey, string> = {
+  tasks: "tarea",
+  metas: "meta",
+  bankAccounts: "cuenta",
+  incomeForecastLines: "previsión",
+  financeMovements: "movimiento",
+  taskTemplates: "plantilla",
+};
+
+// Campos que cambian en cada escritura y no cuentan como cambio
+const VOLATILE_FIELDS = ["updatedAt"];
+
+const EMPTY_STATE: HistoryState = { userId: null, undo: [], redo: [] };
+
+// ==================== ESTADO ====================
+
+let state: HistoryState = EMPTY_STATE;
+let loaded = false;
+const listeners = new Set<() => void>();
+
+// Grupo abierto (runHistoryGroup): las mutaciones se acumulan hasta cerrarlo
+let group: { label: string; depth: number; changes: HistoryChange[] } | null = null;
+
+function load(): HistoryState {
+  if (loaded || typeof window === "undefined") return state;
+  loaded = true;
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "null");
+    if (parsed && Array.isArray(parsed.undo) && Array.isArray(parsed.redo)) {
+      state = { userId: parsed.userId ?? null, undo: parsed.undo, redo: parsed.redo };
+    }
+  } catch {
+    // sessionStorage corrupto o deshabilitado: historial vacío
+  }
+  return state;
+}
+
+function commit(next: HistoryState) {
+  state = next;
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Cuota llena: conservar solo la mitad más reciente
+    try {
+      const half = Math.floor(MAX_ENTRIES / 2);
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ ...next, undo: next.undo.slice(-half), redo: [] }));
+    } catch {
+      // Sin almacenamiento: el historial queda solo en memoria
+    }
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getHistoryState(): HistoryState {
+  return load();
+}
+
+export function getServerHistoryState(): HistoryState {
+  return EMPTY_STATE;
+}
+
+export function subscribeHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Asocia el historial al usuario actual; si cambia (u otro inicio de sesión), se vacía.
+ */
+export function setHistoryUser(userId: string | null) {
+  const current = load();
+  if (current.userId === userId) return;
+  commit({ userId, undo: [], redo: [] });
+}
+
+// ==================== REGISTRO ====================
+
+function stripVolatile(snapshot: HistorySnapshot | null): string {
+  if (!snapshot) return "null";
+  const copy: Record<string, unknown> = { ...snapshot };
+  for (const field of VOLATILE_FIELDS) delete copy[field];
+  return JSON.stringify(copy);
+}
+
+function isNoop(change: HistoryChange): boolean {
+  return stripVolatile(change.before) === stripVolatile(change.after);
+}
+
+// Fusiona un cambio en la lista: del mismo item se conserva el primer before y el último after
+function mergeChange(changes: HistoryChange[], change: HistoryChange): HistoryChange[] {
+  const index = changes.findIndex((c) => c.entityKey === change.entityKey && c.id === change.id);
+  if (index === -1) return [...changes, change];
+  const next = [...changes];
+  next[index] = { ...changes[index], after: change.after };
+  return next;
+}
+
+function describeChange(change: HistoryChange): string {
+  const name = ENTITY_NAMES[change.entityKey];
+  if (!change.before) return `Crear ${name}`;
+  if (!change.after) return `Eliminar ${name}`;
+  return `Editar ${name}`;
+}
+
+function pushEntry(label: string, changes: HistoryChange[]) {
+  const effective = changes.filter((c) => !isNoop(c));
+  if (effective.length === 0) return;
+
+  const current = load();
+  const now = Date.now();
+  const last = current.undo[current.undo.length - 1];
+  const canCoalesce =
+    last &&
+    effective.length === 1 &&
+    last.changes.length === 1 &&
+    last.label === label &&
+    last.changes[0].entityKey === effective[0].entityKey &&
+    last.changes[0].id === effective[0].id &&
+    now - last.createdAt < COALESCE_MS;
+
+  const undo = canCoalesce
+    ? [...current.undo.slice(0, -1), { ...last, createdAt: now, changes: mergeChange(last.changes, effective[0]) }]
+    : [...current.undo, { id: crypto.randomUUID(), label, createdAt: now, changes: effective }].slice(-MAX_ENTRIES);
+
+  // Una acción nueva invalida lo que se podía rehacer
+  commit({ ...current, undo, redo: [] });
+}
+
+/**
+ * Registra una mutación local (la llama SyncContext en cada upsert/delete).
+ */
+export function recordHistoryChange(change: HistoryChange) {
+  if (group) {
+    group.changes = mergeChange(group.changes, change);
+    return;
+  }
+  pushEntry(describeChange(change), [change]);
+}
+
+/**
+ * Ejecuta `fn` agrupando en una entrada con `label` las mutaciones que hace
+ * mientras se ejecuta. Solo la parte síncrona: el grupo se cierra al volver `fn`,
+ * así que si devuelve una promesa lo que ocurra tras su primer await (y
+ * cualquier mutación ajena mientras tanto) queda fuera del grupo. Para agrupar
+ * escrituras asíncronas, lanzarlas todas dentro y esperar las promesas fuera.
+ */
+export function runHistoryGroup<T>(label: string, fn: () => T): T {
+  const current = group ?? { label, depth: 0, changes: [] };
+  current.depth++;
+  group = current;
+
+  try {
+    return fn();
+  } finally {
+    current.depth--;
+    if (current.depth === 0) {
+      group = null;
+      pushEntry(current.label, current.changes);
+    }
+  }
+}
+
+// ==================== DESHACER / REHACER ====================
+
+/**
+ * Saca la última entrada de deshacer (pasa a rehacer). El llamador aplica los `before`.
+ */
+export function takeUndoEntry(): HistoryEntry | null {
+  const current = load();
+  const entry = current.undo[current.undo.length - 1];
+  if (!entry) return null;
+  commit({ ...current, undo: current.undo.slice(0, -1), redo: [...current.redo, entry].slice(-MAX_ENTRIES) });
+  return entry;
+}
+
+/**
+ * Saca la última entrada de rehacer (vuelve a deshacer). El llamador aplica los `after`.
+ */
+export function takeRedoEntry(): HistoryEntry | null {
+  const current = load();
+  const entry = current.redo[current.redo.length - 1];
+  if (!entry) return null;
+  commit({ ...current, undo: [...current.undo, entry].slice(-MAX_ENTRIES), redo: current.redo.slice(0, -1) });
+  return entry;
+}
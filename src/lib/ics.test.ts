@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendarFeed, parseCalendarEvents } from "./ics";
+import type { TaskData, TaskExtra } from "./types";
+
+const NOW = new Date("2025-03-01T12:00:00Z");
+
+function task(id: string, fields: Partial<TaskData>, extra: TaskExtra = {}): TaskData {
+  return {
+    id,
+    kind: "NORMAL",
+    title: "Tarea",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    ...fields,
+    extra: { frequency: "PUNTUAL", ...extra },
+  } as TaskData;
+}
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+// Líneas del VEVENT con ese UID
+function event(ics: string, uid: string): string[] {
+  const lines = unfold(ics);
+  const start = lines.indexOf(`UID:${uid}`);
+  expect(start).toBeGreaterThan(0);
+  return lines.slice(start, lines.indexOf("END:VEVENT", start));
+}
+
+describe("buildCalendarFeed", () => {
+  it("VCALENDAR con CRLF, DTSTAMP y solo las tareas con fecha", () => {
+    const ics = buildCalendarFeed(
+      [
+        task("a", { date: "2025-03-10" }),
+        task("b", { date: "2025-03-11", kind: "TITLE" }),
+        task("c", {}, { unscheduled: true }),
+      ],
+      { name: "Agenda", now: NOW }
+    );
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    expect(unfold(ics)).toContain("X-WR-CALNAME:Agenda");
+    expect(unfold(ics).filter((l) => l === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(event(ics, "a@ingravital")).toEqual(expect.arrayContaining([
+      "DTSTAMP:20250301T120000Z",
+      "DTSTART;VALUE=DATE:20250310",
+      "DURATION:P1D",
+    ]));
+  });
+
+  it("tarea con hora y aviso", () => {
+    const ics = buildCalendarFeed(
+      [task("a", { date: "2025-03-10", time: "09:30" }, { reminderEnabled: true, reminderOffsetUnit: "min", reminderOffsetValue: 15 })],
+      { now: NOW }
+    );
+    expect(event(ics, "a@ingravital")).toEqual(expect.arrayContaining([
+      "DTSTART:20250310T093000",
+      "DURATION:PT1H",
+      "BEGIN:VALARM",
+      "TRIGGER:-PT15M",
+    ]));
+  });
+
+  it("escapa texto según RFC 5545", () => {
+    const ics = buildCalendarFeed(
+      [task("a", { date: "2025-03-10", title: "Pan; leche, huevos \\ fruta", description: "Línea 1\nLínea 2" })],
+      { name: "Casa, oficina", now: NOW }
+    );
+    expect(unfold(ics)).toContain("X-WR-CALNAME:Casa\\, oficina");
+    expect(event(ics, "a@ingravital")).toEqual(expect.arrayContaining([
+      "SUMMARY:Pan\\; leche\\, huevos \\\\ fruta",
+      "DESCRIPTION:Línea 1\\nLínea 2",
+    ]));
+  });
+
+  it("pliega las líneas largas a 75 octetos sin partir caracteres", () => {
+    const title = "Revisión del año ñandú ".repeat(8).trim();
+    const ics = buildCalendarFeed([task("a", { date: "2025-03-10", title })], { now: NOW });
+    const physical = ics.split("\r\n");
+    const encoder = new TextEncoder();
+
+    expect(physical.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(physical.filter((line) => line.startsWith(" ")).length).toBeGreaterThan(1);
+    expect(physical.join("\r\n")).not.toContain("�");
+    expect(event(ics, "a@ingravital")).toContain(`SUMMARY:${title}`);
+  });
+
+  it("repetida: DTSTART en el ancla aunque sea excepción, y EXDATE", () => {
+    // Miércoles desde el 1 de enero, 3 veces, sin la primera: 8 y 15
+    const ics = buildCalendarFeed(
+      [task("a", {}, {
+        frequency: "SEMANAL",
+        weeklyDays: ["X"],
+        repeatStart: "2025-01-01",
+        repeatCount: 3,
+        exceptionDates: ["2025-01-01"],
+      })],
+      { now: NOW }
+    );
+    const lines = event(ics, "a@ingravital");
+
+    expect(lines).toContain("DTSTART;VALUE=DATE:20250101");
+    expect(lines).toContain("EXDATE;VALUE=DATE:20250101");
+    const rrule = lines.find((l) => l.startsWith("RRULE:"));
+    expect(rrule).toMatch(/FREQ=WEEKLY/);
+    expect(rrule).toMatch(/COUNT=3/);
+    expect(rrule).not.toMatch(/DTSTART|EXDATE|BYHOUR/);
+  });
+
+  it("repetida con hora: UNTIL y EXDATE con hora; movidas como eventos sueltos", () => {
+    const ics = buildCalendarFeed(
+      [task("a", {}, {
+        frequency: "SEMANAL",
+        weeklyDays: ["X"],
+        weeklyTime: "18:30",
+        repeatStart: "2025-01-01",
+        repeatUntil: "2025-01-29",
+        occurrenceOverrides: {
+          "2025-01-08": { skipped: true },
+          "2025-01-15": { date: "2025-01-16", notes: "Cambio de día" },
+        },
+      })],
+      { now: NOW }
+    );
+    const lines = event(ics, "a@ingravital");
+
+    expect(lines).toContain("DTSTART:20250101T183000");
+    expect(lines.find((l) => l.startsWith("RRULE:"))).toMatch(/UNTIL=20250129T235959/);
+    expect(lines).toContain("EXDATE:20250108T183000,20250115T183000");
+    expect(event(ics, "a-20250115@ingravital")).toEqual(expect.arrayContaining([
+      "DTSTART:20250116T183000",
+      "DESCRIPTION:Cambio de día",
+    ]));
+    expect(ics).not.toContain("a-20250108@ingravital");
+  });
+
+  it("sin inicio explícito el ancla es la fecha de creación", () => {
+    const ics = buildCalendarFeed(
+      [task("a", { createdAt: "2025-02-03T10:00:00.000Z" }, { frequency: "DIARIA", repeatInterval: 2 })],
+      { now: NOW }
+    );
+    expect(event(ics, "a@ingravital")).toContain("DTSTART;VALUE=DATE:20250203");
+  });
+});
+
+describe("parseCalendarEvents", () => {
+  const calendar = (...events: string[][]) =>
+    ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR"].join("\r\n");
+
+  it("deshace el plegado (espacio o tabulador, CRLF o LF) y el escapado", () => {
+    const text = calendar([
+      "UID:a",
+      "DTSTART;VALUE=DATE:20250310",
+      "SUMMARY:Reunión de equipo con un título",
+      "  que sigue\\, y sigue",
+      "\tal final; fin",
+      "DESCRIPTION:Línea 1\\nLínea 2 \\\\ ok",
+    ]).replace(/\r\n/g, "\n");
+    const [event] = parseCalendarEvents(text);
+
+    expect(event.summary).toBe("Reunión de equipo con un título que sigue, y sigueal final; fin");
+    expect(event.description).toBe("Línea 1\nLínea 2 \\ ok");
+  });
+
+  it("DTSTART de todo el día, flotante y con TZID", () => {
+    const events = parseCalendarEvents(calendar(
+      ["UID:dia", "DTSTART;VALUE=DATE:20250310"],
+      ["UID:flotante", "DTSTART:20250311T080000"],
+      ["UID:tzid", "DTSTART;TZID=Europe/Madrid:20250312T093000"],
+      ["UID:tzid-comillas", 'DTSTART;TZID="America/New_York":20250313T214500']
+    ));
+
+    expect(events.map((e) => [e.uid, e.start])).toEqual([
+      ["dia", { date: "2025-03-10" }],
+      ["flotante", { date: "2025-03-11", time: "08:00" }],
+      ["tzid", { date: "2025-03-12", time: "09:30" }],
+      ["tzid-comillas", { date: "2025-03-13", time: "21:45" }],
+    ]);
+  });
+
+  it("RRULE y EXDATE pasan a la repetición de la tarea", () => {
+    const [event] = parseCalendarEvents(calendar([
+      "UID:a",
+      "DTSTART;TZID=Europe/Madrid:20250310T070000",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250630T215959Z",
+      "EXDATE;TZID=Europe/Madrid:20250324T070000,20250326T070000",
+      "EXDATE;TZID=Europe/Madrid:20250407T070000",
+    ]));
+
+    expect(event.unsupportedRule).toBe(false);
+    expect(event.recurrence).toEqual({
+      frequency: "SEMANAL",
+      interval: 2,
+      weekdays: ["L", "X"],
+      start: "2025-03-10",
+      until: "2025-06-30",
+      time: "07:00",
+      exceptionDates: ["2025-03-24", "2025-03-26", "2025-04-07"],
+    });
+  });
+
+  it("mensual por posición y anual con COUNT", () => {
+    const [monthly, yearly] = parseCalendarEvents(calendar(
+      ["UID:m", "DTSTART;VALUE=DATE:20250131", "RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1"],
+      ["UID:y", "DTSTART;VALUE=DATE:20240229", "RRULE:FREQ=YEARLY;COUNT=3"]
+    ));
+
+    expect(monthly.recurrence).toMatchObject({ frequency: "MENSUAL", weekdays: ["V"], setPos: -1 });
+    expect(yearly.recurrence).toMatchObject({ frequency: "ANUAL", month: 2, monthDay: 29, count: 3 });
+  });
+
+  it("RRULE no soportada: sin repetición y marcada", () => {
+    const [event] = parseCalendarEvents(calendar(["UID:a", "DTSTART:20250310T070000", "RRULE:FREQ=HOURLY;INTERVAL=4"]));
+    expect(event.recurrence).toBeNull();
+    expect(event.unsupportedRule).toBe(true);
+  });
+
+  it("RECURRENCE-ID, aviso y eventos que se ignoran", () => {
+    const events = parseCalendarEvents(calendar(
+      [
+        "UID:a",
+        "DTSTART:20250310T070000",
+        "RRULE:FREQ=DAILY",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT2H",
+        "DESCRIPTION:aviso",
+        "END:VALARM",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT5M",
+        "END:VALARM",
+      ],
+      ["UID:a", "RECURRENCE-ID:20250312T070000", "DTSTART:20250312T090000"],
+      ["UID:cancelado", "DTSTART:20250310T070000", "STATUS:CANCELLED"],
+      ["DTSTART:20250310T070000", "SUMMARY:sin UID"],
+      ["UID:sin-inicio", "SUMMARY:sin DTSTART"]
+    ));
+
+    expect(events.map((e) => e.uid)).toEqual(["a", "a"]);
+    expect(events[0].reminder).toEqual({ unit: "hor", value: 2 });
+    expect(events[0].description).toBeUndefined();
+    expect(events[1]).toMatchObject({ recurrenceId: "2025-03-12", start: { date: "2025-03-12", time: "09:00" } });
+  });
+});
@@ -0,0 +1,358 @@
+import type { TaskData } from "./types";
+import { expandTaskOccurrences } from "./recurrence";
+import { getTaskRecurrence, parseRepeatRule, serializeRRule, type TaskRecurrence } from "../sync/normalizeTask";
+
+/**
+ * iCalendar (RFC 5545): exportación de las tareas para suscribirse desde
+ * Google Calendar / Outlook, y lectura de VEVENTs para importarlos (icsImport.ts).
+ *
+ * - Tarea puntual con fecha: un VEVENT (todo el día si no tiene hora)
+ * - Tarea repetida: un VEVENT con RRULE (misma regla que repeatRule) y EXDATE
+ *   para excepciones y ocurrencias saltadas; las ocurrencias movidas salen
+ *   como VEVENT sueltos
+ * - Aviso (reminderEnabled + offset): VALARM
+ * - Las horas son flotantes (sin zona): el cliente las muestra en su hora local
+ */
+
+const PRODID = "-//Ingravital//Agenda//ES";
+const UID_DOMAIN = "ingravital";
+const CRLF = "\r\n";
+
+// Duración de los eventos con hora (las tareas no tienen duración propia)
+const TIMED_EVENT_DURATION = "PT1H";
+
+// Límite de octetos por línea antes de plegar (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+// Row de app_settings con el token del feed (ver calendarFeed.ts)
+export const CALENDAR_FEED_SETTINGS_ID = "__CALENDAR_FEED__";
+
+export interface CalendarFeedOptions {
+  name?: string;
+  now?: Date;
+}
+
+/**
+ * VEVENT leído de un .ics. Las horas UTC se pasan a hora local; las flotantes
+ * y las de TZID se toman tal cual.
+ */
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: { date: string; time?: string };
+  recurrence: TaskRecurrence | null;
+  unsupportedRule: boolean;            // RRULE que la tarea no puede representar
+  recurrenceId?: string;               // YYYY-MM-DD: instancia modificada de otro evento
+  reminder?: { unit: "min" | "hor"; value: number };
+}
+
+// ==================== FORMATO ====================
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Pliega una línea en trozos de 75 octetos (continuación con espacio inicial)
+ * sin partir caracteres multibyte.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Las líneas de continuación empiezan por un espacio que también cuenta
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function formatDateTime(date: string, time: string): string {
+  return `${formatDate(date)}T${time.replace(":", "")}00`;
+}
+
+function formatUTC(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// DTSTART / EXDATE con el mismo tipo de valor (DATE o DATE-TIME flotante)
+function formatStart(property: string, date: string, time: string | null | undefined): string {
+  return time ? `${property}:${formatDateTime(date, time)}` : `${property};VALUE=DATE:${formatDate(date)}`;
+}
+
+// ==================== EVENTOS ====================
+
+function buildAlarm(task: TaskData): string[] {
+  const extra = task.extra;
+  if (!extra?.reminderEnabled) return [];
+  const value = Math.max(0, Math.round(extra.reminderOffsetValue ?? 0));
+  const unit = extra.reminderOffsetUnit === "hor" ? "H" : "M";
+  return [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(task.title)}`,
+    `TRIGGER:-PT${value}${unit}`,
+    "END:VALARM",
+  ];
+}
+
+function buildEvent(
+  task: TaskData,
+  uid: string,
+  date: string,
+  time: string | null | undefined,
+  dtstamp: string,
+  rule: string[] = [],
+  notes?: string
+): string[] {
+  const description = [task.description, notes].filter(Boolean).join("\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${dtstamp}`,
+    formatStart("DTSTART", date, time),
+    `DURATION:${time ? TIMED_EVENT_DURATION : "P1D"}`,
+    ...rule,
+    `SUMMARY:${escapeText(task.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(task.updatedAt ? [`LAST-MODIFIED:${formatUTC(new Date(task.updatedAt))}`] : []),
+    ...buildAlarm(task),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * RRULE de la repetición para un DTSTART del mismo tipo: sin DTSTART ni EXDATE
+ * (van aparte) ni BYHOUR/BYMINUTE (la hora va en DTSTART).
+ */
+function buildRRule(recurrence: TaskRecurrence, time: string | undefined): string {
+  const rrule = serializeRRule({ ...recurrence, start: undefined, time: undefined, exceptionDates: undefined });
+  // Con DTSTART DATE-TIME, UNTIL también debe serlo
+  return time ? rrule.replace(/UNTIL=(\d{8})\b/, "UNTIL=$1T235959") : rrule;
+}
+
+function buildRecurringEvents(task: TaskData, recurrence: TaskRecurrence, dtstamp: string): string[] {
+  // DTSTART = primera fecha de la regla desde su inicio (o la creación), aunque sea
+  // una excepción: va en EXDATE y así COUNT cuenta las mismas ocurrencias que aquí
+  const from = recurrence.start ?? task.createdAt?.slice(0, 10) ?? new Date().toISOString().split("T")[0];
+  const ruleOnly = { ...task.extra, exceptionDates: undefined, occurrenceOverrides: undefined };
+  const first = expandTaskOccurrences({ ...task, extra: ruleOnly }, from)[0];
+  if (!first) return [];
+
+  const time = recurrence.time;
+  const overrides = task.extra?.occurrenceOverrides ?? {};
+  const excluded = new Set(recurrence.exceptionDates ?? []);
+  for (const [originalDate, override] of Object.entries(overrides)) {
+    if (override.skipped || override.date || override.time) excluded.add(originalDate);
+  }
+
+  const rule = [buildRRule(recurrence, time)];
+  if (excluded.size > 0) {
+    const dates = Array.from(excluded).sort();
+    rule.push(
+      time
+        ? `EXDATE:${dates.map((d) => formatDateTime(d, time)).join(",")}`
+        : `EXDATE;VALUE=DATE:${dates.map(formatDate).join(",")}`
+    );
+  }
+
+  const lines = buildEvent(task, `${task.id}@${UID_DOMAIN}`, first.date, time, dtstamp, rule);
+
+  // Ocurrencias movidas o con otra hora: eventos sueltos
+  for (const [originalDate, override] of Object.entries(overrides)) {
+    if (override.skipped || (!override.date && !override.time)) continue;
+    lines.push(
+      ...buildEvent(
+        task,
+        `${task.id}-${formatDate(originalDate)}@${UID_DOMAIN}`,
+        override.date ?? originalDate,
+        override.time ?? time,
+        dtstamp,
+        [],
+        override.notes
+      )
+    );
+  }
+  return lines;
+}
+
+function buildTaskEvents(task: TaskData, dtstamp: string): string[] {
+  if (task.kind === "TITLE" || task.extra?.unscheduled) return [];
+
+  const recurrence = getTaskRecurrence(task);
+  if (recurrence) return buildRecurringEvents(task, recurrence, dtstamp);
+
+  if (!task.date) return [];
+  return buildEvent(task, `${task.id}@${UID_DOMAIN}`, task.date, task.time, dtstamp);
+}
+
+// ==================== API ====================
+
+/**
+ * Genera el .ics (VCALENDAR) con las tareas programadas y repetidas.
+ */
+export function buildCalendarFeed(tasks: TaskData[], options: CalendarFeedOptions = {}): string {
+  const dtstamp = formatUTC(options.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name ?? "Ingravital")}`,
+    ...tasks.flatMap((task) => buildTaskEvents(task, dtstamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+// ==================== LECTURA ====================
+
+type IcsProperty = { name: string; params: Record<string, string>; value: string };
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// Deshace el plegado de líneas y separa nombre, parámetros y valor
+function parseProperties(text: string): IcsProperty[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, "");
+  const properties: IcsProperty[] = [];
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const [key, value = ""] = param.split("=");
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+    }
+    properties.push({ name: name.toUpperCase(), params, value: line.slice(colon + 1) });
+  }
+  return properties;
+}
+
+/**
+ * "20261020" | "20261020T093000" | "20261020T083000Z" -> fecha y hora local.
+ */
+function parseDateTime(value: string): { date: string; time?: string } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (!hh) return { date: `${y}-${m}-${d}` };
+  if (!utc) return { date: `${y}-${m}-${d}`, time: `${hh}:${mm}` };
+
+  const local = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+    time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+  };
+}
+
+// Formato que entiende parseRepeatRule (sin zona: la hora ya es local)
+function toRuleDateTime(value: { date: string; time?: string }): string {
+  return value.time ? formatDateTime(value.date, value.time) : formatDate(value.date);
+}
+
+/**
+ * TRIGGER relativo y anterior al inicio ("-PT15M", "-PT2H", "-P1D") -> aviso.
+ */
+function parseTrigger(value: string): { unit: "min" | "hor"; value: number } | undefined {
+  const match = /^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, weeks = "0", days = "0", hours = "0", minutes = "0"] = match;
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes);
+  return total >= 60 && total % 60 === 0 ? { unit: "hor", value: total / 60 } : { unit: "min", value: total };
+}
+
+function parseEvent(properties: IcsProperty[]): IcsEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const uid = get("UID")?.value.trim();
+  const dtstart = get("DTSTART");
+  const start = dtstart ? parseDateTime(dtstart.value) : null;
+  if (!uid || !start || get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+
+  const event: IcsEvent = {
+    uid,
+    summary: unescapeText(get("SUMMARY")?.value ?? "").trim(),
+    start,
+    recurrence: null,
+    unsupportedRule: false,
+  };
+  const description = unescapeText(get("DESCRIPTION")?.value ?? "").trim();
+  if (description) event.description = description;
+
+  const recurrenceId = get("RECURRENCE-ID");
+  if (recurrenceId) event.recurrenceId = parseDateTime(recurrenceId.value)?.date;
+
+  const rrule = get("RRULE");
+  if (rrule) {
+    const exdates = properties
+      .filter((p) => p.name === "EXDATE")
+      .flatMap((p) => p.value.split(","))
+      .map(parseDateTime)
+      .filter((d): d is { date: string; time?: string } => d !== null);
+    const ruleText = [
+      `DTSTART:${toRuleDateTime(start)}`,
+      `RRULE:${rrule.value}`,
+      ...(exdates.length > 0 ? [`EXDATE:${exdates.map((d) => formatDate(d.date)).join(",")}`] : []),
+    ].join("\n");
+    event.recurrence = parseRepeatRule(ruleText);
+    event.unsupportedRule = event.recurrence === null;
+  }
+
+  const trigger = get("TRIGGER");
+  if (trigger && trigger.params.RELATED !== "END") event.reminder = parseTrigger(trigger.value);
+
+  return event;
+}
+
+/**
+ * VEVENTs de un .ics (los cancelados y los que no tienen UID o DTSTART se ignoran).
+ */
+export function parseCalendarEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let inAlarm = false;
+
+  for (const property of parseProperties(text)) {
+    const value = property.value.trim().toUpperCase();
+    if (property.name === "BEGIN" && value === "VEVENT") {
+      current = [];
+    } else if (property.name === "END" && value === "VEVENT") {
+      const event = current ? parseEvent(current) : null;
+      if (event) events.push(event);
+      current = null;
+    } else if (property.name === "BEGIN" && value === "VALARM") {
+      inAlarm = true;
+    } else if (property.name === "END" && value === "VALARM") {
+      inAlarm = false;
+    } else if (current && (!inAlarm || property.name === "TRIGGER")) {
+      // Del VALARM solo interesa el primer TRIGGER
+      if (!inAlarm || !current.some((p) => p.name === "TRIGGER")) current.push(property);
+    }
+  }
+  return events;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildIcsImport } from "./icsImport";
+import type { TaskData } from "./types";
+
+const META = "meta-1";
+
+const calendar = (...events: string[][]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR"].join("\r\n");
+
+const weekly = ["UID:gym@example.com", "DTSTART:20250310T070000", "RRULE:FREQ=WEEKLY;BYDAY=MO", "SUMMARY:Gimnasio"];
+const dentist = ["UID:dentista@example.com", "DTSTART;VALUE=DATE:20250320", "SUMMARY:Dentista"];
+
+describe("buildIcsImport", () => {
+  it("rechaza lo que no es un calendario", () => {
+    expect(buildIcsImport("hola", [], META)).toEqual({ data: [], error: "El archivo no es un calendario .ics" });
+  });
+
+  it("cada VEVENT es una tarea nueva con su UID en extra.icsUid", () => {
+    const { data, error } = buildIcsImport(calendar(weekly, dentist), [], META);
+
+    expect(error).toBeNull();
+    expect(data.map((i) => [i.uid, i.action])).toEqual([
+      ["gym@example.com", "new"],
+      ["dentista@example.com", "new"],
+    ]);
+    const [gym, dentista] = data.map((i) => i.task);
+    expect(gym).toMatchObject({ metaId: META, title: "Gimnasio", time: null });
+    expect(gym.extra).toMatchObject({ icsUid: "gym@example.com", frequency: "SEMANAL", weeklyDays: ["L"], weeklyTime: "07:00" });
+    expect(dentista).toMatchObject({ date: "2025-03-20", extra: { icsUid: "dentista@example.com", frequency: "PUNTUAL" } });
+    expect(gym.order).toBeLessThan(dentista.order);
+  });
+
+  it("reimportar: mismo UID actualiza la tarea existente o la deja igual", () => {
+    const first = buildIcsImport(calendar(weekly, dentist), [], META).data.map((i) => i.task);
+    const existing: TaskData[] = first.map((t) => ({ ...t, extra: { ...t.extra, notes: "mía" } }));
+
+    const moved = dentist.map((l) => (l.startsWith("DTSTART") ? "DTSTART;VALUE=DATE:20250321" : l));
+    const { data } = buildIcsImport(calendar(weekly, moved), existing, META);
+
+    expect(data.map((i) => [i.uid, i.action])).toEqual([
+      ["gym@example.com", "unchanged"],
+      ["dentista@example.com", "update"],
+    ]);
+    // Mismo id y los campos propios de la tarea se conservan
+    expect(data[1].task).toMatchObject({ id: existing[1].id, date: "2025-03-21", extra: { notes: "mía" } });
+  });
+
+  it("un UID repetido en el archivo cuenta una vez (gana el último)", () => {
+    const renamed = dentist.map((l) => (l.startsWith("SUMMARY") ? "SUMMARY:Dentista (cambio)" : l));
+    const { data } = buildIcsImport(calendar(dentist, renamed), [], META);
+    expect(data.map((i) => i.task.title)).toEqual(["Dentista (cambio)"]);
+  });
+
+  it("las instancias modificadas pasan a occurrenceOverrides", () => {
+    const { data } = buildIcsImport(
+      calendar(weekly, ["UID:gym@example.com", "RECURRENCE-ID:20250317T070000", "DTSTART:20250318T080000"]),
+      [],
+      META
+    );
+    expect(data).toHaveLength(1);
+    expect(data[0].task.extra?.occurrenceOverrides).toEqual({ "2025-03-17": { date: "2025-03-18", time: "08:00" } });
+    expect(data[0].warning).toBeUndefined();
+  });
+
+  it("repetición no soportada: se importa la primera fecha con aviso", () => {
+    const { data } = buildIcsImport(
+      calendar(["UID:a", "DTSTART:20250310T070000", "RRULE:FREQ=HOURLY", "SUMMARY:Cada hora"]),
+      [],
+      META
+    );
+    expect(data[0].task).toMatchObject({ date: "2025-03-10", time: "07:00", extra: { frequency: "PUNTUAL" } });
+    expect(data[0].warning).toBe("Repetición no soportada: se importa solo la primera fecha");
+  });
+});
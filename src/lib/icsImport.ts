@@ -0,0 +1,169 @@
+import type { TaskData, TaskExtra } from "./types";
+import { buildNewTaskData } from "./tasks";
+import { setOccurrenceOverride } from "./recurrence";
+import { parseCalendarEvents, type IcsEvent } from "./ics";
+import { normalizeTaskForDb, recurrenceToExtra } from "../sync/normalizeTask";
+
+/**
+ * Importación de un .ics a tareas de una meta.
+ *
+ * - Cada VEVENT es una tarea (buildNewTaskData); su RRULE pasa a los campos de
+ *   repetición de extra y su VALARM al aviso
+ * - Las instancias modificadas (RECURRENCE-ID) pasan a occurrenceOverrides del evento
+ * - El UID se guarda en extra.icsUid: al reimportar, la tarea con ese UID se
+ *   actualiza (o se deja igual si no cambia nada) en vez de duplicarse
+ */
+
+export type IcsImportAction = "new" | "update" | "unchanged";
+
+export interface IcsImportItem {
+  uid: string;
+  action: IcsImportAction;
+  task: TaskData;
+  warning?: string;
+}
+
+// Campos de extra que vienen del evento (se sustituyen enteros al reimportar)
+const EVENT_EXTRA_FIELDS = [
+  "frequency",
+  "weeklyDays",
+  "weeklyTime",
+  "dailyTime",
+  "monthlyDay",
+  "monthlyWeekdays",
+  "monthlySetPos",
+  "monthlyTime",
+  "yearlyMonth",
+  "yearlyDay",
+  "yearlyTime",
+  "repeatInterval",
+  "repeatStart",
+  "repeatUntil",
+  "repeatCount",
+  "exceptionDates",
+  "occurrenceOverrides",
+  "unscheduled",
+  "reminderEnabled",
+  "reminderOffsetUnit",
+  "reminderOffsetValue",
+];
+
+// JSON con claves ordenadas (para comparar payloads)
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isSameTask(a: TaskData, b: TaskData): boolean {
+  const payload = (task: TaskData) => stableStringify({ ...normalizeTaskForDb(task), updatedAt: undefined });
+  return payload(a) === payload(b);
+}
+
+/**
+ * Campos de extra del evento: repetición, cambios por ocurrencia y aviso.
+ */
+function buildEventExtra(event: IcsEvent, instances: IcsEvent[]): Partial<TaskExtra> {
+  const extra: Partial<TaskExtra> = { frequency: "PUNTUAL" };
+  if (event.recurrence) {
+    Object.assign(extra, recurrenceToExtra(event.recurrence));
+    let overrides: TaskExtra["occurrenceOverrides"];
+    for (const instance of instances) {
+      overrides = setOccurrenceOverride(overrides, instance.recurrenceId!, {
+        date: instance.start.date,
+        time: instance.start.time,
+      });
+    }
+    if (overrides) extra.occurrenceOverrides = overrides;
+  }
+  if (event.reminder) {
+    extra.reminderEnabled = true;
+    extra.reminderOffsetUnit = event.reminder.unit;
+    extra.reminderOffsetValue = event.reminder.value;
+  }
+  return extra;
+}
+
+function getWarning(event: IcsEvent, instances: IcsEvent[]): string | undefined {
+  if (event.unsupportedRule) return "Repetición no soportada: se importa solo la primera fecha";
+  if (!event.recurrence && instances.length > 0) return "Se ignoran las instancias modificadas";
+  return undefined;
+}
+
+// ==================== API ====================
+
+/**
+ * Vista previa de la importación de `text` en la meta `metaId`.
+ * No guarda nada: el llamador aplica las tareas con action !== "unchanged".
+ */
+export function buildIcsImport(
+  text: string,
+  existingTasks: TaskData[],
+  metaId: string
+): { data: IcsImportItem[]; error: string | null } {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    return { data: [], error: "El archivo no es un calendario .ics" };
+  }
+
+  const events = parseCalendarEvents(text);
+  const instancesByUid = new Map<string, IcsEvent[]>();
+  const masters = new Map<string, IcsEvent>(); // por UID, el último gana
+  for (const event of events) {
+    if (event.recurrenceId) {
+      instancesByUid.set(event.uid, [...(instancesByUid.get(event.uid) ?? []), event]);
+    } else {
+      masters.set(event.uid, event);
+    }
+  }
+
+  const byUid = new Map(
+    existingTasks.filter((t) => t.extra?.icsUid).map((t) => [t.extra!.icsUid as string, t])
+  );
+  let nextOrder = Math.max(0, ...existingTasks.filter((t) => t.metaId === metaId && !t.parentId).map((t) => t.order ?? 0)) + 1;
+  const now = new Date().toISOString();
+  const items: IcsImportItem[] = [];
+
+  for (const event of masters.values()) {
+    const instances = instancesByUid.get(event.uid) ?? [];
+    const eventExtra = buildEventExtra(event, instances);
+    const title = event.summary || "(sin título)";
+    const time = event.recurrence ? null : event.start.time ?? null;
+    const warning = getWarning(event, instances);
+    const existing = byUid.get(event.uid);
+
+    if (existing) {
+      const extra: TaskExtra = { ...(existing.extra || {}) };
+      for (const field of EVENT_EXTRA_FIELDS) delete extra[field];
+      Object.assign(extra, eventExtra);
+      const updated: TaskData = {
+        ...existing,
+        title,
+        description: event.description ?? existing.description,
+        date: event.start.date,
+        time,
+        repeatRule: null,
+        updatedAt: now,
+        extra,
+      };
+      items.push({ uid: event.uid, action: isSameTask(existing, updated) ? "unchanged" : "update", task: updated, warning });
+      continue;
+    }
+
+    const task = buildNewTaskData({
+      metaId,
+      order: nextOrder++,
+      title,
+      description: event.description ?? null,
+      date: event.start.date,
+      extraOverrides: { ...eventExtra, icsUid: event.uid },
+    });
+    items.push({ uid: event.uid, action: "new", task: { ...task, time }, warning });
+  }
+
+  return { data: items, error: null };
+}
@@ -1,8 +1,35 @@
-import type { AgendaUIState, FilterPreset, TaskFilters } from "./types";
+import type { AgendaUIState, TaskFilters } from "./types";
 import { DEFAULT_UI_STATE, DEFAULT_FILTERS } from "./types";
 
 const STORAGE_KEY = "ingravital_agenda_ui";
 
+/**
+ * Completa un estado de UI parcial (localStorage o ajustes sincronizados) con los valores por defecto
+ */
+export function mergeUIState(parsed: Partial<AgendaUIState> | null | undefined): AgendaUIState {
+  return {
+    ...DEFAULT_UI_STATE,
+    ...parsed,
+    activeFilters: {
+      ...DEFAULT_FILTERS,
+      ...parsed?.activeFilters,
+    },
+  };
+}
+
+/**
+ * Indica si este navegador tiene estado de UI guardado
+ */
+export function hasStoredUIState(): boolean {
+  if (typeof window === "undefined") return false;
+
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Carga el estado de UI desde localStorage
  */
@@ -13,15 +40,7 @@ export function loadUIState(): AgendaUIState {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) return DEFAULT_UI_STATE;
     
-    const parsed = JSON.parse(stored);
-    return {
-      ...DEFAULT_UI_STATE,
-      ...parsed,
-      activeFilters: {
-        ...DEFAULT_FILTERS,
-        ...parsed.activeFilters,
-      },
-    };
+    return mergeUIState(JSON.parse(stored));
   } catch {
     return DEFAULT_UI_STATE;
   }
@@ -50,33 +69,6 @@ export function updateUIState(partial: Partial<AgendaUIState>): AgendaUIState {
   return updated;
 }
 
-/**
- * Guarda un preset nuevo
- */
-export function savePreset(preset: FilterPreset): AgendaUIState {
-  const current = loadUIState();
-  const existingIndex = current.presets.findIndex((p) => p.id === preset.id);
-  
-  if (existingIndex >= 0) {
-    current.presets[existingIndex] = preset;
-  } else {
-    current.presets.push(preset);
-  }
-  
-  saveUIState(current);
-  return current;
-}
-
-/**
- * Elimina un preset
- */
-export function deletePreset(presetId: string): AgendaUIState {
-  const current = loadUIState();
-  current.presets = current.presets.filter((p) => p.id !== presetId);
-  saveUIState(current);
-  return current;
-}
-
 /**
  * Actualiza los filtros activos
  */
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { expandTaskOccurrences, getRecurrenceDates } from "./recurrence";
+import type { TaskData, TaskExtra } from "./types";
+
+function task(extra: TaskExtra, createdAt = "2024-01-01T00:00:00.000Z"): TaskData {
+  return { id: "t1", kind: "NORMAL", title: "Repetida", createdAt, extra } as TaskData;
+}
+
+const dates = (t: TaskData, from?: string, to?: string) => expandTaskOccurrences(t, from, to).map((o) => o.date);
+
+describe("getRecurrenceDates", () => {
+  it("INTERVAL > 1 alineado con el inicio", () => {
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 3, start: "2025-01-01" }, "2025-01-02", "2025-01-12"))
+      .toEqual(["2025-01-04", "2025-01-07", "2025-01-10"]);
+    expect(
+      getRecurrenceDates({ frequency: "SEMANAL", interval: 2, weekdays: ["L", "X"], start: "2025-01-06" }, "2025-01-01", "2025-01-31")
+    ).toEqual(["2025-01-06", "2025-01-08", "2025-01-20", "2025-01-22"]);
+    expect(
+      getRecurrenceDates({ frequency: "MENSUAL", interval: 2, monthDay: 15, start: "2025-01-15" }, "2025-02-01", "2025-06-30")
+    ).toEqual(["2025-03-15", "2025-05-15"]);
+  });
+
+  it("COUNT cuenta desde el inicio aunque el rango empiece después", () => {
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 1, start: "2025-01-01", count: 5 }, "2025-01-03", "2025-01-31"))
+      .toEqual(["2025-01-03", "2025-01-04", "2025-01-05"]);
+    // 10 ocurrencias cada 2 días: la décima es el 19
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 2, start: "2025-01-01", count: 10 }, "2025-01-15", "2025-02-28"))
+      .toEqual(["2025-01-15", "2025-01-17", "2025-01-19"]);
+    expect(
+      getRecurrenceDates({ frequency: "SEMANAL", interval: 1, weekdays: ["L"], start: "2025-01-06", count: 4 }, "2025-01-15", "2025-03-31")
+    ).toEqual(["2025-01-20", "2025-01-27"]);
+  });
+
+  it("UNTIL es inclusive", () => {
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 2, start: "2025-01-01", until: "2025-01-05" }, "2025-01-01", "2025-01-31"))
+      .toEqual(["2025-01-01", "2025-01-03", "2025-01-05"]);
+  });
+
+  it("las excepciones no aparecen pero cuentan para COUNT", () => {
+    const recurrence = {
+      frequency: "SEMANAL" as const,
+      interval: 1,
+      weekdays: ["L"],
+      start: "2025-01-06",
+      count: 3,
+      exceptionDates: ["2025-01-13"],
+    };
+    expect(getRecurrenceDates(recurrence, "2025-01-01", "2025-03-31")).toEqual(["2025-01-06", "2025-01-20"]);
+  });
+
+  it("nunca antes del ancla", () => {
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 1 }, "2025-01-01", "2025-01-12", "2025-01-10"))
+      .toEqual(["2025-01-10", "2025-01-11", "2025-01-12"]);
+    expect(getRecurrenceDates({ frequency: "DIARIA", interval: 1, start: "2025-01-11" }, "2025-01-01", "2025-01-12"))
+      .toEqual(["2025-01-11", "2025-01-12"]);
+  });
+
+  it("último viernes y último día laborable del mes", () => {
+    expect(
+      getRecurrenceDates({ frequency: "MENSUAL", interval: 1, weekdays: ["V"], setPos: -1, start: "2025-01-01" }, "2025-01-01", "2025-03-31")
+    ).toEqual(["2025-01-31", "2025-02-28", "2025-03-28"]);
+    expect(
+      getRecurrenceDates(
+        { frequency: "MENSUAL", interval: 1, weekdays: ["L", "M", "X", "J", "V"], setPos: -1, start: "2025-05-01" },
+        "2025-05-01",
+        "2025-06-30"
+      )
+    ).toEqual(["2025-05-30", "2025-06-30"]);
+  });
+
+  it("día 31 y 29 de febrero: se saltan los meses y años sin ese día", () => {
+    expect(getRecurrenceDates({ frequency: "MENSUAL", interval: 1, monthDay: 31, start: "2025-01-01" }, "2025-01-01", "2025-06-30"))
+      .toEqual(["2025-01-31", "2025-03-31", "2025-05-31"]);
+    expect(
+      getRecurrenceDates({ frequency: "ANUAL", interval: 1, month: 2, monthDay: 29, start: "2024-01-01" }, "2024-01-01", "2029-12-31")
+    ).toEqual(["2024-02-29", "2028-02-29"]);
+  });
+});
+
+describe("expandTaskOccurrences", () => {
+  it("sin inicio la repetición empieza en la fecha de creación", () => {
+    const daily = task({ frequency: "DIARIA" }, "2025-01-10T08:00:00.000Z");
+    expect(dates(daily, "2025-01-01", "2025-01-12")).toEqual(["2025-01-10", "2025-01-11", "2025-01-12"]);
+  });
+
+  it("el intervalo se alinea con la creación", () => {
+    const everyOtherDay = task({ frequency: "DIARIA", repeatInterval: 2 }, "2025-01-02T08:00:00.000Z");
+    expect(dates(everyOtherDay, "2025-01-05", "2025-01-10")).toEqual(["2025-01-06", "2025-01-08", "2025-01-10"]);
+  });
+});
+
+describe("occurrenceOverrides", () => {
+  // Miércoles desde el 1 de enero de 2025: 01, 08, 15, 22, 29
+  const weekly = (extra: TaskExtra = {}) =>
+    task({ frequency: "SEMANAL", weeklyDays: ["X"], repeatStart: "2025-01-01", ...extra });
+
+  it("una ocurrencia movida aparece una sola vez, en su nueva fecha", () => {
+    const t = weekly({ occurrenceOverrides: { "2025-01-08": { date: "2025-01-09" } } });
+    const occurrences = expandTaskOccurrences(t, "2025-01-01", "2025-01-15");
+
+    expect(occurrences.map((o) => [o.originalDate, o.date])).toEqual([
+      ["2025-01-01", "2025-01-01"],
+      ["2025-01-08", "2025-01-09"],
+      ["2025-01-15", "2025-01-15"],
+    ]);
+  });
+
+  it("movida dentro o fuera del rango pedido", () => {
+    const t = weekly({ occurrenceOverrides: { "2025-01-08": { date: "2025-01-17" } } });
+    // Desde fuera del rango: entra una vez
+    expect(expandTaskOccurrences(t, "2025-01-16", "2025-01-20").map((o) => o.originalDate)).toEqual(["2025-01-08"]);
+    // Hacia fuera del rango: desaparece de él
+    expect(dates(t, "2025-01-01", "2025-01-10")).toEqual(["2025-01-01"]);
+    // Rango que cubre origen y destino: una sola vez
+    expect(dates(t, "2025-01-01", "2025-01-20")).toEqual(["2025-01-01", "2025-01-15", "2025-01-17"]);
+  });
+
+  it("movida a la fecha de otra ocurrencia: las dos se mantienen", () => {
+    const t = weekly({ occurrenceOverrides: { "2025-01-08": { date: "2025-01-15" } } });
+    expect(expandTaskOccurrences(t, "2025-01-08", "2025-01-15").map((o) => o.originalDate)).toEqual(["2025-01-08", "2025-01-15"]);
+  });
+
+  it("cancelada y editada", () => {
+    const t = weekly({
+      quantity: 5,
+      occurrenceOverrides: {
+        "2025-01-08": { skipped: true },
+        "2025-01-15": { time: "18:00", quantity: 8, notes: "Más largo" },
+      },
+    });
+    const [first, skipped, edited] = expandTaskOccurrences(t, "2025-01-01", "2025-01-15");
+
+    expect(first).toMatchObject({ isSkipped: false, quantity: 5, time: null });
+    expect(skipped).toMatchObject({ date: "2025-01-08", isSkipped: true });
+    expect(edited).toMatchObject({ date: "2025-01-15", time: "18:00", quantity: 8, notes: "Más largo" });
+  });
+
+  it("los overrides no añaden ocurrencias: COUNT se mantiene", () => {
+    const t = weekly({
+      repeatCount: 3,
+      occurrenceOverrides: {
+        "2025-01-08": { date: "2025-02-05" },
+        "2025-01-15": { skipped: true },
+        "2025-01-22": { date: "2025-01-23" }, // no es de la regla (la 4ª)
+        "2025-01-09": { date: "2025-01-10" }, // no es de la regla
+      },
+    });
+    expect(expandTaskOccurrences(t, "2025-01-01", "2025-03-31").map((o) => o.originalDate))
+      .toEqual(["2025-01-01", "2025-01-15", "2025-01-08"]);
+  });
+});
@@ -0,0 +1,319 @@
+import type { TaskData, OccurrenceOverride } from "./types";
+import { getTaskRecurrence, isValidDateYYYYMMDD, type TaskRecurrence } from "../sync/normalizeTask";
+
+/**
+ * Expansión de tareas en ocurrencias concretas por fecha.
+ *
+ * - PUNTUAL con fecha: una ocurrencia en task.date
+ * - Repetición (extra / repeatRule, ver normalizeTask): una ocurrencia virtual por
+ *   cada fecha que cumple la regla, respetando inicio, intervalo, UNTIL, COUNT
+ *   y exceptionDates (las excepciones cuentan para COUNT, como en RFC 5545)
+ * - Sin fecha (unscheduled) o TITLE: ninguna
+ * - extra.occurrenceOverrides (por fecha original) mueve, salta o cambia
+ *   cantidad/importe/notas de una ocurrencia; completedDates usa la fecha original
+ *
+ * Todo el cálculo es con fechas YYYY-MM-DD en UTC (sin zona horaria).
+ */
+
+export interface TaskOccurrence {
+  taskId: string;
+  date: string;            // YYYY-MM-DD (ya movida si hay override)
+  originalDate: string;    // YYYY-MM-DD según la regla: identidad de la ocurrencia
+  time: string | null;     // HH:mm
+  isCompleted: boolean;    // task.isCompleted (puntual) u originalDate en extra.completedDates
+  isSkipped: boolean;
+  isRecurring: boolean;
+  quantity?: number;
+  amountEUR?: number;
+  notes?: string;
+  task: TaskData;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ancla por defecto del intervalo si la tarea no tiene inicio ni createdAt (un lunes)
+const DEFAULT_ANCHOR = "1970-01-05";
+
+// Tope de periodos recorridos por tarea (evita bucles con COUNT e inicios muy antiguos)
+const MAX_SCAN_PERIODS = 366 * 50;
+
+// getUTCDay() (0 = domingo) -> formato móvil
+const WEEKDAY_BY_INDEX = ["D", "L", "M", "X", "J", "V", "S"];
+
+// ==================== FECHAS ====================
+
+function toUTC(date: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function fromUTC(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromUTC(toUTC(date) + days * DAY_MS);
+}
+
+export function diffDays(from: string, to: string): number {
+  return Math.round((toUTC(to) - toUTC(from)) / DAY_MS);
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAY_BY_INDEX[new Date(toUTC(date)).getUTCDay()];
+}
+
+// Lunes de la semana (WKST=MO)
+function weekStart(date: string): string {
+  const day = new Date(toUTC(date)).getUTCDay();
+  return addDays(date, -mod(day - 1, 7));
+}
+
+function toISODate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Fecha del día `setPos` (1.., -1 = último) entre los `weekdays` del mes.
+ */
+function setPosDate(year: number, month: number, weekdays: string[], setPos: number): number | null {
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    if (weekdays.includes(weekdayOf(toISODate(year, month, day)))) days.push(day);
+  }
+  const index = setPos > 0 ? setPos - 1 : days.length + setPos;
+  return days[index] ?? null;
+}
+
+// ==================== REGLA ====================
+
+/**
+ * Fechas de la regla desde `from` hasta `to` en orden (sin tener en cuenta
+ * inicio, fin ni excepciones). Avanza de periodo en periodo (día, semana, mes
+ * o año × intervalo) alineado con el ancla, no día a día.
+ */
+function* iterateRecurrence(recurrence: TaskRecurrence, from: string, to: string, anchor: string): Generator<string> {
+  const { frequency, interval } = recurrence;
+  const [fy, fm] = from.split("-").map(Number);
+  const [ay, am] = anchor.split("-").map(Number);
+
+  switch (frequency) {
+    case "DIARIA": {
+      let date = addDays(from, mod(-diffDays(anchor, from), interval));
+      for (let i = 0; date <= to && i < MAX_SCAN_PERIODS; i++, date = addDays(date, interval)) yield date;
+      return;
+    }
+    case "SEMANAL": {
+      // Días desde el lunes de cada día de la regla
+      const offsets = (recurrence.weekdays ?? [])
+        .map((d) => WEEKDAY_BY_INDEX.indexOf(d))
+        .filter((index) => index >= 0)
+        .map((index) => mod(index - 1, 7))
+        .sort((a, b) => a - b);
+      if (offsets.length === 0) return;
+      let week = weekStart(from);
+      week = addDays(week, 7 * mod(-diffDays(weekStart(anchor), week) / 7, interval));
+      for (let i = 0; week <= to && i < MAX_SCAN_PERIODS; i++, week = addDays(week, 7 * interval)) {
+        for (const offset of offsets) {
+          const date = addDays(week, offset);
+          if (date > to) return;
+          if (date >= from) yield date;
+        }
+      }
+      return;
+    }
+    case "MENSUAL": {
+      // Meses como índice absoluto (año * 12 + mes - 1)
+      let index = fy * 12 + fm - 1;
+      index += mod(-(index - (ay * 12 + am - 1)), interval);
+      for (let i = 0; i < MAX_SCAN_PERIODS; i++, index += interval) {
+        const year = Math.floor(index / 12);
+        const month = (index % 12) + 1;
+        if (toISODate(year, month, 1) > to) return;
+        const day = recurrence.setPos && recurrence.weekdays
+          ? setPosDate(year, month, recurrence.weekdays, recurrence.setPos)
+          : recurrence.monthDay ?? null;
+        if (!day || day > daysInMonth(year, month)) continue;
+        const date = toISODate(year, month, day);
+        if (date > to) return;
+        if (date >= from) yield date;
+      }
+      return;
+    }
+    case "ANUAL": {
+      const { month, monthDay } = recurrence;
+      if (!month || !monthDay) return;
+      for (let year = fy + mod(-(fy - ay), interval), i = 0; i < MAX_SCAN_PERIODS; i++, year += interval) {
+        if (toISODate(year, 1, 1) > to) return;
+        if (monthDay > daysInMonth(year, month)) continue;
+        const date = toISODate(year, month, monthDay);
+        if (date > to) return;
+        if (date >= from) yield date;
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Fechas de la regla entre `from` y `to` (inclusive). Nunca antes del ancla.
+ */
+export function getRecurrenceDates(
+  recurrence: TaskRecurrence,
+  from: string,
+  to: string,
+  anchor: string = recurrence.start ?? DEFAULT_ANCHOR
+): string[] {
+  const upper = recurrence.until && recurrence.until < to ? recurrence.until : to;
+  // Con COUNT hay que contar desde el inicio aunque el rango empiece después
+  let cursor = recurrence.count ? recurrence.start ?? anchor : from;
+  if (recurrence.start && cursor < recurrence.start) cursor = recurrence.start;
+  if (cursor < anchor) cursor = anchor;
+  let generated = 0;
+
+  // Diaria con COUNT: las ocurrencias anteriores a `from` se cuentan sin recorrerlas
+  if (recurrence.count && recurrence.frequency === "DIARIA" && from > cursor) {
+    const first = addDays(cursor, mod(-diffDays(anchor, cursor), recurrence.interval));
+    generated = from > first ? Math.ceil(diffDays(first, from) / recurrence.interval) : 0;
+    cursor = addDays(first, generated * recurrence.interval);
+  }
+
+  const exceptions = new Set(recurrence.exceptionDates ?? []);
+  const dates: string[] = [];
+  for (const date of iterateRecurrence(recurrence, cursor, upper, anchor)) {
+    if (recurrence.count && generated >= recurrence.count) break;
+    generated++;
+    if (date >= from && !exceptions.has(date)) dates.push(date);
+  }
+  return dates;
+}
+
+// ==================== OCURRENCIAS ====================
+
+function getAnchor(task: TaskData, recurrence: TaskRecurrence): string {
+  if (recurrence.start) return recurrence.start;
+  const created = task.createdAt?.slice(0, 10);
+  return isValidDateYYYYMMDD(created) ? created : DEFAULT_ANCHOR;
+}
+
+/**
+ * Ocurrencias de una tarea entre `from` y `to` (inclusive, YYYY-MM-DD).
+ * Un extremo ausente deja el rango abierto; en tareas repetidas se limita a un
+ * periodo completo de la regla desde el otro extremo (suficiente para saber si
+ * hay alguna ocurrencia).
+ */
+export function expandTaskOccurrences(task: TaskData, from?: string, to?: string): TaskOccurrence[] {
+  if (task.kind === "TITLE") return [];
+  const completed = new Set(task.extra?.completedDates ?? []);
+  const recurrence = getTaskRecurrence(task);
+
+  if (!recurrence) {
+    const date = task.date;
+    if (!isValidDateYYYYMMDD(date)) return [];
+    if ((from && date < from) || (to && date > to)) return [];
+    return [{
+      taskId: task.id,
+      date,
+      originalDate: date,
+      time: task.time ?? null,
+      isCompleted: task.isCompleted === true || completed.has(date),
+      isSkipped: false,
+      isRecurring: false,
+      quantity: task.extra?.quantity,
+      amountEUR: task.extra?.amountEUR,
+      task,
+    }];
+  }
+
+  const period = 366 * recurrence.interval;
+  const anchor = getAnchor(task, recurrence);
+  const requestedStart = from ?? recurrence.start ?? (to ? addDays(to, -period) : undefined);
+  if (!requestedStart) return [];
+  // Sin inicio explícito la regla empieza en el ancla (creación): nada antes
+  const start = requestedStart < anchor ? anchor : requestedStart;
+  const end = to ?? addDays(start, period);
+  const overrides = task.extra?.occurrenceOverrides ?? {};
+  const inRange = (date: string) => date >= start && date <= end;
+
+  const build = (originalDate: string): TaskOccurrence => {
+    const override: OccurrenceOverride = overrides[originalDate] ?? {};
+    return {
+      taskId: task.id,
+      date: override.date ?? originalDate,
+      originalDate,
+      time: override.time ?? recurrence.time ?? null,
+      isCompleted: completed.has(originalDate),
+      isSkipped: override.skipped === true,
+      isRecurring: true,
+      quantity: override.quantity ?? task.extra?.quantity,
+      amountEUR: override.amountEUR ?? task.extra?.amountEUR,
+      notes: override.notes,
+      task,
+    };
+  };
+
+  const occurrences = getRecurrenceDates(recurrence, start, end, anchor)
+    .map(build)
+    .filter((o) => inRange(o.date)); // movidas fuera del rango
+
+  // Movidas al rango desde una fecha fuera de él
+  for (const [originalDate, override] of Object.entries(overrides)) {
+    if (!override.date || !inRange(override.date) || inRange(originalDate)) continue;
+    if (getRecurrenceDates(recurrence, originalDate, originalDate, anchor).length === 0) continue;
+    occurrences.push(build(originalDate));
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Ocurrencias de varias tareas, ordenadas por fecha y hora (sin hora al final del día).
+ */
+export function expandOccurrences(tasks: TaskData[], from: string, to: string): TaskOccurrence[] {
+  return tasks
+    .flatMap((task) => expandTaskOccurrences(task, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? "99:99").localeCompare(b.time ?? "99:99"));
+}
+
+/**
+ * ¿Tiene la tarea una ocurrencia (no saltada) en `date`?
+ */
+export function isOccurrenceDate(task: TaskData, date: string): boolean {
+  return expandTaskOccurrences(task, date, date).some((o) => !o.isSkipped);
+}
+
+// ==================== OVERRIDES ====================
+
+/**
+ * Aplica cambios a la ocurrencia `originalDate` y devuelve el mapa resultante.
+ * Los campos undefined/vacíos se quitan; si la ocurrencia queda sin cambios
+ * desaparece del mapa, y si el mapa queda vacío devuelve undefined.
+ */
+export function setOccurrenceOverride(
+  overrides: Record<string, OccurrenceOverride> | undefined,
+  originalDate: string,
+  patch: Partial<OccurrenceOverride> | null
+): Record<string, OccurrenceOverride> | undefined {
+  const next = { ...(overrides ?? {}) };
+  const merged: Record<string, unknown> = patch ? { ...next[originalDate], ...patch } : {};
+  if (merged.date === originalDate) delete merged.date;
+  if (merged.skipped === false) delete merged.skipped;
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined || merged[key] === "") delete merged[key];
+  }
+
+  if (Object.keys(merged).length > 0) {
+    next[originalDate] = merged as OccurrenceOverride;
+  } else {
+    delete next[originalDate];
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
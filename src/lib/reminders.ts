@@ -0,0 +1,226 @@
+import type { TaskData, TaskExtra } from "./types";
+import { addDays, expandTaskOccurrences } from "./recurrence";
+import { getTaskRecurrence } from "../sync/normalizeTask";
+
+/**
+ * Avisos de tareas en la web (Notifications API + service worker public/sw.js).
+ *
+ * - Un aviso por ocurrencia con hora: fecha + hora - offset (reminderOffsetUnit/Value),
+ *   con las mismas condiciones que getReminderDisplay
+ * - ReminderScheduler revisa cada poco los avisos vencidos y los muestra; lo ya
+ *   mostrado y lo pospuesto se guarda en localStorage para no repetir al recargar
+ * - Las acciones de la notificación (posponer / hecho) llegan desde sw.js por
+ *   postMessage o, si no hay ventana abierta, en el hash de /agenda
+ */
+
+export interface Reminder {
+  id: string;               // taskId:originalDate
+  taskId: string;
+  originalDate: string;     // YYYY-MM-DD (identidad de la ocurrencia)
+  date: string;             // YYYY-MM-DD de la ocurrencia (ya movida)
+  time: string;             // HH:mm de la ocurrencia
+  title: string;
+  fireAt: number;           // ms epoch (hora local)
+}
+
+export type ReminderAction = "snooze" | "done";
+
+export interface ReminderActionMessage {
+  type: "reminder-action";
+  action: ReminderAction;
+  taskId: string;
+  originalDate: string;
+}
+
+interface ReminderState {
+  fired: Record<string, number>;    // id -> fireAt ya mostrado
+  snoozed: Record<string, number>;  // id -> nuevo fireAt
+}
+
+export const REMINDER_SNOOZE_MINUTES = 10;
+
+// Un aviso vencido hace más de esto ya no se muestra (p.ej. con la pestaña cerrada)
+const REMINDER_GRACE_MS = 10 * 60 * 1000;
+
+// Lo mostrado/pospuesto se olvida pasado este tiempo
+const STATE_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = "ingravital_reminders";
+
+// ==================== CÁLCULO ====================
+
+function toLocalISODate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Offset del aviso en minutos (null si la tarea no tiene aviso válido).
+ */
+export function getReminderOffsetMinutes(extra: TaskExtra | undefined): number | null {
+  if (!extra?.reminderEnabled) return null;
+  const value = extra.reminderOffsetValue;
+  if (typeof value !== "number" || value <= 0) return null;
+  if (extra.reminderOffsetUnit === "min") return value;
+  if (extra.reminderOffsetUnit === "hor") return value * 60;
+  return null;
+}
+
+/**
+ * Avisos con fireAt entre `from` y `to` (ms), ordenados. Sin las ocurrencias
+ * hechas ni saltadas.
+ */
+export function getReminders(tasks: TaskData[], from: number, to: number): Reminder[] {
+  const reminders: Reminder[] = [];
+  const firstDay = toLocalISODate(new Date(from));
+
+  for (const task of tasks) {
+    if (task.kind === "TITLE") continue;
+    const offset = getReminderOffsetMinutes(task.extra);
+    if (offset === null) continue;
+
+    // El aviso puede caer días antes de la ocurrencia
+    const lastDay = toLocalISODate(new Date(to + offset * 60 * 1000));
+    for (const occurrence of expandTaskOccurrences(task, firstDay, addDays(lastDay, 1))) {
+      if (!occurrence.time || occurrence.isCompleted || occurrence.isSkipped) continue;
+      const fireAt = new Date(`${occurrence.date}T${occurrence.time}:00`).getTime() - offset * 60 * 1000;
+      if (fireAt < from || fireAt > to) continue;
+      reminders.push({
+        id: `${task.id}:${occurrence.originalDate}`,
+        taskId: task.id,
+        originalDate: occurrence.originalDate,
+        date: occurrence.date,
+        time: occurrence.time,
+        title: task.title,
+        fireAt,
+      });
+    }
+  }
+  return reminders.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+/**
+ * Marca la ocurrencia como hecha (completedDates en repetidas, isCompleted en puntuales).
+ */
+export function completeOccurrence<T extends TaskData>(task: T, originalDate: string): T {
+  if (!getTaskRecurrence(task)) return { ...task, isCompleted: true, updatedAt: new Date().toISOString() };
+
+  const completedDates = Array.from(new Set([...(task.extra?.completedDates ?? []), originalDate])).sort();
+  return {
+    ...task,
+    extra: { ...(task.extra || {}), completedDates },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ==================== ESTADO (localStorage) ====================
+
+function loadState(): ReminderState {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { fired: parsed.fired ?? {}, snoozed: parsed.snoozed ?? {} };
+  } catch {
+    return { fired: {}, snoozed: {} };
+  }
+}
+
+function saveState(state: ReminderState, now: number) {
+  const keep = (map: Record<string, number>) =>
+    Object.fromEntries(Object.entries(map).filter(([, at]) => now - at < STATE_RETENTION_MS));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ fired: keep(state.fired), snoozed: keep(state.snoozed) }));
+  } catch {
+    // localStorage puede fallar si está lleno o deshabilitado
+  }
+}
+
+/**
+ * Avisos que toca mostrar ahora (vencidos hace poco y no mostrados todavía),
+ * incluidos los pospuestos. Los devuelve ya marcados como mostrados.
+ */
+export function takeDueReminders(tasks: TaskData[], now: number = Date.now()): Reminder[] {
+  const state = loadState();
+  const due: Reminder[] = [];
+  const candidates = getReminders(tasks, now - REMINDER_GRACE_MS, now);
+
+  // Pospuestos: la ocurrencia sigue pendiente y su nuevo fireAt ya pasó
+  const snoozed = Object.entries(state.snoozed);
+  const pending = snoozed.length > 0 ? getReminders(tasks, now - STATE_RETENTION_MS, now + STATE_RETENTION_MS) : [];
+  for (const [id, at] of snoozed) {
+    const reminder = pending.find((r) => r.id === id);
+    if (reminder && at <= now && now - at < REMINDER_GRACE_MS) candidates.push({ ...reminder, fireAt: at });
+  }
+
+  for (const reminder of candidates) {
+    const fireAt = state.snoozed[reminder.id] ?? reminder.fireAt;
+    if (fireAt !== reminder.fireAt || state.fired[reminder.id] === fireAt) continue;
+    state.fired[reminder.id] = fireAt;
+    due.push(reminder);
+  }
+  if (due.length > 0) saveState(state, now);
+  return due;
+}
+
+/**
+ * Pospone el aviso de una ocurrencia REMINDER_SNOOZE_MINUTES.
+ */
+export function snoozeReminder(taskId: string, originalDate: string, now: number = Date.now()) {
+  const state = loadState();
+  state.snoozed[`${taskId}:${originalDate}`] = now + REMINDER_SNOOZE_MINUTES * 60 * 1000;
+  saveState(state, now);
+}
+
+// ==================== NOTIFICACIONES ====================
+
+export function areRemindersSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+}
+
+/**
+ * Pide permiso de notificaciones (llamar desde un gesto del usuario).
+ */
+export async function requestReminderPermission(): Promise<NotificationPermission | null> {
+  if (!areRemindersSupported()) return null;
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export async function registerReminderServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!areRemindersSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register("/sw.js");
+  } catch (e) {
+    console.warn("[reminders] service worker error:", e);
+    return null;
+  }
+}
+
+export async function showReminderNotification(registration: ServiceWorkerRegistration, reminder: Reminder) {
+  const [, m, d] = reminder.date.split("-");
+  await registration.showNotification(reminder.title || "Tarea", {
+    body: `${d}/${m} · ${reminder.time}`,
+    tag: reminder.id, // varias pestañas o reintentos: una sola notificación
+    icon: "/logo.png",
+    data: { taskId: reminder.taskId, originalDate: reminder.originalDate },
+    // actions no está en los tipos de NotificationOptions de lib.dom
+    ...{
+      actions: [
+        { action: "snooze", title: `Posponer ${REMINDER_SNOOZE_MINUTES} min` },
+        { action: "done", title: "Hecho" },
+      ],
+    },
+  });
+}
+
+/**
+ * Acción pendiente en el hash de /agenda (#reminder=done&task=...&date=...),
+ * cuando sw.js tuvo que abrir una ventana nueva.
+ */
+export function parseReminderActionHash(hash: string): ReminderActionMessage | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const action = params.get("reminder");
+  const taskId = params.get("task");
+  const originalDate = params.get("date");
+  if ((action !== "snooze" && action !== "done") || !taskId || !originalDate) return null;
+  return { type: "reminder-action", action, taskId, originalDate };
+}
@@ -0,0 +1,264 @@
+import { normalizeQueryText } from "./taskQuery";
+
+/**
+ * Búsqueda global (paleta Ctrl+K) sobre tareas, metas y finanzas.
+ *
+ * - Un documento por item con sus campos de texto ya normalizados (sin acentos
+ *   ni mayúsculas) y un peso por campo (el título pesa más)
+ * - El índice es incremental: updateSearchIndex solo reindexa los items cuyo
+ *   objeto cambió (el store del sync es inmutable) y quita los que ya no están
+ * - Ranking difuso: cada palabra de la consulta debe aparecer en algún campo,
+ *   como substring (mejor al inicio de palabra) o como subsecuencia
+ */
+
+export type SearchKind = "task" | "meta" | "account" | "forecast" | "movement";
+
+interface SearchField {
+  text: string;              // normalizado
+  weight: number;
+}
+
+export interface SearchDoc {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  subtitle?: string;
+  fields: SearchField[];
+}
+
+export interface SearchResult {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  subtitle?: string;
+  score: number;
+  href: string;
+}
+
+export interface SearchIndex {
+  docs: Map<string, SearchDoc>;        // clave: kind:id
+  sources: Map<string, unknown>;       // objeto del store con el que se indexó
+}
+
+// Fuentes que indexa la paleta (mismas formas que el store del sync)
+export interface SearchSources {
+  tasks: { id: string; title?: string; description?: string | null; date?: string | null; kind?: string | null; extra?: { notes?: string } }[];
+  metas: { id: string; title?: string; description?: string }[];
+  bankAccounts: { id: string; name: string; type?: string }[];
+  forecastLines: { id: string; name: string; type?: string }[];
+  movements: { id: string; concept?: string; date?: string; amount?: number; note?: string }[];
+}
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  task: "Tarea",
+  meta: "Meta",
+  account: "Cuenta",
+  forecast: "Previsión",
+  movement: "Movimiento",
+};
+
+// Orden de desempate entre tipos con la misma puntuación
+const KIND_ORDER: SearchKind[] = ["task", "meta", "account", "forecast", "movement"];
+
+// Las palabras más cortas solo cuentan como substring (la subsecuencia daría ruido)
+const MIN_FUZZY_LENGTH = 3;
+
+// ==================== DOCUMENTOS ====================
+
+function field(text: string | null | undefined, weight: number): SearchField[] {
+  return text?.trim() ? [{ text: normalizeQueryText(text), weight }] : [];
+}
+
+function formatDate(date?: string | null): string | undefined {
+  if (!date) return undefined;
+  const [y, m, d] = date.split("-");
+  return d && m && y ? `${d}/${m}/${y}` : date;
+}
+
+function toDocs(sources: Partial<SearchSources>): Map<string, { source: unknown; build: () => SearchDoc }> {
+  const entries = new Map<string, { source: unknown; build: () => SearchDoc }>();
+
+  for (const task of sources.tasks ?? []) {
+    entries.set(`task:${task.id}`, {
+      source: task,
+      build: () => ({
+        kind: "task",
+        id: task.id,
+        title: task.title || "(sin título)",
+        subtitle: task.kind === "TITLE" ? "Título" : formatDate(task.date) ?? "Sin fecha",
+        fields: [...field(task.title, 3), ...field(task.description, 1), ...field(task.extra?.notes, 0.8)],
+      }),
+    });
+  }
+
+  for (const meta of sources.metas ?? []) {
+    entries.set(`meta:${meta.id}`, {
+      source: meta,
+      build: () => ({
+        kind: "meta",
+        id: meta.id,
+        title: meta.title || "(sin título)",
+        subtitle: meta.description,
+        fields: [...field(meta.title, 3), ...field(meta.description, 1)],
+      }),
+    });
+  }
+
+  for (const account of sources.bankAccounts ?? []) {
+    entries.set(`account:${account.id}`, {
+      source: account,
+      build: () => ({
+        kind: "account",
+        id: account.id,
+        title: account.name,
+        subtitle: account.type === "SOCIEDAD" ? "Sociedad" : "Personal",
+        fields: field(account.name, 3),
+      }),
+    });
+  }
+
+  for (const line of sources.forecastLines ?? []) {
+    entries.set(`forecast:${line.id}`, {
+      source: line,
+      build: () => ({
+        kind: "forecast",
+        id: line.id,
+        title: line.name,
+        subtitle: line.type === "GASTO" ? "Gasto" : "Ingreso",
+        fields: field(line.name, 3),
+      }),
+    });
+  }
+
+  for (const movement of sources.movements ?? []) {
+    entries.set(`movement:${movement.id}`, {
+      source: movement,
+      build: () => ({
+        kind: "movement",
+        id: movement.id,
+        title: movement.concept || "(sin concepto)",
+        subtitle: [formatDate(movement.date), typeof movement.amount === "number" ? `${movement.amount} €` : null]
+          .filter(Boolean)
+          .join(" · "),
+        fields: [...field(movement.concept, 3), ...field(movement.note, 0.8)],
+      }),
+    });
+  }
+
+  return entries;
+}
+
+// ==================== ÍNDICE ====================
+
+export function createSearchIndex(): SearchIndex {
+  return { docs: new Map(), sources: new Map() };
+}
+
+/**
+ * Pone el índice al día con el store. Solo reconstruye los documentos cuyo
+ * objeto fuente cambió. Devuelve los documentos actuales.
+ */
+export function updateSearchIndex(index: SearchIndex, sources: Partial<SearchSources>): SearchDoc[] {
+  const entries = toDocs(sources);
+
+  for (const [key, entry] of entries) {
+    if (index.sources.get(key) === entry.source) continue;
+    index.docs.set(key, entry.build());
+    index.sources.set(key, entry.source);
+  }
+
+  for (const key of index.docs.keys()) {
+    if (entries.has(key)) continue;
+    index.docs.delete(key);
+    index.sources.delete(key);
+  }
+
+  return Array.from(index.docs.values());
+}
+
+// ==================== RANKING ====================
+
+function scoreWord(text: string, word: string): number {
+  const index = text.indexOf(word);
+  if (index >= 0) {
+    if (text.length === word.length) return 100;
+    if (index === 0) return 80;
+    if (/[\s\-_/.,(]/.test(text[index - 1])) return 65;
+    return 50 - Math.min(index, 20);
+  }
+
+  if (word.length < MIN_FUZZY_LENGTH) return 0;
+
+  // Subsecuencia: penaliza los huecos entre letras
+  let gaps = 0;
+  let position = text.indexOf(word[0]);
+  if (position < 0) return 0;
+  for (let i = 1; i < word.length; i++) {
+    const next = text.indexOf(word[i], position + 1);
+    if (next < 0) return 0;
+    gaps += next - position - 1;
+    position = next;
+  }
+  return Math.max(1, 30 - gaps * 2);
+}
+
+/**
+ * Busca en los documentos del índice; resultados ordenados por puntuación (mejor primero).
+ */
+export function searchDocs(docs: SearchDoc[], query: string, limit = 20): SearchResult[] {
+  const words = normalizeQueryText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const doc of docs) {
+    let score = 0;
+    for (const word of words) {
+      const best = Math.max(0, ...doc.fields.map((f) => scoreWord(f.text, word) * f.weight));
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score === 0) continue;
+    results.push({
+      kind: doc.kind,
+      id: doc.id,
+      title: doc.title,
+      subtitle: doc.subtitle,
+      score,
+      href: getSearchHref(doc.kind, doc.id),
+    });
+  }
+
+  return results
+    .sort((a, b) =>
+      b.score - a.score ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.title.length - b.title.length
+    )
+    .slice(0, limit);
+}
+
+// ==================== NAVEGACIÓN ====================
+
+const FOCUS_HASH_PREFIX = "#focus=";
+
+/**
+ * Enlace al item: tareas y metas en la agenda, el resto en finanzas. La página
+ * destino lee el hash (parseFocusHash), enfoca el item y limpia el hash.
+ */
+export function getSearchHref(kind: SearchKind, id: string): string {
+  const path = kind === "task" || kind === "meta" ? "/agenda" : "/finanzas";
+  return `${path}${FOCUS_HASH_PREFIX}${kind}:${encodeURIComponent(id)}`;
+}
+
+export function parseFocusHash(hash: string): { kind: SearchKind; id: string } | null {
+  if (!hash.startsWith(FOCUS_HASH_PREFIX)) return null;
+  const value = hash.slice(FOCUS_HASH_PREFIX.length);
+  const separator = value.indexOf(":");
+  if (separator < 0) return null;
+  const kind = value.slice(0, separator) as SearchKind;
+  const id = decodeURIComponent(value.slice(separator + 1));
+  return KIND_ORDER.includes(kind) && id ? { kind, id } : null;
+}
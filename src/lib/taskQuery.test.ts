@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { compileTaskQuery, parseTaskQuery } from "./taskQuery";
+import type { TaskData, TaskExtra } from "./types";
+
+const TODAY = "2025-03-10"; // lunes
+
+function task(id: string, fields: Partial<TaskData> = {}, extra: TaskExtra = {}): TaskData {
+  return {
+    id,
+    kind: "NORMAL",
+    type: "ACTIVIDAD",
+    scope: "LABORAL",
+    title: id,
+    points: 2,
+    isCompleted: false,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    ...fields,
+    extra: { frequency: "PUNTUAL", ...extra },
+  } as TaskData;
+}
+
+const context = {
+  today: TODAY,
+  metas: [{ id: "m1", title: "Correr maratón" }, { id: "m2", title: "Casa" }],
+};
+
+// Ids de las tareas que cumplen la consulta
+function run(query: string, tasks: TaskData[]): string[] {
+  const { predicate, errors } = compileTaskQuery(query, context);
+  expect(errors).toEqual([]);
+  return tasks.filter(predicate).map((t) => t.id);
+}
+
+describe("parseTaskQuery", () => {
+  it("campo, comparador tras ':' y negación", () => {
+    const { terms, errors } = parseTaskQuery("points:>=3 -is:done due<today café", TODAY);
+    expect(errors).toEqual([]);
+    expect(terms.map(({ negated, field, operator, value }) => ({ negated, field, operator, value }))).toEqual([
+      { negated: false, field: "points", operator: ">=", value: "3" },
+      { negated: true, field: "is", operator: ":", value: "done" },
+      { negated: false, field: "due", operator: "<", value: "today" },
+      { negated: false, field: null, operator: ":", value: "café" },
+    ]);
+  });
+
+  it("comillas: valores con espacios y posición del término", () => {
+    const { terms } = parseTaskQuery('meta:"Correr maratón" -"dos palabras"', TODAY);
+    expect(terms).toEqual([
+      { negated: false, field: "meta", operator: ":", value: "Correr maratón", start: 0, end: 21 },
+      { negated: true, field: null, operator: ":", value: "dos palabras", start: 22, end: 37 },
+    ]);
+  });
+
+  it("alias en castellano", () => {
+    const { terms } = parseTaskQuery("ambito:fisico importe>10 es:vencida", TODAY);
+    expect(terms.map((t) => t.field)).toEqual(["scope", "amount", "is"]);
+  });
+
+  it("los términos con error no filtran y se informan", () => {
+    const { terms, errors } = parseTaskQuery("color:rojo scope:marte points>muchos due:<ayer2 is: points=2", TODAY);
+    expect(errors).toEqual([
+      "Campo desconocido: color",
+      "Ámbito desconocido: marte",
+      "Número no válido: muchos",
+      "Fecha no válida: ayer2",
+      "Falta el valor de is",
+    ]);
+    expect(terms.map((t) => t.field)).toEqual(["points"]);
+    expect(parseTaskQuery("label>3", TODAY).errors).toEqual(["label no admite >"]);
+  });
+});
+
+describe("compileTaskQuery", () => {
+  const tasks = [
+    task("a", { title: "Correr 10 km", scope: "FISICO", label: "Carrera", metaId: "m1", points: 5, date: "2025-03-05" }),
+    task("b", { title: "Pagar la luz", type: "GASTO", date: "2025-03-12" }, { amountEUR: 120 }),
+    task("c", { title: "Llamar a Ángela", description: "Sobre el piso", metaId: "m2", isCompleted: true, date: "2025-03-01" }),
+    task("d", { title: "Título", kind: "TITLE", points: 0 }),
+  ];
+
+  it("texto libre sin mayúsculas ni acentos", () => {
+    expect(run("angela", tasks)).toEqual(["c"]);
+    expect(run("PISO", tasks)).toEqual(["c"]);
+    expect(run("carrera", tasks)).toEqual(["a"]);
+  });
+
+  it("comparadores numéricos y AND de términos", () => {
+    expect(run("points>=5", tasks)).toEqual(["a"]);
+    expect(run("points:<5", tasks)).toEqual(["b", "c"]);
+    expect(run("amount>100", tasks)).toEqual(["b"]);
+    expect(run("amount>100 points>3", tasks)).toEqual([]);
+  });
+
+  it("negación", () => {
+    expect(run("-is:done", tasks)).toEqual(["a", "b", "d"]);
+    expect(run("-is:done -is:title", tasks)).toEqual(["a", "b"]);
+  });
+
+  it("meta por nombre, entre comillas", () => {
+    expect(run('meta:"maraton"', tasks)).toEqual(["a"]);
+    expect(run('meta:"Correr maratón"', tasks)).toEqual(["a"]);
+    expect(run("-meta:casa", tasks)).toEqual(["a", "b", "d"]);
+  });
+
+  it("due con palabras clave, fecha y relativo a hoy", () => {
+    expect(run("due:<today", tasks)).toEqual(["a", "c"]);
+    expect(run("due>=today due<=+7d", tasks)).toEqual(["b"]);
+    expect(run("due:2025-03-01", tasks)).toEqual(["c"]);
+  });
+
+  it("is:overdue en puntuales: pasada y sin hacer", () => {
+    expect(run("is:overdue", tasks)).toEqual(["a"]);
+  });
+
+  it("consulta vacía o solo con errores deja pasar todo", () => {
+    expect(compileTaskQuery("", context).predicate(tasks[0])).toBe(true);
+    const { predicate, errors } = compileTaskQuery("zzz:1", context);
+    expect(errors).toHaveLength(1);
+    expect(tasks.every(predicate)).toBe(true);
+  });
+});
+
+describe("tareas repetidas", () => {
+  // Diaria desde el 1 de marzo
+  const daily = (extra: TaskExtra = {}) =>
+    task("r", { title: "Estirar" }, { frequency: "DIARIA", repeatStart: "2025-03-01", ...extra });
+  const pastDates = Array.from({ length: 9 }, (_, i) => `2025-03-0${i + 1}`);
+
+  it("vencida si alguna ocurrencia pasada sigue pendiente", () => {
+    expect(run("is:overdue", [daily()])).toEqual(["r"]);
+    expect(run("is:overdue", [daily({ completedDates: pastDates.slice(1) })])).toEqual(["r"]);
+  });
+
+  it("no vencida si las pasadas están hechas o saltadas", () => {
+    const skipped = Object.fromEntries(pastDates.slice(5).map((d) => [d, { skipped: true }]));
+    expect(run("is:overdue", [daily({ completedDates: pastDates.slice(0, 5), occurrenceOverrides: skipped })])).toEqual([]);
+    expect(run("is:overdue", [daily({ repeatStart: TODAY })])).toEqual([]);
+  });
+
+  it("due compara con las pasadas pendientes y la próxima", () => {
+    const upToDate = daily({ completedDates: pastDates });
+    expect(run("due:<today", [upToDate])).toEqual([]);
+    expect(run("due:today", [upToDate])).toEqual(["r"]);
+    expect(run("due:<today", [daily()])).toEqual(["r"]);
+  });
+
+  it("due exacto: cualquier ocurrencia no saltada de ese día", () => {
+    const t = daily({ repeatInterval: 2, occurrenceOverrides: { "2025-03-13": { skipped: true } } });
+    expect(run("due:2025-03-11", [t])).toEqual(["r"]);
+    expect(run("due:2025-03-12", [t])).toEqual([]);
+    expect(run("due:2025-03-13", [t])).toEqual([]);
+  });
+});
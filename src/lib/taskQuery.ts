@@ -0,0 +1,527 @@
+import type { TaskData, BankAccount, ForecastLine, Label } from "./types";
+import { getUIType } from "./types";
+import { addDays, expandTaskOccurrences, type TaskOccurrence } from "./recurrence";
+import { getTaskRecurrence } from "../sync/normalizeTask";
+
+/**
+ * Lenguaje de consulta del buscador de la agenda (TaskFilters.query).
+ *
+ * - Términos separados por espacios; todos deben cumplirse (AND)
+ * - `campo:valor` o `campo>valor` (también <, >=, <=, =); tras `:` se admite
+ *   un comparador: `due:<today`, `points:>=3`
+ * - `-` delante niega el término: `-is:done`
+ * - Comillas para valores con espacios: `meta:"Correr maratón"`
+ * - Sin campo: texto libre en título, etiqueta, descripción y notas
+ * - Texto sin mayúsculas ni acentos: `fisico` encuentra "Físico"
+ *
+ * Ejemplo: `scope:fisico label:correr amount>100 due:<today -is:done`
+ */
+
+export type QueryOperator = ":" | "=" | ">" | "<" | ">=" | "<=";
+
+export type QueryField =
+  | "scope" | "type" | "label" | "meta" | "account" | "forecast"
+  | "points" | "amount" | "due" | "is" | "has";
+
+export interface QueryTerm {
+  negated: boolean;
+  field: QueryField | null;  // null = texto libre
+  operator: QueryOperator;
+  value: string;
+  start: number;             // posición en la consulta (para errores/autocompletado)
+  end: number;
+}
+
+export interface ParsedTaskQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+// Listas con las que se resuelven nombres (metas, cuentas...) y se autocompleta
+export interface TaskQueryContext {
+  metas?: { id: string; title: string }[];
+  bankAccounts?: BankAccount[];
+  forecastLines?: ForecastLine[];
+  labels?: Label[];
+  today?: string;            // YYYY-MM-DD; por defecto hoy (local)
+}
+
+export interface QuerySuggestion {
+  label: string;             // lo que se muestra
+  detail?: string;           // descripción corta
+  insert: string;            // texto que sustituye al término en [from, to)
+  from: number;
+  to: number;
+}
+
+const FIELDS: Record<QueryField, string> = {
+  scope: "Ámbito (laboral, fisico, crecimiento)",
+  type: "Tipo (actividad, fisico, conocimiento, ingreso, gasto, titulo)",
+  label: "Etiqueta",
+  meta: "Meta",
+  account: "Cuenta bancaria",
+  forecast: "Línea de previsión",
+  points: "Puntos (points>=3)",
+  amount: "Importe en € (amount>100)",
+  due: "Fecha (due:<today, due:2025-01-31, due:<=+7d)",
+  is: "Estado",
+  has: "Tiene un campo",
+};
+
+// Alias en castellano de los campos
+const FIELD_ALIASES: Record<string, QueryField> = {
+  ambito: "scope",
+  tipo: "type",
+  etiqueta: "label",
+  cuenta: "account",
+  banco: "account",
+  prevision: "forecast",
+  puntos: "points",
+  importe: "amount",
+  fecha: "due",
+  date: "due",
+  es: "is",
+  tiene: "has",
+};
+
+const NUMERIC_FIELDS: QueryField[] = ["points", "amount", "due"];
+
+const SCOPE_VALUES: Record<string, string> = {
+  laboral: "LABORAL",
+  fisico: "FISICO",
+  crecimiento: "CRECIMIENTO",
+  conocimiento: "CRECIMIENTO",
+};
+
+const TYPE_VALUES = ["actividad", "fisico", "conocimiento", "ingreso", "gasto", "titulo"];
+
+const IS_VALUES: Record<string, string> = {
+  done: "Hecha",
+  pending: "Pendiente",
+  overdue: "Vencida (fecha pasada y pendiente)",
+  recurring: "Repetida",
+  unscheduled: "Sin fecha",
+  title: "Título",
+  child: "Subtarea",
+};
+
+const IS_ALIASES: Record<string, string> = {
+  hecha: "done",
+  pendiente: "pending",
+  vencida: "overdue",
+  repetida: "recurring",
+  sinfecha: "unscheduled",
+  titulo: "title",
+  subtarea: "child",
+};
+
+const HAS_VALUES: Record<string, string> = {
+  time: "Hora",
+  reminder: "Aviso",
+  meta: "Meta",
+  account: "Cuenta",
+  forecast: "Previsión",
+  amount: "Importe",
+  description: "Descripción",
+};
+
+const DUE_KEYWORDS: Record<string, number> = {
+  today: 0,
+  hoy: 0,
+  tomorrow: 1,
+  manana: 1,
+  yesterday: -1,
+  ayer: -1,
+};
+
+const OPERATOR_RE = /^(>=|<=|>|<|=)/;
+
+// ==================== PARSER ====================
+
+function hasKey(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+export function normalizeQueryText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+interface RawToken {
+  text: string;              // sin comillas
+  raw: string;
+  start: number;
+  end: number;
+}
+
+// Parte por espacios respetando comillas ("a b" es un solo token)
+function tokenize(query: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let text = "";
+    let inQuotes = false;
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === "\"") {
+        inQuotes = !inQuotes;
+      } else {
+        text += query[i];
+      }
+      i++;
+    }
+    tokens.push({ text, raw: query.slice(start, i), start, end: i });
+  }
+  return tokens;
+}
+
+function resolveField(name: string): QueryField | null {
+  const key = normalizeQueryText(name);
+  if (hasKey(FIELDS, key)) return key as QueryField;
+  return hasKey(FIELD_ALIASES, key) ? FIELD_ALIASES[key] : null;
+}
+
+// "campo:valor" / "campo>=valor" -> partes; null si el token es texto libre
+function splitFieldToken(text: string): { name: string; operator: QueryOperator; value: string } | null {
+  const match = /^([a-zA-ZáéíóúÁÉÍÓÚñÑ]+)(:|>=|<=|>|<|=)(.*)$/.exec(text);
+  if (!match) return null;
+  let operator = match[2] as QueryOperator;
+  let value = match[3];
+  if (operator === ":") {
+    const comparator = OPERATOR_RE.exec(value);
+    if (comparator) {
+      operator = comparator[1] as QueryOperator;
+      value = value.slice(comparator[1].length);
+    }
+  }
+  return { name: match[1], operator, value };
+}
+
+function validateTerm(term: QueryTerm, today: string): string | null {
+  const { field, operator, value } = term;
+  if (!field) return null;
+  if (!value) return `Falta el valor de ${field}`;
+  if (operator !== ":" && operator !== "=" && !NUMERIC_FIELDS.includes(field)) {
+    return `${field} no admite ${operator}`;
+  }
+  const normalized = normalizeQueryText(value);
+  switch (field) {
+    case "scope":
+      return hasKey(SCOPE_VALUES, normalized) ? null : `Ámbito desconocido: ${value}`;
+    case "type":
+      return TYPE_VALUES.includes(normalized) ? null : `Tipo desconocido: ${value}`;
+    case "is":
+      return hasKey(IS_VALUES, normalized) || hasKey(IS_ALIASES, normalized) ? null : `Estado desconocido: ${value}`;
+    case "has":
+      return hasKey(HAS_VALUES, normalized) ? null : `Campo desconocido en has: ${value}`;
+    case "points":
+    case "amount":
+      return parseNumber(value) === null ? `Número no válido: ${value}` : null;
+    case "due":
+      return parseDueValue(value, today) === null ? `Fecha no válida: ${value}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parsea la consulta. Los términos con error se devuelven en `errors` y no
+ * filtran (el resto de la consulta sigue aplicándose mientras se escribe).
+ */
+export function parseTaskQuery(query: string, today: string = getTodayISO()): ParsedTaskQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(query)) {
+    let text = token.text;
+    const negated = text.startsWith("-") && text.length > 1;
+    if (negated) text = text.slice(1);
+    if (!text) continue;
+
+    const parts = splitFieldToken(text);
+    const field = parts ? resolveField(parts.name) : null;
+
+    if (parts && !field) {
+      errors.push(`Campo desconocido: ${parts.name}`);
+      continue;
+    }
+
+    const term: QueryTerm = field && parts
+      ? { negated, field, operator: parts.operator, value: parts.value, start: token.start, end: token.end }
+      : { negated, field: null, operator: ":", value: text, start: token.start, end: token.end };
+
+    const error = validateTerm(term, today);
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+    terms.push(term);
+  }
+
+  return { terms, errors };
+}
+
+// ==================== VALORES ====================
+
+function getTodayISO(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function parseNumber(value: string): number | null {
+  const n = Number(value.replace(",", "."));
+  return value.trim() !== "" && Number.isFinite(n) ? n : null;
+}
+
+// today/hoy, tomorrow, yesterday, YYYY-MM-DD o relativo a hoy (+7d, -2w)
+function parseDueValue(value: string, today: string): string | null {
+  const normalized = normalizeQueryText(value);
+  if (hasKey(DUE_KEYWORDS, normalized)) return addDays(today, DUE_KEYWORDS[normalized]);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) return value;
+  const relative = /^([+-]?\d+)([dw])$/.exec(normalized);
+  if (relative) return addDays(today, Number(relative[1]) * (relative[2] === "w" ? 7 : 1));
+  return null;
+}
+
+function compare(actual: number | string, operator: QueryOperator, expected: number | string): boolean {
+  switch (operator) {
+    case ">": return actual > expected;
+    case "<": return actual < expected;
+    case ">=": return actual >= expected;
+    case "<=": return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+// Hecha igual que el filtro de estado sin rango de fechas
+function isTaskDone(task: TaskData): boolean {
+  return task.kind !== "TITLE" && (task.isCompleted === true || (task.extra?.completedDates?.length ?? 0) > 0);
+}
+
+/**
+ * Fechas con las que compara `due`: la de la tarea puntual o, en las repetidas,
+ * las ocurrencias pasadas pendientes (ni hechas ni saltadas) más la próxima
+ * pendiente desde hoy. Vacío si no tiene fecha.
+ */
+function getDueDates(task: TaskData, today: string): string[] {
+  if (task.kind === "TITLE") return [];
+  if (!getTaskRecurrence(task)) return task.date ? [task.date] : [];
+  const isPending = (o: TaskOccurrence) => !o.isSkipped && !o.isCompleted;
+  const overdue = expandTaskOccurrences(task, undefined, addDays(today, -1))
+    .filter((o) => isPending(o) && o.date < today)
+    .map((o) => o.date);
+  const next = expandTaskOccurrences(task, today).find((o) => isPending(o) && o.date >= today);
+  return next ? [...overdue, next.date] : overdue;
+}
+
+// Vencida: puntual pasada sin hacer o repetida con alguna ocurrencia pasada pendiente
+function isTaskOverdue(task: TaskData, today: string): boolean {
+  if (task.kind === "TITLE") return false;
+  if (!getTaskRecurrence(task)) return !isTaskDone(task) && !!task.date && task.date < today;
+  return getDueDates(task, today).some((date) => date < today);
+}
+
+// ==================== PREDICADO ====================
+
+type TermPredicate = (task: TaskData) => boolean;
+
+function includesText(haystack: string | null | undefined, needle: string): boolean {
+  return !!haystack && normalizeQueryText(haystack).includes(needle);
+}
+
+function compileTerm(term: QueryTerm, context: TaskQueryContext, today: string): TermPredicate {
+  const value = normalizeQueryText(term.value);
+
+  // Ids de las entidades cuyo nombre contiene el valor
+  const matchingIds = (items: { id: string; name?: string; title?: string }[] | undefined) =>
+    new Set((items ?? []).filter((item) => includesText(item.name ?? item.title, value)).map((item) => item.id));
+
+  switch (term.field) {
+    case null:
+      return (task) =>
+        includesText(task.title, value) ||
+        includesText(task.label, value) ||
+        includesText(task.description, value) ||
+        includesText(task.extra?.notes, value);
+
+    case "scope": {
+      const scope = SCOPE_VALUES[value];
+      return (task) => task.kind !== "TITLE" && task.scope === scope;
+    }
+
+    case "type":
+      return (task) => normalizeQueryText(getUIType(task.type, task.scope, task.kind)) === value;
+
+    case "label":
+      return (task) => includesText(task.label, value);
+
+    case "meta": {
+      const ids = matchingIds(context.metas);
+      return (task) => !!task.metaId && ids.has(task.metaId);
+    }
+
+    case "account": {
+      const ids = matchingIds(context.bankAccounts);
+      return (task) => !!task.accountId && ids.has(task.accountId);
+    }
+
+    case "forecast": {
+      const ids = matchingIds(context.forecastLines);
+      return (task) => !!task.forecastId && ids.has(task.forecastId);
+    }
+
+    case "points": {
+      const expected = parseNumber(term.value)!;
+      return (task) => task.kind !== "TITLE" && compare(task.points ?? 0, term.operator, expected);
+    }
+
+    case "amount": {
+      const expected = parseNumber(term.value)!;
+      return (task) => typeof task.extra?.amountEUR === "number" && compare(task.extra.amountEUR, term.operator, expected);
+    }
+
+    case "due": {
+      const expected = parseDueValue(term.value, today)!;
+      const isExact = term.operator === ":" || term.operator === "=";
+      return (task) => {
+        // Fecha exacta en una repetida: cualquier ocurrencia no saltada de ese día
+        if (isExact && getTaskRecurrence(task)) {
+          return expandTaskOccurrences(task, expected, expected).some((o) => !o.isSkipped && o.date === expected);
+        }
+        return getDueDates(task, today).some((due) => compare(due, term.operator, expected));
+      };
+    }
+
+    case "is": {
+      const state = hasKey(IS_ALIASES, value) ? IS_ALIASES[value] : value;
+      return (task) => {
+        switch (state) {
+          case "done": return isTaskDone(task);
+          case "pending": return task.kind !== "TITLE" && !isTaskDone(task);
+          case "overdue": return isTaskOverdue(task, today);
+          case "recurring": return !!getTaskRecurrence(task);
+          case "unscheduled": return task.kind !== "TITLE" && !getTaskRecurrence(task) && !task.date;
+          case "title": return task.kind === "TITLE";
+          default: return !!task.parentId; // child
+        }
+      };
+    }
+
+    case "has":
+      return (task) => {
+        switch (value) {
+          case "time": return !!(task.time || getTaskRecurrence(task)?.time);
+          case "reminder": return task.extra?.reminderEnabled === true;
+          case "meta": return !!task.metaId;
+          case "account": return !!task.accountId;
+          case "forecast": return !!task.forecastId;
+          case "amount": return typeof task.extra?.amountEUR === "number";
+          default: return !!task.description?.trim(); // description
+        }
+      };
+  }
+}
+
+/**
+ * Compila la consulta a un predicado sobre TaskData (AND de todos los términos
+ * válidos). Una consulta vacía o solo con errores deja pasar todo.
+ */
+export function compileTaskQuery(
+  query: string,
+  context: TaskQueryContext = {}
+): { predicate: (task: TaskData) => boolean; errors: string[] } {
+  const today = context.today ?? getTodayISO();
+  const { terms, errors } = parseTaskQuery(query, today);
+  const predicates = terms.map((term) => {
+    const predicate = compileTerm(term, context, today);
+    return term.negated ? (task: TaskData) => !predicate(task) : predicate;
+  });
+  return {
+    predicate: (task) => predicates.every((predicate) => predicate(task)),
+    errors,
+  };
+}
+
+// ==================== AUTOCOMPLETADO ====================
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function getValueOptions(field: QueryField, context: TaskQueryContext): { value: string; detail?: string }[] {
+  switch (field) {
+    case "scope":
+      return ["laboral", "fisico", "crecimiento"].map((value) => ({ value }));
+    case "type":
+      return TYPE_VALUES.map((value) => ({ value }));
+    case "is":
+      return Object.entries(IS_VALUES).map(([value, detail]) => ({ value, detail }));
+    case "has":
+      return Object.entries(HAS_VALUES).map(([value, detail]) => ({ value, detail }));
+    case "due":
+      return [
+        { value: "today", detail: "Hoy" },
+        { value: "<today", detail: "Antes de hoy" },
+        { value: "tomorrow", detail: "Mañana" },
+        { value: "<=+7d", detail: "Próximos 7 días" },
+      ];
+    case "label": {
+      const names = new Set((context.labels ?? []).map((l) => l.name));
+      return [...names].map((value) => ({ value }));
+    }
+    case "meta":
+      return (context.metas ?? []).map((m) => ({ value: m.title }));
+    case "account":
+      return (context.bankAccounts ?? []).map((a) => ({ value: a.name }));
+    case "forecast":
+      return (context.forecastLines ?? []).map((f) => ({ value: f.name }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Sugerencias para el término bajo el cursor: nombres de campo mientras no hay
+ * `:`, y valores del campo (incluidos nombres de metas, cuentas, etiquetas...) después.
+ */
+export function getQuerySuggestions(
+  query: string,
+  cursor: number,
+  context: TaskQueryContext = {},
+  limit = 8
+): QuerySuggestion[] {
+  const token = tokenize(query).find((t) => t.start <= cursor && cursor <= t.end);
+  const from = token?.start ?? cursor;
+  const to = token?.end ?? cursor;
+  const raw = token ? token.text : "";
+  const prefix = raw.startsWith("-") ? "-" : "";
+  const text = raw.slice(prefix.length);
+
+  const withColon = /^([a-zA-ZáéíóúÁÉÍÓÚñÑ]+):(.*)$/.exec(text);
+  if (!withColon) {
+    if (splitFieldToken(text)) return []; // comparación (amount>...): sin sugerencias
+    const needle = normalizeQueryText(text);
+    return (Object.keys(FIELDS) as QueryField[])
+      .filter((field) => field.startsWith(needle))
+      .slice(0, limit)
+      .map((field) => ({ label: `${field}:`, detail: FIELDS[field], insert: `${prefix}${field}:`, from, to }));
+  }
+
+  const field = resolveField(withColon[1]);
+  if (!field) return [];
+  const value = withColon[2];
+  const needle = normalizeQueryText(value);
+  return getValueOptions(field, context)
+    .filter((option) => normalizeQueryText(option.value).includes(needle) && option.value !== value)
+    .slice(0, limit)
+    .map((option) => ({
+      label: option.value,
+      detail: option.detail,
+      insert: `${prefix}${field}:${quoteIfNeeded(option.value)} `,
+      from,
+      to,
+    }));
+}
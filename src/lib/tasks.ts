@@ -1,122 +1,42 @@
 import { supabase } from "./supabaseClient";
-import type { TaskRow, TaskData, TaskFilters, TaskType, Meta, MetaRow, MetaData, BankAccount, ForecastLine, Label, TaskScope, TaskExtra } from "./types";
+import type { TaskRow, TaskData, TaskFilters, TaskType, Label, TaskScope, TaskExtra } from "./types";
 import { SCORING_CATEGORY_TO_SCOPE } from "./types";
-import { normalizeTaskForDb, hydrateTaskFromDb, recalculateTaskLevels } from "../sync/normalizeTask";
-import { normalizeMetaForDb, hydrateMetaFromDb } from "../sync/normalizeMeta";
+import {
+  recalculateTaskLevels,
+  getTaskRecurrence,
+  recurrenceToExtra,
+  toLegacyRepeatRule,
+} from "../sync/normalizeTask";
+import { expandTaskOccurrences } from "./recurrence";
+import { compileTaskQuery, type TaskQueryContext } from "./taskQuery";
 
 // ==================== TASKS ====================
 
-export async function fetchTasks(): Promise<{ data: TaskRow[] | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("tasks")
-    .select("id, user_id, data, client_updated_at, server_updated_at, deleted_at")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null)
-    .order("client_updated_at", { ascending: false });
-
-  if (error) {
-    return { data: null, error: error.message };
-  }
-
-  // Hidratar tasks desde DB y recalcular levels
-  const rawTasks = data as { id: string; user_id: string; data: Record<string, unknown>; client_updated_at: string; server_updated_at?: string; deleted_at: string | null }[];
-  const hydratedTasks = rawTasks.map(row => ({
-    ...row,
-    data: hydrateTaskFromDb(row.data),
-  })) as TaskRow[];
-  
-  // Recalcular levels basándose en parentId
-  const allTaskData = hydratedTasks.map(t => t.data);
-  const withLevels = recalculateTaskLevels(allTaskData);
-  
-  // Actualizar los TaskRow con los levels recalculados
-  const result = hydratedTasks.map((row, i) => ({
-    ...row,
-    data: withLevels[i],
-  }));
-
-  return { data: result, error: null };
-}
-
-export async function createTask(taskData: TaskData): Promise<{ data: TaskRow | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  
-  // Normalizar task antes de guardar (elimina nulls, aplica reglas de frecuencia, etc.)
-  const normalizedData = normalizeTaskForDb({
-    ...taskData,
-    createdAt: taskData.createdAt || now,
-  });
-
-  const payload = {
-    id: taskData.id,
-    user_id: userData.user.id,
-    data: normalizedData,
-    client_updated_at: now,
+/**
+ * Adapta las tareas del store de sync al formato TaskRow que usan los componentes
+ * (más recientes primero, con levels recalculados).
+ */
+export function toTaskRows(tasks: TaskData[]): TaskRow[] {
+  const sorted = [...tasks].sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
+  return recalculateTaskLevels(sorted).map((data) => ({
+    id: data.id,
+    user_id: "",
+    data,
+    client_updated_at: data.updatedAt ?? "",
     deleted_at: null,
-  };
-
-  const { data, error } = await supabase
-    .from("tasks")
-    .insert(payload)
-    .select("id, user_id, data, client_updated_at, server_updated_at, deleted_at")
-    .single();
-
-  if (error) {
-    return { data: null, error: error.message };
-  }
-
-  // Hidratar el resultado para devolverlo con todos los campos esperados por la UI
-  const resultRow = data as { id: string; user_id: string; data: Record<string, unknown>; client_updated_at: string; server_updated_at?: string; deleted_at: string | null };
-  return { 
-    data: {
-      ...resultRow,
-      data: hydrateTaskFromDb(resultRow.data),
-    } as TaskRow, 
-    error: null 
-  };
+  }));
 }
 
-export async function updateTask(id: string, taskData: Partial<TaskData>): Promise<{ data: TaskRow | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const { data: currentTask, error: fetchError } = await supabase
-    .from("tasks")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !currentTask) {
-    return { data: null, error: fetchError?.message || "Tarea no encontrada" };
-  }
-
-  // Hidratar la tarea existente para tener todos los campos
-  const existing = hydrateTaskFromDb(currentTask.data as Record<string, unknown>);
-  const now = new Date().toISOString();
-
+/**
+ * Aplica un patch parcial sobre una tarea existente.
+ * Si cambia tipo o scope, elimina los campos de extra que ya no aplican.
+ */
+export function mergeTaskUpdate(existing: TaskData, taskData: Partial<TaskData>, now = new Date().toISOString()): TaskData {
   // Detectar si hay cambio de tipo o scope
   const typeChanged = taskData.type !== undefined && taskData.type !== existing.type;
   const scopeChanged = taskData.scope !== undefined && taskData.scope !== existing.scope;
   const needsSanitize = typeChanged || scopeChanged;
 
-  let mergedData: TaskData;
-
   if (needsSanitize) {
     // Si cambia tipo/scope: primero merge, luego sanitize (elimina campos del tipo anterior)
     const merged: TaskData = {
@@ -128,451 +48,25 @@ export async function updateTask(id: string, taskData: Partial<TaskData>): Promi
       },
       updatedAt: now,
     };
-    mergedData = sanitizeTaskDataByType(merged, existing) as TaskData;
-  } else {
-    // Sin cambio de tipo: merge normal
-    let mergedExtra = existing.extra;
-    if (taskData.extra) {
-      mergedExtra = {
-        ...(existing.extra || {}),
-        ...taskData.extra,
-      };
-    }
-    mergedData = {
-      ...existing,
-      ...taskData,
-      extra: mergedExtra,
-      updatedAt: now,
-    };
-  }
-
-  // Normalizar antes de guardar (elimina nulls, aplica reglas de frecuencia)
-  const normalizedData = normalizeTaskForDb(mergedData);
-
-  const { data, error } = await supabase
-    .from("tasks")
-    .update({
-      data: normalizedData,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .select("id, user_id, data, client_updated_at, server_updated_at, deleted_at")
-    .single();
-
-  if (error) {
-    return { data: null, error: error.message };
-  }
-
-  // Hidratar el resultado para devolverlo con todos los campos esperados por la UI
-  const resultRow = data as { id: string; user_id: string; data: Record<string, unknown>; client_updated_at: string; server_updated_at?: string; deleted_at: string | null };
-  return { 
-    data: {
-      ...resultRow,
-      data: hydrateTaskFromDb(resultRow.data),
-    } as TaskRow, 
-    error: null 
-  };
-}
-
-export async function deleteTask(id: string): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-
-  const { error } = await supabase
-    .from("tasks")
-    .update({
-      deleted_at: now,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
-}
-
-export async function restoreTask(id: string): Promise<{ error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-
-  const { error } = await supabase
-    .from("tasks")
-    .update({
-      deleted_at: null,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  return { error: error?.message || null };
-}
-
-// ==================== METAS ====================
-
-type MetaType = "MOONSHOT" | "LARGO_PLAZO" | "CORTO_PLAZO";
-type Horizon = "1M" | "3M" | "6M" | "9M" | "1Y" | "3Y" | "5Y" | "10Y";
-
-type SaveMetaInput = {
-  title: string;
-  description?: string;
-  targetDate: string;
-  metaType: MetaType;
-  horizon?: Horizon;
-};
-
-export async function fetchMetas(): Promise<{ data: Meta[] | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("metas")
-    .select("id, user_id, data, deleted_at")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null);
-
-  if (error) {
-    return { data: null, error: error.message };
-  }
-
-  // Hidratar metas desde DB usando el normalizador
-  const metas: Meta[] = (data || []).map((row: MetaRow) => {
-    const metaData = row.data as unknown as Record<string, unknown>;
-    // Asegurar que el id del row se use (por si data no lo tiene)
-    return hydrateMetaFromDb({ ...metaData, id: row.id });
-  });
-
-  // Ordenar por order ascendente (metas sin order al final)
-  metas.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
-
-  return { data: metas, error: null };
-}
-
-export async function createMeta(input: SaveMetaInput): Promise<{ data: Meta | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  const id = crypto.randomUUID();
-
-  // Normalizar meta antes de guardar (mismas reglas que APP)
-  const normalizedData = normalizeMetaForDb({
-    id,
-    title: input.title,
-    description: input.description,
-    targetDate: input.targetDate,
-    metaType: input.metaType,
-    horizon: input.horizon,
-    isActive: true, // Nueva meta siempre activa (no se persiste porque es true)
-    createdAt: now,
-  });
-
-  const payload = {
-    id,
-    user_id: userData.user.id,
-    data: normalizedData,
-    client_updated_at: now,
-    deleted_at: null,
-  };
-
-  const { data, error } = await supabase
-    .from("metas")
-    .insert(payload)
-    .select("id, data")
-    .single();
-
-  if (error) {
-    return { data: null, error: error.message };
-  }
-
-  // Hidratar el resultado para devolverlo con todos los campos esperados por la UI
-  return {
-    data: hydrateMetaFromDb({ ...(data.data as Record<string, unknown>), id: data.id }),
-    error: null,
-  };
-}
-
-export async function updateMeta(id: string, input: SaveMetaInput): Promise<{ data: Meta | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  // Fetch current
-  const { data: current, error: fetchError } = await supabase
-    .from("metas")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { data: null, error: fetchError?.message || "Meta no encontrada" };
+    return sanitizeTaskDataByType(merged, existing) as TaskData;
   }
 
-  const now = new Date().toISOString();
-  const existing = current.data as Record<string, unknown>;
-
-  // Normalizar meta antes de guardar (mismas reglas que APP)
-  // Preservar campos existentes como order, isActive, createdAt
-  const normalizedData = normalizeMetaForDb({
-    id,
-    title: input.title,
-    description: input.description,
-    targetDate: input.targetDate,
-    metaType: input.metaType,
-    horizon: input.horizon,
-    // Preservar campos que no vienen en input
-    order: existing.order as number | undefined,
-    isActive: existing.isActive as boolean | undefined,
-    createdAt: existing.createdAt as string | undefined,
-  });
-
-  const { data, error } = await supabase
-    .from("metas")
-    .update({
-      data: normalizedData,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .select("id, data")
-    .single();
-
-  if (error) {
-    return { data: null, error: error.message };
+  // Sin cambio de tipo: merge normal
+  let mergedExtra = existing.extra;
+  if (taskData.extra) {
+    mergedExtra = {
+      ...(existing.extra || {}),
+      ...taskData.extra,
+    };
   }
-
-  // Hidratar el resultado para devolverlo con todos los campos esperados por la UI
   return {
-    data: hydrateMetaFromDb({ ...(data.data as Record<string, unknown>), id: data.id }),
-    error: null,
+    ...existing,
+    ...taskData,
+    extra: mergedExtra,
+    updatedAt: now,
   };
 }
 
-// Actualiza solo el campo order de una meta (para drag & drop reorder)
-export async function updateMetaOrder(id: string, order: number): Promise<{ success: boolean; error?: string }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { success: false, error: "No autenticado" };
-  }
-
-  // Fetch current data
-  const { data: current, error: fetchError } = await supabase
-    .from("metas")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { success: false, error: fetchError?.message || "Meta no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existing = current.data as Record<string, unknown>;
-  
-  // Hidratar la meta existente para tener todos los campos
-  const hydrated = hydrateMetaFromDb({ ...existing, id });
-
-  // Normalizar con el nuevo order
-  const normalizedData = normalizeMetaForDb({
-    ...hydrated,
-    order,
-    createdAt: existing.createdAt as string | undefined,
-  });
-
-  const { error } = await supabase
-    .from("metas")
-    .update({
-      data: normalizedData,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  if (error) {
-    return { success: false, error: error.message };
-  }
-
-  return { success: true };
-}
-
-// Actualiza el estado activo/pausado de una meta
-export async function updateMetaIsActive(id: string, isActive: boolean): Promise<{ success: boolean; error?: string }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { success: false, error: "No autenticado" };
-  }
-
-  // Fetch current data
-  const { data: current, error: fetchError } = await supabase
-    .from("metas")
-    .select("data")
-    .eq("id", id)
-    .eq("user_id", userData.user.id)
-    .single();
-
-  if (fetchError || !current) {
-    return { success: false, error: fetchError?.message || "Meta no encontrada" };
-  }
-
-  const now = new Date().toISOString();
-  const existing = current.data as Record<string, unknown>;
-
-  // Hidratar la meta existente para tener todos los campos
-  const hydrated = hydrateMetaFromDb({ ...existing, id });
-
-  // Normalizar con el nuevo isActive
-  // IMPORTANTE: isActive solo se persiste si es false
-  const normalizedData = normalizeMetaForDb({
-    ...hydrated,
-    isActive,
-    createdAt: existing.createdAt as string | undefined,
-  });
-
-  const { error } = await supabase
-    .from("metas")
-    .update({
-      data: normalizedData,
-      client_updated_at: now,
-    })
-    .eq("id", id)
-    .eq("user_id", userData.user.id);
-
-  if (error) {
-    return { success: false, error: error.message };
-  }
-
-  return { success: true };
-}
-
-export async function deleteMetaAndTasks(metaId: string): Promise<{ success: boolean; error?: string }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { success: false, error: "No autenticado" };
-  }
-
-  const now = new Date().toISOString();
-  const userId = userData.user.id;
-
-  // 1) Soft delete TODAS las tareas con ese metaId
-  // Las tareas tienen metaId dentro de data (JSONB), usamos el operador ->>
-  const { error: tasksError } = await supabase
-    .from("tasks")
-    .update({
-      deleted_at: now,
-      client_updated_at: now,
-    })
-    .eq("user_id", userId)
-    .filter("data->>metaId", "eq", metaId);
-
-  if (tasksError) {
-    return { success: false, error: `Error eliminando tareas: ${tasksError.message}` };
-  }
-
-  // 2) Soft delete la meta
-  const { error: metaError } = await supabase
-    .from("metas")
-    .update({
-      deleted_at: now,
-      client_updated_at: now,
-    })
-    .eq("id", metaId)
-    .eq("user_id", userId);
-
-  if (metaError) {
-    return { success: false, error: `Error eliminando meta: ${metaError.message}` };
-  }
-
-  return { success: true };
-}
-
-// ==================== BANK ACCOUNTS ====================
-
-export async function fetchBankAccounts(): Promise<{ data: BankAccount[] | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("bank_accounts")
-    .select("id, data, deleted_at, client_updated_at, server_updated_at")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null);
-
-  if (error) {
-    // Tabla puede no existir
-    console.warn("bank_accounts fetch error:", error.message);
-    return { data: [], error: null };
-  }
-
-  const accounts: BankAccount[] = (data || []).map((row: { id: string; data: { name?: string; title?: string; type?: string; balance?: number } }) => {
-    if (process.env.NODE_ENV !== "production") {
-      console.debug("[bank_accounts] load row.type", row.id, row.data?.type);
-    }
-    return {
-      id: row.id,
-      name: row.data?.name || row.data?.title || row.id,
-      type: row.data?.type as "PERSONAL" | "SOCIEDAD" | undefined,
-      balance: typeof row.data?.balance === "number" ? row.data.balance : undefined,
-    };
-  });
-
-  return { data: accounts, error: null };
-}
-
-// ==================== FORECAST LINES ====================
-
-export async function fetchForecastLines(): Promise<{ data: ForecastLine[] | null; error: string | null }> {
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !userData?.user) {
-    return { data: null, error: "No autenticado" };
-  }
-
-  const { data, error } = await supabase
-    .from("income_forecast_lines")
-    .select("id, data")
-    .eq("user_id", userData.user.id)
-    .is("deleted_at", null);
-
-  if (error) {
-    console.warn("income_forecast_lines fetch error:", error.message);
-    return { data: [], error: null };
-  }
-
-  const lines: ForecastLine[] = (data || []).map((row: { id: string; data: { name?: string; title?: string; type?: string; parentId?: string | null } }) => ({
-    id: row.id,
-    name: row.data?.name || row.data?.title || row.id,
-    type: (row.data?.type === "GASTO" ? "GASTO" : "INGRESO") as "INGRESO" | "GASTO",
-    parentId: row.data?.parentId || null,
-  }));
-
-  return { data: lines, error: null };
-}
-
 // ==================== SCORING SETTINGS (desde app_settings) ====================
 
 /**
@@ -637,10 +131,23 @@ const EXTRA_FIELDS_COMMON = [
   "frequency",
   "weeklyDays",
   "weeklyTime",
+  "dailyTime",
   "monthlyDay",
+  "monthlyWeekdays",
+  "monthlySetPos",
   "monthlyTime",
+  "yearlyMonth",
+  "yearlyDay",
+  "yearlyTime",
+  "repeatInterval",
+  "repeatStart",
+  "repeatUntil",
+  "repeatCount",
+  "exceptionDates",
+  "occurrenceOverrides",
   "unscheduled",
   "notes",
+  "icsUid",
 ];
 
 const EXTRA_FIELDS_FINANCIAL = ["amountEUR"];
@@ -792,13 +299,71 @@ export function getReminderDisplay(task: TaskData | { time?: string | null; extr
   return `Aviso a las ${hh}:${mm}`;
 }
 
+// ==================== RECURRENCE DISPLAY ====================
+
+const SET_POS_LABELS: Record<number, string> = {
+  1: "1er", 2: "2º", 3: "3er", 4: "4º", 5: "5º", [-1]: "Último", [-2]: "Penúltimo",
+};
+const WORKDAYS = "L,M,X,J,V";
+
+function formatDateDMY(date: string): string {
+  const [y, m, d] = date.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+/**
+ * Texto de display para repeticiones que el formato legacy no expresa
+ * (diaria, anual, cada N, "último viernes", con fin o excepciones).
+ * Devuelve null si la tarea no repite o su repetición es la legacy de siempre,
+ * que cada vista ya muestra a su manera.
+ */
+export function getAdvancedRecurrenceDisplay(task: Partial<TaskData>): string | null {
+  const recurrence = getTaskRecurrence(task);
+  if (!recurrence || toLegacyRepeatRule(recurrence)) return null;
+  const { frequency, interval } = recurrence;
+
+  let text: string;
+  if (frequency === "DIARIA") {
+    text = interval > 1 ? `Cada ${interval} días` : "Diaria";
+  } else if (frequency === "SEMANAL") {
+    const days = (recurrence.weekdays ?? []).join(" ");
+    text = interval > 1 ? `Cada ${interval} sem · ${days}` : days;
+  } else if (frequency === "MENSUAL") {
+    const days = recurrence.weekdays?.join(",") === WORKDAYS ? "laborable" : (recurrence.weekdays ?? []).join(" ");
+    text = recurrence.setPos
+      ? `${SET_POS_LABELS[recurrence.setPos] ?? `${recurrence.setPos}º`} ${days}`
+      : `Día ${recurrence.monthDay}`;
+    if (interval > 1) text = `Cada ${interval} meses · ${text}`;
+  } else {
+    text = `${String(recurrence.monthDay).padStart(2, "0")}/${String(recurrence.month).padStart(2, "0")}`;
+    if (interval > 1) text = `Cada ${interval} años · ${text}`;
+  }
+
+  if (recurrence.time) text += ` · ${recurrence.time}`;
+  if (recurrence.until) text += ` · hasta ${formatDateDMY(recurrence.until)}`;
+  if (recurrence.count) text += ` · ${recurrence.count} veces`;
+  return text;
+}
+
 // ==================== HELPERS ====================
 
-export function filterTasks(tasks: TaskRow[], filters: TaskFilters): TaskRow[] {
+/**
+ * Aplica los filtros de la UI. `queryContext` resuelve los nombres de la consulta
+ * del buscador (meta:, account:, forecast:...).
+ */
+export function filterTasks(tasks: TaskRow[], filters: TaskFilters, queryContext?: TaskQueryContext): TaskRow[] {
+  const matchesQuery = filters.query?.trim()
+    ? compileTaskQuery(filters.query, queryContext).predicate
+    : null;
+
   return tasks.filter((task) => {
     const data = task.data;
     const isTitle = data.kind === "TITLE";
 
+    if (matchesQuery && !matchesQuery(data)) {
+      return false;
+    }
+
     if (filters.metaIds.length > 0 && data.metaId && !filters.metaIds.includes(data.metaId)) {
       return false;
     }
@@ -807,21 +372,28 @@ export function filterTasks(tasks: TaskRow[], filters: TaskFilters): TaskRow[] {
       return false;
     }
 
+    // Con rango de fechas la tarea pasa si tiene alguna ocurrencia en él
+    // (las repetidas se expanden, las saltadas no cuentan; las sin programar quedan fuera)
+    const hasDateRange = !!(filters.dateFrom || filters.dateTo);
+    const occurrences = hasDateRange && !isTitle
+      ? expandTaskOccurrences(data, filters.dateFrom || undefined, filters.dateTo || undefined)
+          .filter((o) => !o.isSkipped)
+      : null;
+    if (occurrences && occurrences.length === 0) {
+      return false;
+    }
+
     if (filters.statuses.length > 0) {
-      const isDone = !isTitle && (data.isCompleted || (data.extra?.completedDates && data.extra.completedDates.length > 0));
+      // En rango: hecha si lo están todas sus ocurrencias del rango
+      const isDone = !isTitle && (occurrences
+        ? occurrences.every((o) => o.isCompleted)
+        : data.isCompleted || (data.extra?.completedDates && data.extra.completedDates.length > 0));
       const status = isDone ? "done" : "pending";
       if (!filters.statuses.includes(status)) {
         return false;
       }
     }
 
-    if (filters.dateFrom && data.date && data.date < filters.dateFrom) {
-      return false;
-    }
-    if (filters.dateTo && data.date && data.date > filters.dateTo) {
-      return false;
-    }
-
     if (!filters.showChildren && data.parentId) {
       return false;
     }
@@ -1039,6 +611,9 @@ export function createTaskFromTemplate(template: TaskData): TaskData {
     // frequency se hereda si existe, sino buildNewTaskData pone PUNTUAL
     if (template.extra.frequency) extraOverrides.frequency = template.extra.frequency;
   }
+  // Resto de la repetición (intervalo, fin, excepciones, mensual por posición, anual)
+  const recurrence = getTaskRecurrence(template);
+  if (recurrence) Object.assign(extraOverrides, recurrenceToExtra(recurrence));
 
   return buildNewTaskData({
     metaId: template.metaId ?? "",
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMetaBlueprint,
+  buildMetaFromTemplate,
+  buildTaskTemplate,
+  getTemplateSpanDays,
+  instantiateTemplate,
+} from "./templates";
+import type { Meta, TaskData, TaskExtra } from "./types";
+
+function task(id: string, fields: Partial<TaskData> = {}, extra: TaskExtra = {}): TaskData {
+  return {
+    id,
+    metaId: "m1",
+    parentId: null,
+    level: 0,
+    order: 0,
+    kind: "NORMAL",
+    type: "ACTIVIDAD",
+    scope: "FISICO",
+    title: id,
+    points: 2,
+    isCompleted: false,
+    ...fields,
+    extra: { frequency: "PUNTUAL", ...extra },
+  } as TaskData;
+}
+
+// Plan de carrera: raíz con dos semanas y una tarea semanal dentro de la segunda
+const plan = [
+  task("plan", { kind: "TITLE", title: "Plan 10K" }),
+  task("s1", { parentId: "plan", order: 0, date: "2025-03-03", isCompleted: true }, { completedDates: ["2025-03-03"] }),
+  task("s2", { parentId: "plan", order: 1, date: "2025-03-10" }, { icsUid: "x@y", notes: "Tirada larga" }),
+  task(
+    "series",
+    { parentId: "s2", level: 7 },
+    {
+      frequency: "SEMANAL",
+      weeklyDays: ["X"],
+      repeatStart: "2025-03-01",
+      repeatUntil: "2025-03-31",
+      exceptionDates: ["2025-03-12"],
+    }
+  ),
+  task("otra", { date: "2025-02-01" }), // fuera del subárbol
+];
+
+describe("buildTaskTemplate", () => {
+  it("guarda el subárbol con fechas relativas a la más temprana", () => {
+    const template = buildTaskTemplate("Plan 10K", plan, "plan")!;
+
+    expect(template.tasks.map((t) => [t.ref, t.parentRef, t.dayOffset])).toEqual([
+      ["plan", null, null],
+      ["s1", "plan", 2],
+      ["s2", "plan", 9],
+      ["series", "s2", null],
+    ]);
+    // repeatStart es el día 0 (1 de marzo)
+    expect(template.tasks[3]).toMatchObject({ repeatStartOffset: 0, repeatUntilOffset: 30 });
+    expect(getTemplateSpanDays(template)).toBe(31);
+  });
+
+  it("descarta el estado de la instancia", () => {
+    const template = buildTaskTemplate("Plan 10K", plan, "plan")!;
+    const [, s1, s2, series] = template.tasks;
+
+    expect(s1.data).not.toHaveProperty("isCompleted");
+    expect(s1.data.extra).toEqual({ frequency: "PUNTUAL" });
+    expect(s2.data.extra).toEqual({ frequency: "PUNTUAL", notes: "Tirada larga" });
+    expect(series.data.extra).toEqual({ frequency: "SEMANAL", weeklyDays: ["X"] });
+  });
+
+  it("raíz inexistente", () => {
+    expect(buildTaskTemplate("Nada", plan, "no-existe")).toBeNull();
+  });
+});
+
+describe("instantiateTemplate", () => {
+  const template = buildTaskTemplate("Plan 10K", plan, "plan")!;
+  const existing = [task("e1", { metaId: "m2", order: 4 }), task("e2", { metaId: "m2", order: 1 }), task("e3", { metaId: "m2", parentId: "e1", order: 9 })];
+
+  it("ids nuevos y parentId reasignado dentro del subárbol", () => {
+    const created = instantiateTemplate(template, { startDate: "2025-06-01", metaId: "m2", existingTasks: existing });
+    const ids = created.map((t) => t.id);
+    const byTitle = (title: string) => created.find((t) => t.title === title)!;
+
+    expect(new Set(ids).size).toBe(4);
+    expect(ids.some((id) => plan.some((t) => t.id === id))).toBe(false);
+    expect(created.every((t) => t.metaId === "m2")).toBe(true);
+    expect(byTitle("Plan 10K").parentId).toBeNull();
+    expect(byTitle("s1").parentId).toBe(byTitle("Plan 10K").id);
+    expect(byTitle("series").parentId).toBe(byTitle("s2").id);
+  });
+
+  it("fechas desde el inicio elegido, levels recalculados y raíz al final de la meta", () => {
+    const created = instantiateTemplate(template, { startDate: "2025-06-01", metaId: "m2", existingTasks: existing });
+    const [root, s1, s2, series] = created;
+
+    expect([root.date, s1.date, s2.date, series.date]).toEqual([null, "2025-06-03", "2025-06-10", null]);
+    expect(series.extra).toMatchObject({ repeatStart: "2025-06-01", repeatUntil: "2025-07-01" });
+    expect(created.map((t) => t.level)).toEqual([0, 1, 1, 2]);
+    expect(root.order).toBe(5);
+    expect([s1.order, s2.order]).toEqual([0, 1]);
+    expect(created.every((t) => !t.isCompleted && !t.movementId)).toBe(true);
+  });
+
+  it("cada uso genera ids distintos", () => {
+    const options = { startDate: "2025-06-01", metaId: "m2", existingTasks: [] };
+    const first = instantiateTemplate(template, options).map((t) => t.id);
+    const second = instantiateTemplate(template, options).map((t) => t.id);
+    expect(first.some((id) => second.includes(id))).toBe(false);
+  });
+
+  it("una tarea sin fecha con fecha al usarla deja de estar sin programar", () => {
+    const single = buildTaskTemplate("Suelta", [task("a", { date: "2025-03-10" }, { unscheduled: true })], "a")!;
+    const [created] = instantiateTemplate(single, { startDate: "2025-04-01", metaId: "m1", existingTasks: [] });
+    expect(created.date).toBe("2025-04-01");
+    expect(created.extra?.unscheduled).toBeUndefined();
+  });
+});
+
+describe("blueprint de meta", () => {
+  const meta: Meta = { id: "m1", title: "10K en junio", metaType: "CORTO_PLAZO", horizon: "3M", targetDate: "2025-04-06" };
+  const tasks = [...plan, task("ajena", { metaId: "m9", date: "2025-01-01" })];
+
+  it("guarda la meta con fecha objetivo relativa y todas sus tareas", () => {
+    const blueprint = buildMetaBlueprint("10K", meta, tasks);
+
+    // Día 0: la fecha más temprana de la meta ("otra", 1 de febrero)
+    expect(blueprint.meta).toEqual({
+      title: "10K en junio",
+      description: undefined,
+      metaType: "CORTO_PLAZO",
+      horizon: "3M",
+      targetDayOffset: 64,
+    });
+    expect(blueprint.tasks.map((t) => t.ref)).toEqual(["plan", "s1", "s2", "series", "otra"]);
+    expect(blueprint.tasks.find((t) => t.ref === "otra")?.dayOffset).toBe(0);
+  });
+
+  it("al usarlo crea la meta nueva y recoloca tareas y fecha objetivo", () => {
+    const blueprint = buildMetaBlueprint("10K", meta, tasks);
+    const newMeta = buildMetaFromTemplate(blueprint, "2025-09-01");
+    const created = instantiateTemplate(blueprint, { startDate: "2025-09-01", metaId: newMeta.id, existingTasks: tasks });
+
+    expect(newMeta).toMatchObject({ title: "10K en junio", targetDate: "2025-11-04", isActive: true });
+    expect(newMeta.id).not.toBe(meta.id);
+    expect(created.every((t) => t.metaId === newMeta.id)).toBe(true);
+    expect(created.find((t) => t.title === "otra")?.date).toBe("2025-09-01");
+    expect(created.find((t) => t.title === "s1")?.date).toBe("2025-10-01");
+    expect(created.filter((t) => !t.parentId).map((t) => t.order)).toEqual([0, 1]);
+  });
+
+  it("plantilla de tareas: meta nueva con el nombre de la plantilla", () => {
+    const template = buildTaskTemplate("Plan 10K", plan, "plan")!;
+    expect(buildMetaFromTemplate(template, "2025-09-01")).toMatchObject({ title: "Plan 10K", targetDate: undefined });
+  });
+});
@@ -0,0 +1,226 @@
+import type { Meta, TaskData, TaskExtra, TaskTemplate, TemplateTask } from "./types";
+import { recalculateTaskLevels } from "../sync/normalizeTask";
+import { addDays, diffDays } from "./recurrence";
+import { generateTaskId } from "./tasks";
+
+/**
+ * Biblioteca de plantillas: una tarea o un subárbol con fechas relativas
+ * ("Plan maratón: 16 semanas") y metas completas guardadas como blueprint.
+ *
+ * - Al guardar, las fechas pasan a días desde la fecha más temprana del
+ *   subárbol y se descarta el estado de la instancia (hecha, movimientos,
+ *   excepciones...)
+ * - Al usarla se generan ids nuevos, las fechas se recolocan desde el inicio
+ *   elegido y los levels se recalculan con recalculateTaskLevels
+ */
+
+// Campos de extra propios de cada instancia (repeatStart/repeatUntil se guardan como offsets)
+const INSTANCE_EXTRA_FIELDS = [
+  "completedDates",
+  "movementIdsByDate",
+  "occurrenceOverrides",
+  "exceptionDates",
+  "icsUid",
+  "repeatStart",
+  "repeatUntil",
+];
+
+export interface InstantiateTemplateOptions {
+  startDate: string;           // YYYY-MM-DD: día 0 de la plantilla
+  metaId: string;              // meta (nueva o existente) a la que se añaden las tareas
+  existingTasks: TaskData[];   // para colocar las raíces tras las de la meta
+}
+
+function getTodayISO(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function byOrder(a: TaskData, b: TaskData): number {
+  return (a.order ?? 0) - (b.order ?? 0);
+}
+
+// ==================== GUARDAR ====================
+
+/**
+ * Raíces y todos sus descendientes, padres antes que hijos y hermanos por order.
+ */
+function collectSubtrees(tasks: TaskData[], roots: TaskData[]): TaskData[] {
+  const childrenByParent = new Map<string, TaskData[]>();
+  for (const task of tasks) {
+    if (!task.parentId) continue;
+    const siblings = childrenByParent.get(task.parentId) ?? [];
+    siblings.push(task);
+    childrenByParent.set(task.parentId, siblings);
+  }
+
+  const result: TaskData[] = [];
+  const visited = new Set<string>();
+  const visit = (task: TaskData) => {
+    if (visited.has(task.id)) return; // Evitar ciclos
+    visited.add(task.id);
+    result.push(task);
+    for (const child of [...(childrenByParent.get(task.id) ?? [])].sort(byOrder)) visit(child);
+  };
+  for (const root of [...roots].sort(byOrder)) visit(root);
+  return result;
+}
+
+// Fecha más temprana del subárbol (día 0 de la plantilla)
+function getEarliestDate(tasks: TaskData[]): string | null {
+  let earliest: string | null = null;
+  for (const task of tasks) {
+    for (const date of [task.date, task.extra?.repeatStart]) {
+      if (date && (!earliest || date < earliest)) earliest = date;
+    }
+  }
+  return earliest;
+}
+
+function toTemplateTask(task: TaskData, startDate: string, refs: Set<string>): TemplateTask {
+  const extra: TaskExtra = { ...task.extra };
+  for (const field of INSTANCE_EXTRA_FIELDS) delete extra[field];
+
+  const templateTask: TemplateTask = {
+    ref: task.id,
+    parentRef: task.parentId && refs.has(task.parentId) ? task.parentId : null,
+    dayOffset: task.date ? diffDays(startDate, task.date) : null,
+    data: {
+      order: task.order,
+      kind: task.kind,
+      type: task.type,
+      scope: task.scope,
+      title: task.title,
+      label: task.label,
+      description: task.description,
+      time: task.time,
+      repeatRule: null, // se reconstruye desde extra al guardar la tarea
+      points: task.points,
+      accountId: task.accountId,
+      forecastId: task.forecastId,
+      extra,
+    },
+  };
+  if (task.extra?.repeatStart) templateTask.repeatStartOffset = diffDays(startDate, task.extra.repeatStart);
+  if (task.extra?.repeatUntil) templateTask.repeatUntilOffset = diffDays(startDate, task.extra.repeatUntil);
+  return templateTask;
+}
+
+function toTemplateTasks(subtree: TaskData[], startDate: string): TemplateTask[] {
+  const refs = new Set(subtree.map((t) => t.id));
+  return subtree.map((task) => toTemplateTask(task, startDate, refs));
+}
+
+/**
+ * Plantilla con una tarea y todos sus descendientes.
+ */
+export function buildTaskTemplate(name: string, tasks: TaskData[], rootId: string): TaskTemplate | null {
+  const root = tasks.find((t) => t.id === rootId);
+  if (!root) return null;
+
+  const subtree = collectSubtrees(tasks, [root]);
+  const startDate = getEarliestDate(subtree) ?? getTodayISO();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    tasks: toTemplateTasks(subtree, startDate),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Blueprint de una meta: sus datos (fecha objetivo relativa) y todas sus tareas.
+ */
+export function buildMetaBlueprint(name: string, meta: Meta, tasks: TaskData[]): TaskTemplate {
+  const metaTasks = tasks.filter((t) => t.metaId === meta.id);
+  const metaTaskIds = new Set(metaTasks.map((t) => t.id));
+  const roots = metaTasks.filter((t) => !t.parentId || !metaTaskIds.has(t.parentId));
+
+  const subtree = collectSubtrees(metaTasks, roots);
+  const startDate = getEarliestDate(subtree) ?? getTodayISO();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    meta: {
+      title: meta.title,
+      description: meta.description,
+      metaType: meta.metaType,
+      horizon: meta.horizon,
+      targetDayOffset: meta.targetDate ? diffDays(startDate, meta.targetDate) : undefined,
+    },
+    tasks: toTemplateTasks(subtree, startDate),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// ==================== USAR ====================
+
+/**
+ * Tareas nuevas a partir de la plantilla: ids nuevos, fechas desde startDate,
+ * raíces al final de la meta y levels recalculados.
+ */
+export function instantiateTemplate(template: TaskTemplate, options: InstantiateTemplateOptions): TaskData[] {
+  const { startDate, metaId, existingTasks } = options;
+  const now = new Date().toISOString();
+
+  const idByRef = new Map(template.tasks.map((t) => [t.ref, generateTaskId()]));
+
+  // Raíces de la plantilla detrás de las raíces que ya tiene la meta
+  const rootOrders = existingTasks.filter((t) => t.metaId === metaId && !t.parentId).map((t) => t.order ?? 0);
+  let nextRootOrder = rootOrders.length > 0 ? Math.max(...rootOrders) + 1 : 0;
+
+  const created = template.tasks.map((item): TaskData => {
+    const isTitle = item.data.kind === "TITLE";
+    const parentId = item.parentRef ? idByRef.get(item.parentRef) ?? null : null;
+
+    const extra: TaskExtra = { ...item.data.extra };
+    if (item.repeatStartOffset !== undefined) extra.repeatStart = addDays(startDate, item.repeatStartOffset);
+    if (item.repeatUntilOffset !== undefined) extra.repeatUntil = addDays(startDate, item.repeatUntilOffset);
+
+    // Sin offset se conserva lo guardado (sin fecha o repetición sin fecha base)
+    const date = !isTitle && item.dayOffset !== null ? addDays(startDate, item.dayOffset) : null;
+    if (date) delete extra.unscheduled;
+
+    return {
+      ...item.data,
+      id: idByRef.get(item.ref)!,
+      metaId,
+      parentId,
+      level: 0,
+      order: parentId ? item.data.order : nextRootOrder++,
+      date,
+      isCompleted: false,
+      movementId: null,
+      extra,
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+
+  return recalculateTaskLevels(created);
+}
+
+/**
+ * Meta nueva para usar la plantilla: la del blueprint o, si es de tareas, una
+ * con el nombre de la plantilla.
+ */
+export function buildMetaFromTemplate(template: TaskTemplate, startDate: string): Meta {
+  const { title, description, metaType, horizon, targetDayOffset } = template.meta ?? { title: template.name };
+  return {
+    id: crypto.randomUUID(),
+    title,
+    description,
+    metaType,
+    horizon,
+    targetDate: targetDayOffset !== undefined ? addDays(startDate, targetDayOffset) : undefined,
+    isActive: true,
+  };
+}
+
+/**
+ * Días que abarca la plantilla (del día 0 a la última fecha); null si no tiene fechas.
+ */
+export function getTemplateSpanDays(template: TaskTemplate): number | null {
+  const offsets = template.tasks.flatMap((t) => [t.dayOffset, t.repeatUntilOffset ?? null]).filter((o): o is number => o !== null);
+  return offsets.length > 0 ? Math.max(...offsets) + 1 : null;
+}
@@ -3,7 +3,20 @@
 export type TaskType = "ACTIVIDAD" | "INGRESO" | "GASTO";
 export type TaskScope = "LABORAL" | "FISICO" | "CRECIMIENTO";
 export type TaskStatus = "done" | "pending" | "hidden";
-export type Frequency = "PUNTUAL" | "SEMANAL" | "MENSUAL";
+export type Frequency = "PUNTUAL" | "DIARIA" | "SEMANAL" | "MENSUAL" | "ANUAL";
+
+/**
+ * Cambios de una sola ocurrencia de una tarea repetida (clave: fecha original).
+ * La ocurrencia se sigue marcando como hecha en completedDates con su fecha original.
+ */
+export interface OccurrenceOverride {
+  date?: string;                // YYYY-MM-DD: ocurrencia movida a otra fecha
+  time?: string;                // HH:MM
+  skipped?: boolean;            // saltada sin completarla
+  quantity?: number;
+  amountEUR?: number;
+  notes?: string;
+}
 
 export interface TaskExtra {
   completedDates?: string[];
@@ -12,10 +25,23 @@ export interface TaskExtra {
   frequency?: Frequency;
   weeklyDays?: string[];        // "L", "M", "X", "J", "V", "S", "D" (formato móvil)
   weeklyTime?: string;          // HH:MM
+  dailyTime?: string;           // HH:MM
   monthlyDay?: number;          // 1-31
+  monthlyWeekdays?: string[];   // Con monthlySetPos: "último viernes", "primer día laborable"...
+  monthlySetPos?: number;       // 1..5 o -1..-5 (-1 = último)
   monthlyTime?: string;         // HH:MM
+  yearlyMonth?: number;         // 1-12
+  yearlyDay?: number;           // 1-31
+  yearlyTime?: string;          // HH:MM
+  // Intervalo, inicio, fin y excepciones de la repetición (RRULE)
+  repeatInterval?: number;      // cada N días/semanas/meses/años (default 1)
+  repeatStart?: string;         // YYYY-MM-DD (DTSTART, ancla del intervalo)
+  repeatUntil?: string;         // YYYY-MM-DD inclusive (UNTIL)
+  repeatCount?: number;         // nº total de ocurrencias (COUNT)
+  exceptionDates?: string[];    // YYYY-MM-DD sin ocurrencia (EXDATE)
+  occurrenceOverrides?: Record<string, OccurrenceOverride>; // por fecha original YYYY-MM-DD
   unscheduled?: boolean;        // Sin fecha (frecuencia PUNTUAL sin date)
-  // Campos de aviso/recordatorio (configurados desde APP, solo display en WEB)
+  // Campos de aviso/recordatorio (APP y WEB; en WEB los dispara lib/reminders.ts)
   reminderEnabled?: boolean;           // true si hay aviso activo
   reminderOffsetUnit?: "min" | "hor";  // unidad del offset (minutos u horas)
   reminderOffsetValue?: number;        // valor del offset (ej: 5 para "5 min antes")
@@ -26,6 +52,7 @@ export interface TaskExtra {
   quantity?: number;
   // Campos adicionales
   notes?: string;
+  icsUid?: string;              // UID del VEVENT importado de un .ics (dedupe al reimportar)
   // Permitir campos adicionales sin romper tipado
   [key: string]: unknown;
 }
@@ -146,6 +173,7 @@ export interface TaskFilters {
   dateFrom?: string;
   dateTo?: string;
   showChildren: boolean;
+  query?: string;              // Consulta del buscador (sintaxis en lib/taskQuery.ts)
 }
 
 export interface FilterPreset {
@@ -154,15 +182,65 @@ export interface FilterPreset {
   filters: TaskFilters;
 }
 
-// Estado de UI (localStorage)
+// Vista principal de la agenda: árbol, tabla o calendario (día/semana/mes)
+export type AgendaView = "tree" | "table" | "day" | "week" | "month";
+
+// Estado de UI (caché en localStorage; se sincroniza como UISettings.agenda)
 export interface AgendaUIState {
   sidebarCollapsed: boolean;
+  view: AgendaView;
   columnWidths: Record<string, number>;
   columnOrder: string[];
   presets: FilterPreset[];
   activeFilters: TaskFilters;
 }
 
+// Ajustes de UI sincronizados con la cuenta (tabla user_settings, un row por usuario):
+// la agenda se ve igual en todos los navegadores
+export interface UISettings {
+  id: string;
+  agenda?: Partial<AgendaUIState>;  // se completa con DEFAULT_UI_STATE al leer
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// ==================== PLANTILLAS ====================
+
+// Campos de la tarea que se guardan en una plantilla (sin ids, fechas ni estado de la instancia)
+export type TemplateTaskData = Omit<
+  TaskData,
+  "id" | "metaId" | "parentId" | "level" | "date" | "isCompleted" | "movementId" | "createdAt" | "updatedAt" | "deletedAt"
+>;
+
+export interface TemplateTask {
+  ref: string;                  // id dentro de la plantilla (al usarla se genera uno nuevo)
+  parentRef: string | null;     // null = raíz de la plantilla
+  dayOffset: number | null;     // días desde la fecha de inicio (null = sin fecha)
+  repeatStartOffset?: number;   // extra.repeatStart relativo al inicio
+  repeatUntilOffset?: number;   // extra.repeatUntil relativo al inicio
+  data: TemplateTaskData;
+}
+
+// Meta guardada como blueprint: al usarla se crea una meta nueva con estos datos
+export interface TemplateMeta {
+  title: string;
+  description?: string;
+  metaType?: MetaType;
+  horizon?: Horizon;
+  targetDayOffset?: number;     // targetDate relativa al inicio
+}
+
+// Plantilla de la biblioteca (sincronizada, tabla task_templates)
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  meta?: TemplateMeta;          // presente = blueprint de una meta completa
+  tasks: TemplateTask[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 // Tipos UI para columna Tipo
 export type UITaskType = "Actividad" | "Fisico" | "Conocimiento" | "Ingreso" | "Gasto" | "Titulo";
 
@@ -196,6 +274,16 @@ export const TYPE_COLORS: Record<TaskType, string> = {
   GASTO: "rgba(239, 68, 68, 0.03)",
 };
 
+// Acento por tipo UI (borde de las tareas en el calendario, sobre TYPE_COLORS)
+export const UI_TYPE_ACCENTS: Record<UITaskType, string> = {
+  "Actividad": "#3b82f6",
+  "Fisico": "#f97316",
+  "Conocimiento": "#8b5cf6",
+  "Ingreso": "#22c55e",
+  "Gasto": "#ef4444",
+  "Titulo": "#94a3b8",
+};
+
 // Filtros por defecto
 export const DEFAULT_FILTERS: TaskFilters = {
   metaIds: [],
@@ -206,6 +294,7 @@ export const DEFAULT_FILTERS: TaskFilters = {
 
 export const DEFAULT_UI_STATE: AgendaUIState = {
   sidebarCollapsed: false,
+  view: "tree",
   columnWidths: {},
   columnOrder: [],
   presets: [],
@@ -1,91 +1,263 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from "react";
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef, useSyncExternalStore } from "react";
 import { supabase } from "@/src/lib/supabaseClient";
 import {
   pullAll,
-  pushItem,
-  pushDelete,
+  flushOutbox,
   mergeRemoteRows,
-  getDirtyIds,
-  markDirty,
-  clearDirty,
+  createMergeContext,
+  rowToEntity,
+  partitionValidRows,
   clearAllDirty,
-  getLastPulledAt,
+  clearAllCursors,
+  clearEntityCursor,
+  commitCursors,
+  getEntityCursor,
+  type MergeContext,
 } from "./syncEngine";
-import { EntityKey, SyncableEntity, SupabaseRow } from "./types";
+import {
+  enqueueOutbox,
+  countOutbox,
+  getOutboxEntries,
+  getNextOutboxAttemptAt,
+  resetOutboxBackoff,
+  claimLegacyOutbox,
+} from "./outbox";
+import {
+  bindSyncStateToUser,
+  loadBases,
+  saveBases,
+  deleteBases,
+  loadConflicts,
+  saveConflicts,
+  deleteConflict,
+} from "./baseStore";
+import { loadQuarantine, saveQuarantine, deleteQuarantine, clearQuarantine, getQuarantineId } from "./quarantine";
+import { getFieldValue, setFieldValue } from "./merge";
+import { startRealtimeSync, type RealtimeStatus, type RealtimeTransport } from "./realtime";
+import { openEntityCache, putCachedEntities, deleteCachedEntities, diffEntityLists } from "./entityCache";
+import {
+  startTabCoordinator,
+  type EntityChanges,
+  type TabCoordinator,
+  type TabMessage,
+  type TabMutation,
+  type TabRole,
+} from "./tabCoordinator";
+import { fetchTrash, emptyTrash as emptyTrashRows, type TrashItem } from "./trash";
+import type { OutboxOp } from "./outbox";
+import { ENTITY_CONFIGS, EntityKey, SyncableEntity, SupabaseRow, SyncConflict, QuarantinedRow } from "./types";
+import type { TaskData, Meta, TaskTemplate, UISettings } from "@/src/lib/types";
+import {
+  getHistoryState,
+  getServerHistoryState,
+  subscribeHistory,
+  setHistoryUser,
+  recordHistoryChange,
+  runHistoryGroup,
+  takeUndoEntry,
+  takeRedoEntry,
+  type HistoryEntry,
+  type HistoryEntityKey,
+  type HistorySnapshot,
+} from "@/src/lib/history";
+import type {
+  BankAccountFull,
+  ForecastLineFull,
+  FinanceMovement as FinanceMovementData,
+} from "@/src/lib/finance/financeData";
 
 // ==================== STORE TYPES ====================
 
-interface BankAccount extends SyncableEntity {
-  name: string;
-  type?: "PERSONAL" | "SOCIEDAD";
-  balance?: number;
+type Task = TaskData & SyncableEntity;
+type MetaItem = Meta & SyncableEntity;
+type BankAccount = BankAccountFull & SyncableEntity;
+type ForecastLine = ForecastLineFull & SyncableEntity;
+type FinanceMovement = FinanceMovementData & SyncableEntity;
+type TaskTemplateItem = TaskTemplate & SyncableEntity;
+type UISettingsItem = UISettings & SyncableEntity;
+
+interface SyncStore {
+  tasks: Task[];
+  metas: MetaItem[];
+  bankAccounts: BankAccount[];
+  incomeForecastLines: ForecastLine[];
+  financeMovements: FinanceMovement[];
+  taskTemplates: TaskTemplateItem[];
+  uiSettings: UISettingsItem[];
 }
 
-interface ForecastLine extends SyncableEntity {
-  name: string;
-  type: "INGRESO" | "GASTO";
-  parentId?: string | null;
-  months?: Record<string, { expected?: number; base?: number }>;
+type StoreKey = keyof SyncStore;
+
+// Entidades de ENTITY_CONFIGS que viven en el store
+const STORE_KEYS: StoreKey[] = [
+  "tasks",
+  "metas",
+  "bankAccounts",
+  "incomeForecastLines",
+  "financeMovements",
+  "taskTemplates",
+  "uiSettings",
+];
+
+const EMPTY_STORE: SyncStore = {
+  tasks: [],
+  metas: [],
+  bankAccounts: [],
+  incomeForecastLines: [],
+  financeMovements: [],
+  taskTemplates: [],
+  uiSettings: [],
+};
+
+// Los ajustes de UI no entran en deshacer/rehacer
+function isHistoryEntityKey(key: StoreKey): key is HistoryEntityKey {
+  return key !== "uiSettings";
 }
 
-interface FinanceMovement extends SyncableEntity {
-  date: string;
-  concept?: string;
-  amount: number;
-  type: "INGRESO" | "GASTO";
-  accountId?: string;
-  forecastId?: string;
+// Un row de ajustes por usuario: la tabla exige id = user_id (uuid)
+function getUISettingsId(userId: string): string {
+  return userId;
 }
 
-interface SyncStore {
-  bankAccounts: BankAccount[];
-  incomeForecastLines: ForecastLine[];
-  financeMovements: FinanceMovement[];
+// Lado elegido al resolver un conflicto: todo local, todo remoto o por campo
+export type ConflictSide = "local" | "remote";
+export type ConflictChoice = ConflictSide | Record<string, ConflictSide>;
+
+function toEntityChanges(
+  entityKey: EntityKey,
+  op: OutboxOp,
+  itemId: string,
+  payload: SyncableEntity | null
+): EntityChanges {
+  return op === "upsert" && payload
+    ? { entityKey, changed: [payload], removedIds: [] }
+    : { entityKey, changed: [], removedIds: [itemId] };
+}
+
+// Con coordinación entre pestañas, solo el líder hace pull/push
+function isFollowerTab(tab: TabCoordinator | null): boolean {
+  return tab !== null && !tab.isLeader();
 }
 
 interface SyncContextValue {
   // Data
+  tasks: Task[];
+  metas: MetaItem[];
   bankAccounts: BankAccount[];
   incomeForecastLines: ForecastLine[];
   financeMovements: FinanceMovement[];
+  taskTemplates: TaskTemplateItem[];
 
   // Actions
+  setTask: (item: Task) => void;
+  deleteTask: (id: string) => void;
+  setMeta: (item: MetaItem) => void;
+  deleteMeta: (id: string) => void;
   setBankAccount: (item: BankAccount) => void;
   deleteBankAccount: (id: string) => void;
   setForecastLine: (item: ForecastLine) => void;
   deleteForecastLine: (id: string) => void;
   setFinanceMovement: (item: FinanceMovement) => void;
   deleteFinanceMovement: (id: string) => void;
+  setTaskTemplate: (item: TaskTemplateItem) => void;
+  deleteTaskTemplate: (id: string) => void;
+
+  // Ajustes de UI del usuario (null = aún no hay row en el servidor)
+  uiSettings: UISettings | null;
+  setUISettings: (settings: Omit<UISettings, "id" | "createdAt" | "updatedAt">) => void;
+
+  // Conflictos detectados en el merge (pendientes de revisión)
+  conflicts: SyncConflict[];
+  resolveConflict: (conflictId: string, choice: ConflictChoice) => Promise<void>;
+
+  // Rows rechazados por el esquema (no mezclados / no subidos)
+  quarantined: QuarantinedRow[];
+  discardQuarantined: (id: string) => Promise<void>;
+
+  // Papelera (items borrados recientes con su último estado)
+  loadTrash: (days?: number) => Promise<{ data: TrashItem[]; error: string | null }>;
+  restoreFromTrash: (items: TrashItem[]) => void;
+  emptyTrash: (items: TrashItem[]) => Promise<{ error: string | null }>;
 
   // Sync
+  isLoaded: boolean; // primer pull completo aplicado al store
   isSyncing: boolean;
+  isOnline: boolean;
+  realtimeStatus: RealtimeStatus;
+  tabRole: TabRole | null; // líder del sync entre pestañas o seguidora
+  pendingCount: number; // operaciones en el outbox pendientes de push
   lastSyncAt: string | null;
   lastError: string | null;
   triggerSync: () => Promise<void>;
+
+  // Historial de deshacer/rehacer de las mutaciones locales (lib/history.ts)
+  undoLabel: string | null; // null = nada que deshacer
+  redoLabel: string | null;
+  undo: () => string | null; // devuelve la etiqueta deshecha
+  redo: () => string | null;
+  historyGroup: <T>(label: string, fn: () => T) => T;
 }
 
 const SyncContext = createContext<SyncContextValue | null>(null);
 
 // ==================== PROVIDER ====================
 
-export function SyncProvider({ children }: { children: React.ReactNode }) {
+export function SyncProvider({
+  children,
+  realtimeTransport,
+}: {
+  children: React.ReactNode;
+  realtimeTransport?: RealtimeTransport; // sustituto local del canal realtime (pruebas)
+}) {
   const [userId, setUserId] = useState<string | null>(null);
-  const [store, setStore] = useState<SyncStore>({
-    bankAccounts: [],
-    incomeForecastLines: [],
-    financeMovements: [],
-  });
+  const [store, setStore] = useState<SyncStore>(EMPTY_STORE);
+  const [isLoaded, setIsLoaded] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
-
-  // Flag para evitar marcar dirty durante merge
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRow[]>([]);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>("idle");
+  const [tabRole, setTabRole] = useState<TabRole | null>(null);
+
+  // Flag para evitar encolar push durante merge
   const isApplyingRemote = useRef(false);
 
-  // Push debounce
+  // Flag para no registrar en el historial lo que aplica deshacer/rehacer
+  const isApplyingHistory = useRef(false);
+
+  // Push debounce + reintento programado del outbox
   const pushTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isPushingRef = useRef(false);
+
+  // Pull y realtime aplican rows sobre el mismo store: se encadenan en serie
+  const applyQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const isPullingRef = useRef(false);
+
+  // Caché IndexedDB: el primer pull espera a hidratar el store desde ella.
+  // Sin IndexedDB el store solo vive en memoria y el primer pull de cada usuario va sin cursores
+  const hydrationRef = useRef<Promise<void>>(Promise.resolve());
+  const cacheAvailableRef = useRef(false);
+  const fullPullUserRef = useRef<string | null>(null);
+
+  // Coordinación entre pestañas: mutaciones reenviadas al líder aún sin confirmar
+  const tabRef = useRef<TabCoordinator | null>(null);
+  const pendingForwardsRef = useRef(new Map<string, TabMutation>());
+  const snapshotReceivedRef = useRef(false);
+
+  // Snapshot del store para leer el estado previo fuera de setStore. Toda escritura
+  // pasa por writeStore, que lo actualiza en el acto: un pull o un lote realtime que
+  // retoma tras un await parte de las mutaciones locales hechas mientras esperaba
+  const storeRef = useRef(store);
+  const writeStore = useCallback((next: SyncStore) => {
+    storeRef.current = next;
+    setStore(next);
+  }, []);
 
   // ==================== AUTH ====================
 
@@ -105,75 +277,113 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
-  // ==================== PULL ====================
+  // El historial es por usuario: al cambiar de sesión se vacía
+  useEffect(() => {
+    if (userId) setHistoryUser(userId);
+  }, [userId]);
 
-  const doPull = useCallback(async () => {
-    if (!userId) return;
+  // Al cerrar sesión, vaciar el store
+  useEffect(() => {
+    if (userId) return;
+    writeStore(EMPTY_STORE);
+    setIsLoaded(false);
+    fullPullUserRef.current = null;
+  }, [userId, writeStore]);
 
-    setIsSyncing(true);
-    setLastError(null);
+  // ==================== LOCAL CACHE ====================
 
-    try {
-      const { data, errors } = await pullAll(userId);
+  // Al entrar un usuario, hidratar el store desde la caché antes del primer pull
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
 
-      if (errors.length > 0) {
-        setLastError(errors.join("; "));
-      }
+    hydrationRef.current = (async () => {
+      const cache = await openEntityCache(userId);
 
-      isApplyingRemote.current = true;
+      // Bases, conflictos y cuarentena de otro usuario no se muestran ni se mezclan;
+      // el outbox sin dueño solo se asigna si la caché confirma que es este usuario
+      if (await bindSyncStateToUser(userId)) await clearQuarantine();
+      if (cache && !cache.reset) await claimLegacyOutbox(userId);
+      const [storedConflicts, storedQuarantine] = await Promise.all([loadConflicts(), loadQuarantine()]);
+      if (cancelled) return;
+      setConflicts(storedConflicts);
+      setQuarantined(storedQuarantine);
 
-      setStore((prev) => ({
-        bankAccounts: mergeRemoteRows(prev.bankAccounts, data.bankAccounts || [], "bankAccounts"),
-        incomeForecastLines: mergeRemoteRows(prev.incomeForecastLines, data.incomeForecastLines || [], "incomeForecastLines"),
-        financeMovements: mergeRemoteRows(prev.financeMovements, data.financeMovements || [], "financeMovements"),
-      }));
+      cacheAvailableRef.current = cache !== null;
+      if (!cache) return;
 
-      isApplyingRemote.current = false;
-      setLastSyncAt(new Date().toISOString());
-    } catch (err) {
-      setLastError(err instanceof Error ? err.message : "Pull failed");
-    } finally {
-      setIsSyncing(false);
-    }
-  }, [userId]);
+      // Caché nueva (otro usuario, otra versión o primera vez): traer todo
+      if (cache.reset) clearAllCursors();
 
-  // ==================== PUSH ====================
+      for (const key of Object.keys(ENTITY_CONFIGS) as EntityKey[]) {
+        // Cursor sin datos en caché: no es fiable, volver a pedir la entidad entera
+        if (!cache.entities[key]?.length && getEntityCursor(key)) clearEntityCursor(key);
+      }
 
-  const doPush = useCallback(async () => {
-    if (!userId) return;
+      const current = storeRef.current;
+      const next = { ...current };
+      for (const key of STORE_KEYS) {
+        const cached = cache.entities[key] ?? [];
+        if (cached.length === 0) continue;
+        // Lo escrito en memoria mientras cargaba la caché es más reciente
+        const inMemory = new Set(current[key].map((x) => x.id));
+        (next as Record<StoreKey, SyncableEntity[]>)[key] = [
+          ...cached.filter((x) => !inMemory.has(x.id)),
+          ...current[key],
+        ];
+      }
+      writeStore(next);
+      if (!cache.reset) setIsLoaded(true);
+    })();
 
-    const dirty = getDirtyIds();
-    const entityKeys = Object.keys(dirty) as EntityKey[];
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, writeStore]);
 
-    for (const entityKey of entityKeys) {
-      const ids = dirty[entityKey] || [];
+  // ==================== PUSH (OUTBOX) ====================
 
-      for (const id of ids) {
-        let item: SyncableEntity | undefined;
+  const refreshPendingCount = useCallback(async () => {
+    setPendingCount(userId ? await countOutbox(userId) : 0);
+  }, [userId]);
 
-        if (entityKey === "bankAccounts") {
-          item = store.bankAccounts.find((x) => x.id === id);
-        } else if (entityKey === "incomeForecastLines") {
-          item = store.incomeForecastLines.find((x) => x.id === id);
-        } else if (entityKey === "financeMovements") {
-          item = store.financeMovements.find((x) => x.id === id);
-        }
+  const doPush = useCallback(async () => {
+    if (!userId || isPushingRef.current || isFollowerTab(tabRef.current)) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
 
-        if (item) {
-          if (item.deleted) {
-            await pushDelete(entityKey, userId, id);
-          } else {
-            await pushItem(entityKey, userId, item);
-          }
-          clearDirty(entityKey, id);
-        } else {
-          // Item was deleted locally, push delete
-          await pushDelete(entityKey, userId, id);
-          clearDirty(entityKey, id);
-        }
+    isPushingRef.current = true;
+    try {
+      const { errors, quarantined: newlyQuarantined } = await flushOutbox(userId);
+      if (errors.length > 0) {
+        setLastError(errors.join("; "));
+      }
+      if (newlyQuarantined > 0) {
+        setQuarantined(await loadQuarantine());
+        tabRef.current?.post({ type: "quarantine" });
       }
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : "Push failed");
+    } finally {
+      isPushingRef.current = false;
+    }
+
+    await refreshPendingCount();
+
+    // Reprogramar el siguiente reintento según el backoff de la entrada más próxima
+    if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    const nextAt = await getNextOutboxAttemptAt(userId);
+    if (nextAt !== null) {
+      retryTimeoutRef.current = setTimeout(() => {
+        doPushRef.current();
+      }, Math.max(500, nextAt - Date.now()));
     }
-  }, [userId, store]);
+  }, [userId, refreshPendingCount]);
+
+  // Ref estable para que el timer de reintento use siempre el doPush actual
+  const doPushRef = useRef(doPush);
+  useEffect(() => {
+    doPushRef.current = doPush;
+  }, [doPush]);
 
   const schedulePush = useCallback(() => {
     if (pushTimeoutRef.current) {
@@ -184,32 +394,415 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }, 500);
   }, [doPush]);
 
+  /**
+   * Encola una operación en el outbox y programa el push.
+   */
+  const enqueue = useCallback(
+    (entityKey: EntityKey, op: "upsert" | "delete", itemId: string, payload: SyncableEntity | null) => {
+      if (!userId) return;
+      enqueueOutbox(userId, entityKey, op, itemId, payload)
+        .then(() => refreshPendingCount())
+        .then(() => schedulePush());
+    },
+    [userId, refreshPendingCount, schedulePush]
+  );
+
+  /**
+   * Aplica en el store cambios ya resueltos por el líder (sin merge ni outbox).
+   */
+  const applyStoreChanges = useCallback((changes: EntityChanges[]) => {
+    const current = storeRef.current;
+    const next = { ...current };
+    for (const { entityKey, changed, removedIds } of changes) {
+      const key = STORE_KEYS.find((k) => k === entityKey);
+      if (!key) continue;
+      const changedById = new Map(changed.map((x) => [x.id, x]));
+      const removed = new Set(removedIds);
+      const items = (next[key] as SyncableEntity[])
+        .filter((x) => !removed.has(x.id))
+        .map((x) => changedById.get(x.id) ?? x);
+      const existing = new Set(items.map((x) => x.id));
+      (next as Record<StoreKey, SyncableEntity[]>)[key] = [...items, ...changed.filter((x) => !existing.has(x.id))];
+    }
+    writeStore(next);
+  }, [writeStore]);
+
+  /**
+   * Mutación local ya aplicada en el store: el líder la encola y la difunde
+   * al resto de pestañas; una seguidora la reenvía al líder.
+   */
+  const commitMutation = useCallback(
+    (entityKey: EntityKey, op: OutboxOp, itemId: string, payload: SyncableEntity | null) => {
+      const tab = tabRef.current;
+      if (tab && isFollowerTab(tab)) {
+        const mutation: TabMutation = { id: crypto.randomUUID(), entityKey, op, itemId, payload };
+        pendingForwardsRef.current.set(mutation.id, mutation);
+        tab.post({ type: "mutation", tabId: tab.tabId, mutation });
+        return;
+      }
+      enqueue(entityKey, op, itemId, payload);
+      tab?.post({ type: "changes", changes: [toEntityChanges(entityKey, op, itemId, payload)] });
+    },
+    [enqueue]
+  );
+
+  // ==================== APPLY REMOTE ====================
+
+  // Snapshot de la cuarentena para no tocar IndexedDB si no hay nada que limpiar
+  const quarantinedRef = useRef(quarantined);
+  useEffect(() => {
+    quarantinedRef.current = quarantined;
+  }, [quarantined]);
+
+  /**
+   * Guarda los rows rechazados y saca de cuarentena los que llegaron ya válidos.
+   */
+  const updateQuarantine = useCallback(async (rejected: QuarantinedRow[], acceptedIds: string[]) => {
+    const accepted = new Set(acceptedIds);
+    const cleared = quarantinedRef.current.filter((q) => accepted.has(q.id)).map((q) => q.id);
+    if (rejected.length === 0 && cleared.length === 0) return;
+
+    await saveQuarantine(rejected);
+    await deleteQuarantine(cleared);
+    const next = await loadQuarantine();
+    quarantinedRef.current = next;
+    setQuarantined(next);
+    tabRef.current?.post({ type: "quarantine" });
+  }, []);
+
+  /**
+   * Mezcla rows remotos en el store (merge a tres bandas para items con push pendiente),
+   * actualiza bases y conflictos y re-encola los resultados mezclados.
+   */
+  const applyRemoteRowsNow = useCallback(
+    async (incoming: Partial<Record<EntityKey, SupabaseRow[]>>) => {
+      if (!userId) return;
+
+      // Lo que no cumple el esquema no se mezcla: va a cuarentena
+      const data: Partial<Record<EntityKey, SupabaseRow[]>> = {};
+      const rejected: QuarantinedRow[] = [];
+      const acceptedIds: string[] = [];
+      for (const key of Object.keys(incoming) as EntityKey[]) {
+        const { valid, quarantined: invalid } = partitionValidRows(key, incoming[key] || []);
+        data[key] = valid;
+        rejected.push(...invalid);
+        acceptedIds.push(...valid.map((row) => getQuarantineId("pull", key, row.id)));
+      }
+      await updateQuarantine(rejected, acceptedIds);
+
+      const [outbox, bases] = await Promise.all([getOutboxEntries(userId), loadBases()]);
+
+      const current = storeRef.current;
+      const next = { ...current };
+      const contexts: MergeContext[] = [];
+
+      isApplyingRemote.current = true;
+      for (const key of STORE_KEYS) {
+        const rows = data[key] || [];
+        if (rows.length === 0) continue;
+        const pendingIds = new Set(outbox.filter((e) => e.entityKey === key).map((e) => e.itemId));
+        const ctx = createMergeContext(key, pendingIds, bases);
+        // Cada clave del store guarda su propio tipo de entidad
+        (next as Record<StoreKey, SyncableEntity[]>)[key] = mergeRemoteRows<SyncableEntity>(current[key], rows, key, ctx);
+        contexts.push(ctx);
+      }
+      writeStore(next);
+      isApplyingRemote.current = false;
+
+      // Caché local y resto de pestañas: lo que cambió en el store...
+      const storeChanges: EntityChanges[] = [];
+      for (const key of STORE_KEYS) {
+        if (next[key] === current[key]) continue;
+        const { changed, removedIds } = diffEntityLists(current[key], next[key]);
+        await putCachedEntities(key, changed);
+        await deleteCachedEntities(key, removedIds);
+        if (changed.length > 0 || removedIds.length > 0) {
+          storeChanges.push({ entityKey: key, changed, removedIds });
+        }
+      }
+      if (storeChanges.length > 0) tabRef.current?.post({ type: "changes", changes: storeChanges });
+      // ...y las entidades que no viven en el store (last-write-wins del servidor)
+      for (const key of Object.keys(data) as EntityKey[]) {
+        if (STORE_KEYS.some((k) => k === key)) continue;
+        const rows = data[key] || [];
+        await putCachedEntities(key, rows.filter((r) => r.deleted_at === null).map((r) => rowToEntity(r, key)));
+        await deleteCachedEntities(key, rows.filter((r) => r.deleted_at !== null).map((r) => r.id));
+      }
+
+      const newConflicts: SyncConflict[] = [];
+      for (const ctx of contexts) {
+        await saveBases(ctx.newBases.map((entity) => ({ entityKey: ctx.entityKey, entity })));
+        await deleteBases(ctx.removedIds.map((itemId) => ({ entityKey: ctx.entityKey, itemId })));
+        for (const item of ctx.requeue) {
+          enqueue(ctx.entityKey, "upsert", item.id, item);
+        }
+        newConflicts.push(...ctx.conflicts);
+      }
+
+      if (newConflicts.length > 0) {
+        await saveConflicts(newConflicts);
+        setConflicts((prev) => {
+          const byId = new Map(prev.map((c) => [c.id, c]));
+          for (const conflict of newConflicts) byId.set(conflict.id, conflict);
+          return Array.from(byId.values());
+        });
+        tabRef.current?.post({ type: "conflicts" });
+      }
+    },
+    [userId, enqueue, updateQuarantine, writeStore]
+  );
+
+  const applyRemoteRows = useCallback(
+    (data: Partial<Record<EntityKey, SupabaseRow[]>>) => {
+      const run = applyQueueRef.current.then(() => applyRemoteRowsNow(data));
+      applyQueueRef.current = run.catch((err) => console.warn("[sync] apply remote error:", err));
+      return run;
+    },
+    [applyRemoteRowsNow]
+  );
+
+  // ==================== PULL ====================
+
+  const doPull = useCallback(async () => {
+    if (!userId || isPullingRef.current || isFollowerTab(tabRef.current)) return;
+
+    isPullingRef.current = true;
+    setIsSyncing(true);
+    setLastError(null);
+
+    try {
+      await hydrationRef.current;
+
+      const fromScratch = !cacheAvailableRef.current && fullPullUserRef.current !== userId;
+      const { data, cursors, errors } = await pullAll(userId, { fromScratch, deferCursors: true });
+
+      if (errors.length > 0) {
+        setLastError(errors.join("; "));
+      } else if (fromScratch) {
+        fullPullUserRef.current = userId;
+      }
+
+      // Los cursores solo avanzan cuando las rows ya están en el store y en la caché
+      await applyRemoteRows(data);
+      commitCursors(cursors);
+      setIsLoaded(true);
+      setLastSyncAt(new Date().toISOString());
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : "Pull failed");
+    } finally {
+      isPullingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [userId, applyRemoteRows]);
+
   // ==================== SYNC TRIGGER ====================
 
   const triggerSync = useCallback(async () => {
+    const tab = tabRef.current;
+    if (tab && isFollowerTab(tab)) {
+      tab.post({ type: "syncRequest" });
+      return;
+    }
     await doPull();
     await doPush();
   }, [doPull, doPush]);
 
+  // ==================== TABS ====================
+
+  const handleTabMessage = useCallback(
+    (message: TabMessage) => {
+      const tab = tabRef.current;
+      if (!tab) return;
+      const isLeader = tab.isLeader();
+
+      switch (message.type) {
+        // --- En el líder ---
+        case "mutation": {
+          if (!isLeader) return;
+          const { entityKey, op, itemId, payload, id } = message.mutation;
+          const changes = toEntityChanges(entityKey, op, itemId, payload);
+          applyStoreChanges([changes]);
+          enqueue(entityKey, op, itemId, payload);
+          tab.post({ type: "changes", changes: [changes], origin: { tabId: message.tabId, mutationId: id } });
+          return;
+        }
+        case "hello":
+          if (!isLeader) return;
+          tab.post({
+            type: "snapshot",
+            targetTabId: message.tabId,
+            entities: { ...storeRef.current } as Partial<Record<EntityKey, SyncableEntity[]>>,
+          });
+          return;
+        case "syncRequest":
+          if (!isLeader) return;
+          doPull().then(() => doPush());
+          return;
+
+        // --- En las seguidoras ---
+        case "changes":
+          if (isLeader) return;
+          // Confirmación de una mutación propia: el store ya la tiene
+          if (message.origin?.tabId === tab.tabId) {
+            pendingForwardsRef.current.delete(message.origin.mutationId);
+            return;
+          }
+          applyStoreChanges(message.changes);
+          return;
+        case "snapshot": {
+          if (isLeader || message.targetTabId !== tab.tabId) return;
+          snapshotReceivedRef.current = true;
+          const next = { ...EMPTY_STORE, ...message.entities } as SyncStore;
+          writeStore(next);
+          // Lo reenviado que el líder aún no ha confirmado sigue siendo más reciente
+          applyStoreChanges(
+            Array.from(pendingForwardsRef.current.values()).map((m) =>
+              toEntityChanges(m.entityKey, m.op, m.itemId, m.payload)
+            )
+          );
+          setIsLoaded(true);
+          return;
+        }
+        case "status":
+          if (isLeader) return;
+          setIsSyncing(message.status.isSyncing);
+          setPendingCount(message.status.pendingCount);
+          setLastSyncAt(message.status.lastSyncAt);
+          setLastError(message.status.lastError);
+          setRealtimeStatus(message.status.realtimeStatus);
+          return;
+        case "leader":
+          if (isLeader) return;
+          // Nuevo líder: reenviarle lo no confirmado por el anterior
+          for (const mutation of pendingForwardsRef.current.values()) {
+            tab.post({ type: "mutation", tabId: tab.tabId, mutation });
+          }
+          if (!snapshotReceivedRef.current) tab.post({ type: "hello", tabId: tab.tabId });
+          return;
+
+        case "conflicts":
+          loadConflicts().then(setConflicts);
+          return;
+        case "quarantine":
+          loadQuarantine().then(setQuarantined);
+          return;
+      }
+    },
+    [applyStoreChanges, enqueue, doPull, doPush, writeStore]
+  );
+
+  const handleTabMessageRef = useRef(handleTabMessage);
+  useEffect(() => {
+    handleTabMessageRef.current = handleTabMessage;
+  }, [handleTabMessage]);
+
+  // Elección de líder entre las pestañas del usuario
+  useEffect(() => {
+    if (!userId) return;
+
+    const tab = startTabCoordinator({
+      userId,
+      onMessage: (message) => handleTabMessageRef.current(message),
+      onRoleChange: setTabRole,
+    });
+    tabRef.current = tab;
+    snapshotReceivedRef.current = false;
+    tab.post({ type: "hello", tabId: tab.tabId });
+
+    return () => {
+      tab.stop();
+      tabRef.current = null;
+      setTabRole(null);
+    };
+  }, [userId]);
+
+  // Al tomar el liderazgo, encolar lo que se reenvió al líder anterior sin confirmación
+  useEffect(() => {
+    if (tabRole !== "leader") return;
+    const pending = Array.from(pendingForwardsRef.current.values());
+    pendingForwardsRef.current.clear();
+    for (const m of pending) commitMutation(m.entityKey, m.op, m.itemId, m.payload);
+  }, [tabRole, commitMutation]);
+
+  // El líder comparte su estado del sync con las seguidoras
+  useEffect(() => {
+    if (tabRole !== "leader") return;
+    tabRef.current?.post({
+      type: "status",
+      status: { isSyncing, pendingCount, lastSyncAt, lastError, realtimeStatus },
+    });
+  }, [tabRole, isSyncing, pendingCount, lastSyncAt, lastError, realtimeStatus]);
+
   // ==================== INITIAL SYNC ====================
 
   useEffect(() => {
-    if (userId) {
+    if (userId && tabRole === "leader") {
       doPull().then(() => doPush());
     }
-  }, [userId, doPull, doPush]);
+  }, [userId, tabRole, doPull, doPush]);
+
+  useEffect(() => {
+    refreshPendingCount();
+  }, [refreshPendingCount]);
+
+  // Los dirty IDs legacy no llevan payload: el outbox los sustituye (solo el líder escribe en ellos)
+  useEffect(() => {
+    if (tabRole === "leader") clearAllDirty();
+  }, [tabRole]);
+
+  // ==================== ONLINE / OFFLINE ====================
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = async () => {
+      setIsOnline(true);
+      // Al volver la red, reintentar todo sin esperar al backoff
+      await resetOutboxBackoff();
+      doPushRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    };
+  }, []);
+
+  // ==================== REALTIME ====================
+
+  useEffect(() => {
+    if (!userId || tabRole !== "leader") return;
+
+    const stop = startRealtimeSync({
+      userId,
+      onRows: (data) => {
+        applyRemoteRows(data).catch((err) =>
+          setLastError(err instanceof Error ? err.message : "Realtime apply failed")
+        );
+      },
+      onPoll: () => doPull(),
+      onStatusChange: setRealtimeStatus,
+      transport: realtimeTransport,
+    });
+
+    return stop;
+  }, [userId, tabRole, applyRemoteRows, doPull, realtimeTransport]);
 
   // ==================== PERIODIC SYNC ====================
 
   useEffect(() => {
-    if (!userId) return;
+    if (!userId || tabRole !== "leader") return;
 
     const interval = setInterval(() => {
       doPull();
     }, 90000); // 90 segundos
 
     return () => clearInterval(interval);
-  }, [userId, doPull]);
+  }, [userId, tabRole, doPull]);
 
   // ==================== VISIBILITY CHANGE ====================
 
@@ -226,139 +819,273 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
 
   // ==================== STORE ACTIONS ====================
 
-  const setBankAccount = useCallback(
-    (item: BankAccount) => {
-      const now = new Date().toISOString();
-      const updated = { ...item, updatedAt: item.updatedAt || now };
-
-      setStore((prev) => {
-        const exists = prev.bankAccounts.find((x) => x.id === item.id);
-        if (exists) {
-          return {
-            ...prev,
-            bankAccounts: prev.bankAccounts.map((x) => (x.id === item.id ? updated : x)),
-          };
-        }
-        return { ...prev, bankAccounts: [...prev.bankAccounts, updated] };
+  /**
+   * Upsert optimista en el store + encolado en el outbox.
+   */
+  const upsertItem = useCallback(
+    <K extends StoreKey>(key: K, item: SyncStore[K][number]) => {
+      const updated = { ...item, updatedAt: new Date().toISOString() };
+      const items = storeRef.current[key] as SyncableEntity[];
+      const prevItem = items.find((x) => x.id === item.id) ?? null;
+
+      writeStore({
+        ...storeRef.current,
+        [key]: prevItem ? items.map((x) => (x.id === item.id ? updated : x)) : [...items, updated],
       });
 
+      putCachedEntities(key, [updated]);
       if (!isApplyingRemote.current) {
-        markDirty("bankAccounts", item.id);
-        schedulePush();
+        if (!isApplyingHistory.current && isHistoryEntityKey(key)) {
+          recordHistoryChange({
+            entityKey: key,
+            id: item.id,
+            before: prevItem as unknown as HistorySnapshot | null,
+            after: updated as unknown as HistorySnapshot,
+          });
+        }
+        commitMutation(key, "upsert", item.id, updated);
       }
     },
-    [schedulePush]
+    [commitMutation, writeStore]
   );
 
-  const deleteBankAccount = useCallback(
-    (id: string) => {
-      setStore((prev) => ({
-        ...prev,
-        bankAccounts: prev.bankAccounts.filter((x) => x.id !== id),
-      }));
+  /**
+   * Borrado optimista en el store + encolado del delete con el último estado conocido.
+   */
+  const removeItem = useCallback(
+    (key: StoreKey, id: string) => {
+      const items = storeRef.current[key] as SyncableEntity[];
+      const prevItem = items.find((x) => x.id === id) ?? null;
 
+      writeStore({ ...storeRef.current, [key]: items.filter((x) => x.id !== id) });
+
+      deleteCachedEntities(key, [id]);
       if (!isApplyingRemote.current) {
-        markDirty("bankAccounts", id);
-        schedulePush();
+        if (!isApplyingHistory.current && prevItem && isHistoryEntityKey(key)) {
+          recordHistoryChange({ entityKey: key, id, before: prevItem as unknown as HistorySnapshot, after: null });
+        }
+        commitMutation(key, "delete", id, prevItem);
       }
     },
-    [schedulePush]
+    [commitMutation, writeStore]
   );
 
-  const setForecastLine = useCallback(
-    (item: ForecastLine) => {
-      const now = new Date().toISOString();
-      const updated = { ...item, updatedAt: item.updatedAt || now };
-
-      setStore((prev) => {
-        const exists = prev.incomeForecastLines.find((x) => x.id === item.id);
-        if (exists) {
-          return {
-            ...prev,
-            incomeForecastLines: prev.incomeForecastLines.map((x) => (x.id === item.id ? updated : x)),
-          };
-        }
-        return { ...prev, incomeForecastLines: [...prev.incomeForecastLines, updated] };
-      });
+  const setTask = useCallback((item: Task) => upsertItem("tasks", item), [upsertItem]);
+  const deleteTask = useCallback((id: string) => removeItem("tasks", id), [removeItem]);
+  const setMeta = useCallback((item: MetaItem) => upsertItem("metas", item), [upsertItem]);
+  const deleteMeta = useCallback((id: string) => removeItem("metas", id), [removeItem]);
+  const setBankAccount = useCallback((item: BankAccount) => upsertItem("bankAccounts", item), [upsertItem]);
+  const deleteBankAccount = useCallback((id: string) => removeItem("bankAccounts", id), [removeItem]);
+  const setForecastLine = useCallback((item: ForecastLine) => upsertItem("incomeForecastLines", item), [upsertItem]);
+  const deleteForecastLine = useCallback((id: string) => removeItem("incomeForecastLines", id), [removeItem]);
+  const setFinanceMovement = useCallback(
+    (item: FinanceMovement) => upsertItem("financeMovements", item),
+    [upsertItem]
+  );
+  const deleteFinanceMovement = useCallback((id: string) => removeItem("financeMovements", id), [removeItem]);
+  const setTaskTemplate = useCallback((item: TaskTemplateItem) => upsertItem("taskTemplates", item), [upsertItem]);
+  const deleteTaskTemplate = useCallback((id: string) => removeItem("taskTemplates", id), [removeItem]);
+
+  // ==================== CONFLICTS ====================
+
+  /**
+   * Resuelve un conflicto aplicando el lado elegido en cada campo en conflicto
+   * sobre la versión actual del item, y encola el resultado para push.
+   */
+  const resolveConflict = useCallback(
+    async (conflictId: string, choice: ConflictChoice) => {
+      const conflict = conflicts.find((c) => c.id === conflictId);
+      if (!conflict) return;
+
+      const storeKey = STORE_KEYS.find((k) => k === conflict.entityKey) ?? null;
+      const currentItem = storeKey
+        ? (storeRef.current[storeKey] as SyncableEntity[]).find((x) => x.id === conflict.itemId)
+        : undefined;
+
+      let resolved: SyncableEntity = currentItem ?? conflict.local;
+      for (const field of conflict.fields) {
+        const side = typeof choice === "string" ? choice : choice[field] ?? "local";
+        const source = side === "local" ? conflict.local : conflict.remote;
+        resolved = setFieldValue(resolved, field, getFieldValue(source, field));
+      }
+      resolved = { ...resolved, updatedAt: new Date().toISOString() };
 
-      if (!isApplyingRemote.current) {
-        markDirty("incomeForecastLines", item.id);
-        schedulePush();
+      if (resolved.deleted) {
+        // Se acepta el borrado remoto
+        if (storeKey) {
+          const items = storeRef.current[storeKey] as SyncableEntity[];
+          writeStore({ ...storeRef.current, [storeKey]: items.filter((x) => x.id !== resolved.id) });
+        }
+        deleteCachedEntities(conflict.entityKey, [conflict.itemId]);
+        commitMutation(conflict.entityKey, "delete", conflict.itemId, resolved);
+      } else {
+        if (storeKey) {
+          const items = storeRef.current[storeKey] as SyncableEntity[];
+          const exists = items.some((x) => x.id === resolved.id);
+          writeStore({
+            ...storeRef.current,
+            [storeKey]: exists ? items.map((x) => (x.id === resolved.id ? resolved : x)) : [...items, resolved],
+          });
+        }
+        putCachedEntities(conflict.entityKey, [resolved]);
+        commitMutation(conflict.entityKey, "upsert", conflict.itemId, resolved);
       }
+
+      setConflicts((prev) => prev.filter((c) => c.id !== conflictId));
+      await deleteConflict(conflictId);
+      tabRef.current?.post({ type: "conflicts" });
     },
-    [schedulePush]
+    [conflicts, commitMutation, writeStore]
   );
 
-  const deleteForecastLine = useCallback(
-    (id: string) => {
-      setStore((prev) => ({
-        ...prev,
-        incomeForecastLines: prev.incomeForecastLines.filter((x) => x.id !== id),
-      }));
+  // ==================== QUARANTINE ====================
 
-      if (!isApplyingRemote.current) {
-        markDirty("incomeForecastLines", id);
-        schedulePush();
-      }
+  /**
+   * Descarta un row en cuarentena. Pull: se ignora esa versión remota;
+   * push: el cambio local no se sube (volver a editar el item lo reintenta).
+   */
+  const discardQuarantined = useCallback(async (id: string) => {
+    setQuarantined((prev) => prev.filter((q) => q.id !== id));
+    await deleteQuarantine([id]);
+    tabRef.current?.post({ type: "quarantine" });
+  }, []);
+
+  // ==================== TRASH ====================
+
+  const loadTrash = useCallback(
+    async (days?: number) => {
+      if (!userId) return { data: [], error: "No autenticado" };
+      return fetchTrash(userId, days);
     },
-    [schedulePush]
+    [userId]
   );
 
-  const setFinanceMovement = useCallback(
-    (item: FinanceMovement) => {
-      const now = new Date().toISOString();
-      const updated = { ...item, updatedAt: item.updatedAt || now };
-
-      setStore((prev) => {
-        const exists = prev.financeMovements.find((x) => x.id === item.id);
-        if (exists) {
-          return {
-            ...prev,
-            financeMovements: prev.financeMovements.map((x) => (x.id === item.id ? updated : x)),
-          };
+  /**
+   * Restaura items de la papelera: se vuelven a subir como no borrados.
+   */
+  const restoreFromTrash = useCallback(
+    (items: TrashItem[]) => {
+      runHistoryGroup("Restaurar de la papelera", () => {
+        for (const item of items) {
+          upsertItem(item.entityKey, { ...item.entity, deleted: false } as SyncStore[typeof item.entityKey][number]);
         }
-        return { ...prev, financeMovements: [...prev.financeMovements, updated] };
       });
+    },
+    [upsertItem]
+  );
 
-      if (!isApplyingRemote.current) {
-        markDirty("financeMovements", item.id);
-        schedulePush();
-      }
+  const emptyTrash = useCallback(
+    async (items: TrashItem[]) => {
+      if (!userId) return { error: "No autenticado" };
+      return emptyTrashRows(userId, items);
     },
-    [schedulePush]
+    [userId]
   );
 
-  const deleteFinanceMovement = useCallback(
-    (id: string) => {
-      setStore((prev) => ({
-        ...prev,
-        financeMovements: prev.financeMovements.filter((x) => x.id !== id),
-      }));
+  const uiSettings = userId ? store.uiSettings.find((s) => s.id === getUISettingsId(userId)) ?? null : null;
+
+  const setUISettings = useCallback(
+    (settings: Omit<UISettings, "id" | "createdAt" | "updatedAt">) => {
+      if (!userId) return;
+      const id = getUISettingsId(userId);
+      const current = storeRef.current.uiSettings.find((s) => s.id === id);
+      upsertItem("uiSettings", {
+        ...current,
+        ...settings,
+        id,
+        createdAt: current?.createdAt ?? new Date().toISOString(),
+      });
+    },
+    [userId, upsertItem]
+  );
 
-      if (!isApplyingRemote.current) {
-        markDirty("financeMovements", id);
-        schedulePush();
+  // ==================== HISTORY ====================
+
+  const history = useSyncExternalStore(subscribeHistory, getHistoryState, getServerHistoryState);
+
+  /**
+   * Escribe en el store el lado elegido de cada cambio (como mutaciones normales:
+   * pasan por el outbox y se suben a Supabase). Un borrado se deshace subiendo
+   * de nuevo el item como no borrado.
+   */
+  const applyHistoryEntry = useCallback(
+    (entry: HistoryEntry, side: "before" | "after") => {
+      const changes = side === "before" ? [...entry.changes].reverse() : entry.changes;
+      isApplyingHistory.current = true;
+      try {
+        for (const change of changes) {
+          const snapshot = change[side];
+          if (snapshot) {
+            upsertItem(change.entityKey, { ...snapshot, deleted: false } as SyncStore[typeof change.entityKey][number]);
+          } else {
+            removeItem(change.entityKey, change.id);
+          }
+        }
+      } finally {
+        isApplyingHistory.current = false;
       }
     },
-    [schedulePush]
+    [upsertItem, removeItem]
   );
 
+  const undo = useCallback(() => {
+    const entry = takeUndoEntry();
+    if (!entry) return null;
+    applyHistoryEntry(entry, "before");
+    return entry.label;
+  }, [applyHistoryEntry]);
+
+  const redo = useCallback(() => {
+    const entry = takeRedoEntry();
+    if (!entry) return null;
+    applyHistoryEntry(entry, "after");
+    return entry.label;
+  }, [applyHistoryEntry]);
+
   // ==================== CONTEXT VALUE ====================
 
   const value: SyncContextValue = {
+    tasks: store.tasks,
+    metas: store.metas,
     bankAccounts: store.bankAccounts,
     incomeForecastLines: store.incomeForecastLines,
     financeMovements: store.financeMovements,
+    taskTemplates: store.taskTemplates,
+    setTask,
+    deleteTask,
+    setMeta,
+    deleteMeta,
     setBankAccount,
     deleteBankAccount,
     setForecastLine,
     deleteForecastLine,
     setFinanceMovement,
     deleteFinanceMovement,
+    setTaskTemplate,
+    deleteTaskTemplate,
+    uiSettings,
+    setUISettings,
+    conflicts,
+    resolveConflict,
+    quarantined,
+    discardQuarantined,
+    loadTrash,
+    restoreFromTrash,
+    emptyTrash,
+    isLoaded,
     isSyncing,
+    isOnline,
+    realtimeStatus,
+    tabRole,
+    pendingCount,
     lastSyncAt,
     lastError,
     triggerSync,
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    undo,
+    redo,
+    historyGroup: runHistoryGroup,
   };
 
   return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
@@ -376,8 +1103,29 @@ export function useSync() {
 
 // Hook opcional para componentes que solo necesitan datos
 export function useSyncData() {
-  const { bankAccounts, incomeForecastLines, financeMovements, isSyncing, lastSyncAt, lastError } =
-    useSync();
-  return { bankAccounts, incomeForecastLines, financeMovements, isSyncing, lastSyncAt, lastError };
+  const {
+    tasks,
+    metas,
+    bankAccounts,
+    incomeForecastLines,
+    financeMovements,
+    isLoaded,
+    isSyncing,
+    pendingCount,
+    lastSyncAt,
+    lastError,
+  } = useSync();
+  return {
+    tasks,
+    metas,
+    bankAccounts,
+    incomeForecastLines,
+    financeMovements,
+    isLoaded,
+    isSyncing,
+    pendingCount,
+    lastSyncAt,
+    lastError,
+  };
 }
 
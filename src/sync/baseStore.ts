@@ -0,0 +1,148 @@
+// ==================== MERGE BASES & CONFLICTS ====================
+
+/**
+ * Persistencia (IndexedDB) de:
+ * - bases: última versión sincronizada de cada registro, para el merge a tres bandas
+ * - conflictos: registros donde local y remoto cambiaron los mismos campos
+ *
+ * Las bases se cachean en memoria porque mergeRemoteRows es síncrono:
+ * loadBases() se espera una vez antes de mezclar y las escrituras van a ambos sitios.
+ *
+ * Ambas pertenecen a un usuario (como la caché de entidades): bindSyncStateToUser
+ * las vacía si en el navegador entra otro usuario.
+ */
+
+import { BASES_STORE, CONFLICTS_STORE, META_STORE, idbRequest, withStore } from "./db";
+import type { EntityKey, SyncableEntity, SyncConflict } from "./types";
+
+interface BaseRecord {
+  key: string; // "entityKey:itemId"
+  entity: SyncableEntity;
+}
+
+interface SyncStateMetaRecord {
+  key: typeof SYNC_STATE_META_KEY;
+  userId: string;
+}
+
+const SYNC_STATE_META_KEY = "syncState";
+
+const baseCache = new Map<string, SyncableEntity>();
+let basesLoaded: Promise<Map<string, SyncableEntity>> | null = null;
+let memoryOwner: string | null = null; // sin IndexedDB
+
+export function getBaseKey(entityKey: EntityKey, itemId: string): string {
+  return `${entityKey}:${itemId}`;
+}
+
+// ==================== OWNER ====================
+
+/**
+ * Asocia bases y conflictos al usuario. Si eran de otro usuario (o no tenían
+ * dueño) se vacían. Devuelve true si se vaciaron.
+ */
+export async function bindSyncStateToUser(userId: string): Promise<boolean> {
+  const meta = await withStore(META_STORE, "readonly", (store) =>
+    idbRequest(store.get(SYNC_STATE_META_KEY) as IDBRequest<SyncStateMetaRecord | undefined>)
+  ).catch((err) => {
+    console.warn("[sync] sync state read error:", err);
+    return null;
+  });
+
+  const owner = meta === null ? memoryOwner : meta?.userId ?? null;
+  if (owner === userId) return false;
+
+  baseCache.clear();
+  basesLoaded = null;
+  memoryOwner = userId;
+  await withStore(BASES_STORE, "readwrite", async (store) => {
+    store.clear();
+  }).catch((err) => console.warn("[sync] bases clear error:", err));
+  await withStore(CONFLICTS_STORE, "readwrite", async (store) => {
+    store.clear();
+  }).catch((err) => console.warn("[sync] conflicts clear error:", err));
+  await withStore(META_STORE, "readwrite", async (store) => {
+    store.put({ key: SYNC_STATE_META_KEY, userId } satisfies SyncStateMetaRecord);
+  }).catch((err) => console.warn("[sync] sync state write error:", err));
+  return true;
+}
+
+// ==================== BASES ====================
+
+export function loadBases(): Promise<Map<string, SyncableEntity>> {
+  if (basesLoaded) return basesLoaded;
+
+  basesLoaded = withStore(BASES_STORE, "readonly", (store) =>
+    idbRequest(store.getAll() as IDBRequest<BaseRecord[]>)
+  )
+    .then((records) => {
+      for (const record of records ?? []) {
+        // Lo escrito en memoria mientras cargaba es más reciente
+        if (!baseCache.has(record.key)) baseCache.set(record.key, record.entity);
+      }
+      return baseCache;
+    })
+    .catch((err) => {
+      console.warn("[sync] bases load error:", err);
+      return baseCache;
+    });
+
+  return basesLoaded;
+}
+
+export function getBase(entityKey: EntityKey, itemId: string): SyncableEntity | undefined {
+  return baseCache.get(getBaseKey(entityKey, itemId));
+}
+
+export async function saveBases(entries: Array<{ entityKey: EntityKey; entity: SyncableEntity }>): Promise<void> {
+  if (entries.length === 0) return;
+
+  for (const { entityKey, entity } of entries) {
+    baseCache.set(getBaseKey(entityKey, entity.id), entity);
+  }
+
+  await withStore(BASES_STORE, "readwrite", async (store) => {
+    for (const { entityKey, entity } of entries) {
+      store.put({ key: getBaseKey(entityKey, entity.id), entity } satisfies BaseRecord);
+    }
+  }).catch((err) => console.warn("[sync] bases save error:", err));
+}
+
+export async function deleteBases(entries: Array<{ entityKey: EntityKey; itemId: string }>): Promise<void> {
+  if (entries.length === 0) return;
+
+  for (const { entityKey, itemId } of entries) {
+    baseCache.delete(getBaseKey(entityKey, itemId));
+  }
+
+  await withStore(BASES_STORE, "readwrite", async (store) => {
+    for (const { entityKey, itemId } of entries) {
+      store.delete(getBaseKey(entityKey, itemId));
+    }
+  }).catch((err) => console.warn("[sync] bases delete error:", err));
+}
+
+// ==================== CONFLICTS ====================
+
+export async function loadConflicts(): Promise<SyncConflict[]> {
+  const conflicts = await withStore(CONFLICTS_STORE, "readonly", (store) =>
+    idbRequest(store.getAll() as IDBRequest<SyncConflict[]>)
+  ).catch((err) => {
+    console.warn("[sync] conflicts load error:", err);
+    return null;
+  });
+  return (conflicts ?? []).sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+}
+
+export async function saveConflicts(conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) return;
+  await withStore(CONFLICTS_STORE, "readwrite", async (store) => {
+    for (const conflict of conflicts) store.put(conflict);
+  }).catch((err) => console.warn("[sync] conflicts save error:", err));
+}
+
+export async function deleteConflict(conflictId: string): Promise<void> {
+  await withStore(CONFLICTS_STORE, "readwrite", async (store) => {
+    store.delete(conflictId);
+  }).catch((err) => console.warn("[sync] conflict delete error:", err));
+}
@@ -0,0 +1,135 @@
+// ==================== SYNC INDEXEDDB ====================
+
+/**
+ * Base de datos IndexedDB local del sync.
+ *
+ * El esquema se versiona con una lista ordenada de upgrades: UPGRADES[i] lleva
+ * la base de la versión i a la i+1. Para cambiar el esquema se AÑADE un upgrade
+ * al final (nunca se edita uno existente) y DB_VERSION sube solo.
+ */
+
+const DB_NAME = "ingravital_sync";
+
+export const OUTBOX_STORE = "outbox";
+export const BASES_STORE = "bases";
+export const CONFLICTS_STORE = "conflicts";
+export const ENTITIES_STORE = "entities";
+export const META_STORE = "meta";
+export const QUARANTINE_STORE = "quarantine";
+
+type Upgrade = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const UPGRADES: Upgrade[] = [
+  // v1: outbox de operaciones pendientes de push (key = "entityKey:itemId")
+  (db) => {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: "key" });
+  },
+  // v2: última versión sincronizada de cada registro (base del merge a tres bandas) y conflictos
+  (db) => {
+    db.createObjectStore(BASES_STORE, { keyPath: "key" });
+    db.createObjectStore(CONFLICTS_STORE, { keyPath: "id" });
+  },
+  // v3: caché local de entidades (key = "entityKey:itemId", índice por entidad) y metadatos de la caché
+  (db) => {
+    const entities = db.createObjectStore(ENTITIES_STORE, { keyPath: "key" });
+    entities.createIndex("entityKey", "entityKey");
+    db.createObjectStore(META_STORE, { keyPath: "key" });
+  },
+  // v4: rows rechazados por el esquema (cuarentena, panel de diagnóstico)
+  (db) => {
+    db.createObjectStore(QUARANTINE_STORE, { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+/**
+ * Abre (una sola vez por pestaña) la base de datos del sync.
+ * Devuelve null si IndexedDB no está disponible (SSR, modo privado restringido...).
+ */
+export function openSyncDb(): Promise<IDBDatabase | null> {
+  if (!isIndexedDbAvailable()) return Promise.resolve(null);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (err) {
+      console.warn("[sync] indexedDB.open error:", err);
+      resolve(null);
+      return;
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        UPGRADES[v](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Otra pestaña con una versión más nueva pide upgrade: cerrar para no bloquearla
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      console.warn("[sync] indexedDB open failed:", request.error?.message);
+      resolve(null);
+    };
+
+    request.onblocked = () => {
+      console.warn("[sync] indexedDB upgrade blocked by another tab");
+    };
+  });
+
+  return dbPromise;
+}
+
+// ==================== HELPERS ====================
+
+export function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbTransactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Ejecuta fn dentro de una transacción sobre un store y espera a que termine.
+ * Devuelve null si no hay IndexedDB.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T | null> {
+  const db = await openSyncDb();
+  if (!db) return null;
+
+  const tx = db.transaction(storeName, mode);
+  const done = idbTransactionDone(tx);
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,122 @@
+// ==================== ENTITY CACHE ====================
+
+/**
+ * Caché local (IndexedDB) de todas las entidades sincronizadas.
+ *
+ * - Guarda las entidades ya hidratadas, tal y como viven en el store.
+ * - SyncProvider la carga al arrancar (lectura instantánea y offline) y
+ *   después solo pide los cambios posteriores a cada cursor.
+ * - La caché pertenece a un usuario y a una versión de formato: si cambia
+ *   cualquiera de los dos se vacía y el llamador debe reiniciar los cursores.
+ */
+
+import { ENTITIES_STORE, META_STORE, idbRequest, withStore } from "./db";
+import type { EntityKey, SyncableEntity } from "./types";
+
+// Subir cuando cambie la forma hidratada de alguna entidad (fuerza pull completo)
+export const CACHE_FORMAT_VERSION = 2;
+
+const CACHE_META_KEY = "entityCache";
+
+interface CachedEntityRecord {
+  key: string; // "entityKey:itemId"
+  entityKey: EntityKey;
+  entity: SyncableEntity;
+}
+
+interface CacheMetaRecord {
+  key: typeof CACHE_META_KEY;
+  userId: string;
+  formatVersion: number;
+}
+
+function getCacheKey(entityKey: EntityKey, itemId: string): string {
+  return `${entityKey}:${itemId}`;
+}
+
+// ==================== API ====================
+
+/**
+ * Abre la caché de un usuario y devuelve su contenido agrupado por entidad.
+ * reset = true si la caché era de otro usuario/versión (o no existía) y se ha vaciado.
+ * Devuelve null si IndexedDB no está disponible.
+ */
+export async function openEntityCache(
+  userId: string
+): Promise<{ entities: Partial<Record<EntityKey, SyncableEntity[]>>; reset: boolean } | null> {
+  try {
+    const meta = await withStore(META_STORE, "readonly", (store) =>
+      idbRequest(store.get(CACHE_META_KEY) as IDBRequest<CacheMetaRecord | undefined>)
+    );
+    if (meta === null) return null;
+
+    if (!meta || meta.userId !== userId || meta.formatVersion !== CACHE_FORMAT_VERSION) {
+      await clearEntityCache();
+      await withStore(META_STORE, "readwrite", async (store) => {
+        store.put({ key: CACHE_META_KEY, userId, formatVersion: CACHE_FORMAT_VERSION } satisfies CacheMetaRecord);
+      });
+      return { entities: {}, reset: true };
+    }
+
+    const records = await withStore(ENTITIES_STORE, "readonly", (store) =>
+      idbRequest(store.getAll() as IDBRequest<CachedEntityRecord[]>)
+    );
+
+    const entities: Partial<Record<EntityKey, SyncableEntity[]>> = {};
+    for (const record of records ?? []) {
+      (entities[record.entityKey] ??= []).push(record.entity);
+    }
+    return { entities, reset: false };
+  } catch (err) {
+    console.warn("[sync] entity cache open error:", err);
+    return null;
+  }
+}
+
+export async function loadCachedEntities(entityKey: EntityKey): Promise<SyncableEntity[]> {
+  const records = await withStore(ENTITIES_STORE, "readonly", (store) =>
+    idbRequest(store.index("entityKey").getAll(entityKey) as IDBRequest<CachedEntityRecord[]>)
+  ).catch((err) => {
+    console.warn("[sync] entity cache read error:", err);
+    return null;
+  });
+  return (records ?? []).map((r) => r.entity);
+}
+
+export async function putCachedEntities(entityKey: EntityKey, items: SyncableEntity[]): Promise<void> {
+  if (items.length === 0) return;
+  await withStore(ENTITIES_STORE, "readwrite", async (store) => {
+    for (const entity of items) {
+      store.put({ key: getCacheKey(entityKey, entity.id), entityKey, entity } satisfies CachedEntityRecord);
+    }
+  }).catch((err) => console.warn("[sync] entity cache write error:", err));
+}
+
+export async function deleteCachedEntities(entityKey: EntityKey, itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+  await withStore(ENTITIES_STORE, "readwrite", async (store) => {
+    for (const itemId of itemIds) store.delete(getCacheKey(entityKey, itemId));
+  }).catch((err) => console.warn("[sync] entity cache delete error:", err));
+}
+
+export async function clearEntityCache(): Promise<void> {
+  await withStore(ENTITIES_STORE, "readwrite", async (store) => {
+    store.clear();
+  }).catch((err) => console.warn("[sync] entity cache clear error:", err));
+}
+
+/**
+ * Cambios entre dos versiones de la lista de una entidad (por referencia),
+ * para escribir en la caché solo lo que cambió.
+ */
+export function diffEntityLists(
+  prev: SyncableEntity[],
+  next: SyncableEntity[]
+): { changed: SyncableEntity[]; removedIds: string[] } {
+  const prevById = new Map(prev.map((item) => [item.id, item]));
+  const nextIds = new Set(next.map((item) => item.id));
+  return {
+    changed: next.filter((item) => prevById.get(item.id) !== item),
+    removedIds: prev.filter((item) => !nextIds.has(item.id)).map((item) => item.id),
+  };
+}
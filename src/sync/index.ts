@@ -1,7 +1,24 @@
 export { SyncProvider, useSync, useSyncData } from "./SyncContext";
-export { pullAll, pushItem, pushDelete, markDirty, clearDirty } from "./syncEngine";
+export type { ConflictChoice, ConflictSide } from "./SyncContext";
+export { pullAll, pushItem, pushDelete, pushBatch, flushOutbox, buildDataPayload, markDirty, clearDirty } from "./syncEngine";
+export { enqueueOutbox, getOutboxEntries, countOutbox } from "./outbox";
+export type { OutboxEntry, OutboxOp } from "./outbox";
+export { openEntityCache, loadCachedEntities, clearEntityCache, CACHE_FORMAT_VERSION } from "./entityCache";
 export { ENTITY_CONFIGS } from "./types";
-export type { EntityKey, SyncableEntity, SupabaseRow } from "./types";
-export { normalizeTaskForDb, hydrateTaskFromDb, recalculateTaskLevels, isValidTimeHHmm, isValidDateYYYYMMDD, getEffectiveFrequency, buildRepeatRule } from "./normalizeTask";
+export type { EntityKey, SyncableEntity, SupabaseRow, SyncConflict, SchemaIssue, QuarantinedRow } from "./types";
+export { ENTITY_SCHEMAS, validateEntityData, formatSchemaIssues } from "./schema";
+export type { EntitySchema } from "./schema";
+export { loadQuarantine, deleteQuarantine } from "./quarantine";
+export { fetchTrash, emptyTrash, collectRestoreSet, TRASH_ENTITY_KEYS, TRASH_RETENTION_DAYS } from "./trash";
+export type { TrashItem, TrashEntityKey } from "./trash";
+export { threeWayMerge, valuesEqual } from "./merge";
+export { MIGRATIONS, SCHEMA_VERSION_FIELD, getSchemaVersion, migrateData } from "./migrations";
+export type { Migration } from "./migrations";
+export { startRealtimeSync, createSupabaseRealtimeTransport, createLocalRealtimeTransport } from "./realtime";
+export type { RealtimeStatus, RealtimeTransport, RealtimeChange } from "./realtime";
+export { startTabCoordinator, isTabCoordinationAvailable } from "./tabCoordinator";
+export type { TabRole, TabMessage, TabCoordinator } from "./tabCoordinator";
+export { normalizeTaskForDb, hydrateTaskFromDb, recalculateTaskLevels, isValidTimeHHmm, isValidDateYYYYMMDD, getEffectiveFrequency, buildRepeatRule, buildFullRRule, getTaskRecurrence, recurrenceToExtra, parseRepeatRule, serializeRRule, toLegacyRepeatRule, toLegacyRecurrence, normalizeOccurrenceOverrides } from "./normalizeTask";
+export type { TaskRecurrence, RecurringFrequency } from "./normalizeTask";
 export { normalizeMetaForDb, hydrateMetaFromDb, isValidMetaType, isValidHorizon, isMeta } from "./normalizeMeta";
 
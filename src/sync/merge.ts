@@ -0,0 +1,196 @@
+// ==================== THREE-WAY MERGE ====================
+
+/**
+ * Merge a tres bandas por campo para entidades sincronizadas.
+ *
+ * base   = última versión sincronizada con el servidor
+ * local  = versión local con cambios pendientes de push
+ * remote = versión que llega del servidor
+ *
+ * REGLAS:
+ * - Campo cambiado solo en un lado => gana ese lado
+ * - Cambiado en ambos con el mismo valor => sin conflicto
+ * - Cambiado en ambos con distinto valor => conflicto; se resuelve provisionalmente
+ *   por timestamp (last-write-wins del campo) y se registra para revisión
+ * - Objetos planos (extra, months, movementIdsByDate...) se mezclan recursivamente
+ * - Campos en SET_MERGE_FIELDS se mezclan como conjuntos respetando altas y bajas
+ * - null / undefined / "" / [] / {} se consideran el mismo valor "vacío"
+ *   (la normalización para DB los elimina, así que no son cambios reales)
+ */
+
+import type { EntityKey, SyncableEntity } from "./types";
+
+// Campos de control que nunca se mezclan ni generan conflicto
+const MERGE_IGNORED_FIELDS = new Set(["id", "updatedAt", "createdAt", "deleted", "level"]);
+
+// Arrays que se mezclan como conjuntos (el resto se tratan como valor atómico)
+export const SET_MERGE_FIELDS: Partial<Record<EntityKey, string[]>> = {
+  tasks: ["extra.completedDates"],
+};
+
+export interface MergeOptions {
+  setFields?: string[];
+  preferRemoteOnConflict: boolean;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: string[]; // rutas con punto de los campos en conflicto
+}
+
+// ==================== HELPERS ====================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isPlainObject(value)) return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * Igualdad estructural tratando todos los "vacíos" como equivalentes.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!valuesEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Merge de conjuntos: parte de la unión local ∪ remoto y quita lo que
+ * cualquiera de los dos lados eliminó respecto a la base.
+ */
+function mergeSet(base: unknown, local: unknown, remote: unknown): unknown[] {
+  const baseArr = Array.isArray(base) ? base : [];
+  const localArr = Array.isArray(local) ? local : [];
+  const remoteArr = Array.isArray(remote) ? remote : [];
+
+  const removed = new Set(
+    baseArr.filter((v) => !localArr.includes(v) || !remoteArr.includes(v))
+  );
+
+  const result: unknown[] = [];
+  for (const v of [...localArr, ...remoteArr]) {
+    if (!removed.has(v) && !result.includes(v)) result.push(v);
+  }
+  return result;
+}
+
+function mergeValue(
+  path: string,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  options: MergeOptions,
+  conflicts: string[]
+): unknown {
+  if (options.setFields?.includes(path)) {
+    return mergeSet(base, local, remote);
+  }
+
+  const localChanged = !valuesEqual(base, local);
+  const remoteChanged = !valuesEqual(base, remote);
+
+  if (!localChanged) return remote;
+  if (!remoteChanged) return local;
+  if (valuesEqual(local, remote)) return local;
+
+  // Ambos cambiaron: si los dos son objetos, bajar un nivel antes de declarar conflicto
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObject(path, isPlainObject(base) ? base : {}, local, remote, options, conflicts);
+  }
+
+  conflicts.push(path);
+  return options.preferRemoteOnConflict ? remote : local;
+}
+
+function mergeObject(
+  prefix: string,
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  options: MergeOptions,
+  conflicts: string[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    if (!prefix && MERGE_IGNORED_FIELDS.has(key)) {
+      result[key] = local[key] ?? remote[key];
+      continue;
+    }
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = mergeValue(path, base[key], local[key], remote[key], options, conflicts);
+    if (value !== undefined) result[key] = value;
+  }
+
+  return result;
+}
+
+// ==================== API ====================
+
+/**
+ * Mezcla campo a campo local y remoto contra su base común.
+ */
+export function threeWayMerge<T extends SyncableEntity>(
+  base: SyncableEntity,
+  local: T,
+  remote: SyncableEntity,
+  options: MergeOptions
+): MergeResult<T> {
+  const conflicts: string[] = [];
+  const merged = mergeObject(
+    "",
+    base as unknown as Record<string, unknown>,
+    local as unknown as Record<string, unknown>,
+    remote as unknown as Record<string, unknown>,
+    options,
+    conflicts
+  );
+  return { merged: merged as unknown as T, conflicts };
+}
+
+/**
+ * Lee un valor por ruta con punto ("extra.quantity").
+ */
+export function getFieldValue(item: unknown, path: string): unknown {
+  let current: unknown = item;
+  for (const part of path.split(".")) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Devuelve una copia del item con el valor de una ruta reemplazado.
+ */
+export function setFieldValue<T>(item: T, path: string, value: unknown): T {
+  const [head, ...rest] = path.split(".");
+  const obj = (isPlainObject(item) ? item : {}) as Record<string, unknown>;
+  if (rest.length === 0) {
+    const next = { ...obj };
+    if (value === undefined) delete next[head];
+    else next[head] = value;
+    return next as T;
+  }
+  return { ...obj, [head]: setFieldValue(obj[head], rest.join("."), value) } as T;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { getSchemaVersion, migrateData, SCHEMA_VERSION_FIELD } from "./migrations";
+
+describe("migrateData", () => {
+  it("metas: título en name", () => {
+    expect(migrateData("metas", { name: "Correr" })).toEqual({ title: "Correr", [SCHEMA_VERSION_FIELD]: 1 });
+    // Ya en formato actual: no pisa el título
+    expect(migrateData("metas", { title: "Nuevo", name: "Viejo" })).toEqual({ title: "Nuevo", [SCHEMA_VERSION_FIELD]: 1 });
+  });
+
+  it("cuentas: nombre en title", () => {
+    expect(migrateData("bankAccounts", { title: "BBVA", balance: 10 })).toEqual({
+      name: "BBVA",
+      balance: 10,
+      [SCHEMA_VERSION_FIELD]: 1,
+    });
+  });
+
+  it("previsiones: nombre en title e importes por mes sin tipo", () => {
+    const migrated = migrateData("incomeForecastLines", {
+      title: "Alquiler",
+      type: "GASTO",
+      months: {
+        "2025-01": { expected: 700, base: 650 },
+        "2025-02": { expected: 700, GASTO: { expected: 720 } },
+        "2025-03": { notes: "x" },
+      },
+    });
+    expect(migrated).toEqual({
+      name: "Alquiler",
+      type: "GASTO",
+      months: {
+        "2025-01": { GASTO: { expected: 700, base: 650 } },
+        "2025-02": { GASTO: { expected: 720 } },
+        "2025-03": { notes: "x" },
+      },
+      [SCHEMA_VERSION_FIELD]: 1,
+    });
+  });
+
+  it("previsiones: sin type los importes van a INGRESO", () => {
+    const migrated = migrateData("incomeForecastLines", { name: "Nómina", months: { "2025-01": { expected: 2000 } } });
+    expect(migrated.months).toEqual({ "2025-01": { INGRESO: { expected: 2000 } } });
+  });
+
+  it("movimientos: campos de versiones antiguas de la APP", () => {
+    expect(
+      migrateData("financeMovements", {
+        amountEUR: 12.5,
+        linkedPredictionId: 7,
+        day: "2025-03-04T10:00:00Z",
+        title: "Café",
+        type: "gasto",
+      })
+    ).toEqual({ amount: 12.5, forecastId: "7", date: "2025-03-04", concept: "Café", type: "GASTO", [SCHEMA_VERSION_FIELD]: 1 });
+
+    const fromExtra = migrateData("financeMovements", {
+      extra: { amountEUR: 3 },
+      predictionId: "p1",
+      createdAt: "2025-01-02T00:00:00Z",
+    });
+    expect(fromExtra).toMatchObject({ amount: 3, forecastId: "p1", date: "2025-01-02" });
+  });
+
+  it("movimientos: no pisa los campos actuales", () => {
+    const current = { amount: 5, forecastId: "f", date: "2025-01-01", concept: "Pan", type: "GASTO" };
+    expect(migrateData("financeMovements", { ...current, amountEUR: 9, title: "Otro", day: "2024-12-31" })).toEqual({
+      ...current,
+      [SCHEMA_VERSION_FIELD]: 1,
+    });
+  });
+
+  it("sella la versión y no toca payloads de versión igual o mayor", () => {
+    expect(migrateData("tasks", { title: "x" })).toEqual({ title: "x", [SCHEMA_VERSION_FIELD]: getSchemaVersion("tasks") });
+    const future = { name: "x", [SCHEMA_VERSION_FIELD]: 99 };
+    expect(migrateData("metas", future)).toBe(future);
+  });
+
+  it("es idempotente", () => {
+    const once = migrateData("financeMovements", { amountEUR: 1, title: "a", type: "ingreso" });
+    expect(migrateData("financeMovements", once)).toEqual(once);
+  });
+});
@@ -0,0 +1,149 @@
+// ==================== SYNC MIGRATIONS ====================
+
+/**
+ * Versionado del `data` JSONB de cada entidad sincronizada.
+ *
+ * Cada payload lleva `schemaVersion`. MIGRATIONS[entity][i] lleva el data de la
+ * versión i a la i+1 (los payloads sin schemaVersion son versión 0). Para cambiar
+ * el formato se AÑADE una migración al final (nunca se edita una existente) y la
+ * versión de la entidad sube sola, igual que los upgrades de db.ts.
+ *
+ * - Al hidratar se ejecutan las migraciones pendientes antes de aplicar defaults.
+ * - Al hacer push el payload sale sellado con la versión actual.
+ * - Las migraciones deben ser idempotentes: un payload ya en formato actual pero
+ *   sin schemaVersion (escrito por un cliente anterior al versionado) pasa por
+ *   todas ellas sin cambiar.
+ * - Un payload con versión mayor que la conocida (cliente más nuevo) no se toca.
+ */
+
+import type { EntityKey } from "./types";
+
+export const SCHEMA_VERSION_FIELD = "schemaVersion";
+
+type Data = Record<string, unknown>;
+
+export type Migration = (data: Data) => Data;
+
+// ==================== MIGRACIONES ====================
+
+/**
+ * Formato base sin cambios: solo introduce el versionado.
+ */
+const baseline: Migration = (data) => data;
+
+/**
+ * Metas v0 → v1: título en `name` (versiones antiguas de la APP).
+ */
+const metasV1: Migration = (data) => {
+  const { name, ...rest } = data;
+  if (!rest.title && typeof name === "string") rest.title = name;
+  return rest;
+};
+
+/**
+ * Cuentas v0 → v1: nombre en `title`.
+ */
+const bankAccountsV1: Migration = (data) => {
+  const { title, ...rest } = data;
+  if (!rest.name && typeof title === "string") rest.name = title;
+  return rest;
+};
+
+/**
+ * Previsiones v0 → v1:
+ * - nombre en `title`
+ * - importes por mes sin tipo (`months[m].expected` / `months[m].base`): pasan
+ *   al tipo de la línea (`months[m][type]`) sin pisar lo que ya tenga ese tipo
+ */
+const incomeForecastLinesV1: Migration = (data) => {
+  const { title, ...rest } = data;
+  if (!rest.name && typeof title === "string") rest.name = title;
+
+  const months = rest.months;
+  if (!months || typeof months !== "object") return rest;
+
+  const lineType = rest.type === "GASTO" ? "GASTO" : "INGRESO";
+  const nextMonths: Record<string, Data> = {};
+  for (const [monthId, month] of Object.entries(months as Record<string, Data>)) {
+    const { expected, base, ...typed } = month ?? {};
+    const legacy: Data = {};
+    if (typeof base === "number") legacy.base = base;
+    if (typeof expected === "number") legacy.expected = expected;
+    if (Object.keys(legacy).length > 0) {
+      typed[lineType] = { ...legacy, ...((typed[lineType] as Data | undefined) ?? {}) };
+    }
+    nextMonths[monthId] = typed;
+  }
+  rest.months = nextMonths;
+  return rest;
+};
+
+/**
+ * Movimientos v0 → v1: nombres de campo de versiones antiguas de la APP
+ * - importe: amountEUR | extra.amountEUR → amount
+ * - previsión: linkedPredictionId | predictionId → forecastId
+ * - fecha: day | createdAt → date (YYYY-MM-DD)
+ * - concepto: title → concept
+ * - type en mayúsculas
+ */
+const financeMovementsV1: Migration = (data) => {
+  const { amountEUR, linkedPredictionId, predictionId, day, title, ...rest } = data;
+  const extra = (rest.extra ?? {}) as Data;
+
+  if (typeof rest.amount !== "number") {
+    const amount = typeof amountEUR === "number" ? amountEUR : extra.amountEUR;
+    if (typeof amount === "number") rest.amount = amount;
+  }
+  if (rest.forecastId == null) {
+    const forecastId = linkedPredictionId ?? predictionId;
+    if (forecastId != null) rest.forecastId = String(forecastId);
+  }
+  if (rest.date == null) {
+    const date = day ?? rest.createdAt;
+    if (typeof date === "string" && date.length >= 10) rest.date = date.slice(0, 10);
+  }
+  if (rest.concept == null && title != null) rest.concept = title;
+  if (typeof rest.type === "string") rest.type = rest.type.toUpperCase();
+  return rest;
+};
+
+// ==================== REGISTRO ====================
+
+export const MIGRATIONS: Record<EntityKey, Migration[]> = {
+  metas: [metasV1],
+  tasks: [baseline],
+  bankAccounts: [bankAccountsV1],
+  financeMovements: [financeMovementsV1],
+  incomeForecastLines: [incomeForecastLinesV1],
+  taskTemplates: [baseline],
+  uiSettings: [baseline],
+  nutritionQuickItems: [baseline],
+};
+
+/**
+ * Versión actual del formato de una entidad.
+ */
+export function getSchemaVersion(entityKey: EntityKey): number {
+  return MIGRATIONS[entityKey].length;
+}
+
+function readSchemaVersion(data: Data): number {
+  const version = data[SCHEMA_VERSION_FIELD];
+  return typeof version === "number" && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Lleva un data a la versión actual de la entidad y lo sella con schemaVersion.
+ */
+export function migrateData(entityKey: EntityKey, data: Data): Data {
+  const migrations = MIGRATIONS[entityKey];
+  const from = readSchemaVersion(data);
+  if (from >= migrations.length) return data;
+
+  let result: Data = { ...data };
+  for (let version = from; version < migrations.length; version++) {
+    result = migrations[version](result);
+  }
+  result[SCHEMA_VERSION_FIELD] = migrations.length;
+  return result;
+}
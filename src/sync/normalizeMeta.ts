@@ -13,6 +13,7 @@
  */
 
 import type { Meta, MetaType, Horizon } from "../lib/types";
+import { getSchemaVersion, migrateData, SCHEMA_VERSION_FIELD } from "./migrations";
 
 // ==================== CONSTANTES ====================
 
@@ -148,6 +149,7 @@ export function normalizeMetaForDb(meta: Partial<Meta> & { id: string; createdAt
   // timestamps
   result.createdAt = meta.createdAt || now;
   result.updatedAt = now;
+  result[SCHEMA_VERSION_FIELD] = getSchemaVersion("metas");
   
   return result;
 }
@@ -162,8 +164,10 @@ export function normalizeMetaForDb(meta: Partial<Meta> & { id: string; createdAt
  * @returns Meta con todos los campos necesarios para la UI
  */
 export function hydrateMetaFromDb(dbMeta: Record<string, unknown>): Meta {
-  // title: usar title, o name (legacy), o id como fallback
-  const title = (dbMeta.title as string) || (dbMeta.name as string) || (dbMeta.id as string) || "Sin título";
+  dbMeta = migrateData("metas", dbMeta);
+
+  // title: usar title, o id como fallback
+  const title = (dbMeta.title as string) || (dbMeta.id as string) || "Sin título";
   
   // metaType: validar o usar default
   const rawMetaType = dbMeta.metaType;
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import type { TaskData, TaskExtra } from "../lib/types";
+import {
+  getTaskRecurrence,
+  hydrateTaskFromDb,
+  normalizeTaskForDb,
+  parseRepeatRule,
+  serializeRRule,
+  toLegacyRepeatRule,
+  type TaskRecurrence,
+} from "./normalizeTask";
+
+describe("serializeRRule / parseRepeatRule", () => {
+  const roundTrips: Array<[string, TaskRecurrence]> = [
+    ["diaria con intervalo e inicio", { frequency: "DIARIA", interval: 3, start: "2025-01-10" }],
+    ["semanal con días", { frequency: "SEMANAL", interval: 1, weekdays: ["L", "X", "V"], count: 10 }],
+    ["mensual por día del mes", { frequency: "MENSUAL", interval: 1, monthDay: 31, until: "2025-12-31" }],
+    ["mensual último viernes", { frequency: "MENSUAL", interval: 1, weekdays: ["V"], setPos: -1 }],
+    ["mensual con BYSETPOS", { frequency: "MENSUAL", interval: 2, weekdays: ["S", "D"], setPos: 1, start: "2025-03-01" }],
+    ["anual", { frequency: "ANUAL", interval: 1, month: 2, monthDay: 29 }],
+    ["sin inicio con hora", { frequency: "DIARIA", interval: 1, time: "07:05" }],
+    [
+      "con hora, fin y excepciones",
+      {
+        frequency: "SEMANAL",
+        interval: 1,
+        weekdays: ["M"],
+        start: "2025-01-07",
+        until: "2025-06-30",
+        time: "18:30",
+        exceptionDates: ["2025-02-04", "2025-03-04"],
+      },
+    ],
+  ];
+
+  it.each(roundTrips)("%s", (_, recurrence) => {
+    expect(parseRepeatRule(serializeRRule(recurrence))).toEqual(recurrence);
+  });
+
+  it("con hora e inicio emite DTSTART DATE-TIME y no BYHOUR", () => {
+    const rule = serializeRRule({ frequency: "DIARIA", interval: 1, start: "2025-01-10", until: "2025-02-01", time: "09:30" });
+    expect(rule).toContain("DTSTART:20250110T093000");
+    expect(rule).toContain("UNTIL=20250201T235959");
+    expect(rule).not.toContain("BYHOUR");
+  });
+
+  it("con INTERVAL > 1 serializa el ancla como DTSTART", () => {
+    const recurrence: TaskRecurrence = { frequency: "SEMANAL", interval: 2, weekdays: ["J"], time: "10:00" };
+    const rule = serializeRRule(recurrence, "2025-04-03");
+    expect(rule.split("\n")[0]).toBe("DTSTART:20250403T100000");
+    expect(parseRepeatRule(rule)).toEqual({ ...recurrence, start: "2025-04-03" });
+  });
+
+  it("con INTERVAL 1 no usa el ancla", () => {
+    expect(serializeRRule({ frequency: "DIARIA", interval: 1 }, "2025-04-03")).toBe("RRULE:FREQ=DAILY");
+  });
+});
+
+describe("parseRepeatRule", () => {
+  it("formato legacy de la APP", () => {
+    expect(parseRepeatRule("WEEKLY|days=L,J|time=08:15")).toEqual({
+      frequency: "SEMANAL",
+      interval: 1,
+      weekdays: ["L", "J"],
+      time: "08:15",
+    });
+    expect(parseRepeatRule("MONTHLY|day=15|time=")).toEqual({ frequency: "MENSUAL", interval: 1, monthDay: 15 });
+  });
+
+  it("legacy ida y vuelta", () => {
+    const recurrence: TaskRecurrence = { frequency: "MENSUAL", interval: 1, monthDay: 5, time: "09:00" };
+    expect(parseRepeatRule(toLegacyRepeatRule(recurrence))).toEqual(recurrence);
+  });
+
+  it("RRULE sin prefijo y con día de DTSTART", () => {
+    expect(parseRepeatRule("DTSTART;VALUE=DATE:20250115\nRRULE:FREQ=MONTHLY")).toEqual({
+      frequency: "MENSUAL",
+      interval: 1,
+      monthDay: 15,
+      start: "2025-01-15",
+    });
+    expect(parseRepeatRule("FREQ=DAILY;INTERVAL=2")).toEqual({ frequency: "DIARIA", interval: 2 });
+  });
+
+  it("reglas que no se pueden representar", () => {
+    expect(parseRepeatRule("")).toBeNull();
+    expect(parseRepeatRule(42)).toBeNull();
+    expect(parseRepeatRule("RRULE:FREQ=HOURLY")).toBeNull();
+    expect(parseRepeatRule("RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15")).toBeNull();
+    expect(parseRepeatRule("RRULE:FREQ=MONTHLY;BYDAY=1MO,-1FR")).toBeNull();
+    expect(parseRepeatRule("RRULE:FREQ=WEEKLY")).toBeNull();
+  });
+});
+
+describe("normalizeTaskForDb / hydrateTaskFromDb: compatibilidad con la APP", () => {
+  const task = (extra: TaskExtra): Partial<TaskData> => ({
+    id: "t1",
+    title: "Repetida",
+    kind: "NORMAL",
+    createdAt: "2025-01-06T10:00:00.000Z",
+    extra,
+  });
+
+  // La APP solo conoce PUNTUAL/SEMANAL/MENSUAL y repeatRule legacy; no lee extra.rrule
+  const asSeenByApp = (db: Record<string, unknown>) => {
+    const { rrule, ...extra } = db.extra as Record<string, unknown>;
+    return { rrule, db: { ...db, extra } };
+  };
+
+  const cases: Array<[string, TaskExtra, TaskRecurrence, string]> = [
+    [
+      "diaria cada 3 días hasta una fecha",
+      { frequency: "DIARIA", repeatInterval: 3, repeatUntil: "2025-03-31", dailyTime: "07:00" },
+      { frequency: "SEMANAL", interval: 1, weekdays: ["L", "M", "X", "J", "V", "S", "D"], time: "07:00" },
+      "WEEKLY|days=L,M,X,J,V,S,D|time=07:00",
+    ],
+    [
+      "anual",
+      { frequency: "ANUAL", yearlyMonth: 2, yearlyDay: 29 },
+      { frequency: "MENSUAL", interval: 1, monthDay: 29 },
+      "MONTHLY|day=29",
+    ],
+    [
+      "último viernes del mes",
+      { frequency: "MENSUAL", monthlyWeekdays: ["V"], monthlySetPos: -1 },
+      { frequency: "MENSUAL", interval: 1, monthDay: 28 },
+      "MONTHLY|day=28",
+    ],
+    [
+      "semanal con fin por COUNT",
+      { frequency: "SEMANAL", weeklyDays: ["M", "J"], repeatCount: 8 },
+      { frequency: "SEMANAL", interval: 1, weekdays: ["M", "J"] },
+      "WEEKLY|days=M,J",
+    ],
+  ];
+
+  it.each(cases)("%s: legacy para la APP y regla completa en extra.rrule", (_, extra, legacy, repeatRule) => {
+    const db = normalizeTaskForDb(task(extra));
+    const original = getTaskRecurrence(task(extra))!;
+    // Con INTERVAL > 1 el ancla (fecha de creación) se guarda como inicio
+    const full = original.interval > 1 ? { ...original, start: "2025-01-06" } : original;
+
+    expect(db.repeatRule).toBe(repeatRule);
+    expect((db.extra as TaskExtra).frequency).toBe(legacy.frequency);
+    expect(parseRepeatRule(db.repeatRule)).toEqual(legacy);
+    expect(parseRepeatRule((db.extra as TaskExtra).rrule)).toEqual(full);
+
+    // Camino legacy (lo que lee la APP): sigue siendo una repetición válida
+    const app = asSeenByApp(db);
+    expect(getTaskRecurrence(hydrateTaskFromDb(app.db))).toEqual(legacy);
+
+    // WEB: recupera la repetición completa
+    expect(getTaskRecurrence(hydrateTaskFromDb(db))).toEqual(full);
+  });
+
+  it("si la APP cambia la repetición, manda su repeatRule sobre extra.rrule", () => {
+    const db = normalizeTaskForDb(task({ frequency: "DIARIA", repeatInterval: 2 }));
+    const edited = {
+      ...db,
+      repeatRule: "WEEKLY|days=L",
+      extra: { ...(db.extra as TaskExtra), weeklyDays: ["L"] },
+    };
+    expect(getTaskRecurrence(hydrateTaskFromDb(edited))).toEqual({ frequency: "SEMANAL", interval: 1, weekdays: ["L"] });
+  });
+
+  it("repetición legacy de siempre: sin extra.rrule", () => {
+    const db = normalizeTaskForDb(task({ frequency: "MENSUAL", monthlyDay: 15, monthlyTime: "09:00" }));
+    expect(db.repeatRule).toBe("MONTHLY|day=15|time=09:00");
+    expect(db.extra).toEqual({ frequency: "MENSUAL", monthlyDay: 15, monthlyTime: "09:00" });
+  });
+});
@@ -11,15 +11,30 @@
  * FRECUENCIAS:
  * - PUNTUAL con date => guarda date; time solo si HH:mm válida; NO repeatRule
  * - PUNTUAL sin date => extra.unscheduled=true
- * - SEMANAL requiere weeklyDays>0, repeatRule = WEEKLY|days=... y optional |time=HH:mm
- * - MENSUAL requiere monthlyDay 1..31, repeatRule = MONTHLY|day=n y optional |time=HH:mm
- * - SEMANAL sin días o MENSUAL sin monthlyDay => degradar a PUNTUAL + unscheduled=true
+ * - DIARIA: siempre válida
+ * - SEMANAL requiere weeklyDays>0
+ * - MENSUAL requiere monthlyDay 1..31 o monthlyWeekdays + monthlySetPos ("último viernes")
+ * - ANUAL requiere yearlyMonth + yearlyDay (o repeatStart, de donde se toman)
+ * - Sin los datos requeridos => degradar a PUNTUAL + unscheduled=true
+ * - Cualquier repetición admite repeatInterval, repeatStart, repeatUntil | repeatCount,
+ *   exceptionDates y occurrenceOverrides (cambios de una ocurrencia, por fecha original)
+ * 
+ * REPEATRULE (la APP solo entiende SEMANAL/MENSUAL en formato legacy):
+ * - Siempre formato legacy: WEEKLY|days=L,M|time=HH:mm o MONTHLY|day=n|time=HH:mm
+ * - Si la repetición no se puede expresar en él (diaria, anual, cada N, "último
+ *   viernes", con inicio, fin o excepciones), extra.frequency/repeatRule llevan la
+ *   aproximación legacy más cercana y la regla completa va en extra.rrule
+ *   (RRULE RFC 5545: DTSTART / RRULE / EXDATE en líneas separadas)
+ * - Al hidratar manda extra.rrule mientras repeatRule siga siendo su aproximación
+ *   (si no, la APP ha cambiado la repetición); sin extra.rrule ni campos en extra
+ *   (reglas importadas o escritas por la APP) se reconstruye desde repeatRule
  * 
  * TITLE tasks:
  * - kind:"TITLE" => no date/time/repeatRule, extra = {frequency:"PUNTUAL"}, points default 0
  */
 
-import type { TaskData, TaskExtra, Frequency } from "../lib/types";
+import type { TaskData, TaskExtra, Frequency, OccurrenceOverride } from "../lib/types";
+import { getSchemaVersion, migrateData, SCHEMA_VERSION_FIELD } from "./migrations";
 
 // ==================== HELPERS ====================
 
@@ -49,6 +64,10 @@ export function isValidDateYYYYMMDD(date: unknown): date is string {
 export function getEffectiveFrequency(task: Partial<TaskData>): Frequency {
   const freq = task.extra?.frequency;
   
+  if (freq === "DIARIA") {
+    return "DIARIA";
+  }
+  
   if (freq === "SEMANAL") {
     const days = task.extra?.weeklyDays;
     if (!days || !Array.isArray(days) || days.length === 0) {
@@ -58,52 +77,501 @@ export function getEffectiveFrequency(task: Partial<TaskData>): Frequency {
   }
   
   if (freq === "MENSUAL") {
-    const day = task.extra?.monthlyDay;
-    if (typeof day !== "number" || day < 1 || day > 31) {
+    if (!isValidMonthDay(task.extra?.monthlyDay) && !getMonthlySetPos(task.extra)) {
       return "PUNTUAL"; // Degradar si no hay día válido
     }
     return "MENSUAL";
   }
   
+  if (freq === "ANUAL") {
+    if (!getYearlyDate(task.extra)) {
+      return "PUNTUAL"; // Degradar si no hay mes/día
+    }
+    return "ANUAL";
+  }
+  
   return "PUNTUAL";
 }
 
 /**
  * Construye repeatRule según frecuencia efectiva
- * - SEMANAL: "WEEKLY|days=L,M,X" con optional "|time=HH:mm"
- * - MENSUAL: "MONTHLY|day=15" con optional "|time=HH:mm"
+ * - Formato legacy ("WEEKLY|days=L,M,X", "MONTHLY|day=15", optional "|time=HH:mm"),
+ *   aproximado si la repetición no se puede expresar en él
  * - PUNTUAL: null (sin repeatRule)
  */
 export function buildRepeatRule(task: Partial<TaskData>): string | undefined {
-  const freq = getEffectiveFrequency(task);
-  
-  if (freq === "SEMANAL") {
-    const days = task.extra?.weeklyDays;
-    if (!days || !Array.isArray(days) || days.length === 0) return undefined;
-    
-    let rule = `WEEKLY|days=${days.join(",")}`;
-    const time = task.extra?.weeklyTime;
-    if (isValidTimeHHmm(time)) {
-      rule += `|time=${time}`;
+  const recurrence = getTaskRecurrence(task);
+  if (!recurrence) return undefined;
+  return toLegacyRepeatRule(recurrence) ?? toLegacyRepeatRule(toLegacyRecurrence(recurrence));
+}
+
+/**
+ * RRULE completa (extra.rrule) si la repetición no se puede expresar en formato legacy.
+ * El ancla del intervalo es la fecha de creación.
+ */
+export function buildFullRRule(task: Partial<TaskData>): string | undefined {
+  const recurrence = getTaskRecurrence(task);
+  if (!recurrence || toLegacyRepeatRule(recurrence)) return undefined;
+  const created = task.createdAt?.slice(0, 10);
+  return serializeRRule(recurrence, isValidDateYYYYMMDD(created) ? created : undefined);
+}
+
+// ==================== RECURRENCE (RRULE) ====================
+
+export type RecurringFrequency = Exclude<Frequency, "PUNTUAL">;
+
+/**
+ * Repetición de una tarea, independiente del formato (extra, legacy o RRULE).
+ */
+export interface TaskRecurrence {
+  frequency: RecurringFrequency;
+  interval: number;            // >= 1
+  weekdays?: string[];         // SEMANAL: días; MENSUAL: días a los que aplica setPos
+  setPos?: number;             // MENSUAL: 1..5 o -1..-5
+  monthDay?: number;           // MENSUAL / ANUAL: 1-31
+  month?: number;              // ANUAL: 1-12
+  time?: string;               // HH:mm
+  start?: string;              // YYYY-MM-DD
+  until?: string;              // YYYY-MM-DD inclusive
+  count?: number;              // UNTIL y COUNT son excluyentes (RFC 5545)
+  exceptionDates?: string[];   // YYYY-MM-DD
+}
+
+const TIME_FIELD = {
+  DIARIA: "dailyTime",
+  SEMANAL: "weeklyTime",
+  MENSUAL: "monthlyTime",
+  ANUAL: "yearlyTime",
+} as const satisfies Record<RecurringFrequency, keyof TaskExtra>;
+
+const RRULE_FREQ: Record<RecurringFrequency, string> = {
+  DIARIA: "DAILY",
+  SEMANAL: "WEEKLY",
+  MENSUAL: "MONTHLY",
+  ANUAL: "YEARLY",
+};
+
+// Días en formato móvil ("L".."D") <-> RFC 5545 ("MO".."SU")
+const WEEKDAY_TO_RRULE: Record<string, string> = {
+  L: "MO", M: "TU", X: "WE", J: "TH", V: "FR", S: "SA", D: "SU",
+};
+const RRULE_TO_WEEKDAY: Record<string, string> = Object.fromEntries(
+  Object.entries(WEEKDAY_TO_RRULE).map(([code, rrule]) => [rrule, code])
+);
+// getUTCDay() (0 = domingo) -> formato móvil
+const WEEKDAY_BY_INDEX = ["D", "L", "M", "X", "J", "V", "S"];
+const ALL_WEEKDAYS = Object.keys(WEEKDAY_TO_RRULE);
+
+// Campos de extra que describen la repetición (los que rellena recurrenceToExtra)
+const RECURRENCE_EXTRA_FIELDS = [
+  "frequency", "weeklyDays", "weeklyTime", "dailyTime", "monthlyDay", "monthlyWeekdays",
+  "monthlySetPos", "monthlyTime", "yearlyMonth", "yearlyDay", "yearlyTime",
+  "repeatInterval", "repeatStart", "repeatUntil", "repeatCount", "exceptionDates",
+] as const satisfies ReadonlyArray<keyof TaskExtra>;
+
+function isValidMonthDay(day: unknown): day is number {
+  return typeof day === "number" && Number.isInteger(day) && day >= 1 && day <= 31;
+}
+
+function isValidSetPos(pos: unknown): pos is number {
+  return typeof pos === "number" && Number.isInteger(pos) && pos !== 0 && pos >= -5 && pos <= 5;
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * MENSUAL por posición ("último viernes"): días válidos + posición, o null.
+ */
+function getMonthlySetPos(extra: TaskExtra | undefined): { weekdays: string[]; setPos: number } | null {
+  const weekdays = (extra?.monthlyWeekdays ?? []).filter((d) => d in WEEKDAY_TO_RRULE);
+  if (weekdays.length === 0 || !isValidSetPos(extra?.monthlySetPos)) return null;
+  return { weekdays, setPos: extra.monthlySetPos };
+}
+
+/**
+ * ANUAL: mes/día explícitos o, si faltan, los de repeatStart.
+ */
+function getYearlyDate(extra: TaskExtra | undefined): { month: number; day: number } | null {
+  const month = extra?.yearlyMonth;
+  const day = extra?.yearlyDay;
+  if (typeof month === "number" && Number.isInteger(month) && month >= 1 && month <= 12 && isValidMonthDay(day)) {
+    return { month, day };
+  }
+  if (isValidDateYYYYMMDD(extra?.repeatStart)) {
+    const [, m, d] = extra.repeatStart.split("-").map(Number);
+    return { month: m, day: d };
+  }
+  return null;
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAY_BY_INDEX[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Repetición efectiva de una tarea a partir de extra (null si es PUNTUAL).
+ */
+export function getTaskRecurrence(task: Partial<TaskData>): TaskRecurrence | null {
+  const frequency = getEffectiveFrequency(task);
+  if (frequency === "PUNTUAL") return null;
+  const extra = task.extra ?? {};
+
+  const recurrence: TaskRecurrence = {
+    frequency,
+    interval: isPositiveInt(extra.repeatInterval) ? extra.repeatInterval : 1,
+  };
+
+  if (frequency === "SEMANAL") {
+    recurrence.weekdays = extra.weeklyDays;
+  } else if (frequency === "MENSUAL") {
+    const setPos = getMonthlySetPos(extra);
+    if (setPos) {
+      recurrence.weekdays = setPos.weekdays;
+      recurrence.setPos = setPos.setPos;
+    } else {
+      recurrence.monthDay = extra.monthlyDay;
     }
-    return rule;
+  } else if (frequency === "ANUAL") {
+    const yearly = getYearlyDate(extra)!;
+    recurrence.month = yearly.month;
+    recurrence.monthDay = yearly.day;
   }
-  
-  if (freq === "MENSUAL") {
-    const day = task.extra?.monthlyDay;
-    if (typeof day !== "number" || day < 1 || day > 31) return undefined;
-    
-    let rule = `MONTHLY|day=${day}`;
-    const time = task.extra?.monthlyTime;
-    if (isValidTimeHHmm(time)) {
-      rule += `|time=${time}`;
+
+  const time = extra[TIME_FIELD[frequency]];
+  if (isValidTimeHHmm(time)) recurrence.time = time;
+  if (isValidDateYYYYMMDD(extra.repeatStart)) recurrence.start = extra.repeatStart;
+  if (isValidDateYYYYMMDD(extra.repeatUntil)) {
+    recurrence.until = extra.repeatUntil;
+  } else if (isPositiveInt(extra.repeatCount)) {
+    recurrence.count = extra.repeatCount;
+  }
+  if (Array.isArray(extra.exceptionDates)) {
+    const dates = Array.from(new Set(extra.exceptionDates.filter(isValidDateYYYYMMDD))).sort();
+    if (dates.length > 0) recurrence.exceptionDates = dates;
+  }
+
+  return recurrence;
+}
+
+/**
+ * Campos de extra que representan una repetición (inverso de getTaskRecurrence).
+ */
+export function recurrenceToExtra(recurrence: TaskRecurrence): TaskExtra {
+  const extra: TaskExtra = { frequency: recurrence.frequency };
+
+  if (recurrence.frequency === "SEMANAL") {
+    extra.weeklyDays = recurrence.weekdays;
+  } else if (recurrence.frequency === "MENSUAL") {
+    if (recurrence.setPos) {
+      extra.monthlyWeekdays = recurrence.weekdays;
+      extra.monthlySetPos = recurrence.setPos;
+    } else {
+      extra.monthlyDay = recurrence.monthDay;
     }
-    return rule;
+  } else if (recurrence.frequency === "ANUAL") {
+    extra.yearlyMonth = recurrence.month;
+    extra.yearlyDay = recurrence.monthDay;
+  }
+
+  if (recurrence.time) extra[TIME_FIELD[recurrence.frequency]] = recurrence.time;
+  if (recurrence.interval > 1) extra.repeatInterval = recurrence.interval;
+  if (recurrence.start) extra.repeatStart = recurrence.start;
+  if (recurrence.until) extra.repeatUntil = recurrence.until;
+  if (recurrence.count) extra.repeatCount = recurrence.count;
+  if (recurrence.exceptionDates?.length) extra.exceptionDates = recurrence.exceptionDates;
+
+  return extra;
+}
+
+/**
+ * Formato legacy de la APP, o undefined si la repetición no se puede expresar en él.
+ */
+export function toLegacyRepeatRule(recurrence: TaskRecurrence): string | undefined {
+  const { frequency, interval, start, until, count, exceptionDates, time } = recurrence;
+  if (interval !== 1 || start || until || count || exceptionDates?.length) return undefined;
+
+  const timePart = time ? `|time=${time}` : "";
+  if (frequency === "SEMANAL" && recurrence.weekdays?.length) {
+    return `WEEKLY|days=${recurrence.weekdays.join(",")}${timePart}`;
+  }
+  if (frequency === "MENSUAL" && !recurrence.setPos && isValidMonthDay(recurrence.monthDay)) {
+    return `MONTHLY|day=${recurrence.monthDay}${timePart}`;
   }
-  
   return undefined;
 }
 
+/**
+ * Aproximación más cercana en formato legacy (SEMANAL/MENSUAL, intervalo 1,
+ * sin inicio, fin ni excepciones) de cualquier repetición:
+ * - DIARIA => semanal todos los días
+ * - MENSUAL por posición => día del mes en que cae como pronto ("1º") o como tarde ("último")
+ * - ANUAL => mensual el mismo día
+ */
+export function toLegacyRecurrence(recurrence: TaskRecurrence): TaskRecurrence {
+  const { frequency, setPos, time } = recurrence;
+  const legacy: TaskRecurrence =
+    frequency === "DIARIA" ? { frequency: "SEMANAL", interval: 1, weekdays: ALL_WEEKDAYS }
+    : frequency === "SEMANAL" ? { frequency, interval: 1, weekdays: recurrence.weekdays }
+    : frequency === "MENSUAL" && setPos ? {
+      frequency,
+      interval: 1,
+      monthDay: setPos > 0 ? (setPos - 1) * 7 + 1 : Math.max(1, 28 + (setPos + 1) * 7),
+    }
+    : { frequency: "MENSUAL", interval: 1, monthDay: recurrence.monthDay };
+  if (time) legacy.time = time;
+  return legacy;
+}
+
+function toRRuleDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/**
+ * "20240131" | "20240131T093000" | "20240131T093000Z" -> fecha y hora (sin zona).
+ */
+function fromRRuleDateTime(value: string): { date: string; time?: string } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!isValidDateYYYYMMDD(date)) return null;
+  const time = match[4] ? `${match[4]}:${match[5]}` : undefined;
+  return { date, time: isValidTimeHHmm(time) ? time : undefined };
+}
+
+/**
+ * Serializa a RFC 5545: DTSTART, RRULE y EXDATE.
+ * - DTSTART es el inicio o, con INTERVAL > 1, el ancla (`anchor`, día de creación):
+ *   sin él no se sabe en qué semanas/meses cae la regla
+ * - Con hora, DTSTART es DATE-TIME local (y UNTIL/EXDATE también); sin DTSTART
+ *   la hora va en BYHOUR/BYMINUTE
+ */
+export function serializeRRule(recurrence: TaskRecurrence, anchor?: string): string {
+  const start = recurrence.start ?? (recurrence.interval > 1 ? anchor : undefined);
+  const timeSuffix = start && recurrence.time ? `T${recurrence.time.replace(":", "")}00` : "";
+
+  const parts = [`FREQ=${RRULE_FREQ[recurrence.frequency]}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+
+  const byDay = (recurrence.weekdays ?? []).map((d) => WEEKDAY_TO_RRULE[d]).filter(Boolean);
+  if (recurrence.frequency === "SEMANAL" && byDay.length > 0) {
+    parts.push(`BYDAY=${byDay.join(",")}`);
+  } else if (recurrence.frequency === "MENSUAL") {
+    if (recurrence.setPos && byDay.length === 1) {
+      parts.push(`BYDAY=${recurrence.setPos}${byDay[0]}`);
+    } else if (recurrence.setPos && byDay.length > 1) {
+      parts.push(`BYDAY=${byDay.join(",")}`, `BYSETPOS=${recurrence.setPos}`);
+    } else if (recurrence.monthDay) {
+      parts.push(`BYMONTHDAY=${recurrence.monthDay}`);
+    }
+  } else if (recurrence.frequency === "ANUAL" && recurrence.month && recurrence.monthDay) {
+    parts.push(`BYMONTH=${recurrence.month}`, `BYMONTHDAY=${recurrence.monthDay}`);
+  }
+
+  if (recurrence.time && !start) {
+    const [h, m] = recurrence.time.split(":").map(Number);
+    parts.push(`BYHOUR=${h}`, `BYMINUTE=${m}`);
+  }
+  if (recurrence.until) {
+    parts.push(`UNTIL=${toRRuleDate(recurrence.until)}${timeSuffix ? "T235959" : ""}`);
+  } else if (recurrence.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+
+  const lines: string[] = [];
+  if (start) {
+    lines.push(timeSuffix ? `DTSTART:${toRRuleDate(start)}${timeSuffix}` : `DTSTART;VALUE=DATE:${toRRuleDate(start)}`);
+  }
+  lines.push(`RRULE:${parts.join(";")}`);
+  if (recurrence.exceptionDates?.length) {
+    const dates = recurrence.exceptionDates.map((d) => `${toRRuleDate(d)}${timeSuffix}`).join(",");
+    lines.push(timeSuffix ? `EXDATE:${dates}` : `EXDATE;VALUE=DATE:${dates}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parsea el formato legacy de la APP: "WEEKLY|days=L,M|time=09:00", "MONTHLY|day=15".
+ */
+function parseLegacyRepeatRule(rule: string): TaskRecurrence | null {
+  const [kind, ...params] = rule.split("|");
+  const values: Record<string, string> = {};
+  for (const param of params) {
+    const [key, value = ""] = param.split("=");
+    values[key.trim()] = value.trim();
+  }
+  const time = isValidTimeHHmm(values.time) ? values.time : undefined;
+
+  if (kind === "WEEKLY") {
+    const weekdays = (values.days ?? "").split(",").map((d) => d.trim()).filter(Boolean);
+    return weekdays.length > 0 ? { frequency: "SEMANAL", interval: 1, weekdays, time } : null;
+  }
+  if (kind === "MONTHLY") {
+    const monthDay = Number(values.day);
+    return isValidMonthDay(monthDay) ? { frequency: "MENSUAL", interval: 1, monthDay, time } : null;
+  }
+  return null;
+}
+
+/**
+ * Parsea un RRULE RFC 5545 (con o sin líneas DTSTART/EXDATE, con o sin prefijo
+ * "RRULE:"). Las fechas con zona horaria se toman como locales.
+ * Devuelve null si la regla no se puede representar en una tarea
+ * (p.ej. BYDAY con posiciones distintas o varios BYMONTHDAY).
+ */
+function parseRRuleText(text: string): TaskRecurrence | null {
+  let ruleValue: string | null = null;
+  let start: { date: string; time?: string } | null = null;
+  const exceptionDates: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const colon = line.indexOf(":");
+    const name = line.startsWith("FREQ=") ? "RRULE" : line.slice(0, Math.max(colon, 0)).split(";")[0].toUpperCase();
+    const value = line.startsWith("FREQ=") ? line : line.slice(colon + 1);
+
+    if (name === "RRULE") ruleValue = value;
+    else if (name === "DTSTART") start = fromRRuleDateTime(value);
+    else if (name === "EXDATE") {
+      for (const item of value.split(",")) {
+        const parsed = fromRRuleDateTime(item);
+        if (parsed) exceptionDates.push(parsed.date);
+      }
+    }
+  }
+  if (!ruleValue) return null;
+
+  const parts: Record<string, string> = {};
+  for (const part of ruleValue.split(";")) {
+    const [key, value = ""] = part.split("=");
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const frequency = (Object.keys(RRULE_FREQ) as RecurringFrequency[]).find((f) => RRULE_FREQ[f] === parts.FREQ);
+  if (!frequency) return null;
+
+  const recurrence: TaskRecurrence = { frequency, interval: 1 };
+  if (parts.INTERVAL) {
+    const interval = Number(parts.INTERVAL);
+    if (!isPositiveInt(interval)) return null;
+    recurrence.interval = interval;
+  }
+
+  // BYDAY: [posición]día, p.ej. "MO", "-1FR", "2TU"
+  const byDay: Array<{ weekday: string; pos?: number }> = [];
+  for (const item of parts.BYDAY ? parts.BYDAY.split(",") : []) {
+    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+    if (!match) return null;
+    byDay.push({ weekday: RRULE_TO_WEEKDAY[match[2]], pos: match[1] ? Number(match[1]) : undefined });
+  }
+  const positions = new Set(byDay.map((d) => d.pos));
+  if (positions.size > 1) return null;
+  const dayPos = byDay[0]?.pos;
+
+  const monthDays = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",").map(Number) : [];
+  if (monthDays.length > 1 || (monthDays.length === 1 && !isValidMonthDay(monthDays[0]))) return null;
+  const setPos = parts.BYSETPOS ? Number(parts.BYSETPOS) : undefined;
+  if (setPos !== undefined && !isValidSetPos(setPos)) return null;
+
+  switch (frequency) {
+    case "DIARIA":
+      // FREQ=DAILY;BYDAY=MO,TU,... equivale a semanal con esos días
+      if (byDay.length > 0) {
+        if (dayPos !== undefined || recurrence.interval !== 1) return null;
+        recurrence.frequency = "SEMANAL";
+        recurrence.weekdays = byDay.map((d) => d.weekday);
+      }
+      break;
+    case "SEMANAL":
+      if (dayPos !== undefined) return null;
+      if (byDay.length > 0) recurrence.weekdays = byDay.map((d) => d.weekday);
+      else if (start) recurrence.weekdays = [weekdayOf(start.date)];
+      else return null;
+      break;
+    case "MENSUAL":
+      if (byDay.length > 0) {
+        const pos = dayPos ?? setPos;
+        if (!isValidSetPos(pos) || (dayPos !== undefined && byDay.length > 1)) return null;
+        recurrence.weekdays = byDay.map((d) => d.weekday);
+        recurrence.setPos = pos;
+      } else if (monthDays.length === 1) {
+        recurrence.monthDay = monthDays[0];
+      } else if (start) {
+        recurrence.monthDay = Number(start.date.slice(8, 10));
+      } else {
+        return null;
+      }
+      break;
+    case "ANUAL": {
+      if (byDay.length > 0) return null;
+      const month = parts.BYMONTH ? Number(parts.BYMONTH) : start ? Number(start.date.slice(5, 7)) : NaN;
+      const monthDay = monthDays[0] ?? (start ? Number(start.date.slice(8, 10)) : NaN);
+      if (!Number.isInteger(month) || month < 1 || month > 12 || !isValidMonthDay(monthDay)) return null;
+      recurrence.month = month;
+      recurrence.monthDay = monthDay;
+      break;
+    }
+  }
+
+  if (parts.BYHOUR !== undefined) {
+    const time = `${parts.BYHOUR.padStart(2, "0")}:${(parts.BYMINUTE ?? "0").padStart(2, "0")}`;
+    if (isValidTimeHHmm(time)) recurrence.time = time;
+  } else if (start?.time) {
+    recurrence.time = start.time;
+  }
+  if (start) recurrence.start = start.date;
+  if (parts.UNTIL) {
+    const until = fromRRuleDateTime(parts.UNTIL);
+    if (!until) return null;
+    recurrence.until = until.date;
+  } else if (parts.COUNT) {
+    const count = Number(parts.COUNT);
+    if (!isPositiveInt(count)) return null;
+    recurrence.count = count;
+  }
+  if (exceptionDates.length > 0) recurrence.exceptionDates = Array.from(new Set(exceptionDates)).sort();
+
+  return recurrence;
+}
+
+/**
+ * Parsea un repeatRule en cualquiera de los dos formatos (legacy de la APP o RFC 5545).
+ */
+export function parseRepeatRule(rule: unknown): TaskRecurrence | null {
+  if (typeof rule !== "string" || !rule.trim()) return null;
+  const text = rule.trim();
+  if (/^(WEEKLY|MONTHLY)\|/.test(text)) return parseLegacyRepeatRule(text);
+  return parseRRuleText(text);
+}
+
+// ==================== OCCURRENCE OVERRIDES ====================
+
+/**
+ * Limpia los cambios por ocurrencia: claves y fechas válidas, sin campos vacíos
+ * y sin entradas que no cambian nada. undefined si no queda ninguno.
+ */
+export function normalizeOccurrenceOverrides(value: unknown): Record<string, OccurrenceOverride> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const result: Record<string, OccurrenceOverride> = {};
+
+  for (const [originalDate, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!isValidDateYYYYMMDD(originalDate) || !raw || typeof raw !== "object") continue;
+    const source = raw as Record<string, unknown>;
+    const override: OccurrenceOverride = {};
+    if (isValidDateYYYYMMDD(source.date) && source.date !== originalDate) override.date = source.date;
+    if (isValidTimeHHmm(source.time)) override.time = source.time;
+    if (source.skipped === true) override.skipped = true;
+    if (typeof source.quantity === "number" && Number.isFinite(source.quantity)) override.quantity = source.quantity;
+    if (typeof source.amountEUR === "number" && Number.isFinite(source.amountEUR)) override.amountEUR = source.amountEUR;
+    if (typeof source.notes === "string" && source.notes.trim()) override.notes = source.notes.trim();
+    if (Object.keys(override).length > 0) result[originalDate] = override;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 /**
  * Limpia un objeto eliminando:
  * - Propiedades con valor null, undefined, ""
@@ -176,23 +644,14 @@ export function normalizeTaskForDb(task: TaskData | Partial<TaskData>): Record<s
     normalizedExtra.unscheduled = true;
   }
   
-  // Campos de frecuencia según tipo
-  if (effectiveFreq === "SEMANAL") {
-    const days = task.extra?.weeklyDays;
-    if (Array.isArray(days) && days.length > 0) {
-      normalizedExtra.weeklyDays = days;
-    }
-    if (isValidTimeHHmm(task.extra?.weeklyTime)) {
-      normalizedExtra.weeklyTime = task.extra?.weeklyTime;
-    }
-  } else if (effectiveFreq === "MENSUAL") {
-    const day = task.extra?.monthlyDay;
-    if (typeof day === "number" && day >= 1 && day <= 31) {
-      normalizedExtra.monthlyDay = day;
-    }
-    if (isValidTimeHHmm(task.extra?.monthlyTime)) {
-      normalizedExtra.monthlyTime = task.extra?.monthlyTime;
-    }
+  // Campos de frecuencia, intervalo, fin y excepciones: los legacy para la APP
+  // y, si no bastan, la regla completa en extra.rrule
+  const recurrence = getTaskRecurrence(task);
+  if (recurrence) {
+    const fullRule = buildFullRRule(task);
+    Object.assign(normalizedExtra, recurrenceToExtra(fullRule ? toLegacyRecurrence(recurrence) : recurrence));
+    if (fullRule) normalizedExtra.rrule = fullRule;
+    normalizedExtra.occurrenceOverrides = normalizeOccurrenceOverrides(task.extra?.occurrenceOverrides);
   }
   
   // Campos financieros
@@ -231,6 +690,11 @@ export function normalizeTaskForDb(task: TaskData | Partial<TaskData>): Record<s
   if (task.extra?.notes && typeof task.extra.notes === "string" && task.extra.notes.trim()) {
     normalizedExtra.notes = task.extra.notes.trim();
   }
+
+  // UID del .ics de origen
+  if (typeof task.extra?.icsUid === "string" && task.extra.icsUid) {
+    normalizedExtra.icsUid = task.extra.icsUid;
+  }
   
   // completedDates (solo si tiene elementos)
   if (Array.isArray(task.extra?.completedDates) && task.extra.completedDates.length > 0) {
@@ -340,6 +804,7 @@ export function normalizeTaskForDb(task: TaskData | Partial<TaskData>): Record<s
   // timestamps
   result.createdAt = task.createdAt || now;
   result.updatedAt = now;
+  result[SCHEMA_VERSION_FIELD] = getSchemaVersion("tasks");
   
   // extra: siempre incluir (al menos con frequency)
   // Limpiar extra de campos vacíos pero mantener frequency
@@ -359,6 +824,7 @@ export function normalizeTaskForDb(task: TaskData | Partial<TaskData>): Record<s
  * @returns TaskData con todos los campos necesarios para la UI
  */
 export function hydrateTaskFromDb(dbTask: Record<string, unknown>): TaskData {
+  dbTask = migrateData("tasks", dbTask);
   const isTitle = dbTask.kind === "TITLE";
   
   // Parsear extra
@@ -372,12 +838,26 @@ export function hydrateTaskFromDb(dbTask: Record<string, unknown>): TaskData {
   if (dbExtra.unscheduled === true) extra.unscheduled = true;
   if (Array.isArray(dbExtra.weeklyDays)) extra.weeklyDays = dbExtra.weeklyDays as string[];
   if (typeof dbExtra.weeklyTime === "string") extra.weeklyTime = dbExtra.weeklyTime;
+  if (typeof dbExtra.dailyTime === "string") extra.dailyTime = dbExtra.dailyTime;
   if (typeof dbExtra.monthlyDay === "number") extra.monthlyDay = dbExtra.monthlyDay;
+  if (Array.isArray(dbExtra.monthlyWeekdays)) extra.monthlyWeekdays = dbExtra.monthlyWeekdays as string[];
+  if (typeof dbExtra.monthlySetPos === "number") extra.monthlySetPos = dbExtra.monthlySetPos;
   if (typeof dbExtra.monthlyTime === "string") extra.monthlyTime = dbExtra.monthlyTime;
+  if (typeof dbExtra.yearlyMonth === "number") extra.yearlyMonth = dbExtra.yearlyMonth;
+  if (typeof dbExtra.yearlyDay === "number") extra.yearlyDay = dbExtra.yearlyDay;
+  if (typeof dbExtra.yearlyTime === "string") extra.yearlyTime = dbExtra.yearlyTime;
+  if (typeof dbExtra.repeatInterval === "number") extra.repeatInterval = dbExtra.repeatInterval;
+  if (typeof dbExtra.repeatStart === "string") extra.repeatStart = dbExtra.repeatStart;
+  if (typeof dbExtra.repeatUntil === "string") extra.repeatUntil = dbExtra.repeatUntil;
+  if (typeof dbExtra.repeatCount === "number") extra.repeatCount = dbExtra.repeatCount;
+  if (Array.isArray(dbExtra.exceptionDates)) extra.exceptionDates = dbExtra.exceptionDates as string[];
+  const overrides = normalizeOccurrenceOverrides(dbExtra.occurrenceOverrides);
+  if (overrides) extra.occurrenceOverrides = overrides;
   if (typeof dbExtra.amountEUR === "number") extra.amountEUR = dbExtra.amountEUR;
   if (typeof dbExtra.unit === "string") extra.unit = dbExtra.unit as TaskExtra["unit"];
   if (typeof dbExtra.quantity === "number") extra.quantity = dbExtra.quantity;
   if (typeof dbExtra.notes === "string") extra.notes = dbExtra.notes;
+  if (typeof dbExtra.icsUid === "string") extra.icsUid = dbExtra.icsUid;
   if (dbExtra.reminderEnabled === true) extra.reminderEnabled = true;
   if (typeof dbExtra.reminderOffsetUnit === "string") extra.reminderOffsetUnit = dbExtra.reminderOffsetUnit as "min" | "hor";
   if (typeof dbExtra.reminderOffsetValue === "number") extra.reminderOffsetValue = dbExtra.reminderOffsetValue;
@@ -386,6 +866,20 @@ export function hydrateTaskFromDb(dbTask: Record<string, unknown>): TaskData {
     extra.movementIdsByDate = dbExtra.movementIdsByDate as Record<string, string>;
   }
   
+  // Regla completa en extra.rrule: sustituye a la aproximación legacy salvo que la
+  // APP haya cambiado la repetición (repeatRule ya no es esa aproximación)
+  const fullRule = isTitle ? null : parseRepeatRule(dbExtra.rrule);
+  const parsedRule = isTitle ? null : parseRepeatRule(dbTask.repeatRule);
+  if (fullRule && dbTask.repeatRule === toLegacyRepeatRule(toLegacyRecurrence(fullRule))) {
+    for (const key of RECURRENCE_EXTRA_FIELDS) delete extra[key];
+    Object.assign(extra, recurrenceToExtra(fullRule));
+  } else if (parsedRule && (!dbExtra.frequency || dbExtra.frequency === parsedRule.frequency)) {
+    // Repetición solo en repeatRule (APP sin extra, RRULE importado): completar extra
+    for (const [key, value] of Object.entries(recurrenceToExtra(parsedRule))) {
+      if (key === "frequency" || extra[key] === undefined) extra[key] = value;
+    }
+  }
+  
   // Calcular level si no existe (para compatibilidad)
   // En realidad, level no se persiste - se calcula en runtime
   // Pero la UI espera un valor, así que ponemos 0 por defecto
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeBackoffMs } from "./outbox";
+
+describe("computeBackoffMs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("dobla en cada intento desde 2s", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5); // sin jitter
+    expect([1, 2, 3, 4].map(computeBackoffMs)).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it("tope de 5 minutos", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(computeBackoffMs(20)).toBe(5 * 60 * 1000);
+    expect(computeBackoffMs(1000)).toBe(5 * 60 * 1000);
+  });
+
+  it("0 intentos cuenta como el primero", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(computeBackoffMs(0)).toBe(2000);
+  });
+
+  it("jitter de ±20%", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffMs(1)).toBe(1600);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(computeBackoffMs(1)).toBe(2400);
+  });
+});
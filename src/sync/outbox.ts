@@ -0,0 +1,212 @@
+// ==================== SYNC OUTBOX ====================
+
+/**
+ * Cola persistente de operaciones pendientes de push (IndexedDB).
+ *
+ * - Una entrada por (userId, entityKey, itemId): una escritura nueva sobre el mismo
+ *   item reemplaza el payload pendiente y reinicia el backoff.
+ * - Cada entrada es del usuario que la generó: si otro usuario entra en el mismo
+ *   navegador no la ve ni la sube con su user_id (sigue pendiente para su dueño).
+ * - Cada entrada lleva el payload completo (upsert) o el último estado conocido
+ *   (delete), así que sobrevive a recargas y cierres de pestaña.
+ * - Los fallos reprograman la entrada con backoff exponencial; nunca se descarta.
+ * - Sin IndexedDB se usa un Map en memoria (mismo comportamiento, sin persistencia).
+ */
+
+import { OUTBOX_STORE, idbRequest, isIndexedDbAvailable, withStore } from "./db";
+import type { EntityKey, SyncableEntity } from "./types";
+
+export type OutboxOp = "upsert" | "delete";
+
+export interface OutboxEntry {
+  key: string;                    // "userId:entityKey:itemId"
+  userId?: string;                // ausente en entradas anteriores (ver claimLegacyOutbox)
+  entityKey: EntityKey;
+  itemId: string;
+  op: OutboxOp;
+  payload: SyncableEntity | null; // item completo (upsert) o último estado conocido (delete)
+  revision: number;               // sube en cada enqueue; evita borrar una entrada reemplazada en vuelo
+  attempts: number;
+  nextAttemptAt: number;          // epoch ms
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Backoff: 2s, 4s, 8s... hasta 5 min, con ±20% de jitter
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+const memoryOutbox = new Map<string, OutboxEntry>();
+
+// ==================== HELPERS ====================
+
+export function getOutboxKey(userId: string, entityKey: EntityKey, itemId: string): string {
+  return `${userId}:${entityKey}:${itemId}`;
+}
+
+export function computeBackoffMs(attempts: number): number {
+  const exp = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  const jitter = exp * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(exp + jitter);
+}
+
+async function readEntry(key: string): Promise<OutboxEntry | undefined> {
+  if (!isIndexedDbAvailable()) return memoryOutbox.get(key);
+  const result = await withStore(OUTBOX_STORE, "readonly", (store) =>
+    idbRequest(store.get(key) as IDBRequest<OutboxEntry | undefined>)
+  ).catch(() => null);
+  return result ?? memoryOutbox.get(key);
+}
+
+async function writeEntry(entry: OutboxEntry): Promise<void> {
+  const written = await withStore(OUTBOX_STORE, "readwrite", async (store) => {
+    await idbRequest(store.put(entry));
+    return true;
+  }).catch((err) => {
+    console.warn("[sync] outbox write error:", err);
+    return null;
+  });
+  if (written) {
+    memoryOutbox.delete(entry.key);
+  } else {
+    memoryOutbox.set(entry.key, entry);
+  }
+}
+
+// ==================== API ====================
+
+/**
+ * Encola (o reemplaza) la operación pendiente de un item.
+ */
+export async function enqueueOutbox(
+  userId: string,
+  entityKey: EntityKey,
+  op: OutboxOp,
+  itemId: string,
+  payload: SyncableEntity | null
+): Promise<OutboxEntry> {
+  const key = getOutboxKey(userId, entityKey, itemId);
+  const existing = await readEntry(key);
+  const now = new Date().toISOString();
+
+  const entry: OutboxEntry = {
+    key,
+    userId,
+    entityKey,
+    itemId,
+    op,
+    payload,
+    revision: (existing?.revision ?? 0) + 1,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await writeEntry(entry);
+  return entry;
+}
+
+async function readAllEntries(): Promise<OutboxEntry[]> {
+  const stored = await withStore(OUTBOX_STORE, "readonly", (store) =>
+    idbRequest(store.getAll() as IDBRequest<OutboxEntry[]>)
+  ).catch((err) => {
+    console.warn("[sync] outbox read error:", err);
+    return null;
+  });
+
+  const byKey = new Map<string, OutboxEntry>();
+  for (const entry of [...(stored ?? []), ...memoryOutbox.values()]) {
+    byKey.set(entry.key, entry);
+  }
+  return Array.from(byKey.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Entradas pendientes del usuario, en orden de creación.
+ */
+export async function getOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  return (await readAllEntries()).filter((e) => e.userId === userId);
+}
+
+/**
+ * Entradas del usuario cuyo backoff ya venció, en orden de creación.
+ */
+export async function getDueOutboxEntries(userId: string, now = Date.now()): Promise<OutboxEntry[]> {
+  const entries = await getOutboxEntries(userId);
+  return entries.filter((e) => e.nextAttemptAt <= now);
+}
+
+export async function countOutbox(userId: string): Promise<number> {
+  return (await getOutboxEntries(userId)).length;
+}
+
+/**
+ * Asigna al usuario las entradas sin dueño (creadas antes de que el outbox fuera
+ * por usuario). Solo se llama cuando la caché local confirma que es su navegador.
+ */
+export async function claimLegacyOutbox(userId: string): Promise<void> {
+  const legacy = (await readAllEntries()).filter((e) => !e.userId);
+  for (const entry of legacy) {
+    const key = getOutboxKey(userId, entry.entityKey, entry.itemId);
+    await writeEntry({ ...entry, key, userId });
+    memoryOutbox.delete(entry.key);
+    await withStore(OUTBOX_STORE, "readwrite", async (store) => {
+      await idbRequest(store.delete(entry.key));
+    }).catch((err) => console.warn("[sync] outbox delete error:", err));
+  }
+}
+
+/**
+ * Elimina una entrada tras un push correcto.
+ * Si se reencoló mientras se enviaba (revision distinta), se conserva la nueva.
+ */
+export async function removeOutboxEntry(key: string, revision: number): Promise<void> {
+  const current = await readEntry(key);
+  if (!current || current.revision !== revision) return;
+
+  memoryOutbox.delete(key);
+  await withStore(OUTBOX_STORE, "readwrite", async (store) => {
+    await idbRequest(store.delete(key));
+  }).catch((err) => console.warn("[sync] outbox delete error:", err));
+}
+
+/**
+ * Registra un fallo de push y reprograma la entrada con backoff exponencial.
+ */
+export async function markOutboxFailure(key: string, revision: number, error: string): Promise<void> {
+  const current = await readEntry(key);
+  if (!current || current.revision !== revision) return;
+
+  const attempts = current.attempts + 1;
+  await writeEntry({
+    ...current,
+    attempts,
+    lastError: error,
+    nextAttemptAt: Date.now() + computeBackoffMs(attempts),
+  });
+}
+
+/**
+ * Pone todas las entradas como vencidas (p.ej. al recuperar la conexión).
+ */
+export async function resetOutboxBackoff(): Promise<void> {
+  const entries = await readAllEntries();
+  const now = Date.now();
+  for (const entry of entries) {
+    if (entry.nextAttemptAt > now) {
+      await writeEntry({ ...entry, nextAttemptAt: now });
+    }
+  }
+}
+
+/**
+ * Momento (epoch ms) del próximo reintento pendiente del usuario, o null si no tiene nada en cola.
+ */
+export async function getNextOutboxAttemptAt(userId: string): Promise<number | null> {
+  const entries = await getOutboxEntries(userId);
+  if (entries.length === 0) return null;
+  return Math.min(...entries.map((e) => e.nextAttemptAt));
+}
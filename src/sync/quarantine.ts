@@ -0,0 +1,44 @@
+// ==================== QUARANTINE ====================
+
+/**
+ * Persistencia (IndexedDB) de los rows rechazados por el esquema (schema.ts).
+ * - pull: el row remoto no se mezcla; sale de cuarentena cuando llega una versión válida
+ * - push: el cambio local no se sube y sale del outbox
+ */
+
+import { QUARANTINE_STORE, idbRequest, withStore } from "./db";
+import type { EntityKey, QuarantinedRow } from "./types";
+
+export function getQuarantineId(direction: QuarantinedRow["direction"], entityKey: EntityKey, itemId: string): string {
+  return `${direction}:${entityKey}:${itemId}`;
+}
+
+export async function loadQuarantine(): Promise<QuarantinedRow[]> {
+  const rows = await withStore(QUARANTINE_STORE, "readonly", (store) =>
+    idbRequest(store.getAll() as IDBRequest<QuarantinedRow[]>)
+  ).catch((err) => {
+    console.warn("[sync] quarantine load error:", err);
+    return null;
+  });
+  return (rows ?? []).sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
+
+export async function saveQuarantine(rows: QuarantinedRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  await withStore(QUARANTINE_STORE, "readwrite", async (store) => {
+    for (const row of rows) store.put(row);
+  }).catch((err) => console.warn("[sync] quarantine save error:", err));
+}
+
+export async function deleteQuarantine(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await withStore(QUARANTINE_STORE, "readwrite", async (store) => {
+    for (const id of ids) store.delete(id);
+  }).catch((err) => console.warn("[sync] quarantine delete error:", err));
+}
+
+export async function clearQuarantine(): Promise<void> {
+  await withStore(QUARANTINE_STORE, "readwrite", async (store) => {
+    store.clear();
+  }).catch((err) => console.warn("[sync] quarantine clear error:", err));
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalRealtimeTransport, startRealtimeSync } from "./realtime";
+import type { RealtimeStatus, RealtimeSubscribeOptions, RealtimeTransport } from "./realtime";
+import { ENTITY_CONFIGS } from "./types";
+import type { EntityKey, SupabaseRow } from "./types";
+
+const USER = "u1";
+const TASKS = ENTITY_CONFIGS.tasks.tableName;
+const METAS = ENTITY_CONFIGS.metas.tableName;
+const TABLES = Object.values(ENTITY_CONFIGS).map((c) => c.tableName);
+
+/**
+ * Transporte local con registro de cada suscripción (también las ya cerradas)
+ * y tablas "caídas" cuyo canal nunca llega a SUBSCRIBED.
+ */
+function setup() {
+  const local = createLocalRealtimeTransport();
+  const subscriptions: RealtimeSubscribeOptions[] = [];
+  const down = new Set<string>();
+  const transport: RealtimeTransport = {
+    subscribe: (options) => {
+      subscriptions.push(options);
+      return down.has(options.table) ? () => {} : local.transport.subscribe(options);
+    },
+  };
+
+  const onRows = vi.fn<(data: Partial<Record<EntityKey, SupabaseRow[]>>) => void>();
+  const onPoll = vi.fn();
+  const statuses: RealtimeStatus[] = [];
+  const stop = startRealtimeSync({
+    userId: USER,
+    onRows,
+    onPoll,
+    onStatusChange: (status) => statuses.push(status),
+    transport,
+  });
+
+  const subscriptionsOf = (table: string) => subscriptions.filter((s) => s.table === table);
+  return { ...local, subscriptionsOf, down, onRows, onPoll, statuses, stop };
+}
+
+function upsertChange(id: string, title: string) {
+  return {
+    eventType: "UPDATE" as const,
+    new: { id, user_id: USER, data: { id, title }, client_updated_at: "2025-01-01T00:00:00Z", deleted_at: null },
+    old: { id },
+  };
+}
+
+describe("startRealtimeSync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-01T12:00:00Z"));
+    vi.spyOn(Math, "random").mockReturnValue(0.5); // backoff sin jitter
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("abre un canal por tabla y pasa a connected sin pull extra", async () => {
+    const rt = setup();
+    expect(rt.statuses).toEqual(["connecting"]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(TABLES.every((t) => rt.isSubscribed(t))).toBe(true);
+    expect(rt.subscriptionsOf(TASKS)[0].filter).toBe(`user_id=eq.${USER}`);
+    expect(rt.statuses).toEqual(["connecting", "connected"]);
+    expect(rt.onPoll).not.toHaveBeenCalled();
+    rt.stop();
+  });
+
+  it("reconecta con backoff exponencial y vuelve a 2s tras conectar", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.setStatus(TASKS, "CHANNEL_ERROR", new Error("boom"));
+    expect(rt.statuses.at(-1)).toBe("reconnecting");
+    expect(rt.isSubscribed(TASKS)).toBe(false);
+
+    // Intento 1: 2s. El canal nuevo falla antes de confirmar
+    vi.advanceTimersByTime(1999);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(2);
+    rt.setStatus(TASKS, "TIMED_OUT");
+
+    // Intento 2: 4s
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(3);
+    expect(rt.isSubscribed(TASKS)).toBe(true);
+    expect(rt.statuses.at(-1)).toBe("connected");
+
+    // SUBSCRIBED reinicia los intentos
+    rt.setStatus(TASKS, "CLOSED");
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(4);
+    rt.stop();
+  });
+
+  it("hace polling mientras reconecta y un pull al recuperar todos los canales", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.down.add(TASKS);
+    rt.setStatus(TASKS, "CHANNEL_ERROR");
+    await vi.advanceTimersByTimeAsync(2000); // canal nuevo, sin confirmar
+    expect(rt.statuses.at(-1)).toBe("reconnecting");
+    expect(rt.onPoll).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(rt.onPoll).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(rt.onPoll).toHaveBeenCalledTimes(2);
+
+    // Se recupera: pull de cierre y fin del polling
+    rt.subscriptionsOf(TASKS).at(-1)!.onStatus("SUBSCRIBED");
+    expect(rt.statuses.at(-1)).toBe("connected");
+    expect(rt.onPoll).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(rt.onPoll).toHaveBeenCalledTimes(3);
+    rt.stop();
+  });
+
+  it("agrupa los cambios de varias tablas en una sola entrega", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.emit(TASKS, upsertChange("t1", "uno"));
+    await vi.advanceTimersByTimeAsync(100);
+    rt.emit(TASKS, upsertChange("t2", "dos"));
+    rt.emit(METAS, upsertChange("m1", "meta"));
+    await vi.advanceTimersByTimeAsync(149);
+    expect(rt.onRows).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(rt.onRows).toHaveBeenCalledTimes(1);
+    const data = rt.onRows.mock.calls[0][0];
+    expect(data.tasks?.map((r) => r.id)).toEqual(["t1", "t2"]);
+    expect(data.metas?.map((r) => r.id)).toEqual(["m1"]);
+    expect(data.tasks?.[0]).toMatchObject({ user_id: USER, data: { title: "uno" }, deleted_at: null });
+
+    // Buffer vacío tras entregar
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(rt.onRows).toHaveBeenCalledTimes(1);
+    rt.stop();
+  });
+
+  it("un DELETE físico llega como tombstone y sin id se descarta", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.emit(TASKS, { eventType: "DELETE", new: {}, old: { id: "t1" } });
+    rt.emit(TASKS, { eventType: "DELETE", new: {}, old: {} });
+    rt.emit(TASKS, { eventType: "INSERT", new: { id: "t2" }, old: {} }); // sin data
+    await vi.advanceTimersByTimeAsync(250);
+
+    const now = "2025-03-01T12:00:00.000Z";
+    expect(rt.onRows).toHaveBeenCalledWith({
+      tasks: [{ id: "t1", user_id: USER, data: {}, client_updated_at: now, server_updated_at: now, deleted_at: now }],
+    });
+    rt.stop();
+  });
+
+  it("ignora los avisos y cambios de un canal que ya no es el vigente", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.setStatus(TASKS, "CHANNEL_ERROR");
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(rt.statuses.at(-1)).toBe("connected");
+    const [stale, current] = rt.subscriptionsOf(TASKS);
+    expect(current).toBeDefined();
+
+    // CLOSED tardío del canal anterior: no tira el nuevo ni programa otro intento
+    stale.onStatus("CLOSED");
+    stale.onChange(upsertChange("t1", "viejo"));
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(rt.subscriptionsOf(TASKS)).toHaveLength(2);
+    expect(rt.isSubscribed(TASKS)).toBe(true);
+    expect(rt.statuses.at(-1)).toBe("connected");
+    expect(rt.onRows).not.toHaveBeenCalled();
+    rt.stop();
+  });
+
+  it("al parar cierra los canales y cancela los timers pendientes", async () => {
+    const rt = setup();
+    await vi.advanceTimersByTimeAsync(0);
+
+    rt.emit(TASKS, upsertChange("t1", "uno"));
+    rt.setStatus(METAS, "CHANNEL_ERROR");
+    rt.stop();
+
+    expect(rt.statuses.at(-1)).toBe("idle");
+    expect(TABLES.some((t) => rt.isSubscribed(t))).toBe(false);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(rt.onRows).not.toHaveBeenCalled();
+    expect(rt.onPoll).not.toHaveBeenCalled();
+    expect(rt.subscriptionsOf(METAS)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,277 @@
+// ==================== SYNC REALTIME ====================
+
+/**
+ * Suscripciones Supabase Realtime (postgres_changes) por tabla de ENTITY_CONFIGS,
+ * filtradas por user_id, para recibir al momento los cambios de otros dispositivos.
+ *
+ * - Los rows que llegan se agrupan brevemente y se entregan como un pull parcial
+ *   (mismo formato que pullAll) para aplicarlos con mergeRemoteRows.
+ * - No se avanzan los cursores de pull: el siguiente pull vuelve a traer esos rows
+ *   (el merge es idempotente) y así no se salta nada perdido durante un corte.
+ * - Si un canal se cae, se reconecta con backoff y mientras tanto se hace polling.
+ *   Al recuperar todos los canales se lanza un pull para cubrir el hueco.
+ * - El transporte es inyectable (RealtimeTransport) para poder usar un sustituto
+ *   local en lugar del canal real de Supabase.
+ */
+
+import { supabase } from "@/src/lib/supabaseClient";
+import { computeBackoffMs } from "./outbox";
+import { ENTITY_CONFIGS, EntityKey, SupabaseRow } from "./types";
+
+export type RealtimeChannelStatus = "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT" | "CLOSED";
+
+export type RealtimeStatus = "idle" | "connecting" | "connected" | "reconnecting";
+
+export interface RealtimeChange {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: Partial<SupabaseRow>;
+  old: Partial<SupabaseRow>;
+}
+
+export interface RealtimeSubscribeOptions {
+  table: string;
+  filter: string; // formato PostgREST: "user_id=eq.<uuid>"
+  onChange: (change: RealtimeChange) => void;
+  onStatus: (status: RealtimeChannelStatus, error?: Error) => void;
+}
+
+/**
+ * Abre un canal por tabla y devuelve la función para cerrarlo.
+ */
+export interface RealtimeTransport {
+  subscribe: (options: RealtimeSubscribeOptions) => () => void;
+}
+
+export interface RealtimeSyncOptions {
+  userId: string;
+  onRows: (data: Partial<Record<EntityKey, SupabaseRow[]>>) => void;
+  onPoll: () => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+  transport?: RealtimeTransport;
+}
+
+const FLUSH_DELAY_MS = 250;
+const POLL_INTERVAL_MS = 15000;
+
+// ==================== SUPABASE TRANSPORT ====================
+
+export function createSupabaseRealtimeTransport(): RealtimeTransport {
+  return {
+    subscribe: ({ table, filter, onChange, onStatus }) => {
+      const channel = supabase
+        .channel(`sync:${table}:${filter}`)
+        .on("postgres_changes", { event: "*", schema: "public", table, filter }, (payload) => {
+          onChange({
+            eventType: payload.eventType,
+            new: payload.new as Partial<SupabaseRow>,
+            old: payload.old as Partial<SupabaseRow>,
+          });
+        })
+        .subscribe((status, err) => onStatus(status as RealtimeChannelStatus, err));
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Convierte un evento en row. Un DELETE físico solo trae la clave primaria:
+ * se trata como tombstone para que el merge lo elimine en local.
+ */
+function changeToRow(change: RealtimeChange, userId: string): SupabaseRow | null {
+  if (change.eventType === "DELETE") {
+    if (!change.old.id) return null;
+    const now = new Date().toISOString();
+    return {
+      id: change.old.id,
+      user_id: userId,
+      data: {},
+      client_updated_at: now,
+      server_updated_at: now,
+      deleted_at: now,
+    };
+  }
+
+  const row = change.new;
+  if (!row.id || !row.data) return null;
+  return {
+    id: row.id,
+    user_id: row.user_id ?? userId,
+    data: row.data,
+    client_updated_at: row.client_updated_at ?? "",
+    server_updated_at: row.server_updated_at,
+    deleted_at: row.deleted_at ?? null,
+  };
+}
+
+// ==================== API ====================
+
+/**
+ * Arranca las suscripciones de todas las entidades. Devuelve la función de parada.
+ */
+export function startRealtimeSync(options: RealtimeSyncOptions): () => void {
+  const { userId, onRows, onPoll, onStatusChange } = options;
+  const transport = options.transport ?? createSupabaseRealtimeTransport();
+  const entityKeys = Object.keys(ENTITY_CONFIGS) as EntityKey[];
+
+  let stopped = false;
+  let status: RealtimeStatus = "idle";
+  let hadDisconnect = false;
+
+  const unsubscribers = new Map<EntityKey, () => void>();
+  // Canal vigente de cada entidad: los avisos de canales anteriores se ignoran
+  const channelIds = new Map<EntityKey, number>();
+  let nextChannelId = 0;
+  const subscribed = new Set<EntityKey>();
+  const attempts = new Map<EntityKey, number>();
+  const reconnectTimers = new Map<EntityKey, ReturnType<typeof setTimeout>>();
+
+  let buffer: Partial<Record<EntityKey, SupabaseRow[]>> = {};
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const flush = () => {
+    flushTimer = null;
+    const data = buffer;
+    buffer = {};
+    if (Object.keys(data).length > 0) onRows(data);
+  };
+
+  const startPolling = () => {
+    if (pollTimer) return;
+    pollTimer = setInterval(onPoll, POLL_INTERVAL_MS);
+  };
+
+  const stopPolling = () => {
+    if (!pollTimer) return;
+    clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const updateStatus = () => {
+    if (subscribed.size === entityKeys.length) {
+      stopPolling();
+      setStatus("connected");
+      // Cubrir lo que haya cambiado mientras los canales no estaban listos
+      if (hadDisconnect) {
+        hadDisconnect = false;
+        onPoll();
+      }
+    } else if (hadDisconnect) {
+      startPolling();
+      setStatus("reconnecting");
+    } else {
+      setStatus("connecting");
+    }
+  };
+
+  const subscribeEntity = (entityKey: EntityKey) => {
+    if (stopped) return;
+    const config = ENTITY_CONFIGS[entityKey];
+    const channelId = ++nextChannelId;
+    channelIds.set(entityKey, channelId);
+    const isCurrent = () => !stopped && channelIds.get(entityKey) === channelId;
+
+    const unsubscribe = transport.subscribe({
+      table: config.tableName,
+      filter: `user_id=eq.${userId}`,
+      onChange: (change) => {
+        if (!isCurrent()) return;
+        const row = changeToRow(change, userId);
+        if (!row) return;
+        (buffer[entityKey] ??= []).push(row);
+        if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+      },
+      onStatus: (channelStatus, error) => {
+        // Un CLOSED tardío del canal anterior no debe tirar el nuevo
+        if (!isCurrent()) return;
+        if (channelStatus === "SUBSCRIBED") {
+          attempts.set(entityKey, 0);
+          subscribed.add(entityKey);
+          updateStatus();
+          return;
+        }
+        console.warn(`[sync] realtime ${config.tableName} ${channelStatus}:`, error?.message ?? "");
+        scheduleReconnect(entityKey);
+      },
+    });
+
+    unsubscribers.set(entityKey, unsubscribe);
+  };
+
+  const scheduleReconnect = (entityKey: EntityKey) => {
+    if (stopped || reconnectTimers.has(entityKey)) return;
+
+    subscribed.delete(entityKey);
+    hadDisconnect = true;
+    updateStatus();
+
+    channelIds.delete(entityKey);
+    unsubscribers.get(entityKey)?.();
+    unsubscribers.delete(entityKey);
+
+    const attempt = (attempts.get(entityKey) ?? 0) + 1;
+    attempts.set(entityKey, attempt);
+    reconnectTimers.set(
+      entityKey,
+      setTimeout(() => {
+        reconnectTimers.delete(entityKey);
+        subscribeEntity(entityKey);
+      }, computeBackoffMs(attempt))
+    );
+  };
+
+  setStatus("connecting");
+  for (const entityKey of entityKeys) subscribeEntity(entityKey);
+
+  return () => {
+    stopped = true;
+    if (flushTimer) clearTimeout(flushTimer);
+    stopPolling();
+    for (const timer of reconnectTimers.values()) clearTimeout(timer);
+    reconnectTimers.clear();
+    for (const unsubscribe of unsubscribers.values()) unsubscribe();
+    unsubscribers.clear();
+    setStatus("idle");
+  };
+}
+
+// ==================== LOCAL TRANSPORT ====================
+
+/**
+ * Sustituto local del canal realtime: permite emitir cambios y estados a mano
+ * (pruebas, desarrollo sin Supabase Realtime).
+ */
+export function createLocalRealtimeTransport() {
+  const channels = new Map<string, RealtimeSubscribeOptions>();
+
+  const transport: RealtimeTransport = {
+    subscribe: (options) => {
+      channels.set(options.table, options);
+      queueMicrotask(() => {
+        if (channels.get(options.table) === options) options.onStatus("SUBSCRIBED");
+      });
+      return () => {
+        if (channels.get(options.table) === options) channels.delete(options.table);
+      };
+    },
+  };
+
+  return {
+    transport,
+    emit: (table: string, change: RealtimeChange) => channels.get(table)?.onChange(change),
+    setStatus: (table: string, status: RealtimeChannelStatus, error?: Error) =>
+      channels.get(table)?.onStatus(status, error),
+    isSubscribed: (table: string) => channels.has(table),
+  };
+}
@@ -0,0 +1,365 @@
+// ==================== SYNC SCHEMAS ====================
+
+/**
+ * Esquemas declarativos del `data` de cada entidad sincronizada.
+ *
+ * - Se comprueban en pull (data ya migrado, antes de hidratar) y en push
+ *   (payload normalizado). Un row inválido no se mezcla ni se sube: va a
+ *   cuarentena (quarantine.ts) y se muestra en el panel de diagnóstico.
+ * - Los payloads son sparse: un campo ausente o null solo es error si es `required`
+ *   (y no `nullable`).
+ * - Los campos desconocidos se aceptan (clientes más nuevos pueden añadir campos).
+ */
+
+import type { EntityKey, SchemaIssue } from "./types";
+
+type Rule =
+  | { type: "string"; required?: boolean; nullable?: boolean; enum?: readonly string[]; pattern?: RegExp }
+  | { type: "number"; required?: boolean; nullable?: boolean; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean"; required?: boolean; nullable?: boolean }
+  | { type: "array"; required?: boolean; nullable?: boolean; items?: Rule }
+  | {
+      type: "object";
+      required?: boolean;
+      nullable?: boolean;
+      fields?: Record<string, Rule>; // campos conocidos
+      values?: Rule; // diccionario: regla para cada valor
+      keyPattern?: RegExp; // diccionario: formato de las claves
+    };
+
+export type EntitySchema = Record<string, Rule>;
+
+const DATE_YYYY_MM_DD = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MONTH_YYYY_MM = /^\d{4}-\d{2}$/;
+
+// ==================== REGLAS COMUNES ====================
+
+const str: Rule = { type: "string" };
+const nullableStr: Rule = { type: "string", nullable: true };
+const num: Rule = { type: "number" };
+const bool: Rule = { type: "boolean" };
+
+const timestamps: EntitySchema = {
+  id: str,
+  createdAt: str,
+  updatedAt: str,
+  schemaVersion: { type: "number", integer: true, min: 0 },
+};
+
+const forecastTypeState: Rule = {
+  type: "object",
+  fields: {
+    base: num,
+    expected: num,
+    variable: bool,
+    cutoffISO: nullableStr,
+  },
+};
+
+// Filtros de la agenda (activos y de cada preset)
+const taskFilters: Rule = {
+  type: "object",
+  fields: {
+    metaIds: { type: "array", items: str },
+    types: { type: "array", items: { type: "string", enum: ["ACTIVIDAD", "INGRESO", "GASTO"] } },
+    statuses: { type: "array", items: { type: "string", enum: ["done", "pending", "hidden"] } },
+    dateFrom: { type: "string", pattern: DATE_YYYY_MM_DD },
+    dateTo: { type: "string", pattern: DATE_YYYY_MM_DD },
+    showChildren: bool,
+    query: str,
+  },
+};
+
+// ==================== ESQUEMAS ====================
+
+export const ENTITY_SCHEMAS: Record<EntityKey, EntitySchema> = {
+  tasks: {
+    ...timestamps,
+    metaId: str,
+    parentId: nullableStr,
+    level: num,
+    order: num,
+    kind: { type: "string", nullable: true, enum: ["NORMAL", "TITLE"] },
+    type: { type: "string", enum: ["ACTIVIDAD", "INGRESO", "GASTO"] },
+    scope: { type: "string", nullable: true, enum: ["LABORAL", "FISICO", "CRECIMIENTO"] },
+    title: str,
+    label: nullableStr,
+    description: nullableStr,
+    date: { type: "string", nullable: true, pattern: DATE_YYYY_MM_DD },
+    time: { type: "string", nullable: true, pattern: TIME_HH_MM },
+    repeatRule: nullableStr,
+    points: num,
+    isCompleted: bool,
+    accountId: nullableStr,
+    forecastId: nullableStr,
+    movementId: nullableStr,
+    extra: {
+      type: "object",
+      fields: {
+        frequency: { type: "string", enum: ["PUNTUAL", "DIARIA", "SEMANAL", "MENSUAL", "ANUAL"] },
+        dailyTime: { type: "string", pattern: TIME_HH_MM },
+        weeklyDays: { type: "array", items: str },
+        weeklyTime: { type: "string", pattern: TIME_HH_MM },
+        monthlyDay: { type: "number", integer: true }, // fuera de 1..31 se degrada a PUNTUAL al hidratar
+        monthlyWeekdays: { type: "array", items: str },
+        monthlySetPos: { type: "number", integer: true, min: -5, max: 5 },
+        monthlyTime: { type: "string", pattern: TIME_HH_MM },
+        yearlyMonth: { type: "number", integer: true, min: 1, max: 12 },
+        yearlyDay: { type: "number", integer: true, min: 1, max: 31 },
+        yearlyTime: { type: "string", pattern: TIME_HH_MM },
+        repeatInterval: { type: "number", integer: true, min: 1 },
+        repeatStart: { type: "string", pattern: DATE_YYYY_MM_DD },
+        repeatUntil: { type: "string", pattern: DATE_YYYY_MM_DD },
+        repeatCount: { type: "number", integer: true, min: 1 },
+        exceptionDates: { type: "array", items: { type: "string", pattern: DATE_YYYY_MM_DD } },
+        occurrenceOverrides: {
+          type: "object",
+          keyPattern: DATE_YYYY_MM_DD,
+          values: {
+            type: "object",
+            fields: {
+              date: { type: "string", pattern: DATE_YYYY_MM_DD },
+              time: { type: "string", pattern: TIME_HH_MM },
+              skipped: bool,
+              quantity: num,
+              amountEUR: num,
+              notes: str,
+            },
+          },
+        },
+        unscheduled: bool,
+        reminderEnabled: bool,
+        reminderOffsetUnit: { type: "string", enum: ["min", "hor"] },
+        reminderOffsetValue: num,
+        amountEUR: num,
+        unit: str,
+        quantity: num,
+        notes: str,
+        icsUid: str,
+        completedDates: { type: "array", items: { type: "string", pattern: DATE_YYYY_MM_DD } },
+        movementIdsByDate: { type: "object", values: str },
+      },
+    },
+  },
+
+  metas: {
+    ...timestamps,
+    title: { type: "string", required: true },
+    description: str,
+    targetDate: { type: "string", pattern: DATE_YYYY_MM_DD },
+    metaType: { type: "string", enum: ["MOONSHOT", "LARGO_PLAZO", "CORTO_PLAZO"] },
+    horizon: { type: "string", enum: ["1M", "3M", "6M", "9M", "1Y", "3Y", "5Y", "10Y"] },
+    order: num,
+    isActive: bool,
+  },
+
+  bankAccounts: {
+    ...timestamps,
+    name: { type: "string", required: true },
+    type: { type: "string", enum: ["PERSONAL", "SOCIEDAD"] },
+    balance: num,
+    order: num,
+  },
+
+  incomeForecastLines: {
+    ...timestamps,
+    name: { type: "string", required: true },
+    type: { type: "string", enum: ["INGRESO", "GASTO"] },
+    parentId: nullableStr,
+    order: num,
+    enabledTypes: { type: "object", fields: { INGRESO: bool, GASTO: bool } },
+    months: {
+      type: "object",
+      keyPattern: MONTH_YYYY_MM,
+      values: { type: "object", fields: { INGRESO: forecastTypeState, GASTO: forecastTypeState } },
+    },
+  },
+
+  financeMovements: {
+    ...timestamps,
+    type: { type: "string", required: true, enum: ["INGRESO", "GASTO"] },
+    amount: num,
+    date: { type: "string", pattern: DATE_YYYY_MM_DD },
+    concept: str,
+    accountId: nullableStr,
+    forecastId: nullableStr,
+    note: nullableStr,
+    description: nullableStr,
+  },
+
+  taskTemplates: {
+    ...timestamps,
+    name: { type: "string", required: true },
+    description: str,
+    meta: {
+      type: "object",
+      fields: {
+        title: { type: "string", required: true },
+        description: str,
+        metaType: { type: "string", enum: ["MOONSHOT", "LARGO_PLAZO", "CORTO_PLAZO"] },
+        horizon: { type: "string", enum: ["1M", "3M", "6M", "9M", "1Y", "3Y", "5Y", "10Y"] },
+        targetDayOffset: { type: "number", integer: true },
+      },
+    },
+    tasks: {
+      type: "array",
+      required: true,
+      items: {
+        type: "object",
+        fields: {
+          ref: { type: "string", required: true },
+          parentRef: nullableStr,
+          dayOffset: { type: "number", nullable: true, integer: true },
+          repeatStartOffset: { type: "number", integer: true },
+          repeatUntilOffset: { type: "number", integer: true },
+          data: {
+            type: "object",
+            required: true,
+            fields: {
+              kind: { type: "string", nullable: true, enum: ["NORMAL", "TITLE"] },
+              type: { type: "string", enum: ["ACTIVIDAD", "INGRESO", "GASTO"] },
+              scope: { type: "string", nullable: true, enum: ["LABORAL", "FISICO", "CRECIMIENTO"] },
+              title: str,
+              time: { type: "string", nullable: true, pattern: TIME_HH_MM },
+              order: num,
+              points: num,
+              extra: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+  },
+
+  uiSettings: {
+    ...timestamps,
+    agenda: {
+      type: "object",
+      fields: {
+        sidebarCollapsed: bool,
+        view: { type: "string", enum: ["tree", "table", "day", "week", "month"] },
+        columnWidths: { type: "object", values: num },
+        columnOrder: { type: "array", items: str },
+        presets: {
+          type: "array",
+          items: {
+            type: "object",
+            fields: { id: { type: "string", required: true }, name: str, filters: taskFilters },
+          },
+        },
+        activeFilters: taskFilters,
+      },
+    },
+  },
+
+  nutritionQuickItems: {
+    ...timestamps,
+    name: str,
+    order: num,
+  },
+};
+
+// ==================== VALIDACIÓN ====================
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function validateValue(rule: Rule, value: unknown, path: string, issues: SchemaIssue[]) {
+  if (value === undefined) {
+    if (rule.required) issues.push({ path, message: "campo obligatorio" });
+    return;
+  }
+  if (value === null) {
+    if (rule.required && !rule.nullable) issues.push({ path, message: "no puede ser null" });
+    return;
+  }
+
+  switch (rule.type) {
+    case "string":
+      if (typeof value !== "string") {
+        issues.push({ path, message: `se esperaba string, llegó ${describe(value)}` });
+      } else if (rule.enum && !rule.enum.includes(value)) {
+        issues.push({ path, message: `valor no permitido "${value}"` });
+      } else if (rule.pattern && !rule.pattern.test(value)) {
+        issues.push({ path, message: `formato inválido "${value}"` });
+      }
+      return;
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path, message: `se esperaba número, llegó ${describe(value)}` });
+      } else if (rule.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `se esperaba entero, llegó ${value}` });
+      } else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        issues.push({ path, message: `fuera de rango (${value})` });
+      }
+      return;
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push({ path, message: `se esperaba boolean, llegó ${describe(value)}` });
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `se esperaba array, llegó ${describe(value)}` });
+        return;
+      }
+      if (rule.items) {
+        value.forEach((item, i) => validateValue(rule.items!, item, `${path}[${i}]`, issues));
+      }
+      return;
+
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path, message: `se esperaba objeto, llegó ${describe(value)}` });
+        return;
+      }
+      const obj = value as Record<string, unknown>;
+      if (rule.fields) {
+        validateFields(rule.fields, obj, path, issues);
+      }
+      if (rule.values) {
+        for (const [key, child] of Object.entries(obj)) {
+          if (rule.keyPattern && !rule.keyPattern.test(key)) {
+            issues.push({ path: `${path}.${key}`, message: "clave con formato inválido" });
+          }
+          validateValue(rule.values, child, `${path}.${key}`, issues);
+        }
+      }
+      return;
+    }
+  }
+}
+
+function validateFields(
+  fields: Record<string, Rule>,
+  obj: Record<string, unknown>,
+  prefix: string,
+  issues: SchemaIssue[]
+) {
+  for (const [field, rule] of Object.entries(fields)) {
+    validateValue(rule, obj[field], prefix ? `${prefix}.${field}` : field, issues);
+  }
+}
+
+/**
+ * Valida el `data` de una entidad. Devuelve la lista de problemas (vacía si es válido).
+ */
+export function validateEntityData(entityKey: EntityKey, data: unknown): SchemaIssue[] {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return [{ path: "", message: `data debe ser un objeto, llegó ${describe(data)}` }];
+  }
+  const issues: SchemaIssue[] = [];
+  validateFields(ENTITY_SCHEMAS[entityKey], data as Record<string, unknown>, "", issues);
+  return issues;
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { createMergeContext, mergeRemoteRows } from "./syncEngine";
+import type { SupabaseRow, SyncableEntity } from "./types";
+
+// Plantillas: sin normalizador, el row se hidrata tal cual (ya en la versión actual)
+type Item = SyncableEntity & { name?: string; description?: string };
+
+const ENTITY = "taskTemplates";
+
+function item(id: string, fields: Partial<Item>, updatedAt: string): Item {
+  return { id, schemaVersion: 1, ...fields, updatedAt } as Item;
+}
+
+function row(id: string, data: Record<string, unknown>, updatedAt: string, deleted = false): SupabaseRow {
+  return {
+    id,
+    user_id: "u1",
+    data: { schemaVersion: 1, ...data },
+    client_updated_at: updatedAt,
+    server_updated_at: updatedAt,
+    deleted_at: deleted ? updatedAt : null,
+  };
+}
+
+describe("mergeRemoteRows", () => {
+  it("sin cambios pendientes: last-write-wins por client_updated_at", () => {
+    const local = [item("a", { name: "local" }, "2025-01-02T00:00:00Z"), item("b", { name: "local" }, "2025-01-02T00:00:00Z")];
+    const ctx = createMergeContext(ENTITY, new Set(), new Map());
+    const result = mergeRemoteRows(
+      local,
+      [row("a", { name: "remoto" }, "2025-01-03T00:00:00Z"), row("b", { name: "remoto" }, "2025-01-01T00:00:00Z")],
+      ENTITY,
+      ctx
+    );
+
+    expect(result.find((x) => x.id === "a")?.name).toBe("remoto");
+    expect(result.find((x) => x.id === "b")?.name).toBe("local");
+    expect(ctx.newBases.map((x) => x.id)).toEqual(["a"]);
+    expect(ctx.conflicts).toEqual([]);
+  });
+
+  it("añade los items remotos que no existen en local", () => {
+    const result = mergeRemoteRows<Item>([], [row("n", { name: "nuevo" }, "2025-01-01T00:00:00Z")], ENTITY);
+    expect(result).toEqual([{ id: "n", schemaVersion: 1, name: "nuevo", updatedAt: "2025-01-01T00:00:00Z", deleted: false }]);
+  });
+
+  it("tombstone sin cambios pendientes: borra en local y descarta la base", () => {
+    const ctx = createMergeContext(ENTITY, new Set(), new Map());
+    const result = mergeRemoteRows(
+      [item("a", { name: "x" }, "2025-01-01T00:00:00Z")],
+      [row("a", {}, "2025-01-02T00:00:00Z", true)],
+      ENTITY,
+      ctx
+    );
+    expect(result).toEqual([]);
+    expect(ctx.removedIds).toEqual(["a"]);
+  });
+
+  it("tombstone con edición pendiente: conserva el local y registra el conflicto", () => {
+    const local = item("a", { name: "editado" }, "2025-01-02T00:00:00Z");
+    const base = item("a", { name: "original" }, "2025-01-01T00:00:00Z");
+    const ctx = createMergeContext(ENTITY, new Set(["a"]), new Map([[`${ENTITY}:a`, base]]));
+    const result = mergeRemoteRows([local], [row("a", {}, "2025-01-03T00:00:00Z", true)], ENTITY, ctx);
+
+    expect(result).toEqual([local]);
+    expect(ctx.removedIds).toEqual([]);
+    expect(ctx.conflicts).toHaveLength(1);
+    expect(ctx.conflicts[0]).toMatchObject({
+      id: `${ENTITY}:a`,
+      itemId: "a",
+      fields: ["deleted"],
+      base,
+      local,
+      remote: { ...local, deleted: true },
+    });
+  });
+
+  it("con cambios pendientes y base: merge a tres bandas y re-encola el resultado", () => {
+    const base = item("a", { name: "base", description: "base" }, "2025-01-01T00:00:00Z");
+    const local = item("a", { name: "local", description: "base" }, "2025-01-02T00:00:00Z");
+    const ctx = createMergeContext(ENTITY, new Set(["a"]), new Map([[`${ENTITY}:a`, base]]));
+    const [merged] = mergeRemoteRows(
+      [local],
+      [row("a", { name: "base", description: "remota" }, "2025-01-03T00:00:00Z")],
+      ENTITY,
+      ctx
+    );
+
+    expect(merged).toMatchObject({ name: "local", description: "remota" });
+    expect(ctx.requeue).toEqual([merged]);
+    expect(ctx.newBases.map((x) => x.id)).toEqual(["a"]);
+    expect(ctx.conflicts).toEqual([]);
+  });
+
+  it("con cambios pendientes: el mismo campo cambiado en ambos lados es un conflicto", () => {
+    const base = item("a", { name: "base" }, "2025-01-01T00:00:00Z");
+    const local = item("a", { name: "local" }, "2025-01-02T00:00:00Z");
+    const ctx = createMergeContext(ENTITY, new Set(["a"]), new Map([[`${ENTITY}:a`, base]]));
+    const [merged] = mergeRemoteRows([local], [row("a", { name: "remoto" }, "2025-01-03T00:00:00Z")], ENTITY, ctx);
+
+    // El remoto es más nuevo: gana provisionalmente hasta que se resuelva
+    expect(merged.name).toBe("remoto");
+    expect(ctx.conflicts).toHaveLength(1);
+    expect(ctx.conflicts[0]).toMatchObject({ itemId: "a", fields: ["name"], local, base });
+  });
+
+  it("con cambios pendientes sin base: los campos que difieren son conflicto y se re-encola", () => {
+    const local = item("a", { name: "local", description: "igual" }, "2025-01-02T00:00:00Z");
+    const ctx = createMergeContext(ENTITY, new Set(["a"]), new Map());
+    const [merged] = mergeRemoteRows(
+      [local],
+      [row("a", { name: "remoto", description: "igual" }, "2025-01-03T00:00:00Z")],
+      ENTITY,
+      ctx
+    );
+
+    // No se empuja el payload local sin más: gana el remoto (más nuevo) hasta resolver
+    expect(merged).toMatchObject({ name: "remoto", description: "igual" });
+    expect(ctx.requeue).toEqual([merged]);
+    expect(ctx.newBases.map((x) => x.id)).toEqual(["a"]);
+    expect(ctx.conflicts).toHaveLength(1);
+    expect(ctx.conflicts[0]).toMatchObject({ itemId: "a", fields: ["name"], local, base: null });
+  });
+});
@@ -1,127 +1,319 @@
 // ==================== SYNC ENGINE ====================
 
 import { supabase } from "@/src/lib/supabaseClient";
-import { ENTITY_CONFIGS, EntityKey, SupabaseRow, SyncableEntity } from "./types";
+import {
+  ENTITY_CONFIGS,
+  EntityKey,
+  QuarantinedRow,
+  SchemaIssue,
+  SupabaseRow,
+  SyncableEntity,
+  SyncConflict,
+  SyncCursor,
+} from "./types";
 import { normalizeTaskForDb, hydrateTaskFromDb } from "./normalizeTask";
 import { normalizeMetaForDb, hydrateMetaFromDb } from "./normalizeMeta";
+import { getDueOutboxEntries, markOutboxFailure, removeOutboxEntry, type OutboxEntry } from "./outbox";
+import { threeWayMerge, SET_MERGE_FIELDS } from "./merge";
+import { getBaseKey, saveBases, deleteBases } from "./baseStore";
+import { migrateData } from "./migrations";
+import { formatSchemaIssues, validateEntityData } from "./schema";
+import { getQuarantineId, saveQuarantine } from "./quarantine";
+import {
+  normalizeBankAccountForDbWeb,
+  normalizeForecastSourceForDbWeb,
+  hydrateBankAccountFromDbWeb,
+  hydrateForecastSourceFromDbWeb,
+  hydrateFinanceMovementFromDbWeb,
+} from "@/src/lib/finance/normalize";
+import type { BankAccountFull, ForecastLineFull } from "@/src/lib/finance/financeData";
 import type { TaskData, Meta } from "@/src/lib/types";
 
-// ==================== HELPERS ====================
+// ==================== CURSORS ====================
+
+// Tamaño de página del pull incremental (keyset por server_updated_at, id)
+export const PULL_PAGE_SIZE = 500;
+
+// Cursor global legacy (antes de los cursores por entidad)
+const LEGACY_LAST_PULLED_KEY = "sync_lastPulledAt";
 
 function getLastPulledAt(): string | null {
   if (typeof window === "undefined") return null;
-  return localStorage.getItem("sync_lastPulledAt");
+  return localStorage.getItem(LEGACY_LAST_PULLED_KEY);
+}
+
+/**
+ * Lee el cursor de pull de una entidad.
+ * Si no existe pero hay un sync_lastPulledAt legacy, se usa como punto de partida
+ * (id vacío => incluye todas las rows con ese mismo server_updated_at).
+ */
+export function getEntityCursor(entityKey: EntityKey): SyncCursor | null {
+  if (typeof window === "undefined") return null;
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return null;
+
+  try {
+    const stored = localStorage.getItem(config.cursorKey);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<SyncCursor>;
+      if (typeof parsed.serverUpdatedAt === "string" && typeof parsed.id === "string") {
+        return { serverUpdatedAt: parsed.serverUpdatedAt, id: parsed.id };
+      }
+    }
+  } catch {
+    // Cursor corrupto: tratar como inexistente
+  }
+
+  const legacy = getLastPulledAt();
+  return legacy ? { serverUpdatedAt: legacy, id: "" } : null;
+}
+
+export function setEntityCursor(entityKey: EntityKey, cursor: SyncCursor) {
+  if (typeof window === "undefined") return;
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return;
+  localStorage.setItem(config.cursorKey, JSON.stringify(cursor));
+}
+
+export function clearEntityCursor(entityKey: EntityKey) {
+  if (typeof window === "undefined") return;
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return;
+  localStorage.removeItem(config.cursorKey);
 }
 
-function setLastPulledAt(iso: string) {
+/**
+ * Borra todos los cursores (incluido el legacy): el siguiente pull trae todo.
+ */
+export function clearAllCursors() {
   if (typeof window === "undefined") return;
-  localStorage.setItem("sync_lastPulledAt", iso);
+  for (const key of Object.keys(ENTITY_CONFIGS) as EntityKey[]) {
+    clearEntityCursor(key);
+  }
+  localStorage.removeItem(LEGACY_LAST_PULLED_KEY);
+}
+
+/**
+ * Persiste los cursores devueltos por pullAll({ deferCursors: true }).
+ * Se llama cuando las rows ya están guardadas en la caché local.
+ */
+export function commitCursors(cursors: Partial<Record<EntityKey, SyncCursor>>) {
+  for (const [key, cursor] of Object.entries(cursors)) {
+    if (cursor) setEntityCursor(key as EntityKey, cursor);
+  }
 }
 
 // ==================== PULL ====================
 
-export async function pullEntity(
-  entityKey: EntityKey,
+/**
+ * Pide una página de rows posteriores al cursor, ordenadas por (server_updated_at, id).
+ */
+async function pullPage(
+  tableName: string,
   userId: string,
-  since?: string | null
+  after: SyncCursor | null
 ): Promise<{ rows: SupabaseRow[]; error: string | null }> {
-  const config = ENTITY_CONFIGS[entityKey];
-  if (!config) return { rows: [], error: `Unknown entity: ${entityKey}` };
-
   let query = supabase
-    .from(config.tableName)
+    .from(tableName)
     .select("id, user_id, data, client_updated_at, server_updated_at, deleted_at")
     .eq("user_id", userId)
-    .order("server_updated_at", { ascending: true });
-
-  // Filtro incremental: solo rows con server_updated_at > since
-  if (since) {
-    query = query.gt("server_updated_at", since);
+    .order("server_updated_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(PULL_PAGE_SIZE);
+
+  // Keyset: (server_updated_at > ts) OR (server_updated_at = ts AND id > lastId)
+  if (after) {
+    const ts = `"${after.serverUpdatedAt}"`;
+    query = after.id
+      ? query.or(`server_updated_at.gt.${ts},and(server_updated_at.eq.${ts},id.gt."${after.id}")`)
+      : query.gte("server_updated_at", after.serverUpdatedAt);
   }
 
   const { data, error } = await query;
+  if (error) return { rows: [], error: error.message };
+  return { rows: (data || []) as SupabaseRow[], error: null };
+}
 
-  if (error) {
-    console.warn(`[sync] pullEntity ${entityKey} error:`, error.message);
-    return { rows: [], error: error.message };
+/**
+ * Pull incremental paginado de una entidad.
+ * Devuelve las rows nuevas y el cursor hasta el que se ha leído, pero NO lo persiste:
+ * el llamador decide cuándo avanzar (solo si la entidad completa terminó sin error).
+ */
+export async function pullEntity(
+  entityKey: EntityKey,
+  userId: string,
+  since?: SyncCursor | null
+): Promise<{ rows: SupabaseRow[]; cursor: SyncCursor | null; error: string | null }> {
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return { rows: [], cursor: null, error: `Unknown entity: ${entityKey}` };
+
+  const rows: SupabaseRow[] = [];
+  let cursor: SyncCursor | null = since ?? null;
+
+  for (;;) {
+    const page = await pullPage(config.tableName, userId, cursor);
+
+    if (page.error) {
+      console.warn(`[sync] pullEntity ${entityKey} error:`, page.error);
+      return { rows: [], cursor: since ?? null, error: page.error };
+    }
+
+    rows.push(...page.rows);
+
+    const last = page.rows[page.rows.length - 1];
+    if (last?.server_updated_at) {
+      cursor = { serverUpdatedAt: last.server_updated_at, id: last.id };
+    }
+
+    if (page.rows.length < PULL_PAGE_SIZE) break;
   }
 
-  return { rows: (data || []) as SupabaseRow[], error: null };
+  return { rows, cursor, error: null };
 }
 
-export async function pullAll(userId: string): Promise<{
+/**
+ * Pull de todas las entidades desde su cursor.
+ * - fromScratch ignora los cursores guardados (store vacío que hay que rellenar entero)
+ * - deferCursors no persiste los cursores: se devuelven para commitCursors()
+ */
+export async function pullAll(
+  userId: string,
+  options: { fromScratch?: boolean; deferCursors?: boolean } = {}
+): Promise<{
   data: Record<EntityKey, SupabaseRow[]>;
+  cursors: Partial<Record<EntityKey, SyncCursor>>;
   errors: string[];
 }> {
   const results: Record<string, SupabaseRow[]> = {};
+  const cursors: Partial<Record<EntityKey, SyncCursor>> = {};
   const errors: string[] = [];
-  const lastPulled = getLastPulledAt();
 
   const entityKeys = Object.keys(ENTITY_CONFIGS) as EntityKey[];
 
   await Promise.all(
     entityKeys.map(async (key) => {
-      const { rows, error } = await pullEntity(key, userId, lastPulled);
+      const since = options.fromScratch ? null : getEntityCursor(key);
+      const { rows, cursor, error } = await pullEntity(key, userId, since);
       results[key] = rows;
-      if (error) errors.push(`${key}: ${error}`);
+
+      if (error) {
+        // El cursor de esta entidad no avanza: el próximo pull reintenta desde el mismo punto
+        errors.push(`${key}: ${error}`);
+        return;
+      }
+
+      if (cursor) {
+        cursors[key] = cursor;
+        if (!options.deferCursors) setEntityCursor(key, cursor);
+      }
     })
   );
 
-  // Calcular max server_updated_at entre TODAS las rows recibidas
-  let maxServerUpdatedAt: string | null = null;
-  for (const key of entityKeys) {
-    for (const row of results[key] || []) {
-      if (row.server_updated_at) {
-        if (!maxServerUpdatedAt || row.server_updated_at > maxServerUpdatedAt) {
-          maxServerUpdatedAt = row.server_updated_at;
-        }
-      }
-    }
+  // Todos los cursores ya son por entidad: el global legacy deja de usarse
+  if (errors.length === 0 && typeof window !== "undefined") {
+    localStorage.removeItem(LEGACY_LAST_PULLED_KEY);
   }
 
-  // Solo actualizar lastPulledAt si hubo rows nuevas
-  if (maxServerUpdatedAt) {
-    setLastPulledAt(maxServerUpdatedAt);
+  return { data: results as Record<EntityKey, SupabaseRow[]>, cursors, errors };
+}
+
+// ==================== PUSH ====================
+
+/**
+ * Construye el `data` que se guarda en Supabase para un item, con las mismas
+ * reglas de normalización que la APP. También se usa para comparar versiones
+ * (diff de conflictos) sobre el payload real que viaja al servidor.
+ */
+export function buildDataPayload(entityKey: EntityKey, item: SyncableEntity): Record<string, unknown> {
+  if (entityKey === "tasks") {
+    // Normalizar task antes de guardar (mismas reglas que APP)
+    return normalizeTaskForDb(item as unknown as TaskData);
+  }
+  if (entityKey === "metas") {
+    // Normalizar meta antes de guardar (mismas reglas que APP)
+    return normalizeMetaForDb(item as unknown as Meta & { createdAt?: string; updatedAt?: string });
+  }
+  if (entityKey === "bankAccounts") {
+    return normalizeBankAccountForDbWeb(item as unknown as BankAccountFull & { id: string });
   }
+  if (entityKey === "incomeForecastLines") {
+    return normalizeForecastSourceForDbWeb(item as unknown as ForecastLineFull & { id: string });
+  }
+  // Sin normalizador: se migra por si el item viene de un formato anterior
+  return migrateData(entityKey, { ...item, updatedAt: item.updatedAt || new Date().toISOString() });
+}
+
+type PushResult = { error: string | null; issues?: SchemaIssue[]; payload?: Record<string, unknown> };
 
-  return { data: results as Record<EntityKey, SupabaseRow[]>, errors };
+// Columnas de un row para upsert (item o tombstone)
+interface PushRow {
+  id: string;
+  user_id: string;
+  data: Record<string, unknown>;
+  client_updated_at: string;
+  deleted_at: string | null;
 }
 
-// ==================== PUSH ====================
+export const PUSH_CHUNK_SIZE = 100;
 
-export async function pushItem(
+/**
+ * Row para subir un item. Nunca se construye un row con un payload que no
+ * cumple el esquema: en ese caso se devuelven los issues.
+ */
+function buildItemRow(
   entityKey: EntityKey,
   userId: string,
-  item: SyncableEntity
-): Promise<{ error: string | null }> {
+  item: SyncableEntity,
+  now: string
+): { row: PushRow } | (PushResult & { error: string }) {
   const config = ENTITY_CONFIGS[entityKey];
-  if (!config) return { error: `Unknown entity: ${entityKey}` };
-
-  const now = new Date().toISOString();
-  const updatedAt = config.getUpdatedAt(item) || now;
 
   // Preparar data payload - normalizar según entidad
-  let dataPayload: Record<string, unknown>;
-  if (entityKey === "tasks") {
-    // Normalizar task antes de guardar (mismas reglas que APP)
-    dataPayload = normalizeTaskForDb(item as unknown as TaskData);
-  } else if (entityKey === "metas") {
-    // Normalizar meta antes de guardar (mismas reglas que APP)
-    dataPayload = normalizeMetaForDb(item as unknown as Meta & { createdAt?: string; updatedAt?: string });
-  } else {
-    dataPayload = { ...item, updatedAt };
+  const dataPayload = buildDataPayload(entityKey, item);
+
+  const issues = validateEntityData(entityKey, dataPayload);
+  if (issues.length > 0) {
+    const message = formatSchemaIssues(issues);
+    console.warn(`[sync] push ${entityKey} ${item.id} invalid:`, message);
+    return { error: `invalid payload: ${message}`, issues, payload: dataPayload };
   }
 
-  const { error } = await supabase.from(config.tableName).upsert(
-    {
+  return {
+    row: {
       id: item.id,
       user_id: userId,
       data: dataPayload,
-      client_updated_at: updatedAt,
+      client_updated_at: config.getUpdatedAt(item) || now,
       deleted_at: item.deleted ? now : null,
     },
-    { onConflict: "id" }
-  );
+  };
+}
+
+/**
+ * UPSERT tombstone: si el row no existe, lo crea con deleted_at != null.
+ * Esto garantiza que la APP pueda hacer pull del borrado.
+ * Conserva el último estado conocido del item para poder restaurarlo desde la
+ * papelera (trash.ts); sin él el data queda vacío.
+ */
+function buildTombstoneRow(
+  entityKey: EntityKey,
+  userId: string,
+  itemId: string,
+  now: string,
+  lastKnown: SyncableEntity | null
+): PushRow {
+  const data = lastKnown ? buildDataPayload(entityKey, { ...lastKnown, deleted: false }) : {};
+  return { id: itemId, user_id: userId, data, client_updated_at: now, deleted_at: now };
+}
+
+export async function pushItem(entityKey: EntityKey, userId: string, item: SyncableEntity): Promise<PushResult> {
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return { error: `Unknown entity: ${entityKey}` };
+
+  const built = buildItemRow(entityKey, userId, item, new Date().toISOString());
+  if (!("row" in built)) return built;
+
+  const { error } = await supabase.from(config.tableName).upsert(built.row, { onConflict: "id" });
 
   if (error) {
     console.warn(`[sync] pushItem ${entityKey} error:`, error.message);
@@ -134,25 +326,14 @@ export async function pushItem(
 export async function pushDelete(
   entityKey: EntityKey,
   userId: string,
-  itemId: string
+  itemId: string,
+  lastKnown: SyncableEntity | null = null
 ): Promise<{ error: string | null }> {
   const config = ENTITY_CONFIGS[entityKey];
   if (!config) return { error: `Unknown entity: ${entityKey}` };
 
-  const now = new Date().toISOString();
-
-  // UPSERT tombstone: si el row no existe, lo crea con deleted_at != null
-  // Esto garantiza que la APP pueda hacer pull del borrado
-  const { error } = await supabase.from(config.tableName).upsert(
-    {
-      id: itemId,
-      user_id: userId,
-      data: {},
-      client_updated_at: now,
-      deleted_at: now,
-    },
-    { onConflict: "id" }
-  );
+  const row = buildTombstoneRow(entityKey, userId, itemId, new Date().toISOString(), lastKnown);
+  const { error } = await supabase.from(config.tableName).upsert(row, { onConflict: "id" });
 
   if (error) {
     console.warn(`[sync] pushDelete ${entityKey} error:`, error.message);
@@ -162,6 +343,144 @@ export async function pushDelete(
   return { error: null };
 }
 
+/**
+ * Sube varias entradas del outbox de una misma entidad (upserts y tombstones)
+ * en upserts de hasta PUSH_CHUNK_SIZE rows. Si un chunk falla se reintenta row
+ * a row para que un registro malo no bloquee al resto.
+ * Devuelve un resultado por entrada.
+ */
+export async function pushBatch(
+  entityKey: EntityKey,
+  userId: string,
+  entries: OutboxEntry[]
+): Promise<Array<PushResult & { entry: OutboxEntry }>> {
+  const config = ENTITY_CONFIGS[entityKey];
+  if (!config) return entries.map((entry) => ({ entry, error: `Unknown entity: ${entityKey}` }));
+
+  const now = new Date().toISOString();
+  const results: Array<PushResult & { entry: OutboxEntry }> = [];
+  const ready: Array<{ entry: OutboxEntry; row: PushRow }> = [];
+
+  for (const entry of entries) {
+    if (entry.op === "delete") {
+      // El payload de un delete es el último estado conocido del item
+      ready.push({ entry, row: buildTombstoneRow(entityKey, userId, entry.itemId, now, entry.payload) });
+      continue;
+    }
+    if (!entry.payload) {
+      results.push({ entry, error: `Outbox entry without payload: ${entry.key}` });
+      continue;
+    }
+    const built = buildItemRow(entityKey, userId, entry.payload, now);
+    if ("row" in built) {
+      ready.push({ entry, row: built.row });
+    } else {
+      results.push({ entry, ...built });
+    }
+  }
+
+  for (let i = 0; i < ready.length; i += PUSH_CHUNK_SIZE) {
+    const chunk = ready.slice(i, i + PUSH_CHUNK_SIZE);
+    const { error } = await supabase.from(config.tableName).upsert(
+      chunk.map((c) => c.row),
+      { onConflict: "id" }
+    );
+
+    if (!error) {
+      for (const { entry } of chunk) results.push({ entry, error: null });
+      continue;
+    }
+
+    console.warn(`[sync] pushBatch ${entityKey} error (${chunk.length} rows):`, error.message);
+
+    // Sin red o un solo row: el reintento individual fallaría igual
+    const offline = typeof navigator !== "undefined" && !navigator.onLine;
+    if (chunk.length === 1 || offline) {
+      for (const { entry } of chunk) results.push({ entry, error: error.message });
+      continue;
+    }
+
+    for (const { entry, row } of chunk) {
+      const { error: rowError } = await supabase.from(config.tableName).upsert(row, { onConflict: "id" });
+      if (rowError) console.warn(`[sync] push ${entityKey} ${entry.itemId} error:`, rowError.message);
+      results.push({ entry, error: rowError?.message ?? null });
+    }
+  }
+
+  return results;
+}
+
+// ==================== OUTBOX FLUSH ====================
+
+/**
+ * Procesa las entradas vencidas del outbox, agrupadas por entidad (pushBatch).
+ * Éxito => se elimina; fallo => se reprograma con backoff.
+ * Solo salen sin subirse las que no cumplen el esquema (pasan a cuarentena).
+ */
+export async function flushOutbox(userId: string): Promise<{
+  pushed: number;
+  failed: number;
+  quarantined: number;
+  errors: string[];
+}> {
+  const due = await getDueOutboxEntries(userId);
+  const errors = new Set<string>();
+  let pushed = 0;
+  let failed = 0;
+  let quarantined = 0;
+
+  const byEntity = new Map<EntityKey, OutboxEntry[]>();
+  for (const entry of due) {
+    const list = byEntity.get(entry.entityKey) ?? [];
+    list.push(entry);
+    byEntity.set(entry.entityKey, list);
+  }
+
+  for (const [entityKey, entries] of byEntity) {
+    const results = await pushBatch(entityKey, userId, entries);
+    const rejected: QuarantinedRow[] = [];
+    const syncedBases: Array<{ entityKey: EntityKey; entity: SyncableEntity }> = [];
+    const removedBases: Array<{ entityKey: EntityKey; itemId: string }> = [];
+
+    for (const { entry, error, issues, payload } of results) {
+      if (issues) {
+        // Reintentar no lo arreglaría: se aparta para revisarlo en el panel de diagnóstico
+        quarantined++;
+        errors.add(`${entityKey}: ${error}`);
+        rejected.push({
+          id: getQuarantineId("push", entityKey, entry.itemId),
+          entityKey,
+          itemId: entry.itemId,
+          direction: "push",
+          data: payload ?? {},
+          issues,
+          detectedAt: new Date().toISOString(),
+        });
+        await removeOutboxEntry(entry.key, entry.revision);
+      } else if (error) {
+        failed++;
+        errors.add(`${entityKey}: ${error}`);
+        await markOutboxFailure(entry.key, entry.revision, error);
+      } else {
+        pushed++;
+        await removeOutboxEntry(entry.key, entry.revision);
+        // Lo subido pasa a ser la última versión sincronizada
+        if (entry.op === "delete") {
+          removedBases.push({ entityKey, itemId: entry.itemId });
+        } else if (entry.payload) {
+          syncedBases.push({ entityKey, entity: entry.payload });
+        }
+      }
+    }
+
+    await saveQuarantine(rejected);
+    await saveBases(syncedBases);
+    await deleteBases(removedBases);
+  }
+
+  return { pushed, failed, quarantined, errors: Array.from(errors) };
+}
+
 // ==================== MERGE LOGIC ====================
 
 /**
@@ -184,7 +503,8 @@ export function isRemoteNewer(
 
 /**
  * Convierte SupabaseRow a entidad local
- * Para tasks y metas, usa funciones de hidratación para restaurar defaults
+ * Para tasks, metas y finanzas, usa funciones de hidratación para restaurar defaults.
+ * Los formatos antiguos se convierten antes con las migraciones de cada entidad.
  */
 export function rowToEntity(row: SupabaseRow, entityKey?: EntityKey): SyncableEntity {
   const data = row.data || {};
@@ -208,23 +528,111 @@ export function rowToEntity(row: SupabaseRow, entityKey?: EntityKey): SyncableEn
       deleted: row.deleted_at !== null,
     } as SyncableEntity;
   }
+
+  // Finanzas: mismas reglas que la lectura directa de /finanzas
+  const hydrateFinance =
+    entityKey === "bankAccounts"
+      ? hydrateBankAccountFromDbWeb
+      : entityKey === "incomeForecastLines"
+      ? hydrateForecastSourceFromDbWeb
+      : entityKey === "financeMovements"
+      ? hydrateFinanceMovementFromDbWeb
+      : null;
+  if (hydrateFinance) {
+    const hydrated = hydrateFinance(row.id, data);
+    return {
+      ...hydrated,
+      updatedAt: row.client_updated_at || hydrated.updatedAt,
+      deleted: row.deleted_at !== null,
+    } as SyncableEntity;
+  }
   
+  const migrated = entityKey ? migrateData(entityKey, data) : data;
   return {
     id: row.id,
-    ...data,
-    updatedAt: row.client_updated_at || (data.updatedAt as string),
+    ...migrated,
+    updatedAt: row.client_updated_at || (migrated.updatedAt as string),
     deleted: row.deleted_at !== null,
   } as SyncableEntity;
 }
 
 /**
- * Aplica rows remotos a un array local y retorna el nuevo array
- * Respeta last-write-wins por client_updated_at
+ * Separa los rows que cumplen el esquema de su entidad de los que van a cuarentena.
+ * Se valida el data ya migrado; los tombstones no se validan: su data es el último
+ * estado conocido (solo para restaurar desde la papelera) o vacío si no lo había.
+ */
+export function partitionValidRows(
+  entityKey: EntityKey,
+  rows: SupabaseRow[]
+): { valid: SupabaseRow[]; quarantined: QuarantinedRow[] } {
+  const valid: SupabaseRow[] = [];
+  const quarantined: QuarantinedRow[] = [];
+  const now = new Date().toISOString();
+
+  for (const row of rows) {
+    if (row.deleted_at !== null) {
+      valid.push(row);
+      continue;
+    }
+    const data = row.data;
+    const isObject = typeof data === "object" && data !== null && !Array.isArray(data);
+    const issues = validateEntityData(entityKey, isObject ? migrateData(entityKey, data) : data);
+    if (issues.length === 0) {
+      valid.push(row);
+      continue;
+    }
+    console.warn(`[sync] ${entityKey} ${row.id} quarantined:`, formatSchemaIssues(issues));
+    quarantined.push({
+      id: getQuarantineId("pull", entityKey, row.id),
+      entityKey,
+      itemId: row.id,
+      direction: "pull",
+      data: row.data,
+      issues,
+      detectedAt: now,
+    });
+  }
+
+  return { valid, quarantined };
+}
+
+/**
+ * Estado de entrada/salida de un merge de rows remotos.
+ * Sin contexto, mergeRemoteRows se comporta como last-write-wins por registro.
+ */
+export interface MergeContext {
+  entityKey: EntityKey;
+  pendingIds: Set<string>;            // ids con operación pendiente en el outbox
+  bases: Map<string, SyncableEntity>; // última versión sincronizada (ver loadBases)
+  // Salidas
+  conflicts: SyncConflict[];
+  newBases: SyncableEntity[];         // rows aplicadas => pasan a ser la base
+  removedIds: string[];               // borrados remotos => descartar base
+  requeue: SyncableEntity[];          // resultados de merge que hay que volver a subir
+}
+
+export function createMergeContext(
+  entityKey: EntityKey,
+  pendingIds: Set<string>,
+  bases: Map<string, SyncableEntity>
+): MergeContext {
+  return { entityKey, pendingIds, bases, conflicts: [], newBases: [], removedIds: [], requeue: [] };
+}
+
+/**
+ * Aplica rows remotos a un array local y retorna el nuevo array.
+ *
+ * - Local sin cambios pendientes => last-write-wins por client_updated_at
+ * - Local con cambios pendientes y base conocida => merge a tres bandas por campo;
+ *   el resultado se re-encola (ctx.requeue) y los choques se registran en ctx.conflicts
+ * - Borrado remoto de un item con cambios pendientes => se mantiene el local y se
+ *   registra un conflicto sobre "deleted"
  */
 export function mergeRemoteRows<T extends SyncableEntity>(
   localItems: T[],
   remoteRows: SupabaseRow[],
-  entityKey?: EntityKey
+  entityKey?: EntityKey,
+  ctx?: MergeContext
 ): T[] {
   const localMap = new Map(localItems.map((item) => [item.id, item]));
   const resultMap = new Map(localMap);
@@ -232,17 +640,69 @@ export function mergeRemoteRows<T extends SyncableEntity>(
   for (const row of remoteRows) {
     const localItem = localMap.get(row.id);
 
+    // Borrado remoto con edición local pendiente: se conserva la versión local
+    // (la subida pendiente la restaura) y se registra el conflicto borrar/mantener
+    if (row.deleted_at !== null && ctx && localItem && ctx.pendingIds.has(row.id)) {
+      ctx.conflicts.push({
+        id: getBaseKey(ctx.entityKey, row.id),
+        entityKey: ctx.entityKey,
+        itemId: row.id,
+        fields: ["deleted"],
+        base: ctx.bases.get(getBaseKey(ctx.entityKey, row.id)) ?? null,
+        local: localItem,
+        remote: { ...localItem, deleted: true },
+        detectedAt: new Date().toISOString(),
+      });
+      continue;
+    }
+
     // Si está borrado remotamente, eliminar local
     if (row.deleted_at !== null) {
       resultMap.delete(row.id);
+      ctx?.removedIds.push(row.id);
+      continue;
+    }
+
+    const remoteItem = rowToEntity(row, entityKey) as T;
+    const isPending = !!localItem && !!ctx?.pendingIds.has(row.id);
+    const base = ctx ? ctx.bases.get(getBaseKey(ctx.entityKey, row.id)) : undefined;
+
+    // Edición local pendiente: merge a tres bandas y la entrada del outbox se rehace
+    // con el resultado. Sin base (p.ej. caché de bases borrada) no se sabe qué cambió
+    // cada lado: todo campo en que difieran cuenta como conflicto
+    if (ctx && localItem && isPending) {
+      const mergeBase = base ?? ({ id: row.id } as SyncableEntity);
+      const { merged, conflicts } = threeWayMerge(mergeBase, localItem, remoteItem, {
+        setFields: SET_MERGE_FIELDS[ctx.entityKey],
+        preferRemoteOnConflict: isRemoteNewer(row, localItem),
+      });
+      const result = { ...merged, updatedAt: new Date().toISOString() } as T;
+
+      resultMap.set(row.id, result);
+      ctx.newBases.push(remoteItem);
+      ctx.requeue.push(result);
+
+      if (conflicts.length > 0) {
+        ctx.conflicts.push({
+          id: getBaseKey(ctx.entityKey, row.id),
+          entityKey: ctx.entityKey,
+          itemId: row.id,
+          fields: conflicts,
+          base: base ?? null,
+          local: localItem,
+          remote: remoteItem,
+          detectedAt: new Date().toISOString(),
+        });
+      }
       continue;
     }
 
     // Si remoto es más nuevo o no existe local, usar remoto
     if (isRemoteNewer(row, localItem)) {
-      resultMap.set(row.id, rowToEntity(row, entityKey) as T);
+      resultMap.set(row.id, remoteItem);
+      ctx?.newBases.push(remoteItem);
     }
-    // Si local es más nuevo, mantener local (quedará dirty para push)
+    // Si local es más nuevo, mantener local (queda pendiente en el outbox)
   }
 
   return Array.from(resultMap.values());
@@ -0,0 +1,171 @@
+// ==================== SYNC TAB COORDINATOR ====================
+
+/**
+ * Coordinación entre pestañas del mismo usuario.
+ *
+ * - Una sola pestaña es líder del sync (Web Locks): solo ella hace pull, push,
+ *   realtime y escribe cursores/outbox, así no compiten por localStorage.
+ * - Las demás (seguidoras) reenvían sus mutaciones al líder y reciben por
+ *   BroadcastChannel los cambios ya mezclados y el estado del sync.
+ * - Al cerrarse el líder el navegador libera el lock y otra pestaña lo toma.
+ * - Sin Web Locks o sin BroadcastChannel cada pestaña es su propio líder
+ *   (comportamiento anterior).
+ */
+
+import type { OutboxOp } from "./outbox";
+import type { RealtimeStatus } from "./realtime";
+import type { EntityKey, SyncableEntity } from "./types";
+
+export type TabRole = "leader" | "follower";
+
+/**
+ * Mutación local de una seguidora pendiente de que el líder la encole.
+ */
+export interface TabMutation {
+  id: string;
+  entityKey: EntityKey;
+  op: OutboxOp;
+  itemId: string;
+  payload: SyncableEntity | null;
+}
+
+/**
+ * Cambios de una entidad ya aplicados en el store del líder.
+ */
+export interface EntityChanges {
+  entityKey: EntityKey;
+  changed: SyncableEntity[];
+  removedIds: string[];
+}
+
+export interface TabSyncStatus {
+  isSyncing: boolean;
+  pendingCount: number;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  realtimeStatus: RealtimeStatus;
+}
+
+export type TabMessage =
+  // Líder → todas
+  | { type: "leader"; tabId: string }
+  | { type: "changes"; changes: EntityChanges[]; origin?: { tabId: string; mutationId: string } }
+  | { type: "snapshot"; targetTabId: string; entities: Partial<Record<EntityKey, SyncableEntity[]>> }
+  | { type: "status"; status: TabSyncStatus }
+  // Seguidora → líder
+  | { type: "hello"; tabId: string }
+  | { type: "mutation"; tabId: string; mutation: TabMutation }
+  | { type: "syncRequest" }
+  // Cualquiera → todas
+  | { type: "conflicts" }
+  | { type: "quarantine" };
+
+export interface TabCoordinatorOptions {
+  userId: string;
+  onMessage: (message: TabMessage) => void;
+  onRoleChange: (role: TabRole) => void;
+}
+
+export interface TabCoordinator {
+  tabId: string;
+  isLeader: () => boolean;
+  post: (message: TabMessage) => void;
+  stop: () => void;
+}
+
+const CHANNEL_PREFIX = "sync-tabs:";
+const LOCK_PREFIX = "sync-leader:";
+
+function createTabId(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) return crypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function isTabCoordinationAvailable(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof BroadcastChannel !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    !!navigator.locks
+  );
+}
+
+// ==================== API ====================
+
+/**
+ * Entra en la elección de líder del usuario y abre el canal entre pestañas.
+ * La pestaña empieza como seguidora hasta obtener el lock.
+ */
+export function startTabCoordinator(options: TabCoordinatorOptions): TabCoordinator {
+  const { userId, onMessage, onRoleChange } = options;
+  const tabId = createTabId();
+
+  let role: TabRole = "follower";
+  let stopped = false;
+
+  const setRole = (next: TabRole) => {
+    if (role === next) return;
+    role = next;
+    onRoleChange(next);
+  };
+
+  // Sin coordinación posible: pestaña aislada, siempre líder
+  if (!isTabCoordinationAvailable()) {
+    role = "leader";
+    onRoleChange("leader");
+    return {
+      tabId,
+      isLeader: () => true,
+      post: () => {},
+      stop: () => {
+        stopped = true;
+      },
+    };
+  }
+
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${userId}`);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    if (!stopped) onMessage(event.data);
+  };
+
+  const post = (message: TabMessage) => {
+    if (stopped) return;
+    try {
+      channel.postMessage(message);
+    } catch (err) {
+      console.warn("[sync] tab channel post error:", err);
+    }
+  };
+
+  // El lock se mantiene mientras la pestaña viva: al cerrarla lo obtiene la siguiente en cola
+  const abort = new AbortController();
+  let releaseLock: (() => void) | null = null;
+
+  onRoleChange("follower");
+
+  navigator.locks
+    .request(`${LOCK_PREFIX}${userId}`, { signal: abort.signal }, () => {
+      if (stopped) return;
+      setRole("leader");
+      post({ type: "leader", tabId });
+      return new Promise<void>((resolve) => {
+        releaseLock = resolve;
+      });
+    })
+    .catch((err) => {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      console.warn("[sync] leader lock error:", err);
+    });
+
+  return {
+    tabId,
+    isLeader: () => role === "leader",
+    post,
+    stop: () => {
+      stopped = true;
+      abort.abort();
+      releaseLock?.();
+      channel.close();
+    },
+  };
+}
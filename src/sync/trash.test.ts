@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { collectRestoreSet } from "./trash";
+import type { TrashEntityKey, TrashItem } from "./trash";
+import type { SyncableEntity } from "./types";
+
+function trashed(entityKey: TrashEntityKey, id: string, relations: { metaId?: string; parentId?: string | null } = {}): TrashItem {
+  return {
+    entityKey,
+    id,
+    deletedAt: "2025-03-01T00:00:00Z",
+    entity: { id, deleted: false, ...relations } as unknown as SyncableEntity,
+  };
+}
+
+const keys = (items: TrashItem[]) => items.map((x) => `${x.entityKey}:${x.id}`).sort();
+
+describe("collectRestoreSet", () => {
+  // Meta m1 borrada con un árbol t1 > t2 > t3; t4 es de otra meta; la tarea t5 tiene el mismo id que una previsión
+  const metaM1 = trashed("metas", "m1");
+  const t1 = trashed("tasks", "t1", { metaId: "m1", parentId: null });
+  const t2 = trashed("tasks", "t2", { metaId: "m1", parentId: "t1" });
+  const t3 = trashed("tasks", "t3", { metaId: "m1", parentId: "t2" });
+  const t4 = trashed("tasks", "t4", { metaId: "m2", parentId: null });
+  const trash = [metaM1, t1, t2, t3, t4, trashed("metas", "m2"), trashed("incomeForecastLines", "t2", { parentId: null })];
+
+  it("meta: arrastra sus tareas y no las de otras metas", () => {
+    expect(keys(collectRestoreSet(metaM1, trash))).toEqual(["metas:m1", "tasks:t1", "tasks:t2", "tasks:t3"]);
+  });
+
+  it("tarea: sube por la cadena de padres borrados y restaura su meta", () => {
+    expect(keys(collectRestoreSet(t3, trash))).toEqual(["metas:m1", "tasks:t1", "tasks:t2", "tasks:t3"]);
+  });
+
+  it("tarea intermedia: padres y descendientes, sin tocar otras entidades con el mismo id", () => {
+    const result = collectRestoreSet(t2, trash);
+    expect(keys(result)).toEqual(["metas:m1", "tasks:t1", "tasks:t2", "tasks:t3"]);
+    expect(result[0]).toBe(t2);
+  });
+
+  it("la cadena se corta en el primer padre que no está en la papelera", () => {
+    // t1 sigue viva: solo t3 vuelve con t2
+    const partial = [t2, t3];
+    expect(keys(collectRestoreSet(t3, partial))).toEqual(["tasks:t2", "tasks:t3"]);
+  });
+
+  it("ciclo de padres: termina", () => {
+    const a = trashed("tasks", "a", { parentId: "b" });
+    const b = trashed("tasks", "b", { parentId: "a" });
+    expect(keys(collectRestoreSet(a, [a, b]))).toEqual(["tasks:a", "tasks:b"]);
+  });
+
+  it("previsiones: línea padre e hijas", () => {
+    const parent = trashed("incomeForecastLines", "p");
+    const child = trashed("incomeForecastLines", "c", { parentId: "p" });
+    const grandchild = trashed("incomeForecastLines", "g", { parentId: "c" });
+    const other = trashed("incomeForecastLines", "o");
+    const lines = [parent, child, grandchild, other];
+
+    expect(keys(collectRestoreSet(child, lines))).toEqual([
+      "incomeForecastLines:c",
+      "incomeForecastLines:g",
+      "incomeForecastLines:p",
+    ]);
+  });
+
+  it("cuenta bancaria: solo ella", () => {
+    const account = trashed("bankAccounts", "t1");
+    expect(collectRestoreSet(account, [...trash, account])).toEqual([account]);
+  });
+});
@@ -0,0 +1,149 @@
+// ==================== SYNC TRASH ====================
+
+/**
+ * Papelera: items borrados (soft-delete) de los últimos días.
+ *
+ * - Los tombstones conservan el último estado conocido del item en `data`
+ *   (syncEngine.buildTombstoneRow), así que se pueden listar y restaurar.
+ * - Restaurar = volver a subir el item con deleted: false (SyncContext).
+ * - Vaciar la papelera borra el payload de los tombstones (data = {}): el row
+ *   sigue existiendo para que los demás clientes vean el borrado.
+ */
+
+import { supabase } from "@/src/lib/supabaseClient";
+import { rowToEntity } from "./syncEngine";
+import { ENTITY_CONFIGS, type SupabaseRow, type SyncableEntity } from "./types";
+
+export const TRASH_ENTITY_KEYS = ["tasks", "metas", "bankAccounts", "incomeForecastLines"] as const;
+
+export type TrashEntityKey = (typeof TRASH_ENTITY_KEYS)[number];
+
+// Días que se muestran en la papelera
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+  entityKey: TrashEntityKey;
+  id: string;
+  deletedAt: string;
+  entity: SyncableEntity;
+}
+
+type Relations = { metaId?: string; parentId?: string | null };
+
+function hasPayload(data: Record<string, unknown> | null): boolean {
+  return !!data && Object.keys(data).length > 0;
+}
+
+// ==================== API ====================
+
+/**
+ * Items borrados en los últimos `days` días (más recientes primero).
+ * Los tombstones sin payload (anteriores a la papelera o ya vaciados) no se listan.
+ */
+export async function fetchTrash(
+  userId: string,
+  days: number = TRASH_RETENTION_DAYS
+): Promise<{ data: TrashItem[]; error: string | null }> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const items: TrashItem[] = [];
+
+  for (const entityKey of TRASH_ENTITY_KEYS) {
+    const { data, error } = await supabase
+      .from(ENTITY_CONFIGS[entityKey].tableName)
+      .select("id, user_id, data, client_updated_at, server_updated_at, deleted_at")
+      .eq("user_id", userId)
+      .not("deleted_at", "is", null)
+      .gte("deleted_at", since)
+      .order("deleted_at", { ascending: false });
+
+    if (error) {
+      console.warn(`[sync] trash ${entityKey} error:`, error.message);
+      return { data: [], error: error.message };
+    }
+
+    for (const row of (data || []) as SupabaseRow[]) {
+      if (!row.deleted_at || !hasPayload(row.data)) continue;
+      items.push({
+        entityKey,
+        id: row.id,
+        deletedAt: row.deleted_at,
+        entity: { ...rowToEntity(row, entityKey), id: row.id, deleted: false },
+      });
+    }
+  }
+
+  items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  return { data: items, error: null };
+}
+
+/**
+ * Borra definitivamente el payload de los items indicados.
+ */
+export async function emptyTrash(userId: string, items: TrashItem[]): Promise<{ error: string | null }> {
+  for (const entityKey of TRASH_ENTITY_KEYS) {
+    const ids = items.filter((item) => item.entityKey === entityKey).map((item) => item.id);
+    if (ids.length === 0) continue;
+
+    const { error } = await supabase
+      .from(ENTITY_CONFIGS[entityKey].tableName)
+      .update({ data: {} })
+      .eq("user_id", userId)
+      .in("id", ids)
+      .not("deleted_at", "is", null);
+
+    if (error) {
+      console.warn(`[sync] empty trash ${entityKey} error:`, error.message);
+      return { error: error.message };
+    }
+  }
+  return { error: null };
+}
+
+/**
+ * Items a restaurar junto con `item` para no dejar huérfanos:
+ * - meta: sus tareas en la papelera
+ * - tarea: sus ancestros y descendientes en la papelera, y su meta si está borrada
+ * - previsión: su línea padre y sus hijas en la papelera
+ */
+export function collectRestoreSet(item: TrashItem, trash: TrashItem[]): TrashItem[] {
+  const byKey = (key: TrashEntityKey) => trash.filter((x) => x.entityKey === key);
+  const relations = (x: TrashItem) => x.entity as unknown as Relations;
+  const result = new Map<string, TrashItem>([[`${item.entityKey}:${item.id}`, item]]);
+  const add = (x: TrashItem) => result.set(`${x.entityKey}:${x.id}`, x);
+
+  const addTree = (candidates: TrashItem[]) => {
+    // Ancestros
+    let parentId = relations(item).parentId;
+    while (parentId) {
+      const parent = candidates.find((x) => x.id === parentId);
+      if (!parent || result.has(`${parent.entityKey}:${parent.id}`)) break;
+      add(parent);
+      parentId = relations(parent).parentId;
+    }
+    // Descendientes
+    const queue = [item.id];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const child of candidates) {
+        if (relations(child).parentId === id && !result.has(`${child.entityKey}:${child.id}`)) {
+          add(child);
+          queue.push(child.id);
+        }
+      }
+    }
+  };
+
+  if (item.entityKey === "metas") {
+    for (const task of byKey("tasks")) {
+      if (relations(task).metaId === item.id) add(task);
+    }
+  } else if (item.entityKey === "tasks") {
+    addTree(byKey("tasks"));
+    const meta = byKey("metas").find((x) => x.id === relations(item).metaId);
+    if (meta) add(meta);
+  } else if (item.entityKey === "incomeForecastLines") {
+    addTree(byKey("incomeForecastLines"));
+  }
+
+  return Array.from(result.values());
+}
@@ -19,6 +19,7 @@ export interface SupabaseRow {
 export interface EntityConfig {
   tableName: string;
   localKey: string;
+  cursorKey: string; // clave localStorage del cursor incremental de pull
   getId: (item: SyncableEntity) => string;
   getUpdatedAt: (item: SyncableEntity) => string;
 }
@@ -30,40 +31,110 @@ export interface SyncState {
   dirtyIds: Record<string, Set<string>>; // entityKey -> Set<id>
 }
 
+/**
+ * Cursor de pull incremental por entidad.
+ * Posición (server_updated_at, id) de la última row aplicada: el siguiente pull
+ * pide solo rows estrictamente posteriores en ese orden.
+ */
+export interface SyncCursor {
+  serverUpdatedAt: string;
+  id: string;
+}
+
+/**
+ * Conflicto detectado en el merge a tres bandas: ambos lados cambiaron
+ * los mismos campos respecto a la última versión sincronizada (base).
+ * fields usa rutas con punto, p.ej. "title" o "extra.quantity".
+ */
+export interface SyncConflict {
+  id: string;             // "entityKey:itemId"
+  entityKey: EntityKey;
+  itemId: string;
+  fields: string[];
+  base: SyncableEntity | null;
+  local: SyncableEntity;
+  remote: SyncableEntity;
+  detectedAt: string;
+}
+
+/**
+ * Problema de validación de un payload contra su esquema (schema.ts).
+ */
+export interface SchemaIssue {
+  path: string;           // ruta con punto, "" = el data completo
+  message: string;
+}
+
+/**
+ * Row rechazado por el esquema: no se mezcla (pull) ni se sube (push).
+ * Se guarda para el panel de diagnóstico.
+ */
+export interface QuarantinedRow {
+  id: string;             // "direction:entityKey:itemId"
+  entityKey: EntityKey;
+  itemId: string;
+  direction: "pull" | "push";
+  data: Record<string, unknown>;
+  issues: SchemaIssue[];
+  detectedAt: string;
+}
+
 export const ENTITY_CONFIGS: Record<string, EntityConfig> = {
   metas: {
     tableName: "metas",
     localKey: "metas",
+    cursorKey: "sync_cursor_metas",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
   tasks: {
     tableName: "tasks",
     localKey: "tasks",
+    cursorKey: "sync_cursor_tasks",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
   bankAccounts: {
     tableName: "bank_accounts",
     localKey: "bankAccounts",
+    cursorKey: "sync_cursor_bankAccounts",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
   financeMovements: {
     tableName: "finance_movements",
     localKey: "financeMovements",
+    cursorKey: "sync_cursor_financeMovements",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
   incomeForecastLines: {
     tableName: "income_forecast_lines",
     localKey: "incomeForecastLines",
+    cursorKey: "sync_cursor_incomeForecastLines",
+    getId: (item) => item.id,
+    getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
+  },
+  // Biblioteca de plantillas de tareas y blueprints de metas (tabla en supabase/migrations)
+  taskTemplates: {
+    tableName: "task_templates",
+    localKey: "taskTemplates",
+    cursorKey: "sync_cursor_taskTemplates",
+    getId: (item) => item.id,
+    getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
+  },
+  // Ajustes de UI por usuario (id = user_id; tabla en supabase/migrations)
+  uiSettings: {
+    tableName: "user_settings",
+    localKey: "uiSettings",
+    cursorKey: "sync_cursor_uiSettings",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
   nutritionQuickItems: {
     tableName: "nutrition_quick_items",
     localKey: "nutritionQuickItems",
+    cursorKey: "sync_cursor_nutritionQuickItems",
     getId: (item) => item.id,
     getUpdatedAt: (item) => item.updatedAt || new Date().toISOString(),
   },
@@ -0,0 +1,52 @@
+-- Ajustes de UI por usuario (entidad de sync "uiSettings", ver src/sync/types.ts).
+-- Mismo formato que el resto de tablas de sync; un único row por usuario con id = user_id.
+
+create or replace function public.sync_set_server_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.server_updated_at := now();
+  return new;
+end;
+$$;
+
+create table if not exists public.user_settings (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  data jsonb not null default '{}'::jsonb,
+  client_updated_at timestamptz not null default now(),
+  server_updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  constraint user_settings_one_per_user check (id = user_id)
+);
+
+-- Pull incremental: keyset por (server_updated_at, id) filtrado por usuario
+create index if not exists user_settings_user_cursor_idx
+  on public.user_settings (user_id, server_updated_at, id);
+
+drop trigger if exists user_settings_set_server_updated_at on public.user_settings;
+create trigger user_settings_set_server_updated_at
+  before insert or update on public.user_settings
+  for each row execute function public.sync_set_server_updated_at();
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "user_settings_select_own" on public.user_settings;
+create policy "user_settings_select_own" on public.user_settings
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "user_settings_insert_own" on public.user_settings;
+create policy "user_settings_insert_own" on public.user_settings
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "user_settings_update_own" on public.user_settings;
+create policy "user_settings_update_own" on public.user_settings
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "user_settings_delete_own" on public.user_settings;
+create policy "user_settings_delete_own" on public.user_settings
+  for delete using (auth.uid() = user_id);
+
+-- Realtime (src/sync/realtime.ts)
+alter publication supabase_realtime add table public.user_settings;
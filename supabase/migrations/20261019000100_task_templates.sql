@@ -0,0 +1,42 @@
+-- Biblioteca de plantillas de tareas y blueprints de metas (entidad de sync
+-- "taskTemplates", ver src/sync/types.ts). Usa sync_set_server_updated_at()
+-- de la migración de user_settings.
+
+create table if not exists public.task_templates (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  data jsonb not null default '{}'::jsonb,
+  client_updated_at timestamptz not null default now(),
+  server_updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+-- Pull incremental: keyset por (server_updated_at, id) filtrado por usuario
+create index if not exists task_templates_user_cursor_idx
+  on public.task_templates (user_id, server_updated_at, id);
+
+drop trigger if exists task_templates_set_server_updated_at on public.task_templates;
+create trigger task_templates_set_server_updated_at
+  before insert or update on public.task_templates
+  for each row execute function public.sync_set_server_updated_at();
+
+alter table public.task_templates enable row level security;
+
+drop policy if exists "task_templates_select_own" on public.task_templates;
+create policy "task_templates_select_own" on public.task_templates
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "task_templates_insert_own" on public.task_templates;
+create policy "task_templates_insert_own" on public.task_templates
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "task_templates_update_own" on public.task_templates;
+create policy "task_templates_update_own" on public.task_templates
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "task_templates_delete_own" on public.task_templates;
+create policy "task_templates_delete_own" on public.task_templates
+  for delete using (auth.uid() = user_id);
+
+-- Realtime (src/sync/realtime.ts)
+alter publication supabase_realtime add table public.task_templates;